@@ -0,0 +1,420 @@
+import crypto from "crypto";
+import express, { type RequestHandler } from "express";
+import { z } from "zod";
+import type { ChatEnvelope, LiveSocket } from "@ac/protocol";
+import { toCsv, type AuditLog } from "./audit.js";
+import type { MemberRegistry } from "./identity.js";
+import { requestLog } from "./log.js";
+import type { OpsMonitor } from "./ops.js";
+import { RoomAclSchema } from "./policy.js";
+import type { RoomCatalog, RoomResult } from "./rooms.js";
+import type { MessageStore } from "./store.js";
+
+const EnrollSchema = z.object({
+  label: z.string().trim().min(1).max(64).optional(),
+  memberId: z.string().min(1).optional(),
+  ttlMinutes: z.number().int().positive().max(7 * 24 * 60).optional()
+});
+
+const DEFAULT_ENROLL_TTL_MINUTES = 24 * 60;
+
+const AuditQuerySchema = z.object({
+  since: z.coerce.number().int().nonnegative().optional(),
+  until: z.coerce.number().int().nonnegative().optional(),
+  action: z.string().max(64).optional(),
+  actor: z.string().max(128).optional(),
+  room: z.string().max(64).optional(),
+  limit: z.coerce.number().int().positive().max(100_000).optional(),
+  format: z.enum(["json", "jsonl", "csv"]).default("json")
+});
+
+const DenialsQuerySchema = z.object({
+  limit: z.coerce.number().int().positive().max(1000).optional()
+});
+
+const RoomCreateSchema = z.object({
+  id: z.string().trim().toLowerCase().min(1).max(64),
+  label: z.string().trim().min(1).max(64).optional(),
+  purpose: z.string().trim().max(280).optional(),
+  defaultAccess: RoomAclSchema.optional()
+});
+
+const RoomPatchSchema = z.object({
+  label: z.string().trim().min(1).max(64).optional(),
+  purpose: z.string().trim().max(280).nullable().optional(),
+  defaultAccess: RoomAclSchema.nullable().optional()
+});
+
+const ROOM_STATUS: Record<Extract<RoomResult, { ok: false }>["reason"], number> = {
+  invalid_room: 400,
+  unknown_room: 404,
+  room_exists: 409
+};
+
+// a catalog write that fails answers 500 (like chat's store_error) instead of leaving the request hanging
+async function roomWrite(
+  res: express.Response,
+  room: string,
+  write: () => Promise<RoomResult>
+): Promise<RoomResult | undefined> {
+  try {
+    return await write();
+  } catch (err) {
+    requestLog(res).error("store-error", { room, err: String(err) });
+    res.status(500).json({ ok: false, reason: "store_error" });
+    return undefined;
+  }
+}
+
+/**
+ * An async route whose store or audit call may reject: Express 4 leaves a rejected handler
+ * unhandled (and Node then exits), so the failure answers 500 store_error instead.
+ */
+export function storeRoute(
+  handler: (req: express.Request, res: express.Response) => Promise<void>
+): RequestHandler {
+  return (req, res) => {
+    handler(req, res).catch((err) => {
+      requestLog(res).error("store-error", { path: req.path, err: String(err) });
+      if (!res.headersSent) res.status(500).json({ ok: false, reason: "store_error" });
+    });
+  };
+}
+
+/**
+ * Bearer-token guard for admin routes. With no ADMIN_TOKEN configured,
+ * admin routes are disabled entirely.
+ */
+export function requireAdmin(adminToken: string, audit?: AuditLog): RequestHandler {
+  const expected = Buffer.from(adminToken);
+
+  return (req, res, next) => {
+    if (!adminToken) {
+      res.status(404).json({ ok: false, reason: "admin_disabled" });
+      return;
+    }
+
+    const header = req.headers.authorization ?? "";
+    const given = Buffer.from(header.startsWith("Bearer ") ? header.slice(7) : "");
+
+    if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) {
+      requestLog(res).warn("admin-deny", { path: req.path, ip: req.ip });
+      audit?.record({
+        action: "admin_deny",
+        actor: "anonymous",
+        reason: "unauthorized",
+        detail: { path: req.path, ip: req.ip }
+      });
+      res.status(401).json({ ok: false, reason: "unauthorized" });
+      return;
+    }
+
+    next();
+  };
+}
+
+export type AdminDeps = {
+  adminToken: string;
+  registry: MemberRegistry;
+  audit: AuditLog;
+  rooms: RoomCatalog;
+  ops: OpsMonitor;
+  store: MessageStore;
+  /** Runs after a revoke: kick memberId's live sockets, re-key their rooms; returns sockets kicked. */
+  onRevoked: (memberId: string) => Promise<number>;
+  /** Runs after a credential revoke: kick sockets using it, re-key its rooms; returns sockets kicked. */
+  onCredentialRevoked: (credentialId: string) => Promise<number>;
+  /** Connected sockets across the cluster. */
+  listSockets: () => Promise<LiveSocket[]>;
+  /** Disconnect one socket; false if it is not connected. */
+  kickSocket: (socketId: string) => Promise<boolean>;
+};
+
+export function createAdminRouter(deps: AdminDeps): express.Router {
+  const { registry, audit, rooms, ops, store } = deps;
+  const router = express.Router();
+
+  router.use(requireAdmin(deps.adminToken, audit));
+
+  router.get("/members", (_req, res) => {
+    res.json({ ok: true, members: registry.list() });
+  });
+
+  router.post(
+    "/enroll",
+    storeRoute(async (req, res) => {
+      const parsed = EnrollSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        res.status(400).json({ ok: false, reason: parsed.error.issues[0]?.message ?? "invalid_request" });
+        return;
+      }
+
+      const { memberId, ttlMinutes = DEFAULT_ENROLL_TTL_MINUTES } = parsed.data;
+      let label = parsed.data.label;
+
+      if (memberId) {
+        const member = registry.get(memberId);
+        if (!member) {
+          res.status(404).json({ ok: false, reason: "unknown_member" });
+          return;
+        }
+        if (member.revokedAt) {
+          res.status(409).json({ ok: false, reason: "revoked" });
+          return;
+        }
+        label = member.label;
+      }
+
+      if (!label) {
+        res.status(400).json({ ok: false, reason: "label_required" });
+        return;
+      }
+
+      const issued = await registry.issueEnrollment(label, ttlMinutes * 60_000, memberId);
+      requestLog(res).info("enroll-issue", { memberId: issued.memberId, label });
+      audit.record({
+        action: "admin_enroll",
+        actor: "admin",
+        detail: { memberId: issued.memberId, label, expiresAt: issued.expiresAt }
+      });
+      res.json({ ok: true, label, ...issued });
+    })
+  );
+
+  router.post(
+    "/members/:memberId/revoke",
+    storeRoute(async (req, res) => {
+      const { memberId } = req.params;
+
+      if (!(await registry.revoke(memberId))) {
+        res.status(404).json({ ok: false, reason: "unknown_member" });
+        return;
+      }
+
+      const kicked = await deps.onRevoked(memberId);
+      requestLog(res).info("revoke", { memberId, kicked });
+      audit.record({ action: "admin_revoke", actor: "admin", detail: { memberId, kicked } });
+      res.json({ ok: true, memberId, kicked });
+    })
+  );
+
+  router.post(
+    "/credentials/:credentialId/revoke",
+    storeRoute(async (req, res) => {
+      const { credentialId } = req.params;
+
+      const memberId = await registry.revokeCredential(credentialId);
+      if (!memberId) {
+        res.status(404).json({ ok: false, reason: "unknown_credential" });
+        return;
+      }
+
+      const kicked = await deps.onCredentialRevoked(credentialId);
+      requestLog(res).info("revoke-credential", { memberId, credentialId, kicked });
+      audit.record({
+        action: "admin_revoke_credential",
+        actor: "admin",
+        detail: { memberId, credentialId, kicked }
+      });
+      res.json({ ok: true, memberId, credentialId, kicked });
+    })
+  );
+
+  router.get(
+    "/sockets",
+    storeRoute(async (_req, res) => {
+      res.json({ ok: true, sockets: await deps.listSockets() });
+    })
+  );
+
+  router.post(
+    "/sockets/:socketId/kick",
+    storeRoute(async (req, res) => {
+      const { socketId } = req.params;
+
+      if (!(await deps.kickSocket(socketId))) {
+        res.status(404).json({ ok: false, reason: "unknown_socket" });
+        return;
+      }
+
+      requestLog(res).info("kick", { socketId });
+      audit.record({ action: "admin_kick", actor: "admin", detail: { socketId } });
+      res.json({ ok: true, socketId });
+    })
+  );
+
+  router.get("/rates", (_req, res) => {
+    res.json({ ok: true, rates: ops.rates(Date.now()) });
+  });
+
+  // ?limit (newest N)
+  router.get("/denials", (req, res) => {
+    const parsed = DenialsQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({ ok: false, reason: parsed.error.issues[0]?.message ?? "invalid_request" });
+      return;
+    }
+    res.json({ ok: true, denials: ops.denials(parsed.data.limit) });
+  });
+
+  // the latest revision of a stored message and every one it superseded (oldest first)
+  router.get("/messages/:room/:id/revisions", async (req, res) => {
+    const room = req.params.room.trim().toLowerCase();
+    const { id } = req.params;
+
+    let message: ChatEnvelope | undefined;
+    let revisions: ChatEnvelope[] = [];
+    try {
+      message = await store.get(room, id);
+      if (message) revisions = await store.revisions(room, id);
+    } catch (err) {
+      requestLog(res).error("store-error", { room, msgId: id, err: String(err) });
+      res.status(500).json({ ok: false, reason: "store_error" });
+      return;
+    }
+    if (!message) {
+      res.status(404).json({ ok: false, reason: "unknown_message" });
+      return;
+    }
+
+    audit.record({
+      action: "admin_revisions",
+      actor: "admin",
+      room,
+      detail: { msgId: id, count: revisions.length }
+    });
+    res.json({ ok: true, message, revisions });
+  });
+
+  // ?since&until (epoch ms), action, actor, room, limit (newest N), format=json|jsonl|csv
+  router.get(
+    "/audit",
+    storeRoute(async (req, res) => {
+      const parsed = AuditQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        res.status(400).json({ ok: false, reason: parsed.error.issues[0]?.message ?? "invalid_request" });
+        return;
+      }
+
+      const { format, ...query } = parsed.data;
+      const records = await audit.query(query);
+      audit.record({
+        action: "admin_audit_export",
+        actor: "admin",
+        detail: { format, count: records.length }
+      });
+
+      if (format === "json") {
+        res.json({ ok: true, records });
+        return;
+      }
+
+      const name = `audit-${Date.now()}.${format}`;
+      res.setHeader("Content-Disposition", `attachment; filename="${name}"`);
+      if (format === "csv") {
+        res.type("text/csv").send(toCsv(records));
+        return;
+      }
+      res.type("application/x-ndjson").send(records.map((r) => JSON.stringify(r) + "\n").join(""));
+    })
+  );
+
+  router.get("/rooms", (_req, res) => {
+    res.json({ ok: true, rooms: rooms.list() });
+  });
+
+  router.post("/rooms", async (req, res) => {
+    const parsed = RoomCreateSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res.status(400).json({ ok: false, reason: parsed.error.issues[0]?.message ?? "invalid_request" });
+      return;
+    }
+
+    const result = await roomWrite(res, parsed.data.id, () => rooms.create(parsed.data));
+    if (!result) return;
+    if (!result.ok) {
+      res.status(ROOM_STATUS[result.reason]).json(result);
+      return;
+    }
+
+    requestLog(res).info("room-create", { room: result.room.id, label: result.room.label });
+    audit.record({ action: "admin_room_create", actor: "admin", room: result.room.id });
+    res.json(result);
+  });
+
+  // rename (label), purpose, defaultAccess; null clears purpose/defaultAccess
+  router.patch("/rooms/:room", async (req, res) => {
+    const parsed = RoomPatchSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res.status(400).json({ ok: false, reason: parsed.error.issues[0]?.message ?? "invalid_request" });
+      return;
+    }
+
+    const room = req.params.room.toLowerCase();
+    const result = await roomWrite(res, room, () => rooms.update(room, parsed.data));
+    if (!result) return;
+    if (!result.ok) {
+      res.status(ROOM_STATUS[result.reason]).json(result);
+      return;
+    }
+
+    requestLog(res).info("room-update", { room: result.room.id, label: result.room.label });
+    audit.record({
+      action: "admin_room_update",
+      actor: "admin",
+      room: result.room.id,
+      detail: { fields: Object.keys(parsed.data).join(",") }
+    });
+    res.json(result);
+  });
+
+  for (const [verb, archived] of [
+    ["archive", true],
+    ["unarchive", false]
+  ] as const) {
+    router.post(`/rooms/:room/${verb}`, async (req, res) => {
+      const room = req.params.room.toLowerCase();
+      const result = await roomWrite(res, room, () => rooms.setArchived(room, archived));
+      if (!result) return;
+      if (!result.ok) {
+        res.status(ROOM_STATUS[result.reason]).json(result);
+        return;
+      }
+
+      requestLog(res).info(`room-${verb}`, { room: result.room.id });
+      audit.record({ action: `admin_room_${verb}`, actor: "admin", room: result.room.id });
+      res.json(result);
+    });
+  }
+
+  // frozen rooms stay readable; nobody below admin can publish until unfrozen
+  for (const [verb, frozen] of [
+    ["freeze", true],
+    ["unfreeze", false]
+  ] as const) {
+    router.post(`/rooms/:room/${verb}`, async (req, res) => {
+      const room = req.params.room.toLowerCase();
+      const result = await roomWrite(res, room, () => rooms.setFrozen(room, frozen));
+      if (!result) return;
+      if (!result.ok) {
+        res.status(ROOM_STATUS[result.reason]).json(result);
+        return;
+      }
+
+      requestLog(res).info(`room-${verb}`, { room: result.room.id });
+      audit.record({ action: `admin_room_${verb}`, actor: "admin", room: result.room.id });
+      res.json(result);
+    });
+  }
+
+  router.get(
+    "/audit/verify",
+    storeRoute(async (_req, res) => {
+      const result = await audit.verify();
+      requestLog(res).info("audit-verify", { ok: result.ok, records: result.count });
+      res.status(result.ok ? 200 : 409).json(result);
+    })
+  );
+
+  return router;
+}
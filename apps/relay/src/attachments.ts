@@ -0,0 +1,414 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import express, { type ErrorRequestHandler, type RequestHandler } from "express";
+import type { Redis } from "ioredis";
+import { z } from "zod";
+import type {
+  AttachmentInfo,
+  AttachmentRef,
+  AttachmentUploadAck,
+  MemberIdentity
+} from "@ac/protocol";
+import type { AuditLog } from "./audit.js";
+import type { MemberRegistry } from "./identity.js";
+import { createJsonDoc, jsonStoreShared, type JsonDoc } from "./jsonfile.js";
+import { log, requestLog } from "./log.js";
+import { sniffMime, stripMetadata } from "./metadata.js";
+import { redisPrefix, sharedRedis } from "./redis.js";
+
+type AttachmentsFile = {
+  attachments: AttachmentInfo[];
+};
+
+export type AttachmentUpload = {
+  room: string;
+  name: string;
+  mime: string;
+  hash: string; // sha256 hex of `data` as the client sent it
+  data: Buffer;
+  uploadedBy: string;
+};
+
+export type PutResult =
+  | { ok: true; info: AttachmentInfo }
+  | { ok: false; reason: "type_not_allowed" | "type_mismatch" | "hash_mismatch" | "invalid_image" };
+
+function sha256(data: Buffer): string {
+  return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+/** Where uploaded files are kept, one per attachment id. */
+export interface BlobStore {
+  /** For logs: the directory or Redis key prefix. */
+  readonly where: string;
+  init(): Promise<void>;
+  write(id: string, data: Buffer): Promise<void>;
+  /** Rejects when there is no file for `id`. */
+  read(id: string): Promise<Buffer>;
+  remove(id: string): Promise<void>;
+}
+
+/** Files in a directory of this relay node. */
+export class FileBlobStore implements BlobStore {
+  constructor(readonly where: string) {}
+
+  async init(): Promise<void> {
+    await fs.promises.mkdir(this.where, { recursive: true });
+  }
+
+  write(id: string, data: Buffer): Promise<void> {
+    return fs.promises.writeFile(path.join(this.where, id), data);
+  }
+
+  read(id: string): Promise<Buffer> {
+    return fs.promises.readFile(path.join(this.where, id));
+  }
+
+  remove(id: string): Promise<void> {
+    return fs.promises.rm(path.join(this.where, id), { force: true });
+  }
+}
+
+/** Files as Redis keys, readable by every relay node that shares the attachment index. */
+export class RedisBlobStore implements BlobStore {
+  constructor(
+    private readonly redis: Redis,
+    readonly where: string // key prefix, e.g. "nw:attachment:"
+  ) {}
+
+  async init(): Promise<void> {
+    await this.redis.ping();
+  }
+
+  async write(id: string, data: Buffer): Promise<void> {
+    await this.redis.set(this.where + id, data);
+  }
+
+  async read(id: string): Promise<Buffer> {
+    const data = await this.redis.getBuffer(this.where + id);
+    if (!data) throw new Error(`no file for attachment ${id}`);
+    return data;
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.redis.del(this.where + id);
+  }
+}
+
+/**
+ * Uploaded files (one blob per id) with a JSON index. Files are checked
+ * against a MIME allowlist by content, stripped of metadata unless disabled, and
+ * removed after ttlMs whether or not a message still references them.
+ */
+export class AttachmentStore {
+  private readonly attachments = new Map<string, AttachmentInfo>();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly blobs: BlobStore,
+    private readonly index: JsonDoc<Partial<AttachmentsFile>>,
+    readonly maxBytes: number,
+    readonly types: Set<string>,
+    readonly strip: boolean,
+    readonly ttlMs: number
+  ) {}
+
+  async init(): Promise<void> {
+    await this.blobs.init();
+    const data = await this.index.read();
+    if (data) this.load(data);
+    this.index.onRemoteChange((changed) => this.load(changed));
+    log.info("attachments-loaded", {
+      attachments: this.attachments.size,
+      blobs: this.blobs.where,
+      strip: this.strip
+    });
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.tick();
+    this.timer = setInterval(() => this.tick(), Math.min(this.ttlMs, 3_600_000));
+    this.timer.unref();
+  }
+
+  get(id: string): AttachmentInfo | undefined {
+    return this.attachments.get(id);
+  }
+
+  read(info: AttachmentInfo): Promise<Buffer> {
+    return this.blobs.read(info.id);
+  }
+
+  async put(upload: AttachmentUpload): Promise<PutResult> {
+    if (!this.types.has(upload.mime)) return { ok: false, reason: "type_not_allowed" };
+    if (sniffMime(upload.data) !== upload.mime) return { ok: false, reason: "type_mismatch" };
+    if (sha256(upload.data) !== upload.hash) return { ok: false, reason: "hash_mismatch" };
+
+    let data = upload.data;
+    let removed: string[] = [];
+    if (this.strip) {
+      const stripped = stripMetadata(upload.mime, upload.data);
+      if (!stripped.ok) return stripped;
+      data = stripped.data;
+      removed = stripped.removed;
+    }
+
+    const info: AttachmentInfo = {
+      id: crypto.randomUUID(),
+      hash: sha256(data),
+      name: upload.name,
+      mime: upload.mime,
+      size: data.length,
+      room: upload.room,
+      uploadedBy: upload.uploadedBy,
+      uploadedAt: Date.now(),
+      ...(removed.length ? { metadataRemoved: removed } : {})
+    };
+
+    await this.blobs.write(info.id, data);
+    this.attachments.set(info.id, info);
+    try {
+      await this.save();
+    } catch (err) {
+      // an unindexed blob would never expire; drop it with the upload
+      this.attachments.delete(info.id);
+      await this.blobs.remove(info.id);
+      throw err;
+    }
+    return { ok: true, info };
+  }
+
+  /** Why a chat message may not reference `ref`, or undefined when it may. */
+  check(
+    ref: AttachmentRef,
+    room: string,
+    memberId: string
+  ): "unknown_attachment" | "attachment_mismatch" | undefined {
+    const info = this.attachments.get(ref.id);
+    if (!info) return "unknown_attachment";
+    if (info.room !== room || info.uploadedBy !== memberId || info.hash !== ref.hash) {
+      return "attachment_mismatch";
+    }
+    return undefined;
+  }
+
+  // a failed sweep (e.g. the index could not be rewritten) is tried again on the next tick
+  private tick(): void {
+    this.expire(Date.now()).catch((err) => log.error("attachments-expire-failed", { err: String(err) }));
+  }
+
+  private async expire(now: number): Promise<void> {
+    const old = Array.from(this.attachments.values()).filter((a) => a.uploadedAt + this.ttlMs <= now);
+    if (!old.length) return;
+
+    for (const a of old) {
+      this.attachments.delete(a.id);
+      await this.blobs.remove(a.id);
+    }
+    await this.save();
+    log.info("attachments-expire", { removed: old.length });
+  }
+
+  private load(data: Partial<AttachmentsFile>): void {
+    this.attachments.clear();
+    for (const a of data.attachments ?? []) this.attachments.set(a.id, a);
+  }
+
+  private save(): Promise<void> {
+    return this.index.write({ attachments: Array.from(this.attachments.values()) });
+  }
+}
+
+const DEFAULT_TYPES = "image/jpeg,image/png,image/webp,application/pdf,text/plain";
+
+export function createAttachmentStore(env: NodeJS.ProcessEnv): AttachmentStore {
+  const types = (env.ATTACHMENT_TYPES ?? DEFAULT_TYPES)
+    .split(",")
+    .map((s) => s.trim().toLowerCase())
+    .filter(Boolean);
+
+  const dir = path.resolve(env.ATTACHMENTS_DIR ?? "data/attachments");
+  // a shared index needs files every node can read
+  const blobs = jsonStoreShared(env)
+    ? new RedisBlobStore(sharedRedis(env), `${redisPrefix(env)}attachment:`)
+    : new FileBlobStore(dir);
+  return new AttachmentStore(
+    blobs,
+    createJsonDoc(env, "attachments", path.join(dir, "index.json")),
+    Number(env.ATTACHMENT_MAX_BYTES ?? 10 * 1024 * 1024),
+    new Set(types),
+    env.ATTACHMENT_KEEP_METADATA !== "1",
+    Number(env.ATTACHMENT_TTL_HOURS ?? 30 * 24) * 3_600_000
+  );
+}
+
+const UploadQuerySchema = z.object({
+  room: z.string().trim().toLowerCase().min(1).max(64),
+  name: z.string().trim().min(1).max(200)
+});
+
+const HASH = /^[0-9a-f]{64}$/;
+
+const UPLOAD_STATUS: Record<string, number> = {
+  unauthorized: 401,
+  forbidden_role: 403,
+  plaintext_not_allowed: 403,
+  room_not_allowed: 404,
+  too_large: 413,
+  type_not_allowed: 415,
+  type_mismatch: 415
+};
+
+// no paths or control characters in a name that ends up in Content-Disposition
+function safeName(name: string): string {
+  return name.replace(/[\\/\p{Cc}]/gu, "_");
+}
+
+/** Member credential (the socket's `auth.credential`) as a Bearer token; guests cannot use attachments. */
+export function requireMember(registry: MemberRegistry): RequestHandler {
+  return (req, res, next) => {
+    const header = req.headers.authorization ?? "";
+    const verified = registry.verify(header.startsWith("Bearer ") ? header.slice(7) : "");
+    if (!verified.ok) {
+      const body: AttachmentUploadAck = { ok: false, reason: verified.reason };
+      res.status(401).json(body);
+      return;
+    }
+    res.locals.member = verified.member;
+    next();
+  };
+}
+
+export type AttachmentDeps = {
+  store: AttachmentStore;
+  registry: MemberRegistry;
+  audit: AuditLog;
+  /** Why the member may not upload to the room, or undefined when they may. */
+  uploadDenied: (member: MemberIdentity, room: string) => string | undefined;
+  /** Why the member may not download the room's attachments, or undefined when they may. */
+  readDenied: (member: MemberIdentity, room: string) => string | undefined;
+};
+
+export function createAttachmentRouter(deps: AttachmentDeps): express.Router {
+  const { store, audit } = deps;
+  const router = express.Router();
+
+  router.use(requireMember(deps.registry));
+
+  function reject(res: express.Response, member: MemberIdentity, room: string, reason: string): void {
+    requestLog(res).warn("attachment-reject", { memberId: member.memberId, room, reason });
+    audit.record({ action: "attachment_reject", actor: member.memberId, room, reason });
+    const body: AttachmentUploadAck = { ok: false, reason };
+    res.status(UPLOAD_STATUS[reason] ?? 400).json(body);
+  }
+
+  router.post("/", express.raw({ type: () => true, limit: store.maxBytes }), async (req, res) => {
+    const member = res.locals.member as MemberIdentity;
+    const query = UploadQuerySchema.safeParse(req.query);
+    const hash = String(req.headers["x-content-sha256"] ?? "").toLowerCase();
+    const room = query.success ? query.data.room : "";
+
+    if (!query.success || !HASH.test(hash) || !Buffer.isBuffer(req.body) || !req.body.length) {
+      reject(res, member, room, "invalid_request");
+      return;
+    }
+
+    const denied = deps.uploadDenied(member, room);
+    if (denied) {
+      reject(res, member, room, denied);
+      return;
+    }
+
+    const mime = (req.headers["content-type"] ?? "").split(";")[0].trim().toLowerCase();
+    let result: PutResult;
+    try {
+      result = await store.put({
+        room,
+        name: safeName(query.data.name),
+        mime,
+        hash,
+        data: req.body,
+        uploadedBy: member.memberId
+      });
+    } catch (err) {
+      requestLog(res).error("store-error", { memberId: member.memberId, room, err: String(err) });
+      const body: AttachmentUploadAck = { ok: false, reason: "store_error" };
+      res.status(500).json(body);
+      return;
+    }
+    if (!result.ok) {
+      reject(res, member, room, result.reason);
+      return;
+    }
+
+    const { info } = result;
+    requestLog(res).info("attachment", {
+      id: info.id,
+      room,
+      memberId: member.memberId,
+      mime: info.mime,
+      bytes: info.size,
+      removed: info.metadataRemoved ?? []
+    });
+    audit.record({
+      action: "attachment_upload",
+      actor: member.memberId,
+      room,
+      detail: {
+        id: info.id,
+        mime: info.mime,
+        bytes: info.size,
+        hash: info.hash,
+        removed: info.metadataRemoved?.join(",")
+      }
+    });
+
+    const body: AttachmentUploadAck = {
+      ok: true,
+      attachment: { id: info.id, hash: info.hash, name: info.name, mime: info.mime, size: info.size }
+    };
+    res.json(body);
+  });
+
+  router.get("/:id", async (req, res) => {
+    const member = res.locals.member as MemberIdentity;
+    const info = store.get(req.params.id);
+
+    // a room the member cannot read looks the same as a missing attachment
+    if (!info || deps.readDenied(member, info.room)) {
+      res.status(404).json({ ok: false, reason: "unknown_attachment" });
+      return;
+    }
+
+    let data: Buffer;
+    try {
+      data = await store.read(info);
+    } catch {
+      res.status(404).json({ ok: false, reason: "unknown_attachment" });
+      return;
+    }
+
+    res.setHeader("Content-Type", info.mime);
+    res.setHeader("Content-Disposition", `attachment; filename*=UTF-8''${encodeURIComponent(info.name)}`);
+    res.setHeader("X-Content-SHA256", info.hash);
+    res.setHeader("X-Content-Type-Options", "nosniff");
+    res.setHeader("Cache-Control", "private, max-age=86400, immutable");
+    res.send(data);
+  });
+
+  // body-parser errors (over the size limit, aborted uploads) as JSON acks
+  const onError: ErrorRequestHandler = (err, _req, res, next) => {
+    if (res.headersSent) {
+      next(err);
+      return;
+    }
+    const tooLarge = (err as { type?: string }).type === "entity.too.large";
+    const body: AttachmentUploadAck = { ok: false, reason: tooLarge ? "too_large" : "invalid_request" };
+    res.status(tooLarge ? 413 : 400).json(body);
+  };
+  router.use(onError);
+
+  return router;
+}
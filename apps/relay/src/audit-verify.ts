@@ -0,0 +1,15 @@
+import path from "path";
+import { verifyAuditFile } from "./audit.js";
+
+// usage: npm -w apps/relay run audit:verify -- [path]   (AUDIT_HMAC_KEY must match the relay's)
+const file = path.resolve(process.argv[2] ?? process.env.AUDIT_PATH ?? "data/audit.jsonl");
+const res = await verifyAuditFile(file, process.env.AUDIT_HMAC_KEY ?? "");
+
+if (res.ok) {
+  console.log(`[audit] ok records=${res.count} head=${res.head} path=${file}`);
+} else {
+  console.log(
+    `[audit] FAILED line=${res.line} reason=${res.reason} verified=${res.count} path=${file}`
+  );
+  process.exitCode = 1;
+}
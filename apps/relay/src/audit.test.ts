@@ -0,0 +1,173 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AuditLog, toCsv, verifyAuditFile, verifyAuditLines, type AuditRecord } from "./audit.js";
+import { log } from "./log.js";
+
+let dir: string;
+let file: string;
+
+beforeEach(async () => {
+  dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "nw-audit-"));
+  file = path.join(dir, "audit.jsonl");
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await fs.promises.rm(dir, { recursive: true, force: true });
+});
+
+async function lines(): Promise<string[]> {
+  return (await fs.promises.readFile(file, "utf8")).split("\n").filter(Boolean);
+}
+
+async function opened(key = ""): Promise<AuditLog> {
+  const audit = new AuditLog(file, key);
+  await audit.init();
+  return audit;
+}
+
+describe("AuditLog", () => {
+  it("chains records from genesis and verifies them", async () => {
+    const audit = await opened();
+    audit.record({ action: "connect", actor: "m1" });
+    audit.record({ action: "chat", actor: "m1", room: "family", detail: { msgId: "a" } });
+    audit.record({ action: "join_deny", actor: "m2", room: "emergency", reason: "forbidden_role" });
+
+    const result = await audit.verify();
+    expect(result).toMatchObject({ ok: true, count: 3 });
+
+    const records = (await lines()).map((l) => JSON.parse(l) as AuditRecord);
+    expect(records.map((r) => r.seq)).toEqual([1, 2, 3]);
+    expect(records[0].prev).toBe("0".repeat(64));
+    expect(records[1].prev).toBe(records[0].hash);
+    expect(records[2].prev).toBe(records[1].hash);
+    expect(result.ok && result.head).toBe(records[2].hash);
+  });
+
+  it("resumes the chain where the file ends", async () => {
+    const first = await opened();
+    first.record({ action: "connect" });
+    await first.verify();
+
+    const second = await opened();
+    second.record({ action: "disconnect" });
+    expect(await second.verify()).toMatchObject({ ok: true, count: 2 });
+  });
+
+  it("refuses to start on a tampered file", async () => {
+    const audit = await opened();
+    audit.record({ action: "connect", actor: "m1" });
+    audit.record({ action: "chat", actor: "m1" });
+    await audit.verify();
+
+    const [a, b] = await lines();
+    await fs.promises.writeFile(file, a.replace('"m1"', '"m9"') + "\n" + b + "\n");
+
+    await expect(opened()).rejects.toThrow(/fails verification at line 1 \(bad_hash\)/);
+  });
+
+  it("ties the chain to the HMAC key when one is set", async () => {
+    const audit = await opened("secret");
+    audit.record({ action: "connect" });
+    await audit.verify();
+
+    expect(await verifyAuditFile(file, "secret")).toMatchObject({ ok: true, count: 1 });
+    expect(await verifyAuditFile(file, "other")).toMatchObject({ ok: false, reason: "bad_hash" });
+    expect(await verifyAuditFile(file)).toMatchObject({ ok: false, reason: "bad_hash" });
+  });
+
+  it("drops a record whose append fails and keeps the chain whole", async () => {
+    const logged = vi.spyOn(log, "error").mockImplementation(() => undefined);
+    const audit = await opened();
+    audit.record({ action: "connect" });
+    await audit.verify();
+
+    // the disk fills halfway through the line
+    const append = fs.promises.appendFile;
+    vi.spyOn(fs.promises, "appendFile").mockImplementationOnce(async (target, data) => {
+      await append(target, String(data).slice(0, 20));
+      throw new Error("ENOSPC: no space left on device");
+    });
+    audit.record({ action: "lost" });
+    await audit.verify();
+
+    expect(logged).toHaveBeenCalledWith(
+      "audit-write-failed",
+      expect.objectContaining({ seq: 2, action: "lost" })
+    );
+    expect(await audit.check()).toMatchObject({ ok: false, detail: expect.stringContaining("ENOSPC") });
+
+    audit.record({ action: "after" });
+    expect(await audit.verify()).toMatchObject({ ok: true, count: 2 });
+    expect(await audit.check()).toMatchObject({ ok: true });
+
+    const records = (await lines()).map((l) => JSON.parse(l) as AuditRecord);
+    expect(records.map((r) => [r.seq, r.action])).toEqual([
+      [1, "connect"],
+      [2, "after"]
+    ]);
+  });
+
+  it("filters queries and keeps the newest when limited", async () => {
+    const audit = await opened();
+    audit.record({ action: "chat", actor: "m1", room: "family" });
+    audit.record({ action: "chat", actor: "m2", room: "family" });
+    audit.record({ action: "chat", actor: "m1", room: "emergency" });
+    audit.record({ action: "connect", actor: "m1" });
+
+    expect((await audit.query({ action: "chat", actor: "m1" })).map((r) => r.seq)).toEqual([1, 3]);
+    expect((await audit.query({ room: "family", limit: 1 })).map((r) => r.seq)).toEqual([2]);
+    expect(await audit.query({ since: Date.now() + 60_000 })).toEqual([]);
+  });
+});
+
+describe("verifyAuditLines", () => {
+  async function chain(n: number): Promise<string[]> {
+    const audit = await opened();
+    for (let i = 0; i < n; i++) audit.record({ action: `a${i}` });
+    await audit.verify();
+    return lines();
+  }
+
+  it("accepts an empty log", () => {
+    expect(verifyAuditLines([])).toEqual({ ok: true, count: 0, head: "0".repeat(64) });
+  });
+
+  it("reports a dropped line as a seq gap", async () => {
+    const [a, , c] = await chain(3);
+    expect(verifyAuditLines([a, c])).toEqual({ ok: false, count: 1, line: 2, reason: "seq_gap" });
+  });
+
+  it("reports swapped lines", async () => {
+    const [a, b, c] = await chain(3);
+    expect(verifyAuditLines([a, c, b])).toMatchObject({ ok: false, line: 2, reason: "seq_gap" });
+  });
+
+  it("reports a relinked line and garbage", async () => {
+    const [a, b] = await chain(2);
+    const relinked = JSON.stringify({ ...JSON.parse(b), prev: "f".repeat(64) });
+    expect(verifyAuditLines([a, relinked])).toMatchObject({ ok: false, line: 2, reason: "broken_link" });
+    expect(verifyAuditLines([a, "{not json"])).toMatchObject({ ok: false, line: 2, reason: "unparseable" });
+  });
+});
+
+describe("toCsv", () => {
+  it("quotes cells that need it and serializes detail", () => {
+    const rec: AuditRecord = {
+      seq: 1,
+      at: 5,
+      action: "chat",
+      actor: "m1",
+      reason: 'said "hi", twice',
+      detail: { msgId: "a" },
+      prev: "p",
+      hash: "h"
+    };
+    expect(toCsv([rec])).toBe(
+      "seq,at,action,actor,room,reason,detail,prev,hash\n" +
+        '1,5,chat,m1,,"said ""hi"", twice","{""msgId"":""a""}",p,h\n'
+    );
+  });
+});
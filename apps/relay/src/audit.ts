@@ -0,0 +1,229 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { fileCheck, type ReadyCheck } from "./health.js";
+import { log } from "./log.js";
+
+export type AuditDetail = Record<string, string | number | boolean | undefined>;
+
+export type AuditEvent = {
+  action: string; // "connect", "join_deny", "chat", "chat_reject", "dedupe", "admin_revoke", ...
+  actor?: string; // memberId, "admin", or "anonymous"
+  room?: string;
+  reason?: string;
+  detail?: AuditDetail;
+};
+
+/**
+ * One audit line. `hash` covers every other field (including `prev`, the previous
+ * record's hash), so editing, dropping or reordering a line breaks the chain.
+ */
+export type AuditRecord = AuditEvent & {
+  seq: number;
+  at: number;
+  prev: string;
+  hash: string;
+};
+
+export type AuditQuery = {
+  since?: number;
+  until?: number;
+  action?: string;
+  actor?: string;
+  room?: string;
+  limit?: number;
+};
+
+export type AuditVerifyResult =
+  | { ok: true; count: number; head: string }
+  | {
+      ok: false;
+      count: number; // records checked before the failure
+      line: number; // 1-based line in the file
+      reason: "unparseable" | "seq_gap" | "broken_link" | "bad_hash";
+    };
+
+const GENESIS = "0".repeat(64);
+
+// fixed field order: the hash input must not depend on how a record was built or parsed
+function canonical(r: Omit<AuditRecord, "hash">): string {
+  return JSON.stringify({
+    seq: r.seq,
+    at: r.at,
+    action: r.action,
+    actor: r.actor,
+    room: r.room,
+    reason: r.reason,
+    detail: r.detail,
+    prev: r.prev
+  });
+}
+
+/** sha256 of the canonical record, or HMAC-SHA256 when a key is configured. */
+function digest(r: Omit<AuditRecord, "hash">, key: string): string {
+  const h = key ? crypto.createHmac("sha256", key) : crypto.createHash("sha256");
+  return h.update(canonical(r)).digest("hex");
+}
+
+async function readLines(filePath: string): Promise<string[]> {
+  let text = "";
+  try {
+    text = await fs.promises.readFile(filePath, "utf8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+  }
+  return text.split("\n").filter((line) => line.trim());
+}
+
+/**
+ * Walk a chain from genesis: every line must parse, follow the previous seq by one,
+ * point at the previous hash and hash to its own `hash`.
+ */
+export function verifyAuditLines(lines: string[], key = ""): AuditVerifyResult {
+  let prev = GENESIS;
+  let seq = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    let r: AuditRecord;
+    try {
+      r = JSON.parse(lines[i]) as AuditRecord;
+    } catch {
+      return { ok: false, count: i, line: i + 1, reason: "unparseable" };
+    }
+
+    if (r.seq !== seq + 1) return { ok: false, count: i, line: i + 1, reason: "seq_gap" };
+    if (r.prev !== prev) return { ok: false, count: i, line: i + 1, reason: "broken_link" };
+
+    const { hash, ...rest } = r;
+    if (digest(rest, key) !== hash) return { ok: false, count: i, line: i + 1, reason: "bad_hash" };
+
+    prev = hash;
+    seq = r.seq;
+  }
+
+  return { ok: true, count: lines.length, head: prev };
+}
+
+export function verifyAuditFile(filePath: string, key = ""): Promise<AuditVerifyResult> {
+  return readLines(filePath).then((lines) => verifyAuditLines(lines, key));
+}
+
+// undefined when the size cannot be known: then nothing is truncated
+async function fileSize(filePath: string): Promise<number | undefined> {
+  try {
+    return (await fs.promises.stat(filePath)).size;
+  } catch (err) {
+    return (err as NodeJS.ErrnoException).code === "ENOENT" ? 0 : undefined;
+  }
+}
+
+function matches(r: AuditRecord, q: AuditQuery): boolean {
+  if (q.since !== undefined && r.at < q.since) return false;
+  if (q.until !== undefined && r.at > q.until) return false;
+  if (q.action && r.action !== q.action) return false;
+  if (q.actor && r.actor !== q.actor) return false;
+  if (q.room && r.room !== q.room) return false;
+  return true;
+}
+
+const CSV_COLUMNS = ["seq", "at", "action", "actor", "room", "reason", "detail", "prev", "hash"] as const;
+
+function csvCell(v: unknown): string {
+  if (v === undefined) return "";
+  const s = typeof v === "object" ? JSON.stringify(v) : String(v);
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function toCsv(records: AuditRecord[]): string {
+  const rows = records.map((r) => CSV_COLUMNS.map((c) => csvCell(r[c])).join(","));
+  return [CSV_COLUMNS.join(","), ...rows].join("\n") + "\n";
+}
+
+/**
+ * Append-only, hash-chained audit trail of relay actions, one JSON record per line.
+ * Records are chained and written in the order they happen; the chain only advances
+ * once a record is on disk, so a failed write never leaves a gap in the file.
+ */
+export class AuditLog {
+  private seq = 0;
+  private head = GENESIS;
+  private queue: Promise<void> = Promise.resolve();
+  private writeError: string | undefined; // of the last append, until one succeeds
+
+  constructor(
+    private readonly filePath: string,
+    private readonly key: string
+  ) {}
+
+  /** Resume the chain from the file; refuses to start on a broken one. */
+  async init(): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    const res = await verifyAuditFile(this.filePath, this.key);
+    if (!res.ok) {
+      throw new Error(`audit log ${this.filePath} fails verification at line ${res.line} (${res.reason})`);
+    }
+
+    this.seq = res.count;
+    this.head = res.head;
+    log.info("audit-loaded", { records: res.count, path: this.filePath });
+  }
+
+  record(event: AuditEvent): void {
+    const at = Date.now(); // when it happened, not when it reached the disk
+    this.queue = this.queue.then(() => this.append(event, at));
+  }
+
+  /** Oldest first; `limit` keeps the newest matches. */
+  async query(q: AuditQuery): Promise<AuditRecord[]> {
+    await this.queue;
+
+    const out: AuditRecord[] = [];
+    for (const line of await readLines(this.filePath)) {
+      try {
+        const r = JSON.parse(line) as AuditRecord;
+        if (matches(r, q)) out.push(r);
+      } catch {
+        continue; // verify reports it
+      }
+    }
+    return q.limit !== undefined ? out.slice(-q.limit) : out;
+  }
+
+  /** For /ready: records are being written. */
+  check(): Promise<ReadyCheck> {
+    return fileCheck(this.filePath, this.writeError);
+  }
+
+  async verify(): Promise<AuditVerifyResult> {
+    await this.queue;
+    return verifyAuditFile(this.filePath, this.key);
+  }
+
+  // A failed append is cut back off the file (it may have written part of the line) and
+  // the record is dropped; the next one reuses its seq and links to the last record written.
+  private async append(event: AuditEvent, at: number): Promise<void> {
+    const base = { ...event, seq: this.seq + 1, at, prev: this.head };
+    const rec: AuditRecord = { ...base, hash: digest(base, this.key) };
+
+    const size = await fileSize(this.filePath);
+    try {
+      await fs.promises.appendFile(this.filePath, JSON.stringify(rec) + "\n", "utf8");
+    } catch (err) {
+      this.writeError = String(err);
+      log.error("audit-write-failed", { seq: rec.seq, action: rec.action, err: String(err) });
+      if (size !== undefined) await fs.promises.truncate(this.filePath, size).catch(() => undefined);
+      return;
+    }
+
+    this.seq = rec.seq;
+    this.head = rec.hash;
+    this.writeError = undefined;
+  }
+}
+
+export function createAuditLog(env: NodeJS.ProcessEnv): AuditLog {
+  const key = env.AUDIT_HMAC_KEY ?? "";
+  if (!key) log.warn("audit-key-unset", { detail: "AUDIT_HMAC_KEY not set; audit chain uses plain sha256" });
+  return new AuditLog(path.resolve(env.AUDIT_PATH ?? "data/audit.jsonl"), key);
+}
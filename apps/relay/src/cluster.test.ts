@@ -0,0 +1,196 @@
+import crypto from "crypto";
+import http from "http";
+import type { AddressInfo } from "net";
+import { Server } from "socket.io";
+import { io as connect, type Socket as ClientSocket } from "socket.io-client";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  ClusterHub,
+  createClusterBackend,
+  MemoryCluster,
+  RedisCluster,
+  type ClusterBackend
+} from "./cluster.js";
+import { testRedis } from "../test/fake-redis.js";
+import { log } from "./log.js";
+import { connectRedis } from "./redis.js";
+
+type Node = { io: Server; url: string };
+
+const open: Array<{ close(): void }> = [];
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  for (const o of open.splice(0).reverse()) o.close(); // servers before the connections they use
+});
+
+// a relay node reduced to what the backend serves: every socket joins the room it asks for
+async function node(backend: ClusterBackend): Promise<Node> {
+  await backend.init();
+  const server = http.createServer();
+  const io = new Server(server, backend.adapter ? { adapter: backend.adapter } : {});
+  io.on("connection", (socket) => {
+    socket.join(String(socket.handshake.query.room));
+  });
+  open.push(io);
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return { io, url: `http://127.0.0.1:${port}` };
+}
+
+async function client(n: Node, room: string): Promise<ClientSocket> {
+  const socket = connect(n.url, { transports: ["websocket"], query: { room } });
+  open.push(socket);
+  await new Promise<void>((resolve) => socket.once("connect", () => resolve()));
+  return socket;
+}
+
+function heard(socket: ClientSocket, event: string): Promise<unknown> {
+  return new Promise((resolve) => socket.once(event, resolve));
+}
+
+describe("MemoryCluster", () => {
+  it("fans room broadcasts out to sockets on every node", async () => {
+    const hub = new ClusterHub(60_000);
+    const a = await node(new MemoryCluster("node-a", hub));
+    const b = await node(new MemoryCluster("node-b", hub));
+
+    const onA = await client(a, "family");
+    const onB = await client(b, "family");
+    const elsewhere = await client(b, "emergency");
+
+    let leaked = false;
+    elsewhere.on("chat", () => (leaked = true));
+    const gotA = heard(onA, "chat");
+    const gotB = heard(onB, "chat");
+
+    a.io.to("family").emit("chat", { id: "m1" });
+
+    expect(await gotA).toEqual({ id: "m1" });
+    expect(await gotB).toEqual({ id: "m1" });
+    expect(leaked).toBe(false);
+  });
+
+  it("lists sockets across nodes", async () => {
+    const hub = new ClusterHub(60_000);
+    const a = await node(new MemoryCluster("node-a", hub));
+    const b = await node(new MemoryCluster("node-b", hub));
+    const onA = await client(a, "family");
+    const onB = await client(b, "family");
+
+    const ids = (await b.io.in("family").fetchSockets()).map((s) => s.id).sort();
+
+    expect(ids).toEqual([onA.id, onB.id].sort());
+  });
+
+  it("shares one dedupe store between its nodes", async () => {
+    const hub = new ClusterHub(60_000);
+    const a = new MemoryCluster("node-a", hub);
+    const b = new MemoryCluster("node-b", hub);
+
+    expect(await a.dedupe.claim("m1")).toBe(true);
+    expect(await b.dedupe.claim("m1")).toBe(false);
+    await a.dedupe.release("m1");
+    expect(await b.dedupe.claim("m1")).toBe(true);
+  });
+});
+
+describe("RedisCluster", () => {
+  let redis: Awaited<ReturnType<typeof testRedis>>;
+  let prefix: string;
+
+  beforeAll(async () => {
+    redis = await testRedis();
+  });
+
+  afterAll(() => redis.stop());
+
+  // a fresh prefix per test keeps tests apart on a shared Redis
+  beforeEach(() => {
+    prefix = `nw-test-${crypto.randomUUID()}:`;
+  });
+
+  function redisNode(nodeId: string, ttlMs = 60_000): RedisCluster {
+    const pub = connectRedis({ REDIS_URL: redis.url }, "command");
+    const sub = connectRedis({ REDIS_URL: redis.url }, "adapter");
+    // quit (unlike disconnect) lets the adapter's unsubscribe on close get its answer
+    for (const c of [pub, sub]) open.push({ close: () => void c.quit().catch(() => undefined) });
+    return new RedisCluster(nodeId, pub, sub, prefix, ttlMs);
+  }
+
+  it("fans room broadcasts out to sockets on every node", async () => {
+    const a = await node(redisNode("node-a"));
+    const b = await node(redisNode("node-b"));
+
+    const onA = await client(a, "family");
+    const onB = await client(b, "family");
+    const gotA = heard(onA, "chat");
+    const gotB = heard(onB, "chat");
+
+    b.io.to("family").emit("chat", { id: "m1" });
+
+    expect(await gotA).toEqual({ id: "m1" });
+    expect(await gotB).toEqual({ id: "m1" });
+  });
+
+  it("lists sockets across nodes", async () => {
+    const a = await node(redisNode("node-a"));
+    const b = await node(redisNode("node-b"));
+    const onA = await client(a, "family");
+    const onB = await client(b, "family");
+
+    const ids = (await a.io.in("family").fetchSockets()).map((s) => s.id).sort();
+
+    expect(ids).toEqual([onA.id, onB.id].sort());
+  });
+
+  it("shares dedupe between its nodes until the TTL runs out", async () => {
+    const a = redisNode("node-a", 200);
+    const b = redisNode("node-b", 200);
+    await a.init();
+    await b.init();
+
+    expect(await a.dedupe.claim("m1")).toBe(true);
+    expect(await b.dedupe.claim("m1")).toBe(false);
+    await a.dedupe.release("m1");
+    expect(await b.dedupe.claim("m1")).toBe(true);
+
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    expect(await a.dedupe.claim("m1")).toBe(true);
+    expect(await a.check()).toEqual({ ok: true, detail: "redis" });
+  });
+});
+
+describe("createClusterBackend", () => {
+  it("runs a single local node unless told otherwise", () => {
+    const backend = createClusterBackend({ DEDUPE_STORE: "memory", RELAY_NODE_ID: "relay-7" });
+
+    expect(backend.kind).toBe("local");
+    expect(backend.nodeId).toBe("relay-7");
+    expect(backend.adapter).toBeUndefined();
+  });
+
+  it("falls back to local for an unknown backend", () => {
+    const warned = vi.spyOn(log, "warn").mockImplementation(() => undefined);
+
+    const backend = createClusterBackend({ CLUSTER_BACKEND: "carrier-pigeon", DEDUPE_STORE: "memory" });
+
+    expect(backend.kind).toBe("local");
+    expect(backend.nodeId).toMatch(/^node-[0-9a-f]{6}$/);
+    expect(warned).toHaveBeenCalledWith("cluster-unknown-backend", {
+      kind: "carrier-pigeon",
+      using: "local"
+    });
+  });
+
+  it("gives memory nodes in one process the same hub", async () => {
+    const a = createClusterBackend({ CLUSTER_BACKEND: "memory" });
+    const b = createClusterBackend({ CLUSTER_BACKEND: "memory" });
+
+    expect(a.kind).toBe("memory");
+    expect(a.nodeId).not.toBe(b.nodeId);
+    expect(await a.dedupe.claim("shared")).toBe(true);
+    expect(await b.dedupe.claim("shared")).toBe(false);
+  });
+});
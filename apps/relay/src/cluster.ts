@@ -0,0 +1,211 @@
+import crypto from "crypto";
+import { createAdapter } from "@socket.io/redis-adapter";
+import type { Redis } from "ioredis";
+import type { Namespace } from "socket.io";
+import {
+  ClusterAdapterWithHeartbeat,
+  type Adapter,
+  type ClusterMessage,
+  type ClusterResponse,
+  type ServerId
+} from "socket.io-adapter";
+import {
+  createDedupeStore,
+  dedupeTtlMs,
+  MemoryDedupeStore,
+  RedisDedupeStore,
+  type DedupeStore
+} from "./dedupe.js";
+import type { ReadyCheck } from "./health.js";
+import { log } from "./log.js";
+import { connectRedis, redisCheck, redisPrefix, sharedRedis } from "./redis.js";
+
+/**
+ * What several relay nodes behind a load balancer share: room fan-out (a Socket.IO
+ * adapter, so `io.to(room).emit` and `fetchSockets` reach every node) and message dedupe.
+ * Other backends plug in as another entry in BACKENDS.
+ */
+export interface ClusterBackend {
+  readonly kind: string;
+  readonly nodeId: string;
+  readonly dedupe: DedupeStore;
+  /** Undefined keeps Socket.IO's default single-process adapter. */
+  readonly adapter?: (nsp: Namespace) => Adapter;
+  init(): Promise<void>;
+  /** For /ready: whether fan-out to the other nodes works (dedupe is checked on its own). */
+  check(): Promise<ReadyCheck>;
+}
+
+/** One relay process on its own; dedupe from DEDUPE_STORE (persisted by default). */
+export class LocalCluster implements ClusterBackend {
+  readonly kind = "local";
+  readonly adapter = undefined;
+
+  constructor(
+    readonly nodeId: string,
+    readonly dedupe: DedupeStore
+  ) {}
+
+  init(): Promise<void> {
+    return this.dedupe.init();
+  }
+
+  async check(): Promise<ReadyCheck> {
+    return { ok: true, detail: "single node" };
+  }
+}
+
+/**
+ * In-process message bus standing in for a pub/sub service: every relay node created
+ * in the same process publishes to and receives from it. For tests and demos.
+ */
+export class ClusterHub {
+  readonly dedupe: MemoryDedupeStore;
+  private readonly nodes = new Set<HubAdapter>();
+
+  constructor(ttlMs: number) {
+    this.dedupe = new MemoryDedupeStore(ttlMs);
+  }
+
+  attach(node: HubAdapter): void {
+    this.nodes.add(node);
+  }
+
+  detach(node: HubAdapter): void {
+    this.nodes.delete(node);
+  }
+
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  publish(from: HubAdapter, message: ClusterMessage): void {
+    for (const node of this.nodes) {
+      if (node !== from && node.nsp.name === message.nsp) queueMicrotask(() => node.onMessage(message));
+    }
+  }
+
+  respond(requesterUid: ServerId, response: ClusterResponse): void {
+    for (const node of this.nodes) {
+      if (node.serverId === requesterUid && node.nsp.name === response.nsp) {
+        queueMicrotask(() => node.onResponse(response));
+      }
+    }
+  }
+}
+
+class HubAdapter extends ClusterAdapterWithHeartbeat {
+  private readonly hub: ClusterHub;
+
+  constructor(nsp: Namespace, hub: ClusterHub) {
+    super(nsp, {});
+    this.hub = hub;
+    hub.attach(this);
+    // Socket.IO never calls init(); without the initial heartbeat no other node learns of this one
+    this.init();
+  }
+
+  get serverId(): ServerId {
+    return this.uid;
+  }
+
+  protected async doPublish(message: ClusterMessage): Promise<string> {
+    this.hub.publish(this, message);
+    return ""; // no offsets: the hub does not replay missed messages
+  }
+
+  protected async doPublishResponse(requesterUid: ServerId, response: ClusterResponse): Promise<void> {
+    this.hub.respond(requesterUid, response);
+  }
+
+  override close(): void {
+    super.close();
+    this.hub.detach(this);
+  }
+}
+
+/** Nodes sharing a ClusterHub: fan-out and dedupe across every relay in this process. */
+export class MemoryCluster implements ClusterBackend {
+  readonly kind = "memory";
+  readonly dedupe: DedupeStore;
+  readonly adapter: (nsp: Namespace) => Adapter;
+
+  constructor(
+    readonly nodeId: string,
+    private readonly hub: ClusterHub
+  ) {
+    this.dedupe = hub.dedupe;
+    // Socket.IO calls this with `new`, so it cannot be an arrow function
+    this.adapter = function (nsp: Namespace) {
+      return new HubAdapter(nsp, hub);
+    };
+  }
+
+  init(): Promise<void> {
+    return this.dedupe.init();
+  }
+
+  async check(): Promise<ReadyCheck> {
+    return { ok: true, detail: `${this.hub.size} node(s) on the hub` };
+  }
+}
+
+/**
+ * Relay nodes in separate processes (or hosts) sharing one Redis: fan-out through
+ * Socket.IO's Redis adapter (pub/sub) and dedupe through Redis keys.
+ */
+export class RedisCluster implements ClusterBackend {
+  readonly kind = "redis";
+  readonly dedupe: RedisDedupeStore;
+  readonly adapter: (nsp: Namespace) => Adapter;
+
+  constructor(
+    readonly nodeId: string,
+    private readonly pub: Redis,
+    private readonly sub: Redis, // subscribed to the adapter's channels, so it takes no other commands
+    prefix: string,
+    ttlMs: number
+  ) {
+    this.dedupe = new RedisDedupeStore(pub, `${prefix}dedupe:`, ttlMs);
+    this.adapter = createAdapter(pub, sub, { key: `${prefix}socket.io` });
+  }
+
+  init(): Promise<void> {
+    return this.dedupe.init();
+  }
+
+  async check(): Promise<ReadyCheck> {
+    if (this.sub.status !== "ready") return { ok: false, detail: `subscriber ${this.sub.status}` };
+    return redisCheck(this.pub);
+  }
+}
+
+let sharedHub: ClusterHub | null = null;
+
+const BACKENDS: Record<string, (env: NodeJS.ProcessEnv, nodeId: string) => ClusterBackend> = {
+  local: (env, nodeId) => new LocalCluster(nodeId, createDedupeStore(env)),
+  memory: (env, nodeId) => {
+    sharedHub ??= new ClusterHub(dedupeTtlMs(env));
+    return new MemoryCluster(nodeId, sharedHub);
+  },
+  redis: (env, nodeId) =>
+    new RedisCluster(
+      nodeId,
+      sharedRedis(env),
+      connectRedis(env, "adapter"),
+      redisPrefix(env),
+      dedupeTtlMs(env)
+    )
+};
+
+export function createClusterBackend(env: NodeJS.ProcessEnv): ClusterBackend {
+  const kind = (env.CLUSTER_BACKEND ?? "local").trim().toLowerCase();
+  const nodeId = env.RELAY_NODE_ID?.trim() || `node-${crypto.randomBytes(3).toString("hex")}`;
+
+  const create = BACKENDS[kind];
+  if (!create) {
+    log.warn("cluster-unknown-backend", { kind, using: "local" });
+    return BACKENDS.local(env, nodeId);
+  }
+  return create(env, nodeId);
+}
@@ -0,0 +1,105 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createDedupeStore, JsonlDedupeStore, MemoryDedupeStore } from "./dedupe.js";
+import { log } from "./log.js";
+
+const TTL = 60_000;
+
+let dir: string;
+let file: string;
+
+beforeEach(async () => {
+  dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "nw-dedupe-"));
+  file = path.join(dir, "dedupe.jsonl");
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+  await fs.promises.rm(dir, { recursive: true, force: true });
+});
+
+async function jsonl(): Promise<JsonlDedupeStore> {
+  const store = new JsonlDedupeStore(file, TTL);
+  await store.init();
+  return store;
+}
+
+describe("MemoryDedupeStore", () => {
+  it("claims an id once until it is released", async () => {
+    const store = new MemoryDedupeStore(TTL);
+
+    expect(await store.claim("m1")).toBe(true);
+    expect(await store.claim("m1")).toBe(false);
+    expect(await store.claim("m2")).toBe(true);
+
+    await store.release("m1");
+    expect(await store.claim("m1")).toBe(true);
+  });
+
+  it("forgets ids once their TTL has passed", async () => {
+    vi.useFakeTimers();
+    const store = new MemoryDedupeStore(TTL);
+    await store.claim("m1");
+
+    vi.advanceTimersByTime(TTL - 1);
+    expect(await store.claim("m1")).toBe(false);
+
+    vi.advanceTimersByTime(1);
+    expect(await store.claim("m1")).toBe(true);
+  });
+});
+
+describe("JsonlDedupeStore", () => {
+  it("remembers claims across a restart, but not released ids", async () => {
+    const first = await jsonl();
+    await first.claim("kept");
+    await first.claim("retried");
+    await first.release("retried");
+
+    const second = await jsonl();
+    expect(await second.claim("kept")).toBe(false);
+    expect(await second.claim("retried")).toBe(true);
+  });
+
+  it("drops expired ids when it reloads and compacts the file", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const first = await jsonl();
+    await first.claim("old");
+    await first.claim("gone");
+    await first.release("gone");
+
+    vi.setSystemTime(Date.now() + TTL / 2);
+    await first.claim("new");
+
+    vi.setSystemTime(Date.now() + TTL / 2);
+    const second = await jsonl();
+
+    const lines = (await fs.promises.readFile(file, "utf8")).split("\n").filter(Boolean);
+    expect(lines.map((l) => (JSON.parse(l) as { id: string }).id)).toEqual(["new"]);
+    expect(await second.claim("old")).toBe(true);
+    expect(await second.claim("new")).toBe(false);
+  });
+
+  it("reports a failed write through its readiness check", async () => {
+    const store = await jsonl();
+    expect(await store.check()).toMatchObject({ ok: true });
+
+    await fs.promises.rm(file);
+    await fs.promises.mkdir(file); // appends to a directory fail
+    const logged = vi.spyOn(log, "error").mockImplementation(() => undefined);
+
+    expect(await store.claim("m1")).toBe(true); // the in-memory answer stands
+    expect(await store.check()).toMatchObject({ ok: false });
+    expect(logged).toHaveBeenCalledWith("dedupe-write-failed", expect.objectContaining({ id: "m1" }));
+  });
+});
+
+describe("createDedupeStore", () => {
+  it("persists by default and keeps memory on request", () => {
+    expect(createDedupeStore({ DEDUPE_PATH: file }).kind).toBe("jsonl");
+    expect(createDedupeStore({ DEDUPE_STORE: "memory" }).kind).toBe("memory");
+  });
+});
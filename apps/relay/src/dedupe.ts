@@ -0,0 +1,199 @@
+import fs from "fs";
+import path from "path";
+import type { Redis } from "ioredis";
+import { fileCheck, type ReadyCheck } from "./health.js";
+import { log } from "./log.js";
+import { redisCheck } from "./redis.js";
+
+/**
+ * Remembers accepted message ids for a while, so client retries are acked without
+ * being stored or broadcast again. Shared by every relay node of a cluster.
+ */
+export interface DedupeStore {
+  readonly kind: string;
+  init(): Promise<void>;
+  /** For /ready: whether ids are being recorded right now. */
+  check(): Promise<ReadyCheck>;
+  /** Record the id; false when it was already recorded (and has not expired). */
+  claim(id: string): Promise<boolean>;
+  /** Forget the id again, e.g. when the message could not be stored. */
+  release(id: string): Promise<void>;
+}
+
+/**
+ * In-memory TTL dedupe (lost on restart). Ids are kept in insertion order, so
+ * expired ones are always at the front.
+ */
+export class MemoryDedupeStore implements DedupeStore {
+  readonly kind: string = "memory";
+
+  protected readonly expires = new Map<string, number>(); // id -> epoch ms
+
+  constructor(protected readonly ttlMs: number) {}
+
+  async init(): Promise<void> {}
+
+  async check(): Promise<ReadyCheck> {
+    return { ok: true, detail: "in memory" };
+  }
+
+  async claim(id: string): Promise<boolean> {
+    const now = Date.now();
+    this.expire(now);
+    if (this.expires.has(id)) return false;
+    this.expires.set(id, now + this.ttlMs);
+    return true;
+  }
+
+  async release(id: string): Promise<void> {
+    this.expires.delete(id);
+  }
+
+  protected expire(now: number): void {
+    for (const [id, at] of this.expires) {
+      if (at > now) break;
+      this.expires.delete(id);
+    }
+  }
+}
+
+type DedupeLine = { id: string; expiresAt: number; released?: true };
+
+/**
+ * Single-node TTL dedupe that survives a restart: every claim and release is appended
+ * to a JSONL file that is replayed on init. The file is compacted (write-then-rename)
+ * once most of its lines have expired.
+ */
+export class JsonlDedupeStore extends MemoryDedupeStore {
+  override readonly kind = "jsonl";
+  private queue: Promise<unknown> = Promise.resolve(); // appends and rewrites, in order
+  private writeError: string | undefined; // of the last write, until one succeeds
+  private lines = 0;
+
+  constructor(
+    private readonly filePath: string,
+    ttlMs: number
+  ) {
+    super(ttlMs);
+  }
+
+  override async init(): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    let text = "";
+    try {
+      text = await fs.promises.readFile(this.filePath, "utf8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+    }
+
+    const now = Date.now();
+    for (const line of text.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const l = JSON.parse(line) as DedupeLine;
+        if (typeof l.id !== "string" || typeof l.expiresAt !== "number") continue;
+        this.expires.delete(l.id); // keep insertion order by latest claim
+        if (!l.released && l.expiresAt > now) this.expires.set(l.id, l.expiresAt);
+      } catch {
+        continue; // torn write at tail
+      }
+    }
+
+    await this.enqueue(() => this.rewrite());
+    log.info("dedupe-loaded", { ids: this.expires.size, path: this.filePath });
+  }
+
+  override check(): Promise<ReadyCheck> {
+    return fileCheck(this.filePath, this.writeError);
+  }
+
+  override async claim(id: string): Promise<boolean> {
+    if (!(await super.claim(id))) return false;
+    await this.append({ id, expiresAt: this.expires.get(id) ?? 0 });
+    return true;
+  }
+
+  override async release(id: string): Promise<void> {
+    await super.release(id);
+    await this.append({ id, expiresAt: 0, released: true });
+  }
+
+  // a failed write only costs restart protection for this id; the in-memory answer stands
+  private async append(line: DedupeLine): Promise<void> {
+    try {
+      await this.enqueue(() => fs.promises.appendFile(this.filePath, JSON.stringify(line) + "\n", "utf8"));
+    } catch (err) {
+      log.error("dedupe-write-failed", { id: line.id, err: String(err) });
+      return;
+    }
+    this.lines++;
+    if (this.lines > 2 * this.expires.size + 1000) void this.enqueue(() => this.rewrite());
+  }
+
+  private enqueue(fn: () => Promise<void>): Promise<void> {
+    const next = this.queue.then(fn);
+    this.queue = next.then(
+      () => (this.writeError = undefined),
+      (err) => (this.writeError = String(err))
+    );
+    return next;
+  }
+
+  private async rewrite(): Promise<void> {
+    this.expire(Date.now());
+    const lines = Array.from(this.expires, ([id, expiresAt]) => JSON.stringify({ id, expiresAt }));
+
+    const tmp = `${this.filePath}.tmp`;
+    await fs.promises.writeFile(tmp, lines.length ? lines.join("\n") + "\n" : "", "utf8");
+    await fs.promises.rename(tmp, this.filePath);
+    this.lines = lines.length;
+  }
+}
+
+/**
+ * Dedupe shared by every relay node through Redis: each id is a key that expires with
+ * the TTL, claimed with SET NX so exactly one node accepts a message.
+ */
+export class RedisDedupeStore implements DedupeStore {
+  readonly kind = "redis";
+
+  constructor(
+    private readonly redis: Redis,
+    private readonly prefix: string, // e.g. "nw:dedupe:"
+    private readonly ttlMs: number
+  ) {}
+
+  async init(): Promise<void> {
+    await this.redis.ping();
+  }
+
+  check(): Promise<ReadyCheck> {
+    return redisCheck(this.redis);
+  }
+
+  async claim(id: string): Promise<boolean> {
+    return (await this.redis.set(this.prefix + id, "1", "PX", this.ttlMs, "NX")) === "OK";
+  }
+
+  async release(id: string): Promise<void> {
+    await this.redis.del(this.prefix + id);
+  }
+}
+
+// as long as the web client keeps retrying an unacked message (its outbox max age)
+export function dedupeTtlMs(env: NodeJS.ProcessEnv): number {
+  return Number(env.DEDUPE_TTL_SECONDS ?? 24 * 60 * 60) * 1000;
+}
+
+export function createDedupeStore(env: NodeJS.ProcessEnv): DedupeStore {
+  const kind = (env.DEDUPE_STORE ?? "jsonl").trim().toLowerCase();
+  const ttlMs = dedupeTtlMs(env);
+
+  if (kind === "memory") return new MemoryDedupeStore(ttlMs);
+
+  if (kind !== "jsonl") {
+    log.warn("dedupe-unknown-kind", { kind, using: "jsonl" });
+  }
+  return new JsonlDedupeStore(path.resolve(env.DEDUPE_PATH ?? "data/dedupe.jsonl"), ttlMs);
+}
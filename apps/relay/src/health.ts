@@ -0,0 +1,44 @@
+import fs from "fs";
+import path from "path";
+
+/** One backend's answer to /ready. */
+export type ReadyCheck = { ok: boolean; detail?: string };
+
+// a check that hangs counts as failed, so /ready always answers
+const CHECK_TIMEOUT_MS = 2000;
+
+/**
+ * A file-backed store is ready while its directory is writable and its last write
+ * (if any failed since) has not; `lastError` clears on the next successful write.
+ */
+export async function fileCheck(filePath: string, lastError: string | undefined): Promise<ReadyCheck> {
+  if (lastError) return { ok: false, detail: `write failed: ${lastError}` };
+  try {
+    await fs.promises.access(path.dirname(filePath), fs.constants.W_OK);
+    return { ok: true, detail: filePath };
+  } catch (err) {
+    return { ok: false, detail: `not writable: ${String(err)}` };
+  }
+}
+
+/** Run every named check at once; ready only when each one is. */
+export async function readiness(
+  checks: Record<string, () => Promise<ReadyCheck>>
+): Promise<{ ok: boolean; checks: Record<string, ReadyCheck> }> {
+  const entries = await Promise.all(
+    Object.entries(checks).map(async ([name, check]): Promise<[string, ReadyCheck]> => {
+      let timer: NodeJS.Timeout | undefined;
+      const timeout = new Promise<ReadyCheck>((resolve) => {
+        timer = setTimeout(() => resolve({ ok: false, detail: "timed out" }), CHECK_TIMEOUT_MS);
+      });
+      try {
+        return [name, await Promise.race([check(), timeout])];
+      } catch (err) {
+        return [name, { ok: false, detail: String(err) }];
+      } finally {
+        clearTimeout(timer);
+      }
+    })
+  );
+  return { ok: entries.every(([, c]) => c.ok), checks: Object.fromEntries(entries) };
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { TestDoc } from "../test/test-doc.js";
+import { MemberRegistry, type RegistryFile } from "./identity.js";
+
+async function setup(): Promise<{ registry: MemberRegistry; doc: TestDoc<Partial<RegistryFile>> }> {
+  const doc = new TestDoc<Partial<RegistryFile>>();
+  const registry = new MemberRegistry(doc, "test-secret");
+  await registry.init();
+  return { registry, doc };
+}
+
+describe("MemberRegistry", () => {
+  it("enrolls a member with a one-time code", async () => {
+    const { registry } = await setup();
+    const { code } = await registry.issueEnrollment("Porch camera", 60_000);
+
+    const redeemed = await registry.redeem(code);
+    expect(redeemed).toMatchObject({ ok: true, member: { label: "Porch camera" } });
+    expect(registry.verify(redeemed.ok ? redeemed.credential : "")).toMatchObject({ ok: true });
+    expect(await registry.redeem(code)).toEqual({ ok: false, reason: "invalid_code" });
+  });
+
+  it("keeps a code usable when its redeem could not be saved", async () => {
+    const { registry, doc } = await setup();
+    const { code, memberId } = await registry.issueEnrollment("Porch camera", 60_000);
+
+    doc.failing = true;
+    await expect(registry.redeem(code)).rejects.toThrow("disk full");
+    expect(registry.get(memberId)).toBeUndefined();
+
+    doc.failing = false;
+    expect(await registry.redeem(code)).toMatchObject({ ok: true, member: { memberId } });
+  });
+
+  it("issues no code and revokes nothing that could not be saved", async () => {
+    const { registry, doc } = await setup();
+    const { code, memberId } = await registry.issueEnrollment("Porch camera", 60_000);
+    const redeemed = await registry.redeem(code);
+    const credential = redeemed.ok ? redeemed.credential : "";
+
+    doc.failing = true;
+    await expect(registry.issueEnrollment("Side gate", 60_000)).rejects.toThrow("disk full");
+    await expect(registry.revoke(memberId)).rejects.toThrow("disk full");
+
+    expect(registry.get(memberId)?.revokedAt).toBeUndefined();
+    expect(registry.verify(credential)).toMatchObject({ ok: true });
+
+    doc.failing = false;
+    await registry.issueEnrollment("Back door", 60_000);
+    expect(doc.data).toMatchObject({ enrollments: [{ label: "Back door" }] });
+  });
+});
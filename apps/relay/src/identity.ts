@@ -0,0 +1,252 @@
+import crypto from "crypto";
+import path from "path";
+import type { MemberIdentity } from "@ac/protocol";
+import { createJsonDoc, type JsonDoc } from "./jsonfile.js";
+import { log } from "./log.js";
+
+export type Member = {
+  memberId: string;
+  label: string;
+  createdAt: number;
+  revokedAt?: number;
+  credentialIds: string[]; // credentials issued to this member's devices
+};
+
+type Enrollment = {
+  codeHash: string; // sha256(code); the code itself is never stored
+  memberId: string;
+  label: string;
+  expiresAt: number;
+};
+
+export type RegistryFile = {
+  members: Member[];
+  enrollments: Enrollment[];
+};
+
+type CredentialPayload = {
+  v: 1;
+  mid: string; // memberId
+  cid: string; // credential id
+  iat: number;
+};
+
+export type VerifyResult =
+  | { ok: true; member: MemberIdentity; credentialId: string }
+  | { ok: false; reason: "unauthorized" | "revoked" };
+
+export type RedeemResult =
+  | { ok: true; member: MemberIdentity; credential: string }
+  | { ok: false; reason: "invalid_code" | "expired_code" | "revoked" };
+
+const CREDENTIAL_PREFIX = "nw1";
+
+function b64url(buf: Buffer | string): string {
+  return Buffer.from(buf).toString("base64url");
+}
+
+function sha256(s: string): string {
+  return crypto.createHash("sha256").update(s).digest("hex");
+}
+
+function randomId(bytes: number): string {
+  return crypto.randomBytes(bytes).toString("base64url");
+}
+
+/**
+ * Enrolled members, one-time enrollment codes and HMAC-signed device credentials.
+ * State is kept in memory and mirrored to a JSON document after every change.
+ */
+export class MemberRegistry {
+  private readonly members = new Map<string, Member>();
+  private enrollments: Enrollment[] = [];
+
+  constructor(
+    private readonly doc: JsonDoc<Partial<RegistryFile>>,
+    private readonly secret: string
+  ) {}
+
+  async init(): Promise<void> {
+    const data = await this.doc.read();
+    if (data) this.load(data);
+    this.doc.onRemoteChange((changed) => this.load(changed));
+  }
+
+  get size(): number {
+    return this.members.size;
+  }
+
+  list(): Member[] {
+    return Array.from(this.members.values());
+  }
+
+  get(memberId: string): Member | undefined {
+    return this.members.get(memberId);
+  }
+
+  /**
+   * Issue a one-time enrollment code. Passing an existing memberId enrolls
+   * an additional device for that member; otherwise a new member is created on redeem.
+   */
+  async issueEnrollment(
+    label: string,
+    ttlMs: number,
+    memberId?: string
+  ): Promise<{ code: string; memberId: string; expiresAt: number }> {
+    const code = randomId(12);
+    const expiresAt = Date.now() + ttlMs;
+    const id = memberId ?? `m_${randomId(9)}`;
+
+    await this.commit(() => {
+      this.enrollments = this.enrollments.filter((e) => e.expiresAt > Date.now());
+      this.enrollments.push({ codeHash: sha256(code), memberId: id, label, expiresAt });
+    });
+
+    return { code, memberId: id, expiresAt };
+  }
+
+  async redeem(code: string): Promise<RedeemResult> {
+    const hash = sha256(code);
+    const enrollment = this.enrollments.find((e) => e.codeHash === hash);
+    if (!enrollment) return { ok: false, reason: "invalid_code" };
+
+    // a code is used up by any answer but invalid_code, and only once that is saved
+    const useUp = () => {
+      this.enrollments = this.enrollments.filter((e) => e !== enrollment);
+    };
+
+    if (enrollment.expiresAt <= Date.now()) {
+      await this.commit(useUp);
+      return { ok: false, reason: "expired_code" };
+    }
+
+    if (this.members.get(enrollment.memberId)?.revokedAt) {
+      await this.commit(useUp);
+      return { ok: false, reason: "revoked" };
+    }
+
+    const cid = randomId(9);
+    const member = await this.commit(() => {
+      useUp();
+      const member = this.members.get(enrollment.memberId) ?? {
+        memberId: enrollment.memberId,
+        label: enrollment.label,
+        createdAt: Date.now(),
+        credentialIds: []
+      };
+      member.credentialIds.push(cid);
+      this.members.set(member.memberId, member);
+      return member;
+    });
+
+    return {
+      ok: true,
+      member: { memberId: member.memberId, label: member.label },
+      credential: this.sign({ v: 1, mid: member.memberId, cid, iat: Date.now() })
+    };
+  }
+
+  verify(credential: string): VerifyResult {
+    const payload = this.open(credential);
+    if (!payload) return { ok: false, reason: "unauthorized" };
+
+    const member = this.members.get(payload.mid);
+    if (!member || !member.credentialIds.includes(payload.cid)) {
+      return { ok: false, reason: member?.revokedAt ? "revoked" : "unauthorized" };
+    }
+    if (member.revokedAt) return { ok: false, reason: "revoked" };
+
+    return {
+      ok: true,
+      member: { memberId: member.memberId, label: member.label },
+      credentialId: payload.cid
+    };
+  }
+
+  /**
+   * Revoke a member: every credential they hold stops verifying.
+   * Returns false if the member is unknown.
+   */
+  async revoke(memberId: string): Promise<boolean> {
+    const member = this.members.get(memberId);
+    if (!member) return false;
+
+    await this.commit(() => {
+      member.revokedAt = member.revokedAt ?? Date.now();
+      this.enrollments = this.enrollments.filter((e) => e.memberId !== memberId);
+    });
+    return true;
+  }
+
+  /**
+   * Revoke one device credential; the member and their other devices stay enrolled.
+   * Returns the owning memberId, or undefined if no member holds the credential.
+   */
+  async revokeCredential(credentialId: string): Promise<string | undefined> {
+    const member = this.list().find((m) => m.credentialIds.includes(credentialId));
+    if (!member) return undefined;
+
+    await this.commit(() => {
+      member.credentialIds = member.credentialIds.filter((cid) => cid !== credentialId);
+    });
+    return member.memberId;
+  }
+
+  private sign(payload: CredentialPayload): string {
+    const body = b64url(JSON.stringify(payload));
+    const sig = crypto.createHmac("sha256", this.secret).update(body).digest("base64url");
+    return `${CREDENTIAL_PREFIX}.${body}.${sig}`;
+  }
+
+  private open(credential: string): CredentialPayload | null {
+    const [prefix, body, sig] = credential.split(".");
+    if (prefix !== CREDENTIAL_PREFIX || !body || !sig) return null;
+
+    const expected = crypto.createHmac("sha256", this.secret).update(body).digest();
+    const given = Buffer.from(sig, "base64url");
+    if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) return null;
+
+    try {
+      const payload = JSON.parse(Buffer.from(body, "base64url").toString("utf8")) as CredentialPayload;
+      if (payload?.v !== 1 || typeof payload.mid !== "string" || typeof payload.cid !== "string") {
+        return null;
+      }
+      return payload;
+    } catch {
+      return null;
+    }
+  }
+
+  private load(data: Partial<RegistryFile>): void {
+    this.members.clear();
+    for (const m of data.members ?? []) this.members.set(m.memberId, m);
+    this.enrollments = data.enrollments ?? [];
+  }
+
+  // apply a change and save it; when the save fails the previous state is put back
+  private async commit<T>(apply: () => T): Promise<T> {
+    const before: RegistryFile = {
+      members: this.list().map((m) => ({ ...m, credentialIds: [...m.credentialIds] })),
+      enrollments: [...this.enrollments]
+    };
+    const result = apply();
+    try {
+      await this.doc.write({ members: this.list(), enrollments: this.enrollments });
+    } catch (err) {
+      this.load(before);
+      throw err;
+    }
+    return result;
+  }
+}
+
+export function createMemberRegistry(env: NodeJS.ProcessEnv): MemberRegistry {
+  let secret = env.CREDENTIAL_SECRET ?? "";
+  if (!secret) {
+    secret = randomId(32);
+    log.warn("credential-secret-unset", { detail: "credentials will not survive a restart" });
+  }
+
+  const file = env.MEMBERS_PATH ?? "data/members.json";
+  return new MemberRegistry(createJsonDoc(env, "members", path.resolve(file), true), secret);
+}
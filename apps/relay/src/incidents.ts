@@ -0,0 +1,214 @@
+import path from "path";
+import type {
+  Incident,
+  MemberIdentity,
+  Report,
+  ReportDraft,
+  ReportState
+} from "@ac/protocol";
+import { createJsonDoc, type JsonDoc } from "./jsonfile.js";
+
+type IncidentsFile = {
+  incidents: Incident[];
+  reports: Report[];
+};
+
+/** Who is acting on a report; `dispatcher` is true for dispatcher/admin roles. */
+export type ReportActor = {
+  memberId: string;
+  label: string;
+  dispatcher: boolean;
+};
+
+export type ReportResult =
+  | { ok: true; report: Report }
+  | {
+      ok: false;
+      reason:
+        | "unknown_incident"
+        | "incident_closed"
+        | "report_exists"
+        | "unknown_report"
+        | "invalid_transition"
+        | "forbidden_role"
+        | "not_assignee"
+        | "invalid_assignee";
+    };
+
+// allowed lifecycle moves; assigned → assigned is a reassignment
+const TRANSITIONS: Record<ReportState, ReportState[]> = {
+  open: ["assigned"],
+  assigned: ["assigned", "acknowledged"],
+  acknowledged: ["done"],
+  done: []
+};
+
+/**
+ * Check a lifecycle move against the actor. Dispatchers assign; only the assignee
+ * acknowledges; the assignee or a dispatcher completes.
+ */
+function transitionDenied(
+  report: Report,
+  to: ReportState,
+  actor: ReportActor,
+  assignee: MemberIdentity | undefined
+): Extract<ReportResult, { ok: false }>["reason"] | undefined {
+  if (!TRANSITIONS[report.state].includes(to)) return "invalid_transition";
+
+  const isAssignee = report.assignee?.memberId === actor.memberId;
+  switch (to) {
+    case "assigned":
+      if (!actor.dispatcher) return "forbidden_role";
+      if (!assignee) return "invalid_assignee";
+      return undefined;
+    case "acknowledged":
+      return isAssignee ? undefined : "not_assignee";
+    case "done":
+      return isAssignee || actor.dispatcher ? undefined : "not_assignee";
+    default:
+      return "invalid_transition";
+  }
+}
+
+/**
+ * Incidents and their reports per room, mirrored to a JSON document.
+ * Reports carry their full transition history.
+ */
+export class IncidentStore {
+  private readonly incidents = new Map<string, Incident>(); // `${room}|${id}`
+  private readonly reports = new Map<string, Report>(); // `${room}|${id}`
+
+  constructor(private readonly doc: JsonDoc<Partial<IncidentsFile>>) {}
+
+  async init(): Promise<void> {
+    const data = await this.doc.read();
+    if (data) this.load(data);
+    this.doc.onRemoteChange((changed) => this.load(changed));
+  }
+
+  incidentsIn(room: string): Incident[] {
+    return Array.from(this.incidents.values()).filter((i) => i.room === room);
+  }
+
+  reportsIn(room: string): Report[] {
+    return Array.from(this.reports.values()).filter((r) => r.room === room);
+  }
+
+  incident(room: string, id: string): Incident | undefined {
+    return this.incidents.get(`${room}|${id}`);
+  }
+
+  /** Returns undefined when the id is already taken in the room. */
+  async open(incident: Incident): Promise<Incident | undefined> {
+    const key = `${incident.room}|${incident.id}`;
+    if (this.incidents.has(key)) return undefined;
+
+    await this.put(this.incidents, key, incident);
+    return incident;
+  }
+
+  async close(room: string, id: string): Promise<Incident | undefined> {
+    const incident = this.incidents.get(`${room}|${id}`);
+    if (!incident || incident.status === "closed") return undefined;
+
+    const closed: Incident = { ...incident, status: "closed", closedAt: Date.now() };
+    await this.put(this.incidents, `${room}|${id}`, closed);
+    return closed;
+  }
+
+  async file(draft: ReportDraft, author: MemberIdentity): Promise<ReportResult> {
+    const incident = this.incidents.get(`${draft.room}|${draft.incidentId}`);
+    if (!incident) return { ok: false, reason: "unknown_incident" };
+    if (incident.status === "closed") return { ok: false, reason: "incident_closed" };
+
+    const key = `${draft.room}|${draft.id}`;
+    if (this.reports.has(key)) return { ok: false, reason: "report_exists" };
+
+    const now = Date.now();
+    const report: Report = {
+      ...draft,
+      state: "open",
+      createdAt: now,
+      createdBy: author.label,
+      memberId: author.memberId,
+      updatedAt: now,
+      history: [{ to: "open", by: author.label, memberId: author.memberId, at: now }]
+    };
+
+    await this.put(this.reports, key, report);
+    return { ok: true, report };
+  }
+
+  /** `assignee` must already be resolved (and room-authorized) by the caller for → assigned. */
+  async transition(
+    room: string,
+    reportId: string,
+    to: ReportState,
+    actor: ReportActor,
+    assignee?: MemberIdentity
+  ): Promise<ReportResult> {
+    const key = `${room}|${reportId}`;
+    const report = this.reports.get(key);
+    if (!report) return { ok: false, reason: "unknown_report" };
+
+    const incident = this.incidents.get(`${room}|${report.incidentId}`);
+    if (incident?.status === "closed") return { ok: false, reason: "incident_closed" };
+
+    const denied = transitionDenied(report, to, actor, assignee);
+    if (denied) return { ok: false, reason: denied };
+
+    const now = Date.now();
+    const next: Report = {
+      ...report,
+      state: to,
+      assignee: to === "assigned" ? assignee : report.assignee,
+      updatedAt: now,
+      history: [
+        ...report.history,
+        {
+          from: report.state,
+          to,
+          by: actor.label,
+          memberId: actor.memberId,
+          at: now,
+          ...(to === "assigned" ? { assignee } : {})
+        }
+      ]
+    };
+
+    await this.put(this.reports, key, next);
+    return { ok: true, report: next };
+  }
+
+  private async put<T>(map: Map<string, T>, key: string, value: T): Promise<void> {
+    const prev = map.get(key);
+    map.set(key, value);
+    try {
+      await this.save();
+    } catch (err) {
+      // what was never saved is not served, and the retry meets the state it started from
+      if (prev) map.set(key, prev);
+      else map.delete(key);
+      throw err;
+    }
+  }
+
+  private load(data: Partial<IncidentsFile>): void {
+    this.incidents.clear();
+    this.reports.clear();
+    for (const i of data.incidents ?? []) this.incidents.set(`${i.room}|${i.id}`, i);
+    for (const r of data.reports ?? []) this.reports.set(`${r.room}|${r.id}`, r);
+  }
+
+  private async save(): Promise<void> {
+    await this.doc.write({
+      incidents: Array.from(this.incidents.values()),
+      reports: Array.from(this.reports.values())
+    });
+  }
+}
+
+export function createIncidentStore(env: NodeJS.ProcessEnv): IncidentStore {
+  const file = env.INCIDENTS_PATH ?? "data/incidents.json";
+  return new IncidentStore(createJsonDoc(env, "incidents", path.resolve(file)));
+}
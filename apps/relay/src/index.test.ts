@@ -0,0 +1,309 @@
+import { spawn, type ChildProcess } from "child_process";
+import crypto from "crypto";
+import fs from "fs";
+import { createRequire } from "module";
+import net from "net";
+import os from "os";
+import path from "path";
+import { fileURLToPath } from "url";
+import { io as connect, type Socket as ClientSocket } from "socket.io-client";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import {
+  CAPABILITIES,
+  PROTOCOL_VERSION,
+  type ChatAck,
+  type ChatEnvelope,
+  type HistoryAck,
+  type JoinAck,
+  type RosterAck
+} from "@ac/protocol";
+import { testRedis } from "../test/fake-redis.js";
+
+const ENTRY = fileURLToPath(new URL("./index.ts", import.meta.url));
+const TSX = createRequire(import.meta.url).resolve("tsx/cli");
+const START_TIMEOUT_MS = 60_000;
+const ADMIN_TOKEN = "test-admin";
+
+type Relay = { child: ChildProcess; url: string; dir: string };
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const probe = net.createServer();
+    probe.once("error", reject);
+    probe.listen(0, "127.0.0.1", () => {
+      const { port } = probe.address() as net.AddressInfo;
+      probe.close(() => resolve(port));
+    });
+  });
+}
+
+// a relay process of its own, with its own data directory, clustered through `redisUrl`
+async function startRelay(nodeId: string, redisUrl: string, prefix: string): Promise<Relay> {
+  const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), `nw-${nodeId}-`));
+  const port = await freePort();
+  const child = spawn(process.execPath, [TSX, ENTRY], {
+    cwd: dir, // every data/... path lands here
+    env: {
+      ...process.env,
+      PORT: String(port),
+      RELAY_NODE_ID: nodeId,
+      ALLOW_GUESTS: "1",
+      ADMIN_TOKEN,
+      CREDENTIAL_SECRET: "test-secret",
+      CLUSTER_BACKEND: "redis",
+      MESSAGE_STORE: "redis",
+      JSON_STORE: "redis",
+      REDIS_URL: redisUrl,
+      REDIS_PREFIX: prefix
+    },
+    stdio: ["ignore", "ignore", "pipe"]
+  });
+  let stderr = "";
+  child.stderr?.on("data", (chunk: Buffer) => (stderr += chunk.toString()));
+
+  const url = `http://127.0.0.1:${port}`;
+  const deadline = Date.now() + START_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    if (child.exitCode !== null) throw new Error(`${nodeId} exited ${child.exitCode}: ${stderr}`);
+    const ready = await fetch(`${url}/ready`).then(
+      (res) => res.ok,
+      () => false
+    );
+    if (ready) return { child, url, dir };
+    await new Promise((r) => setTimeout(r, 200));
+  }
+  child.kill();
+  throw new Error(`${nodeId} not ready after ${START_TIMEOUT_MS} ms: ${stderr}`);
+}
+
+async function stopRelay(relay: Relay): Promise<void> {
+  if (relay.child.exitCode === null) {
+    const exited = new Promise((resolve) => relay.child.once("exit", resolve));
+    relay.child.kill();
+    await exited;
+  }
+  await fs.promises.rm(relay.dir, { recursive: true, force: true });
+}
+
+function admin(relay: Relay, route: string, body?: unknown): Promise<Response> {
+  return fetch(`${relay.url}/admin${route}`, {
+    method: body === undefined ? "GET" : "POST",
+    headers: { Authorization: `Bearer ${ADMIN_TOKEN}`, "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+}
+
+// the other process hears of a change over Redis pub/sub, not within the request that made it
+async function eventually(check: () => Promise<boolean>, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await check())) {
+    if (Date.now() > deadline) throw new Error(`not true within ${timeoutMs} ms`);
+    await new Promise((r) => setTimeout(r, 50));
+  }
+}
+
+async function guest(relay: Relay): Promise<ClientSocket> {
+  const socket = connect(relay.url, {
+    transports: ["websocket"],
+    auth: { protocol: PROTOCOL_VERSION, minProtocol: PROTOCOL_VERSION, capabilities: [...CAPABILITIES] }
+  });
+  await new Promise<void>((resolve, reject) => {
+    socket.once("connect", () => resolve());
+    socket.once("connect_error", reject);
+  });
+  return socket;
+}
+
+function envelope(room: string, body: string): ChatEnvelope {
+  return { id: crypto.randomUUID(), room, from: "tester", sentAt: Date.now(), body };
+}
+
+// the chat_ack for `id`; acks for other messages are skipped
+function ackFor(socket: ClientSocket, id: string): Promise<ChatAck> {
+  return new Promise((resolve) => {
+    const onAck = (ack: ChatAck) => {
+      if (ack.id !== id) return;
+      socket.off("chat_ack", onAck);
+      resolve(ack);
+    };
+    socket.on("chat_ack", onAck);
+  });
+}
+
+function heard(socket: ClientSocket, id: string): Promise<ChatEnvelope> {
+  return new Promise((resolve) => {
+    const onChat = (msg: ChatEnvelope) => {
+      if (msg.id !== id) return;
+      socket.off("chat", onChat);
+      resolve(msg);
+    };
+    socket.on("chat", onChat);
+  });
+}
+
+describe("two relay processes clustered through Redis", () => {
+  let redis: Awaited<ReturnType<typeof testRedis>>;
+  const relays: Relay[] = [];
+  const sockets: ClientSocket[] = [];
+
+  beforeAll(async () => {
+    redis = await testRedis();
+    const prefix = `nw-test-${crypto.randomUUID()}:`;
+    // one at a time: both starting at once would only test the machine's patience
+    relays.push(await startRelay("relay-a", redis.url, prefix));
+    relays.push(await startRelay("relay-b", redis.url, prefix));
+  }, 2 * START_TIMEOUT_MS);
+
+  afterAll(async () => {
+    for (const s of sockets.splice(0)) s.close();
+    await Promise.all(relays.splice(0).map(stopRelay));
+    await redis?.stop();
+  });
+
+  async function joined(relay: Relay, room: string): Promise<ClientSocket> {
+    const socket = await guest(relay);
+    sockets.push(socket);
+    const ack = (await socket.emitWithAck("join", room)) as JoinAck;
+    expect(ack).toMatchObject({ room, ok: true });
+    return socket;
+  }
+
+  it("relays chat between members connected to different processes, in one sequence", async () => {
+    const onA = await joined(relays[0], "family");
+    const onB = await joined(relays[1], "family");
+
+    const first = envelope("family", "from a");
+    const firstOnB = heard(onB, first.id);
+    const firstAck = ackFor(onA, first.id);
+    onA.emit("chat", first);
+
+    expect(await firstAck).toEqual({ id: first.id, ok: true });
+    const relayedToB = await firstOnB;
+    expect(relayedToB).toMatchObject({ id: first.id, body: "from a" });
+
+    const second = envelope("family", "from b");
+    const secondOnA = heard(onA, second.id);
+    onB.emit("chat", second);
+    const relayedToA = await secondOnA;
+
+    expect(relayedToA.seq).toBe((relayedToB.seq ?? 0) + 1);
+  });
+
+  it("serves the same history from either process", async () => {
+    const onA = await joined(relays[0], "family");
+    const onB = await joined(relays[1], "family");
+    const sent = envelope("family", "stored once");
+    const acked = ackFor(onB, sent.id);
+    onB.emit("chat", sent);
+    expect(await acked).toEqual({ id: sent.id, ok: true });
+
+    const fromA = (await onA.emitWithAck("history", { room: "family" })) as HistoryAck;
+    const fromB = (await onB.emitWithAck("history", { room: "family" })) as HistoryAck;
+
+    expect(fromA.messages.at(-1)).toMatchObject({ id: sent.id, body: "stored once" });
+    expect(fromB.messages).toEqual(fromA.messages);
+  });
+
+  it("acks a retry that reaches the other process without relaying it twice", async () => {
+    const onA = await joined(relays[0], "family");
+    const onB = await joined(relays[1], "family");
+    const msg = envelope("family", "sent twice");
+
+    let copies = 0;
+    onB.on("chat", (m: ChatEnvelope) => void (m.id === msg.id && copies++));
+    const firstAck = ackFor(onA, msg.id);
+    onA.emit("chat", msg);
+    await firstAck;
+
+    const retryAck = ackFor(onB, msg.id);
+    onB.emit("chat", msg);
+
+    expect(await retryAck).toEqual({ id: msg.id, ok: true });
+    expect(copies).toBe(1);
+  });
+
+  it("lists members connected to either process in the roster of both", async () => {
+    const onA = await joined(relays[0], "family");
+    const onB = await joined(relays[1], "family");
+    const memberIds = async (socket: ClientSocket) => {
+      const roster = (await socket.emitWithAck("roster", "family")) as RosterAck;
+      return roster.members
+        .filter((m) => m.state !== "offline")
+        .map((m) => m.memberId)
+        .sort();
+    };
+
+    await eventually(async () => {
+      const [fromA, fromB] = await Promise.all([memberIds(onA), memberIds(onB)]);
+      return fromA.length >= 2 && fromA.join() === fromB.join();
+    });
+  });
+
+  it("opens a room created through one process on the other", async () => {
+    const created = await admin(relays[0], "/rooms", { id: "block-watch", label: "Block watch" });
+    expect(created.status).toBe(200);
+
+    await eventually(async () => {
+      const { rooms } = (await (await admin(relays[1], "/rooms")).json()) as { rooms: Array<{ id: string }> };
+      return rooms.some((r) => r.id === "block-watch");
+    });
+    await joined(relays[1], "block-watch");
+  });
+
+  it("serves an attachment uploaded to one process from the other", async () => {
+    const issued = (await (await admin(relays[0], "/enroll", { label: "Porch camera" })).json()) as {
+      code: string;
+    };
+    let credential = "";
+    await eventually(async () => {
+      const res = await fetch(`${relays[1].url}/enroll/redeem`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code: issued.code })
+      });
+      credential = ((await res.json()) as { credential?: string }).credential ?? "";
+      return res.ok;
+    });
+
+    // the credential is good on the first process once it heard of the redeem
+    const data = Buffer.from("gate left open at 22:10\n");
+    let attachment = { id: "" };
+    await eventually(async () => {
+      const uploaded = await fetch(`${relays[0].url}/attachments?room=family&name=note.txt`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${credential}`,
+          "Content-Type": "text/plain",
+          "X-Content-SHA256": crypto.createHash("sha256").update(data).digest("hex")
+        },
+        body: data
+      });
+      if (uploaded.ok) ({ attachment } = (await uploaded.json()) as { attachment: { id: string } });
+      return uploaded.ok;
+    });
+
+    let res = new Response();
+    await eventually(async () => {
+      res = await fetch(`${relays[1].url}/attachments/${attachment.id}`, {
+        headers: { Authorization: `Bearer ${credential}` }
+      });
+      return res.ok;
+    });
+    expect(Buffer.from(await res.arrayBuffer())).toEqual(data);
+  });
+
+  it("refuses chat past the burst and tells the sender how long to wait", async () => {
+    const socket = await joined(relays[0], "family");
+    const flood = Array.from({ length: 11 }, (_, i) => envelope("family", `flood ${i}`)); // burst is 10
+    const acks = flood.map((msg) => ackFor(socket, msg.id));
+    for (const msg of flood) socket.emit("chat", msg);
+
+    const refused = (await Promise.all(acks)).filter((ack) => !ack.ok);
+    expect(refused).toEqual([
+      { id: flood[10].id, ok: false, reason: "rate_limited", retryAfterMs: expect.any(Number) }
+    ]);
+    // 60 a minute: the next token is at most a second away
+    expect(refused[0].retryAfterMs).toBeGreaterThan(0);
+    expect(refused[0].retryAfterMs).toBeLessThanOrEqual(1000);
+  });
+});
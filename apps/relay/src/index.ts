@@ -1,3 +1,4 @@
+import crypto from "crypto";
 import express from "express";
 import http from "http";
 import cors from "cors";
@@ -6,10 +7,96 @@ import { z } from "zod";
 import type {
   ChatAck,
   ChatEnvelope,
+  ChatReviseAck,
   ClientToServerEvents,
+  ConnectErrorReason,
+  DeviceKeyAck,
+  EnrollRedeemResponse,
+  HistoryAck,
+  Incident,
+  IncidentAck,
+  IncidentListAck,
   JoinAck,
-  ServerToClientEvents
+  LiveSocket,
+  LocationListAck,
+  LocationRemoved,
+  MemberIdentity,
+  MemberLocation,
+  MissionPackageDraft,
+  OverlayAck,
+  OverlayFeature,
+  OverlayListAck,
+  PackageListAck,
+  PackageLoadRecord,
+  PackagePublishAck,
+  PackageStatus,
+  PresenceEntry,
+  ReceiptListAck,
+  ReceiptState,
+  ReceiptStatus,
+  RelayHello,
+  ReportAck,
+  ReportDraft,
+  Role,
+  RosterAck,
+  RoomKeyPublishAck,
+  RoomKeyState,
+  RtcPeer,
+  RtcPeersAck,
+  RtcSignalIn,
+  ServerToClientEvents,
+  TaskListAck
 } from "@ac/protocol";
+import {
+  CAPABILITIES,
+  ChatEditSchema,
+  ChatEnvelopeSchema,
+  ChatRetractSchema,
+  ClientHelloSchema,
+  DevicePublicKeySchema,
+  HistoryRequestSchema,
+  IncidentDraftSchema,
+  IncidentRefSchema,
+  LIMITS,
+  LocationUpdateSchema,
+  MIN_PROTOCOL_VERSION,
+  MissionPackageDraftSchema,
+  OverlayDeleteSchema,
+  OverlayFeatureSchema,
+  PackageLoadedSchema,
+  PresenceUpdateSchema,
+  PROTOCOL_VERSION,
+  ReceiptUpdateSchema,
+  ReportDraftSchema,
+  ReportTransitionSchema,
+  RoomKeyPublishSchema,
+  RtcPeersRequestSchema,
+  RtcSignalSchema,
+  TaskDraftSchema,
+  TaskTransitionSchema
+} from "@ac/protocol";
+import { createAdminRouter, requireAdmin } from "./admin.js";
+import { createAttachmentRouter, createAttachmentStore } from "./attachments.js";
+import { createAuditLog } from "./audit.js";
+import { createClusterBackend } from "./cluster.js";
+import { readiness } from "./health.js";
+import { createMemberRegistry, type RedeemResult } from "./identity.js";
+import { createIncidentStore, type ReportResult } from "./incidents.js";
+import { createKeyDirectory, type PublishResult } from "./keys.js";
+import { coarsen, createLocationBoard } from "./locations.js";
+import { log, requestLog } from "./log.js";
+import { METRICS_CONTENT_TYPE, RelayMetrics, timeHandlers } from "./metrics.js";
+import { createOpsMonitor } from "./ops.js";
+import { createOverlayStore, type OverlayUpsertResult } from "./overlays.js";
+import { createPackageStore, type PublishResult as PackagePublishResult } from "./packages.js";
+import { canPublish, createPolicyStore } from "./policy.js";
+import { createPresenceBoard, type PresenceChange, type PresenceSnapshot } from "./presence.js";
+import { clientAddress, createRateLimiter, type RateEvent } from "./ratelimit.js";
+import { createReceiptStore, type TrackedMessage } from "./receipts.js";
+import { createRetentionEnforcer } from "./retention.js";
+import { createRoomCatalog } from "./rooms.js";
+import { createMessageStore } from "./store.js";
+import { createTaskBoard, type TaskResult } from "./tasks.js";
 
 const PORT = Number(process.env.PORT ?? 8787);
 
@@ -19,115 +106,787 @@ const CLIENT_ORIGINS = (process.env.CLIENT_ORIGIN ??
   .map((s) => s.trim())
   .filter(Boolean);
 
-const INVITE_TOKENS = new Set(
-  (process.env.INVITE_TOKENS ?? "")
-    .split(",")
-    .map((s) => s.trim())
-    .filter(Boolean)
-);
-const REQUIRE_INVITE = INVITE_TOKENS.size > 0;
-
-const DEFAULT_ROOMS = [
-  "emergency",
-  "family",
-  "vacant-1",
-  "vacant-2",
-  "vacant-3",
-  "vacant-4"
-] as const;
-
-const ALLOWED_ROOMS = new Set(
-  (process.env.ALLOWED_ROOMS ?? DEFAULT_ROOMS.join(","))
-    .split(",")
-    .map((s) => s.trim().toLowerCase())
-    .filter(Boolean)
-);
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN ?? "";
+
+// /metrics is open unless set; then scrapers send it as a bearer token
+const METRICS_TOKEN = process.env.METRICS_TOKEN ?? "";
+
+// a caller-supplied X-Request-Id is kept when it looks like one, so logs correlate across hops
+const REQUEST_ID_PATTERN = /^[\w.-]{1,64}$/;
+
+// proxies in front of the relay whose X-Forwarded-For is believed; 0 uses the peer address
+const TRUST_PROXY = Number(process.env.TRUST_PROXY ?? 0);
+
+// dev-only: unauthenticated sockets connect as a relay-named guest
+const ALLOW_GUESTS = process.env.ALLOW_GUESTS === "1";
+
+// reject chat bodies that are not end-to-end encrypted
+const REQUIRE_E2E = process.env.REQUIRE_E2E === "1";
+
+// what this relay offers and demands at connect; attachments are refused in e2e-only mode
+const RELAY_HELLO: RelayHello = {
+  protocol: PROTOCOL_VERSION,
+  minProtocol: MIN_PROTOCOL_VERSION,
+  capabilities: CAPABILITIES.filter((c) => !(REQUIRE_E2E && c === "attachments")),
+  required: REQUIRE_E2E ? ["e2e"] : []
+};
 
 function allowedRoomsList(): string[] {
-  return Array.from(ALLOWED_ROOMS).sort();
+  return rooms.openIds();
 }
 
-const LIMITS = {
-  roomMax: 64,
-  fromMax: 64,
-  bodyMax: 2048
-} as const;
-
-const ChatEnvelopeSchema = z.object({
-  id: z.string().min(1),
-  room: z.string().min(1).max(LIMITS.roomMax),
-  from: z.string().min(1).max(LIMITS.fromMax),
-  sentAt: z.number().int().nonnegative(),
-  body: z.string().min(1).max(LIMITS.bodyMax)
-});
+// roles that publish mission packages and dispatch incident work
+// (in rooms where they have publish access)
+const DISPATCH_ROLES = new Set(["admin", "dispatcher"]);
 
 function normalizeRoom(raw: unknown): string {
   if (typeof raw !== "string") return "";
   return raw.trim().toLowerCase();
 }
 
+function extractRoom(raw: unknown): string {
+  if (!raw || typeof raw !== "object") return "";
+  const room = (raw as Record<string, unknown>).room;
+  return typeof room === "string" ? room : "";
+}
+
 function extractId(raw: unknown): string {
   if (!raw || typeof raw !== "object") return "";
   const id = (raw as Record<string, unknown>).id;
   return typeof id === "string" ? id : "";
 }
 
-// Simple dedupe (process-level)
-const SEEN_MAX = 5000;
-const seen = new Map<string, number>();
+const RedeemSchema = z.object({
+  code: z.string().trim().min(1).max(128)
+});
+
+type SocketData = {
+  member: MemberIdentity;
+  guest: boolean;
+  deviceId?: string; // credential id; guests have none and cannot hold room keys
+  away?: boolean; // last presence_update from this connection
+  connectedAt: number;
+  origin?: string;
+  ip?: string;
+  transport: string; // kept current on upgrade, so fetchSockets() sees it on every node
+  protocol: number; // from the handshake (ClientHello)
+  capabilities: string[];
+  rtcPeerId?: string; // this tab's WebRTC peer id, once it registered with rtc_peers
+};
+
+// what relay nodes tell each other through the cluster adapter: receipts and presence land on
+// whichever node the member is connected to, and every node answers for all of them
+type InterServerEvents = {
+  presence_change: (change: PresenceChange) => void;
+  presence_snapshot: (ack: (entries: PresenceSnapshot) => void) => void;
+  receipt_track: (room: string, msgId: string, senderId: string, sentAt: number) => void;
+  receipt_record: (
+    room: string,
+    ids: string[],
+    member: MemberIdentity,
+    state: ReceiptState,
+    at: number
+  ) => void;
+};
+
+const audit = createAuditLog(process.env);
+const cluster = createClusterBackend(process.env);
+const store = createMessageStore(process.env);
+const registry = createMemberRegistry(process.env);
+const rooms = createRoomCatalog(process.env);
+const policy = createPolicyStore(process.env, (room) => rooms.get(room));
+const keys = createKeyDirectory(process.env);
+const packages = createPackageStore(process.env);
+const receipts = createReceiptStore(process.env);
+const overlays = createOverlayStore(process.env);
+const incidents = createIncidentStore(process.env);
+const locations = createLocationBoard(process.env);
+const presence = createPresenceBoard(process.env);
+const attachments = createAttachmentStore(process.env);
+const limiter = createRateLimiter(process.env);
+const ops = createOpsMonitor(process.env);
+
+// gauges read the live server at scrape time; the room gauge covers catalog rooms only
+const metrics = new RelayMetrics(
+  () => io.of("/").sockets.size,
+  () => rooms.list().map((r) => [{ room: r.id }, io.of("/").adapter.rooms.get(r.id)?.size ?? 0])
+);
+
+// false until every store has loaded and the server listens
+let started = false;
+
+const retention = createRetentionEnforcer(
+  process.env,
+  store,
+  (room) => policy.retentionFor(room),
+  (purge) => {
+    log.info("purge", {
+      room: purge.room,
+      reason: purge.reason,
+      removed: purge.removed,
+      throughSeq: purge.throughSeq
+    });
+    audit.record({
+      action: "purge",
+      actor: "relay",
+      room: purge.room,
+      reason: purge.reason,
+      detail: { removed: purge.removed, throughSeq: purge.throughSeq }
+    });
+  }
+);
+
+// an issued task nobody acknowledged in time goes back to the room it was issued in
+const tasks = createTaskBoard(process.env, (task) => {
+  log.info("task-escalate", {
+    taskId: task.id,
+    room: task.room,
+    assignee: task.assignee.memberId,
+    ackDueAt: task.ackDueAt
+  });
+  audit.record({
+    action: "task_escalate",
+    actor: "relay",
+    room: task.room,
+    detail: {
+      taskId: task.id,
+      assignee: task.assignee.memberId,
+      issuer: task.memberId,
+      ackDueAt: task.ackDueAt
+    }
+  });
+  io.to(task.room).emit("task", task);
+  io.to(task.room).emit("task_escalated", task);
+});
+
+// may this (enrolled, unrevoked) member read the room under the current policy?
+function memberAllowedIn(room: string, memberId: string): boolean {
+  const m = registry.get(memberId);
+  if (!m || m.revokedAt) return false;
+  return Boolean(policy.accessFor(policy.roleFor(m, false), room));
+}
+
+// enrolled members the policy lets into the room (optionally: with publish access)
+function roomMembers(room: string, publishOnly = false): MemberIdentity[] {
+  return registry
+    .list()
+    .filter((m) => memberAllowedIn(room, m.memberId))
+    .filter((m) => !publishOnly || canPublish(policy.accessFor(policy.roleFor(m, false), room)))
+    .map((m) => ({ memberId: m.memberId, label: m.label }));
+}
+
+// a WebRTC peer as other tabs in the room see it: identity and publish access vouched for here
+function rtcPeerFor(data: SocketData, room: string): RtcPeer {
+  return {
+    peerId: data.rtcPeerId ?? "",
+    memberId: data.member.memberId,
+    label: data.member.label,
+    publish: canPublish(policy.accessFor(policy.roleFor(data.member, data.guest), room))
+  };
+}
+
+function packageStatus(room: string, packageId: string): PackageStatus | undefined {
+  const latest = packages.latest(room, packageId);
+  if (!latest) return undefined;
 
-function seenHas(id: string): boolean {
-  return seen.has(id);
+  const expected = roomMembers(room);
+
+  return {
+    room,
+    packageId,
+    latestVersion: latest.version,
+    latestHash: latest.hash,
+    loads: packages.loadsFor(room, packageId),
+    expected
+  };
+}
+
+function receiptStatus(tracked: TrackedMessage, expected = roomMembers(tracked.room)): ReceiptStatus {
+  return {
+    room: tracked.room,
+    msgId: tracked.msgId,
+    senderId: tracked.senderId,
+    receipts: tracked.receipts,
+    expected: expected.filter((m) => m.memberId !== tracked.senderId)
+  };
 }
 
-function seenAdd(id: string): void {
-  seen.set(id, Date.now());
-  while (seen.size > SEEN_MAX) {
-    const oldest = seen.keys().next().value as string | undefined;
-    if (!oldest) break;
-    seen.delete(oldest);
+async function rotateRevokedKeys(): Promise<void> {
+  const rooms = await keys.rotateWhere(memberAllowedIn);
+  for (const room of rooms) {
+    log.info("key-rotate", { room });
+    io.to(room).emit("room_keys_changed", { room });
   }
 }
 
 const app = express();
+app.set("trust proxy", TRUST_PROXY);
+
+// every request gets an id (echoed as X-Request-Id) and a logger carrying it; its latency is
+// recorded by route pattern, so ids in paths do not each become a series
+app.use((req, res, next) => {
+  const given = req.get("x-request-id");
+  const requestId = given && REQUEST_ID_PATTERN.test(given) ? given : crypto.randomUUID();
+  res.set("X-Request-Id", requestId);
+  res.locals.log = log.child({ requestId });
+
+  const start = process.hrtime.bigint();
+  res.on("finish", () => {
+    const route = req.route ? `${req.baseUrl}${String(req.route.path)}` : "unmatched";
+    const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+    metrics.httpSeconds.observe({ method: req.method, route, status: String(res.statusCode) }, seconds);
+  });
+  next();
+});
+
 app.use(cors({ origin: CLIENT_ORIGINS, credentials: true }));
-app.get("/health", (_req, res) => res.json({ ok: true }));
+app.use(express.json({ limit: "16kb" }));
+
+// liveness: the process is up and serving; says nothing about its backends (see /ready)
+app.get("/health", (_req, res) => {
+  res.json({
+    ok: true,
+    nodeId: cluster.nodeId,
+    protocol: PROTOCOL_VERSION,
+    uptimeSeconds: Math.round(process.uptime())
+  });
+});
+
+// readiness: storage and cluster backends can take traffic right now
+app.get("/ready", async (_req, res) => {
+  if (!started) {
+    res.status(503).json({ ok: false, reason: "starting" });
+    return;
+  }
+  const result = await readiness({
+    store: () => store.check(),
+    dedupe: () => cluster.dedupe.check(),
+    audit: () => audit.check(),
+    cluster: () => cluster.check()
+  });
+  if (!result.ok) {
+    const failing = Object.entries(result.checks).filter(([, c]) => !c.ok);
+    requestLog(res).warn("not-ready", { failing: failing.map(([name]) => name) });
+  }
+  res.status(result.ok ? 200 : 503).json(result);
+});
+
+app.get("/metrics", ...(METRICS_TOKEN ? [requireAdmin(METRICS_TOKEN)] : []), (_req, res) => {
+  res.type(METRICS_CONTENT_TYPE).send(metrics.registry.render());
+});
+
+app.post("/enroll/redeem", async (req, res) => {
+  const parsed = RedeemSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    const body: EnrollRedeemResponse = { ok: false, reason: "invalid_request" };
+    res.status(400).json(body);
+    return;
+  }
+
+  let result: RedeemResult;
+  try {
+    result = await registry.redeem(parsed.data.code);
+  } catch (err) {
+    // the code stays unused, so the device can try again
+    requestLog(res).error("store-error", { err: String(err) });
+    const body: EnrollRedeemResponse = { ok: false, reason: "store_error" };
+    res.status(500).json(body);
+    return;
+  }
+  if (!result.ok) {
+    requestLog(res).warn("enroll-deny", { ip: req.ip, reason: result.reason });
+    audit.record({
+      action: "enroll_deny",
+      actor: "anonymous",
+      reason: result.reason,
+      detail: { ip: req.ip }
+    });
+    const body: EnrollRedeemResponse = { ok: false, reason: result.reason };
+    res.status(403).json(body);
+    return;
+  }
+
+  requestLog(res).info("enroll", { memberId: result.member.memberId, label: result.member.label });
+  audit.record({
+    action: "enroll",
+    actor: result.member.memberId,
+    detail: { label: result.member.label }
+  });
+  const body: EnrollRedeemResponse = { ok: true, ...result.member, credential: result.credential };
+  res.json(body);
+});
 
 const server = http.createServer(app);
 
-const io = new Server<ClientToServerEvents, ServerToClientEvents>(server, {
-  cors: { origin: CLIENT_ORIGINS, credentials: true }
+const io = new Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>(
+  server,
+  {
+    cors: { origin: CLIENT_ORIGINS, credentials: true },
+    ...(cluster.adapter ? { adapter: cluster.adapter } : {})
+  }
+);
+
+// the node that took a receipt writes it out; the others only mirror it
+io.on("receipt_track", (room, msgId, senderId, sentAt) => {
+  receipts.mirror(() => receipts.track(room, msgId, senderId, sentAt));
+});
+io.on("receipt_record", (room, ids, member, state, at) => {
+  receipts.mirror(() => {
+    for (const id of ids) receipts.record(room, id, member, state, at);
+  });
+});
+io.on("presence_change", (change) => emitPresence(presence.apply(change)));
+io.on("presence_snapshot", (ack) => ack(presence.snapshot()));
+
+async function kickMember(memberId: string): Promise<number> {
+  const sockets = await io.fetchSockets();
+  let kicked = 0;
+  for (const s of sockets) {
+    if (s.data.member?.memberId !== memberId) continue;
+    s.disconnect(true);
+    kicked++;
+  }
+  return kicked;
+}
+
+function sessionFor(data: SocketData): MemberIdentity {
+  return { ...data.member, role: policy.roleFor(data.member, data.guest) };
+}
+
+function emitLocationsRemoved(removed: LocationRemoved[]): void {
+  for (const r of removed) {
+    log.info("location-drop", { room: r.room, memberId: r.memberId, reason: r.reason });
+    io.to(r.room).emit("location_removed", r);
+  }
+}
+
+setInterval(() => emitLocationsRemoved(locations.expire(Date.now())), 5000).unref();
+
+// every node holds the whole roster and tells its own sockets what changed in it
+function emitPresence(changed: PresenceEntry[]): void {
+  for (const p of changed) {
+    log.debug("presence", { room: p.room, memberId: p.memberId, state: p.state, transports: p.transports });
+    io.local.to(p.room).emit("presence", p);
+  }
+}
+
+function changePresence(change: PresenceChange): void {
+  emitPresence(presence.apply(change));
+  if (cluster.adapter) io.serverSideEmit("presence_change", change);
+}
+
+setInterval(() => emitPresence(presence.expire(Date.now())), 1000).unref();
+
+// re-apply access to live sockets: push new roles, drop rooms they can no longer read.
+// Access comes from the policy file and the room catalog (defaultAccess, frozen) together,
+// so this runs when either changes; clients rejoin on the pushed session.
+function reapplyAccess(): void {
+  rotateRevokedKeys().catch((err) => log.error("key-rotate-failed", { err: String(err) }));
+
+  for (const socket of io.of("/").sockets.values()) {
+    const session = sessionFor(socket.data);
+    socket.emit("session", session);
+
+    for (const room of socket.rooms) {
+      if (room === socket.id) continue;
+      if (policy.accessFor(session.role ?? "observer", room)) continue;
+      socket.leave(room);
+      log.info("access-leave", { socketId: socket.id, room, role: session.role });
+      emitLocationsRemoved(
+        locations.removeWhere((e) => e.socketId === socket.id && e.room === room, "stopped")
+      );
+      changePresence({ kind: "leave_room", socketId: socket.id, room, at: Date.now() });
+    }
+  }
+}
+
+policy.onChange(reapplyAccess);
+
+async function onMemberRevoked(memberId: string): Promise<number> {
+  const kicked = await kickMember(memberId);
+  await rotateRevokedKeys();
+  return kicked;
+}
+
+// one device lost: its sockets go, and rooms it held a key for are re-keyed without it
+async function onCredentialRevoked(credentialId: string): Promise<number> {
+  const sockets = await io.fetchSockets();
+  let kicked = 0;
+  for (const s of sockets) {
+    if (s.data.deviceId !== credentialId) continue;
+    s.disconnect(true);
+    kicked++;
+  }
+
+  await keys.forgetDevice(credentialId);
+  await rotateRevokedKeys();
+  return kicked;
+}
+
+async function listSockets(): Promise<LiveSocket[]> {
+  const sockets = await io.fetchSockets();
+  return sockets
+    .map((s) => ({
+      socketId: s.id,
+      memberId: s.data.member.memberId,
+      label: s.data.member.label,
+      role: policy.roleFor(s.data.member, s.data.guest),
+      guest: s.data.guest,
+      credentialId: s.data.deviceId,
+      origin: s.data.origin,
+      ip: s.data.ip,
+      transport: s.data.transport,
+      protocol: s.data.protocol,
+      capabilities: s.data.capabilities,
+      rooms: Array.from(s.rooms).filter((r) => r !== s.id),
+      connectedAt: s.data.connectedAt,
+      away: s.data.away
+    }))
+    .sort((a, b) => a.connectedAt - b.connectedAt);
+}
+
+async function kickSocket(socketId: string): Promise<boolean> {
+  const [socket] = await io.in(socketId).fetchSockets();
+  if (!socket) return false;
+  socket.disconnect(true);
+  return true;
+}
+
+// push the catalog; archived rooms lose their members (and shared positions) right away,
+// and changed defaults or freezes are enforced on every live socket like a policy reload
+rooms.onChange((catalog) => {
+  io.emit("rooms_updated", catalog);
+  limiter.setHeadroom("join", catalog.filter((r) => !r.archived).length);
+
+  for (const r of catalog) {
+    if (!r.archived) continue;
+    io.in(r.id).socketsLeave(r.id);
+    emitLocationsRemoved(locations.removeWhere((e) => e.room === r.id, "stopped"));
+    presence.dropRoom(r.id);
+  }
+
+  reapplyAccess();
 });
 
+app.use(
+  "/admin",
+  createAdminRouter({
+    adminToken: ADMIN_TOKEN,
+    registry,
+    audit,
+    rooms,
+    ops,
+    store,
+    onRevoked: onMemberRevoked,
+    onCredentialRevoked,
+    listSockets,
+    kickSocket
+  })
+);
+
+// attachments follow chat's gates: open room + publish access to upload, read access to download
+app.use(
+  "/attachments",
+  createAttachmentRouter({
+    store: attachments,
+    registry,
+    audit,
+    uploadDenied: (member, room) => {
+      if (REQUIRE_E2E) return "plaintext_not_allowed"; // the relay would see the file in the clear
+      if (!rooms.isOpen(room)) return "room_not_allowed";
+      if (!canPublish(policy.accessFor(policy.roleFor(member, false), room))) return "forbidden_role";
+      return undefined;
+    },
+    readDenied: (member, room) => (memberAllowedIn(room, member.memberId) ? undefined : "forbidden_role")
+  })
+);
+
+// protocol check first: an incompatible build hears why, whatever its credential
 io.use((socket, next) => {
-  if (!REQUIRE_INVITE) return next();
+  const parsed = ClientHelloSchema.safeParse(socket.handshake.auth ?? {});
+  const hello = parsed.success ? parsed.data : undefined;
+  const missing = RELAY_HELLO.required.filter((c) => !hello?.capabilities.includes(c));
+
+  const reason: ConnectErrorReason | undefined =
+    !hello || hello.protocol < MIN_PROTOCOL_VERSION
+      ? "client_outdated"
+      : hello.minProtocol > PROTOCOL_VERSION
+        ? "relay_outdated"
+        : missing.length
+          ? "capability_missing"
+          : undefined;
+
+  if (!hello || reason) {
+    log.warn("handshake-deny", { socketId: socket.id, reason, protocol: hello?.protocol, missing });
+    metrics.connectDenials.inc({ reason: String(reason) });
+    audit.record({
+      action: "connect_deny",
+      actor: "anonymous",
+      reason,
+      detail: { socketId: socket.id, protocol: hello?.protocol, missing: missing.join(",") || undefined }
+    });
+    return next(Object.assign(new Error(reason), { data: RELAY_HELLO }));
+  }
 
+  socket.data.protocol = hello.protocol;
+  socket.data.capabilities = hello.capabilities;
+  return next();
+});
+
+io.use((socket, next) => {
   const auth = socket.handshake.auth as Record<string, unknown> | undefined;
-  const token = typeof auth?.token === "string" ? auth.token : "";
+  const credential = typeof auth?.credential === "string" ? auth.credential : "";
+
+  if (!credential) {
+    if (!ALLOW_GUESTS) {
+      metrics.connectDenials.inc({ reason: "unauthorized" });
+      audit.record({
+        action: "connect_deny",
+        actor: "anonymous",
+        reason: "unauthorized",
+        detail: { socketId: socket.id }
+      });
+      return next(new Error("unauthorized"));
+    }
+
+    const label = `guest-${socket.id.slice(0, 6)}`;
+    socket.data.member = { memberId: label, label };
+    socket.data.guest = true;
+    return next();
+  }
 
-  if (!token || !INVITE_TOKENS.has(token)) {
-    return next(new Error("unauthorized"));
+  const verified = registry.verify(credential);
+  if (!verified.ok) {
+    log.warn("auth-deny", { socketId: socket.id, reason: verified.reason });
+    metrics.connectDenials.inc({ reason: verified.reason });
+    audit.record({
+      action: "connect_deny",
+      actor: "anonymous",
+      reason: verified.reason,
+      detail: { socketId: socket.id }
+    });
+    return next(new Error(verified.reason));
   }
 
+  socket.data.member = verified.member;
+  socket.data.guest = false;
+  socket.data.deviceId = verified.credentialId;
   return next();
 });
 
 io.on("connection", (socket) => {
   const origin = socket.handshake.headers.origin;
-  console.log(`[relay] connect id=${socket.id} origin=${origin ?? "unknown"}`);
+  const member = socket.data.member;
+  socket.data.connectedAt = Date.now();
+  socket.data.origin = origin;
+  const ip = clientAddress(
+    socket.handshake.address,
+    socket.handshake.headers["x-forwarded-for"],
+    TRUST_PROXY
+  );
+  socket.data.ip = ip;
+  socket.data.transport = socket.conn.transport.name;
 
-  if (REQUIRE_INVITE) {
-    console.log(`[relay] invite-only enabled (tokens=${INVITE_TOKENS.size})`);
-  }
-  console.log(`[relay] rooms: ${allowedRoomsList().join(", ")}`);
+  // every line about this connection carries its ids; every handler below is timed
+  const slog = log.child({ socketId: socket.id, memberId: member.memberId });
+  timeHandlers(socket, metrics.handlerSeconds);
+
+  metrics.connections.inc();
+  slog.info("connect", { origin });
+  audit.record({
+    action: "connect",
+    actor: member.memberId,
+    detail: { socketId: socket.id, origin: origin ?? "unknown", guest: socket.data.guest }
+  });
+
+  socket.emit("hello", RELAY_HELLO);
+  socket.emit("session", sessionFor(socket.data));
+  socket.emit("rooms_updated", rooms.list());
 
   socket.on("disconnect", (reason) => {
-    console.log(`[relay] disconnect id=${socket.id} reason=${reason}`);
+    slog.info("disconnect", { reason });
+    audit.record({
+      action: "disconnect",
+      actor: member.memberId,
+      reason,
+      detail: { socketId: socket.id }
+    });
+    emitLocationsRemoved(locations.removeWhere((e) => e.socketId === socket.id, "disconnected"));
+    changePresence({ kind: "disconnect", socketId: socket.id, at: Date.now() });
+    limiter.forget(socket.id);
+  });
+
+  // polling -> websocket: the roster shows the wire each connection is on
+  socket.conn.on("upgrade", () => {
+    socket.data.transport = socket.conn.transport.name;
+    changePresence({
+      kind: "transport",
+      socketId: socket.id,
+      transport: socket.conn.transport.name,
+      at: Date.now()
+    });
+  });
+
+  socket.on("presence_update", (raw) => {
+    const parsed = PresenceUpdateSchema.safeParse(raw);
+    if (!parsed.success) return;
+
+    socket.data.away = parsed.data.away;
+    changePresence({ kind: "away", socketId: socket.id, away: parsed.data.away, at: Date.now() });
+  });
+
+  socket.on("roster", (rawRoom, ack) => {
+    if (typeof ack !== "function") return;
+
+    const room = normalizeRoom(rawRoom);
+    if (!socket.rooms.has(room)) {
+      const res: RosterAck = { room, ok: false, reason: "not_in_room", members: [] };
+      ack(res);
+      return;
+    }
+
+    ack({ room, ok: true, members: presence.list(room) });
+  });
+
+  // WebRTC: the relay introduces peers of a room and forwards their signaling; what then
+  // flows over the data channels never passes through here
+  socket.on("rtc_peers", async (raw, ack) => {
+    if (typeof ack !== "function") return;
+
+    const room = normalizeRoom(extractRoom(raw));
+    const parsed = RtcPeersRequestSchema.safeParse(raw);
+    const fail = (reason: string): RtcPeersAck => ({ room, ok: false, reason, peers: [] });
+    if (!parsed.success) {
+      ack(fail(parsed.error.issues[0]?.message ?? "invalid_request"));
+      return;
+    }
+    if (!socket.rooms.has(room)) {
+      ack(fail("not_in_room"));
+      return;
+    }
+
+    const others = (await io.in(room).fetchSockets()).filter((s) => s.id !== socket.id && s.data.rtcPeerId);
+
+    // a reconnected tab keeps its peer id; nobody else may take it over
+    const { peerId } = parsed.data;
+    if (others.some((s) => s.data.rtcPeerId === peerId && s.data.member.memberId !== member.memberId)) {
+      ack(fail("peer_id_taken"));
+      return;
+    }
+
+    socket.data.rtcPeerId = peerId;
+    const peers = others.filter((s) => s.data.rtcPeerId !== peerId).map((s) => rtcPeerFor(s.data, room));
+    slog.debug("rtc-peers", { room, peerId, peers: peers.length });
+    ack({ room, ok: true, peers });
+  });
+
+  socket.on("rtc_signal", async (raw, ack) => {
+    const room = normalizeRoom(extractRoom(raw));
+
+    const retryAfterMs = rateLimited("signal", room);
+    if (retryAfterMs !== undefined) {
+      ack?.({ ok: false, reason: "rate_limited", retryAfterMs });
+      return;
+    }
+
+    const parsed = RtcSignalSchema.safeParse(raw);
+    if (!parsed.success) {
+      ack?.({ ok: false, reason: parsed.error.issues[0]?.message ?? "invalid_signal" });
+      return;
+    }
+    if (!socket.rooms.has(room)) {
+      ack?.({ ok: false, reason: "not_in_room" });
+      return;
+    }
+    if (!socket.data.rtcPeerId) {
+      ack?.({ ok: false, reason: "not_registered" });
+      return;
+    }
+
+    // the newest connection of that tab, when an old one has not timed out yet
+    const { to, kind, sdp, candidate } = parsed.data;
+    const [target] = (await io.in(room).fetchSockets())
+      .filter((s) => s.id !== socket.id && s.data.rtcPeerId === to)
+      .sort((a, b) => b.data.connectedAt - a.data.connectedAt);
+    if (!target) {
+      ack?.({ ok: false, reason: "unknown_peer" });
+      return;
+    }
+
+    if (kind !== "candidate") {
+      slog.debug(`rtc-${kind}`, { room, from: socket.data.rtcPeerId, to });
+    }
+    const signal: RtcSignalIn = {
+      room,
+      kind,
+      ...(sdp ? { sdp } : {}),
+      ...(candidate ? { candidate } : {}),
+      from: rtcPeerFor(socket.data, room)
+    };
+    target.emit("rtc_signal", signal);
+    ack?.({ ok: true });
   });
 
+  // milliseconds to wait when the request is over a limit, otherwise undefined
+  function rateLimited(event: RateEvent, rawRoom: string, msgId?: string): number | undefined {
+    const decision = limiter.check(event, {
+      socket: socket.id,
+      member: member.memberId,
+      ip
+    });
+    if (decision.ok) return undefined;
+
+    const room = rawRoom.slice(0, LIMITS.roomMax);
+    slog.warn("rate-limited", { event, room, scope: decision.scope, retryAfterMs: decision.retryAfterMs });
+    // audited once per strike, not for every request of a flood
+    if (decision.strike) {
+      audit.record({
+        action: decision.strike === "blocked" ? "rate_block" : "rate_limited",
+        actor: member.memberId,
+        room,
+        reason: decision.scope,
+        detail: {
+          socketId: socket.id,
+          event,
+          msgId,
+          ip,
+          retryAfterMs: decision.retryAfterMs
+        }
+      });
+    }
+    return decision.retryAfterMs;
+  }
+
+  function auditJoinDeny(room: string, reason: string, role?: Role): void {
+    metrics.joinDenials.inc({ reason });
+    ops.recordDenial({
+      at: Date.now(),
+      socketId: socket.id,
+      memberId: member.memberId,
+      label: member.label,
+      room,
+      reason,
+      role
+    });
+    audit.record({
+      action: "join_deny",
+      actor: member.memberId,
+      room,
+      reason,
+      detail: { socketId: socket.id, role }
+    });
+  }
+
   socket.on("join", (rawRoom, ack) => {
     const room = normalizeRoom(rawRoom);
 
+    const retryAfterMs = rateLimited("join", room);
+    if (retryAfterMs !== undefined) {
+      metrics.joinDenials.inc({ reason: "rate_limited" });
+      ack?.({ room, ok: false, reason: "rate_limited", retryAfterMs });
+      return;
+    }
+
     if (!room || room.length > LIMITS.roomMax) {
       const res: JoinAck = {
         room: room || "",
@@ -135,81 +894,1274 @@ io.on("connection", (socket) => {
         reason: "invalid_room",
         allowedRooms: allowedRoomsList()
       };
-      console.log(
-        `[relay] join-deny id=${socket.id} room=${String(rawRoom)} reason=invalid_room`
-      );
+      slog.warn("join-deny", { room: String(rawRoom), reason: "invalid_room" });
+      auditJoinDeny(String(rawRoom).slice(0, LIMITS.roomMax), "invalid_room");
       ack?.(res);
       return;
     }
 
-    if (!ALLOWED_ROOMS.has(room)) {
+    if (!rooms.isOpen(room)) {
+      const reason = rooms.get(room) ? "room_archived" : "room_not_allowed";
       const res: JoinAck = {
         room,
         ok: false,
-        reason: "room_not_allowed",
+        reason,
         allowedRooms: allowedRoomsList()
       };
-      console.log(
-        `[relay] join-deny id=${socket.id} room=${room} reason=room_not_allowed`
-      );
+      slog.warn("join-deny", { room, reason });
+      auditJoinDeny(room, reason);
       ack?.(res);
       return;
     }
 
+    const role = policy.roleFor(member, socket.data.guest);
+    const access = policy.accessFor(role, room);
+
+    if (!access) {
+      slog.warn("join-deny", { room, role, reason: "forbidden_role" });
+      auditJoinDeny(room, "forbidden_role", role);
+      ack?.({ room, ok: false, reason: "forbidden_role", allowedRooms: allowedRoomsList() });
+      return;
+    }
+
     socket.join(room);
-    console.log(`[relay] join id=${socket.id} room=${room}`);
-    ack?.({ room, ok: true });
+    slog.info("join", { room, role, access });
+    metrics.joins.inc();
+    audit.record({
+      action: "join",
+      actor: member.memberId,
+      room,
+      detail: { socketId: socket.id, role, access }
+    });
+    ack?.({ room, ok: true, access, retention: policy.retentionFor(room) });
+
+    const conn = { socketId: socket.id, transport: socket.conn.transport.name, away: socket.data.away ?? false };
+    changePresence({
+      kind: "join",
+      room,
+      member: sessionFor(socket.data),
+      guest: socket.data.guest,
+      conn,
+      at: Date.now()
+    });
+
+    notifyIfKeyless(room);
   });
 
-  socket.on("chat", (raw: ChatEnvelope) => {
-    const parsed = ChatEnvelopeSchema.safeParse(raw);
+  // ask key holders in the room to wrap the current key for this device (or mint one)
+  function notifyIfKeyless(room: string): void {
+    const deviceId = socket.data.deviceId;
+    if (!deviceId || !keys.device(deviceId)) return;
+    if (!keys.needsRotation(room) && keys.hasGrant(room, deviceId)) return;
+    socket.to(room).emit("room_keys_changed", { room });
+  }
+
+  socket.on("device_key", async (raw, ack) => {
+    if (typeof ack !== "function") return;
 
+    const deviceId = socket.data.deviceId;
+    if (!deviceId) {
+      const res: DeviceKeyAck = { ok: false, reason: "guest" };
+      ack(res);
+      return;
+    }
+
+    const parsed = DevicePublicKeySchema.safeParse(raw);
     if (!parsed.success) {
-      const msgId = extractId(raw);
-      const reason = parsed.error.issues[0]?.message ?? "invalid_message";
-      console.log(`[relay] reject id=${socket.id} msgId=${msgId} reason=${reason}`);
-      const ack: ChatAck = { id: msgId, ok: false, reason };
-      socket.emit("chat_ack", ack);
+      slog.warn("device-key-reject", { reason: "invalid_key" });
+      ack({ ok: false, reason: "invalid_key" });
       return;
     }
 
-    const msg = parsed.data;
-    const targetRoom = msg.room.trim().toLowerCase();
+    try {
+      await keys.registerDevice(deviceId, member.memberId, parsed.data);
+    } catch (err) {
+      slog.error("store-error", { deviceId, err: String(err) });
+      ack({ ok: false, reason: "store_error" });
+      return;
+    }
+    slog.info("device-key", { deviceId });
+    ack({ ok: true, deviceId });
 
-    if (!ALLOWED_ROOMS.has(targetRoom)) {
-      console.log(
-        `[relay] deny id=${socket.id} msgId=${msg.id} room=${targetRoom} reason=room_not_allowed`
-      );
-      socket.emit("chat_ack", { id: msg.id, ok: false, reason: "room_not_allowed" });
+    for (const room of socket.rooms) {
+      if (room !== socket.id) notifyIfKeyless(room);
+    }
+  });
+
+  socket.on("room_keys", (rawRoom, ack) => {
+    if (typeof ack !== "function") return;
+
+    const room = normalizeRoom(rawRoom);
+    const deny = (reason: string): RoomKeyState => ({
+      room,
+      ok: false,
+      reason,
+      rotate: false,
+      grants: [],
+      devices: []
+    });
+
+    const deviceId = socket.data.deviceId;
+    if (!deviceId || !keys.device(deviceId)) return ack(deny("no_device_key"));
+    if (!socket.rooms.has(room)) return ack(deny("not_in_room"));
+
+    ack({
+      room,
+      ok: true,
+      currentKeyId: keys.currentKeyId(room),
+      rotate: keys.needsRotation(room),
+      grants: keys.grantsFor(room, deviceId),
+      devices: keys.missingDevices(room, (memberId) => memberAllowedIn(room, memberId))
+    });
+  });
+
+  socket.on("room_key_publish", async (raw, ack) => {
+    if (typeof ack !== "function") return;
+
+    const parsed = RoomKeyPublishSchema.safeParse(raw);
+    const room = normalizeRoom(parsed.success ? parsed.data.room : extractRoom(raw));
+
+    if (!parsed.success) {
+      const reason = parsed.error.issues[0]?.message ?? "invalid_request";
+      const res: RoomKeyPublishAck = { room, ok: false, reason };
+      ack(res);
       return;
     }
 
-    if (!socket.rooms.has(targetRoom)) {
-      console.log(
-        `[relay] deny id=${socket.id} msgId=${msg.id} room=${targetRoom} reason=not_in_room`
+    const deviceId = socket.data.deviceId;
+    if (!deviceId || !keys.device(deviceId)) return ack({ room, ok: false, reason: "no_device_key" });
+    if (!socket.rooms.has(room)) return ack({ room, ok: false, reason: "not_in_room" });
+
+    const { keyId, rotate, grants } = parsed.data;
+    let result: PublishResult;
+    try {
+      result = await keys.publish(room, deviceId, keyId, rotate, grants, (memberId) =>
+        memberAllowedIn(room, memberId)
       );
-      socket.emit("chat_ack", { id: msg.id, ok: false, reason: "not_in_room" });
+    } catch (err) {
+      slog.error("store-error", { room, keyId, err: String(err) });
+      ack({ room, ok: false, reason: "store_error" });
       return;
     }
 
-    if (seenHas(msg.id)) {
-      console.log(`[relay] dedupe msgId=${msg.id} room=${targetRoom} from=${msg.from}`);
-      socket.emit("chat_ack", { id: msg.id, ok: true });
+    if (!result.ok) {
+      slog.warn("key-publish-deny", { room, keyId, reason: result.reason });
+      ack({ room, ok: false, reason: result.reason });
       return;
     }
 
-    seenAdd(msg.id);
+    slog.info("key-publish", { room, keyId, rotate, grants: result.accepted });
+    ack({ room, ok: true, accepted: result.accepted });
 
-    console.log(
-      `[relay] chat msgId=${msg.id} room=${targetRoom} from=${msg.from} sentAt=${msg.sentAt} bytes=${msg.body.length}`
-    );
+    if (rotate || result.accepted) io.to(room).emit("room_keys_changed", { room });
+  });
 
-    io.to(targetRoom).emit("chat", { ...msg, room: targetRoom });
-    socket.emit("chat_ack", { id: msg.id, ok: true });
+  socket.on("history", async (raw, ack) => {
+    if (typeof ack !== "function") return;
+
+    const parsed = HistoryRequestSchema.safeParse(raw);
+    const room = normalizeRoom(parsed.success ? parsed.data.room : extractRoom(raw));
+
+    if (!parsed.success) {
+      const reason = parsed.error.issues[0]?.message ?? "invalid_request";
+      const res: HistoryAck = { room, ok: false, reason, messages: [], hasMore: false };
+      ack(res);
+      return;
+    }
+
+    if (!socket.rooms.has(room)) {
+      slog.warn("history-deny", { room, reason: "not_in_room" });
+      ack({ room, ok: false, reason: "not_in_room", messages: [], hasMore: false });
+      return;
+    }
+
+    const { before, limit = LIMITS.historyPageDefault } = parsed.data;
+
+    try {
+      const page = await store.page(room, before, limit);
+      slog.info("history", { room, before, count: page.messages.length });
+      ack({ room, ok: true, ...page });
+    } catch (err) {
+      slog.error("history-error", { room, err: String(err) });
+      ack({ room, ok: false, reason: "store_error", messages: [], hasMore: false });
+    }
   });
-});
 
-server.listen(PORT, () => {
-  console.log(`[relay] listening on http://127.0.0.1:${PORT}`);
-  console.log(`[relay] allowing origins ${CLIENT_ORIGINS.join(", ")}`);
-});
+  socket.on("package_publish", async (raw, ack) => {
+    if (typeof ack !== "function") return;
+
+    const id = extractId(raw);
+    const size = Buffer.byteLength(JSON.stringify(raw ?? null));
+    if (size > LIMITS.packageBytesMax) {
+      const res: PackagePublishAck = { id, ok: false, reason: "package_too_large" };
+      ack(res);
+      return;
+    }
+
+    const parsed = MissionPackageDraftSchema.safeParse(raw);
+    if (!parsed.success) {
+      const reason = parsed.error.issues[0]?.message ?? "invalid_package";
+      slog.warn("package-reject", { pkg: id, reason });
+      ack({ id, ok: false, reason });
+      return;
+    }
+
+    // zod infers `content` as optional; the draft is otherwise exactly the protocol shape
+    const draft = parsed.data as MissionPackageDraft;
+    const room = normalizeRoom(draft.room);
+
+    if (!socket.rooms.has(room) || draft.room !== room) {
+      ack({ id, ok: false, reason: "not_in_room" });
+      return;
+    }
+
+    const role = policy.roleFor(member, socket.data.guest);
+    if (
+      socket.data.guest ||
+      !DISPATCH_ROLES.has(role) ||
+      !canPublish(policy.accessFor(role, room))
+    ) {
+      slog.warn("package-deny", { pkg: id, room, role, reason: "forbidden_role" });
+      ack({ id, ok: false, reason: "forbidden_role" });
+      return;
+    }
+
+    let result: PackagePublishResult;
+    try {
+      result = await packages.publish(draft, {
+        publishedBy: member.memberId,
+        publisherLabel: member.label,
+        publishedAt: Date.now()
+      });
+    } catch (err) {
+      slog.error("store-error", { pkg: `${id}@${draft.version}`, room, err: String(err) });
+      ack({ id, ok: false, reason: "store_error" });
+      return;
+    }
+
+    if (!result.ok) {
+      slog.warn("package-deny", { pkg: `${id}@${draft.version}`, room, reason: result.reason });
+      ack({ id, ok: false, reason: result.reason });
+      return;
+    }
+
+    slog.info("package", { pkg: `${id}@${draft.version}`, room, hash: draft.hash.slice(0, 12), bytes: size });
+    ack({ id, ok: true, version: draft.version });
+
+    io.to(room).emit("package", result.pkg);
+    const status = packageStatus(room, id);
+    if (status) io.to(room).emit("package_status", status);
+  });
+
+  socket.on("receipt", (raw, ack) => {
+    const parsed = ReceiptUpdateSchema.safeParse(raw);
+    if (!parsed.success) {
+      ack?.({ ok: false, reason: parsed.error.issues[0]?.message ?? "invalid_request" });
+      return;
+    }
+
+    const room = normalizeRoom(parsed.data.room);
+    if (!socket.rooms.has(room)) {
+      ack?.({ ok: false, reason: "not_in_room" });
+      return;
+    }
+
+    const now = Date.now();
+    const changed = parsed.data.ids.filter((id) => receipts.record(room, id, member, parsed.data.state, now));
+    ack?.({ ok: true });
+    if (!changed.length) return;
+    if (cluster.adapter) {
+      const by = { memberId: member.memberId, label: member.label };
+      io.serverSideEmit("receipt_record", room, changed, by, parsed.data.state, now);
+    }
+
+    const expected = roomMembers(room);
+    for (const id of changed) {
+      const tracked = receipts.get(room, id);
+      if (tracked) io.to(room).emit("receipt_status", receiptStatus(tracked, expected));
+    }
+  });
+
+  socket.on("receipts", (rawRoom, ack) => {
+    if (typeof ack !== "function") return;
+
+    const room = normalizeRoom(rawRoom);
+    if (!socket.rooms.has(room)) {
+      const res: ReceiptListAck = { room, ok: false, reason: "not_in_room", statuses: [] };
+      ack(res);
+      return;
+    }
+
+    const expected = roomMembers(room);
+    ack({ room, ok: true, statuses: receipts.inRoom(room).map((m) => receiptStatus(m, expected)) });
+  });
+
+  socket.on("packages", (rawRoom, ack) => {
+    if (typeof ack !== "function") return;
+
+    const room = normalizeRoom(rawRoom);
+    if (!socket.rooms.has(room)) {
+      const res: PackageListAck = {
+        room,
+        ok: false,
+        reason: "not_in_room",
+        packages: [],
+        statuses: []
+      };
+      ack(res);
+      return;
+    }
+
+    const latest = packages.latestInRoom(room);
+    const statuses = latest
+      .map((p) => packageStatus(room, p.id))
+      .filter((st): st is PackageStatus => !!st);
+
+    ack({ room, ok: true, packages: latest, statuses });
+  });
+
+  socket.on("package_loaded", async (raw, ack) => {
+    const parsed = PackageLoadedSchema.safeParse(raw);
+    if (!parsed.success) {
+      ack?.({ ok: false, reason: parsed.error.issues[0]?.message ?? "invalid_request" });
+      return;
+    }
+
+    const loaded = { ...parsed.data, room: normalizeRoom(parsed.data.room) };
+    if (!socket.rooms.has(loaded.room)) {
+      ack?.({ ok: false, reason: "not_in_room" });
+      return;
+    }
+
+    let record: PackageLoadRecord | undefined;
+    try {
+      record = await packages.recordLoad(loaded, member);
+    } catch (err) {
+      slog.error("store-error", {
+        pkg: `${loaded.packageId}@${loaded.version}`,
+        room: loaded.room,
+        err: String(err)
+      });
+      ack?.({ ok: false, reason: "store_error" });
+      return;
+    }
+    if (!record) {
+      ack?.({ ok: false, reason: "unknown_package" });
+      return;
+    }
+
+    slog.info("package-loaded", {
+      pkg: `${loaded.packageId}@${loaded.version}`,
+      room: loaded.room,
+      verified: record.verified
+    });
+    ack?.({ ok: true });
+
+    const status = packageStatus(loaded.room, loaded.packageId);
+    if (status) io.to(loaded.room).emit("package_status", status);
+  });
+
+  // overlays follow chat's gates: joined room + publish access; the relay stamps identity
+  function overlayDenied(room: string): string | undefined {
+    if (!rooms.isOpen(room)) return "room_not_allowed";
+    if (!socket.rooms.has(room)) return "not_in_room";
+    const role = policy.roleFor(member, socket.data.guest);
+    if (!canPublish(policy.accessFor(role, room))) return "forbidden_role";
+    return undefined;
+  }
+
+  socket.on("overlay_upsert", async (raw, ack) => {
+    const parsed = OverlayFeatureSchema.safeParse(raw);
+    const id = extractId(raw);
+
+    if (!parsed.success) {
+      const reason = parsed.error.issues[0]?.message ?? "invalid_overlay";
+      slog.warn("overlay-reject", { overlayId: id, reason });
+      const res: OverlayAck = { id, ok: false, reason };
+      ack?.(res);
+      return;
+    }
+
+    const room = normalizeRoom(parsed.data.room);
+    const denied = overlayDenied(room);
+    if (denied) {
+      slog.warn("overlay-deny", { overlayId: id, room, reason: denied });
+      ack?.({ id, ok: false, reason: denied });
+      return;
+    }
+
+    const feature: OverlayFeature = {
+      ...parsed.data,
+      room,
+      updatedAt: Date.now(),
+      updatedBy: member.label,
+      memberId: member.memberId
+    };
+
+    let result: OverlayUpsertResult;
+    try {
+      result = await overlays.upsert(feature);
+    } catch (err) {
+      slog.error("store-error", { overlayId: id, room, err: String(err) });
+      ack?.({ id, ok: false, reason: "store_error" });
+      return;
+    }
+    if (!result.ok) {
+      slog.warn("overlay-deny", { overlayId: id, room, reason: result.reason });
+      ack?.({ id, ok: false, reason: result.reason });
+      return;
+    }
+
+    slog.info("overlay-upsert", {
+      overlayId: id,
+      room,
+      layer: feature.layer,
+      type: feature.geometry.type,
+      rev: result.feature.rev
+    });
+    io.to(room).emit("overlay_upsert", result.feature);
+    ack?.({ id, ok: true, rev: result.feature.rev });
+  });
+
+  socket.on("overlay_delete", async (raw, ack) => {
+    const parsed = OverlayDeleteSchema.safeParse(raw);
+    const id = extractId(raw);
+
+    if (!parsed.success) {
+      ack?.({ id, ok: false, reason: parsed.error.issues[0]?.message ?? "invalid_request" });
+      return;
+    }
+
+    const room = normalizeRoom(parsed.data.room);
+    const denied = overlayDenied(room);
+    if (denied) {
+      slog.warn("overlay-deny", { overlayId: id, room, reason: denied });
+      ack?.({ id, ok: false, reason: denied });
+      return;
+    }
+
+    let deleted: boolean;
+    try {
+      deleted = await overlays.delete(room, id);
+    } catch (err) {
+      slog.error("store-error", { overlayId: id, room, err: String(err) });
+      ack?.({ id, ok: false, reason: "store_error" });
+      return;
+    }
+    if (!deleted) {
+      ack?.({ id, ok: false, reason: "unknown_overlay" });
+      return;
+    }
+
+    slog.info("overlay-delete", { overlayId: id, room });
+    io.to(room).emit("overlay_delete", { room, id });
+    ack?.({ id, ok: true });
+  });
+
+  socket.on("overlays", (rawRoom, ack) => {
+    if (typeof ack !== "function") return;
+
+    const room = normalizeRoom(rawRoom);
+    if (!socket.rooms.has(room)) {
+      const res: OverlayListAck = { room, ok: false, reason: "not_in_room", overlays: [] };
+      ack(res);
+      return;
+    }
+
+    ack({ room, ok: true, overlays: overlays.list(room) });
+  });
+
+  // incident writes need a joined room with publish access, like chat
+  function incidentDenied(room: string): string | undefined {
+    if (!socket.rooms.has(room)) return "not_in_room";
+    if (!canPublish(policy.accessFor(policy.roleFor(member, socket.data.guest), room))) {
+      return "forbidden_role";
+    }
+    return undefined;
+  }
+
+  function isDispatcher(room: string): boolean {
+    const role = policy.roleFor(member, socket.data.guest);
+    return !socket.data.guest && DISPATCH_ROLES.has(role) && canPublish(policy.accessFor(role, room));
+  }
+
+  socket.on("incident_open", async (raw, ack) => {
+    if (typeof ack !== "function") return;
+
+    const parsed = IncidentDraftSchema.safeParse(raw);
+    const id = extractId(raw);
+    if (!parsed.success) {
+      const reason = parsed.error.issues[0]?.message ?? "invalid_incident";
+      const res: IncidentAck = { id, ok: false, reason };
+      ack(res);
+      return;
+    }
+
+    const room = normalizeRoom(parsed.data.room);
+    const denied = incidentDenied(room);
+    if (denied) {
+      slog.warn("incident-deny", { incidentId: id, room, reason: denied });
+      ack({ id, ok: false, reason: denied });
+      return;
+    }
+
+    let incident: Incident | undefined;
+    try {
+      incident = await incidents.open({
+        ...parsed.data,
+        room,
+        status: "active",
+        createdAt: Date.now(),
+        createdBy: member.label,
+        memberId: member.memberId
+      });
+    } catch (err) {
+      slog.error("store-error", { incidentId: id, room, err: String(err) });
+      ack({ id, ok: false, reason: "store_error" });
+      return;
+    }
+    if (!incident) {
+      ack({ id, ok: false, reason: "incident_exists" });
+      return;
+    }
+
+    slog.info("incident-open", { incidentId: id, room, severity: incident.severity });
+    io.to(room).emit("incident", incident);
+    ack({ id, ok: true });
+  });
+
+  socket.on("incident_close", async (raw, ack) => {
+    if (typeof ack !== "function") return;
+
+    const parsed = IncidentRefSchema.safeParse(raw);
+    const id = extractId(raw);
+    if (!parsed.success) {
+      ack({ id, ok: false, reason: parsed.error.issues[0]?.message ?? "invalid_request" });
+      return;
+    }
+
+    const room = normalizeRoom(parsed.data.room);
+    const denied = incidentDenied(room);
+    if (denied) {
+      ack({ id, ok: false, reason: denied });
+      return;
+    }
+
+    const existing = incidents.incident(room, id);
+    if (!existing) {
+      ack({ id, ok: false, reason: "unknown_incident" });
+      return;
+    }
+    if (existing.memberId !== member.memberId && !isDispatcher(room)) {
+      slog.warn("incident-deny", { incidentId: id, room, reason: "forbidden_role" });
+      ack({ id, ok: false, reason: "forbidden_role" });
+      return;
+    }
+
+    let closed: Incident | undefined;
+    try {
+      closed = await incidents.close(room, id);
+    } catch (err) {
+      slog.error("store-error", { incidentId: id, room, err: String(err) });
+      ack({ id, ok: false, reason: "store_error" });
+      return;
+    }
+    if (!closed) {
+      ack({ id, ok: false, reason: "incident_closed" });
+      return;
+    }
+
+    slog.info("incident-close", { incidentId: id, room });
+    io.to(room).emit("incident", closed);
+    emitLocationsRemoved(
+      locations.removeWhere((e) => e.room === room && e.incidentId === id, "incident_closed")
+    );
+    ack({ id, ok: true });
+  });
+
+  socket.on("report_file", async (raw, ack) => {
+    if (typeof ack !== "function") return;
+
+    const parsed = ReportDraftSchema.safeParse(raw);
+    const id = extractId(raw);
+    if (!parsed.success) {
+      const reason = parsed.error.issues[0]?.message ?? "invalid_report";
+      slog.warn("report-reject", { reportId: id, reason });
+      const res: ReportAck = { id, ok: false, reason };
+      ack(res);
+      return;
+    }
+
+    const draft = { ...parsed.data, room: normalizeRoom(parsed.data.room) } as ReportDraft;
+    const denied = incidentDenied(draft.room);
+    if (denied) {
+      slog.warn("report-deny", { reportId: id, room: draft.room, reason: denied });
+      ack({ id, ok: false, reason: denied });
+      return;
+    }
+
+    let result: ReportResult;
+    try {
+      result = await incidents.file(draft, member);
+    } catch (err) {
+      slog.error("store-error", { reportId: id, room: draft.room, err: String(err) });
+      ack({ id, ok: false, reason: "store_error" });
+      return;
+    }
+    if (!result.ok) {
+      slog.warn("report-deny", { reportId: id, room: draft.room, reason: result.reason });
+      ack({ id, ok: false, reason: result.reason });
+      return;
+    }
+
+    slog.info("report-file", {
+      reportId: id,
+      incidentId: draft.incidentId,
+      room: draft.room,
+      template: draft.template
+    });
+    io.to(draft.room).emit("report", result.report);
+    ack({ id, ok: true, state: result.report.state });
+  });
+
+  socket.on("report_transition", async (raw, ack) => {
+    if (typeof ack !== "function") return;
+
+    const parsed = ReportTransitionSchema.safeParse(raw);
+    const id = parsed.success ? parsed.data.reportId : "";
+    if (!parsed.success) {
+      ack({ id, ok: false, reason: parsed.error.issues[0]?.message ?? "invalid_request" });
+      return;
+    }
+
+    const room = normalizeRoom(parsed.data.room);
+    const denied = incidentDenied(room);
+    if (denied) {
+      ack({ id, ok: false, reason: denied });
+      return;
+    }
+
+    // assignees must be able to act on the report: enrolled, with publish access to the room
+    const assigneeId = parsed.data.assignee;
+    const assignee = assigneeId
+      ? roomMembers(room, true).find((m) => m.memberId === assigneeId)
+      : undefined;
+    if (assigneeId && !assignee) {
+      ack({ id, ok: false, reason: "invalid_assignee" });
+      return;
+    }
+
+    let result: ReportResult;
+    try {
+      result = await incidents.transition(
+        room,
+        id,
+        parsed.data.to,
+        { memberId: member.memberId, label: member.label, dispatcher: isDispatcher(room) },
+        assignee
+      );
+    } catch (err) {
+      slog.error("store-error", { reportId: id, room, err: String(err) });
+      ack({ id, ok: false, reason: "store_error" });
+      return;
+    }
+    if (!result.ok) {
+      slog.warn("report-deny", { reportId: id, room, to: parsed.data.to, reason: result.reason });
+      ack({ id, ok: false, reason: result.reason });
+      return;
+    }
+
+    slog.info("report-transition", {
+      reportId: id,
+      room,
+      to: result.report.state,
+      assignee: result.report.assignee?.memberId
+    });
+    io.to(room).emit("report", result.report);
+    ack({ id, ok: true, state: result.report.state });
+  });
+
+  socket.on("incidents", (rawRoom, ack) => {
+    if (typeof ack !== "function") return;
+
+    const room = normalizeRoom(rawRoom);
+    if (!socket.rooms.has(room)) {
+      const res: IncidentListAck = {
+        room,
+        ok: false,
+        reason: "not_in_room",
+        incidents: [],
+        reports: [],
+        members: []
+      };
+      ack(res);
+      return;
+    }
+
+    ack({
+      room,
+      ok: true,
+      incidents: incidents.incidentsIn(room),
+      reports: incidents.reportsIn(room),
+      members: roomMembers(room, true)
+    });
+  });
+
+  socket.on("task_issue", async (raw, ack) => {
+    if (typeof ack !== "function") return;
+
+    const parsed = TaskDraftSchema.safeParse(raw);
+    const id = extractId(raw);
+    if (!parsed.success) {
+      ack({ id, ok: false, reason: parsed.error.issues[0]?.message ?? "invalid_task" });
+      return;
+    }
+
+    const room = normalizeRoom(parsed.data.room);
+    const denied = incidentDenied(room) ?? (isDispatcher(room) ? undefined : "forbidden_role");
+    if (denied) {
+      slog.warn("task-deny", { taskId: id, room, reason: denied });
+      ack({ id, ok: false, reason: denied });
+      return;
+    }
+
+    // like report assignees: enrolled, with publish access to the room
+    const assignee = roomMembers(room, true).find((m) => m.memberId === parsed.data.assigneeId);
+    if (!assignee) {
+      ack({ id, ok: false, reason: "invalid_assignee" });
+      return;
+    }
+
+    let result: TaskResult;
+    try {
+      result = await tasks.issue({ ...parsed.data, room }, member, assignee);
+    } catch (err) {
+      slog.error("store-error", { taskId: id, room, err: String(err) });
+      ack({ id, ok: false, reason: "store_error" });
+      return;
+    }
+    if (!result.ok) {
+      ack({ id, ok: false, reason: result.reason });
+      return;
+    }
+
+    slog.info("task-issue", {
+      taskId: id,
+      room,
+      assignee: assignee.memberId,
+      ackDueAt: result.task.ackDueAt
+    });
+    io.to(room).emit("task", result.task);
+    ack({ id, ok: true, state: result.task.state });
+  });
+
+  socket.on("task_transition", async (raw, ack) => {
+    if (typeof ack !== "function") return;
+
+    const parsed = TaskTransitionSchema.safeParse(raw);
+    const id = extractId(raw);
+    if (!parsed.success) {
+      ack({ id, ok: false, reason: parsed.error.issues[0]?.message ?? "invalid_request" });
+      return;
+    }
+
+    const room = normalizeRoom(parsed.data.room);
+    const denied = incidentDenied(room);
+    if (denied) {
+      ack({ id, ok: false, reason: denied });
+      return;
+    }
+
+    let result: TaskResult;
+    try {
+      result = await tasks.transition(
+        room,
+        id,
+        parsed.data.to,
+        { memberId: member.memberId, label: member.label, dispatcher: isDispatcher(room) },
+        parsed.data.note
+      );
+    } catch (err) {
+      slog.error("store-error", { taskId: id, room, err: String(err) });
+      ack({ id, ok: false, reason: "store_error" });
+      return;
+    }
+    if (!result.ok) {
+      slog.warn("task-deny", { taskId: id, room, to: parsed.data.to, reason: result.reason });
+      ack({ id, ok: false, reason: result.reason });
+      return;
+    }
+
+    slog.info("task-transition", { taskId: id, room, to: result.task.state });
+    io.to(room).emit("task", result.task);
+    ack({ id, ok: true, state: result.task.state });
+  });
+
+  socket.on("tasks", (rawRoom, ack) => {
+    if (typeof ack !== "function") return;
+
+    const room = normalizeRoom(rawRoom);
+    if (!socket.rooms.has(room)) {
+      const res: TaskListAck = { room, ok: false, reason: "not_in_room", tasks: [], members: [] };
+      ack(res);
+      return;
+    }
+
+    ack({ room, ok: true, tasks: tasks.tasksIn(room), members: roomMembers(room, true) });
+  });
+
+  // positions are coarsened here, before anyone else sees them, and never logged or stored
+  socket.on("location_update", (raw, ack) => {
+    const parsed = LocationUpdateSchema.safeParse(raw);
+    if (!parsed.success) {
+      ack?.({ ok: false, reason: parsed.error.issues[0]?.message ?? "invalid_request" });
+      return;
+    }
+
+    const update = parsed.data;
+    const room = normalizeRoom(update.room);
+
+    // stopping is always allowed
+    if (!update.sharing) {
+      const removed = locations.remove(room, member.memberId, "stopped");
+      if (removed) emitLocationsRemoved([removed]);
+      ack?.({ ok: true });
+      return;
+    }
+
+    const incident = incidents.incident(room, update.incidentId);
+    const reason =
+      incidentDenied(room) ??
+      (!incident ? "unknown_incident" : incident.status === "closed" ? "incident_closed" : undefined) ??
+      (update.until <= Date.now() ? "invalid_until" : undefined) ??
+      (update.position ? undefined : "position_required");
+
+    if (reason || !update.position) {
+      slog.warn("location-deny", { room, reason });
+      ack?.({ ok: false, reason });
+      return;
+    }
+
+    const now = Date.now();
+    const until = Math.min(update.until, now + locations.maxShareMs);
+    const { position, accuracy } = coarsen(update.position, update.precision, update.accuracy);
+
+    const loc: MemberLocation = {
+      room,
+      incidentId: update.incidentId,
+      memberId: member.memberId,
+      label: member.label,
+      position,
+      precision: update.precision,
+      accuracy,
+      updatedAt: now,
+      expiresAt: Math.min(until, now + locations.ttlMs)
+    };
+
+    const isNew = !locations.has(room, member.memberId);
+    locations.set(loc, socket.id);
+    if (isNew) {
+      slog.info("location-share", { room, incidentId: loc.incidentId, precision: loc.precision });
+    }
+
+    io.to(room).emit("location", loc);
+    ack?.({ ok: true, expiresAt: loc.expiresAt });
+  });
+
+  socket.on("locations", (rawRoom, ack) => {
+    if (typeof ack !== "function") return;
+
+    const room = normalizeRoom(rawRoom);
+    if (!socket.rooms.has(room)) {
+      const res: LocationListAck = { room, ok: false, reason: "not_in_room", locations: [] };
+      ack(res);
+      return;
+    }
+
+    ack({ room, ok: true, locations: locations.list(room) });
+  });
+
+  function rejectChat(msgId: string, room: string, reason: string): void {
+    metrics.chat.inc({ result: "rejected" });
+    metrics.chatRejections.inc({ reason });
+    audit.record({
+      action: "chat_reject",
+      actor: member.memberId,
+      room,
+      reason,
+      detail: { msgId }
+    });
+    const ack: ChatAck = { id: msgId, ok: false, reason };
+    socket.emit("chat_ack", ack);
+  }
+
+  socket.on("chat", async (raw: ChatEnvelope) => {
+    // before parsing: a flood is refused as cheaply as possible
+    const retryAfterMs = rateLimited("chat", extractRoom(raw), extractId(raw));
+    if (retryAfterMs !== undefined) {
+      metrics.chat.inc({ result: "rejected" });
+      metrics.chatRejections.inc({ reason: "rate_limited" });
+      const ack: ChatAck = { id: extractId(raw), ok: false, reason: "rate_limited", retryAfterMs };
+      socket.emit("chat_ack", ack);
+      return;
+    }
+
+    const parsed = ChatEnvelopeSchema.safeParse(raw);
+
+    if (!parsed.success) {
+      const msgId = extractId(raw);
+      const reason = parsed.error.issues[0]?.message ?? "invalid_message";
+      slog.warn("chat-reject", { msgId, reason });
+      rejectChat(msgId, extractRoom(raw), reason);
+      return;
+    }
+
+    // never trust client-supplied identity
+    const msg: ChatEnvelope = { ...parsed.data, from: member.label, memberId: member.memberId };
+    const targetRoom = msg.room.trim().toLowerCase();
+
+    if (!rooms.isOpen(targetRoom)) {
+      slog.warn("chat-deny", { msgId: msg.id, room: targetRoom, reason: "room_not_allowed" });
+      rejectChat(msg.id, targetRoom, "room_not_allowed");
+      return;
+    }
+
+    if (!socket.rooms.has(targetRoom)) {
+      slog.warn("chat-deny", { msgId: msg.id, room: targetRoom, reason: "not_in_room" });
+      rejectChat(msg.id, targetRoom, "not_in_room");
+      return;
+    }
+
+    if (!msg.enc && REQUIRE_E2E) {
+      slog.warn("chat-deny", { msgId: msg.id, room: targetRoom, reason: "plaintext_not_allowed" });
+      rejectChat(msg.id, targetRoom, "plaintext_not_allowed");
+      return;
+    }
+
+    if (msg.enc && msg.enc.keyId !== keys.currentKeyId(targetRoom)) {
+      slog.warn("chat-deny", { msgId: msg.id, room: targetRoom, keyId: msg.enc.keyId, reason: "stale_key" });
+      rejectChat(msg.id, targetRoom, "stale_key");
+      return;
+    }
+
+    const role = policy.roleFor(member, socket.data.guest);
+    if (!canPublish(policy.accessFor(role, targetRoom))) {
+      slog.warn("chat-deny", { msgId: msg.id, room: targetRoom, role, reason: "forbidden_role" });
+      rejectChat(msg.id, targetRoom, "forbidden_role");
+      return;
+    }
+
+    for (const ref of msg.attachments ?? []) {
+      const reason = attachments.check(ref, targetRoom, member.memberId);
+      if (!reason) continue;
+      slog.warn("chat-deny", { msgId: msg.id, room: targetRoom, attachment: ref.id, reason });
+      rejectChat(msg.id, targetRoom, reason);
+      return;
+    }
+    // name, type and size as the relay stored them
+    if (msg.attachments?.length) {
+      msg.attachments = msg.attachments.map((ref) => {
+        const { id, hash, name, mime, size } = attachments.get(ref.id) ?? ref;
+        return { id, hash, name, mime, size };
+      });
+    }
+
+    // a reply to a reply joins its parent's thread
+    if (msg.replyTo) {
+      try {
+        msg.replyTo = (await store.get(targetRoom, msg.replyTo))?.replyTo ?? msg.replyTo;
+      } catch (err) {
+        slog.error("store-error", { msgId: msg.id, room: targetRoom, err: String(err) });
+        rejectChat(msg.id, targetRoom, "store_error");
+        return;
+      }
+    }
+
+    let claimed: boolean;
+    try {
+      claimed = await cluster.dedupe.claim(msg.id);
+    } catch (err) {
+      slog.error("dedupe-error", { msgId: msg.id, room: targetRoom, err: String(err) });
+      rejectChat(msg.id, targetRoom, "store_error");
+      return;
+    }
+    if (!claimed) {
+      slog.info("chat-dedupe", { msgId: msg.id, room: targetRoom, from: msg.from });
+      metrics.chat.inc({ result: "deduped" });
+      audit.record({
+        action: "dedupe",
+        actor: member.memberId,
+        room: targetRoom,
+        detail: { msgId: msg.id }
+      });
+      socket.emit("chat_ack", { id: msg.id, ok: true });
+      return;
+    }
+
+    // rooms without history are relayed live only: no seq, nothing written
+    const keep = policy.retentionFor(targetRoom).keepHistory !== false;
+
+    let stored: ChatEnvelope = { ...msg, room: targetRoom };
+    try {
+      if (keep) stored = await store.append(stored);
+    } catch (err) {
+      // let the client retry (a release that fails too only delays that until the id expires)
+      await cluster.dedupe
+        .release(msg.id)
+        .catch((releaseErr) => slog.error("dedupe-error", { msgId: msg.id, err: String(releaseErr) }));
+      slog.error("store-error", { msgId: msg.id, room: targetRoom, err: String(err) });
+      rejectChat(msg.id, targetRoom, "store_error");
+      return;
+    }
+
+    slog.info("chat", {
+      msgId: msg.id,
+      room: targetRoom,
+      from: msg.from,
+      sentAt: msg.sentAt,
+      seq: stored.seq,
+      bytes: msg.body.length,
+      priority: msg.priority ?? "routine"
+    });
+
+    audit.record({
+      action: "chat",
+      actor: member.memberId,
+      room: targetRoom,
+      detail: {
+        msgId: msg.id,
+        seq: stored.seq,
+        bytes: msg.body.length,
+        e2e: Boolean(msg.enc),
+        stored: keep,
+        priority: msg.priority,
+        attachments: msg.attachments?.map((a) => a.id).join(",")
+      }
+    });
+
+    metrics.chat.inc({ result: "accepted" });
+    metrics.roomMessages.inc({ room: targetRoom });
+    metrics.roomFanout.inc({ room: targetRoom }, io.of("/").adapter.rooms.get(targetRoom)?.size ?? 0);
+
+    receipts.track(targetRoom, msg.id, member.memberId, msg.sentAt);
+    // a single node has no one to tell (and its in-memory adapter warns on every such emit)
+    if (cluster.adapter) io.serverSideEmit("receipt_track", targetRoom, msg.id, member.memberId, msg.sentAt);
+    ops.recordMessage(targetRoom, Date.now());
+    io.to(targetRoom).emit("chat", stored);
+    socket.emit("chat_ack", { id: msg.id, ok: true });
+  });
+
+  /**
+   * Shared gate of chat_edit and chat_retract: the stored message, once this socket may
+   * change it (its author, or an admin, with publish access to the room).
+   */
+  async function revisable(
+    room: string,
+    id: string
+  ): Promise<{ ok: true; current: ChatEnvelope } | { ok: false; reason: string }> {
+    if (!rooms.isOpen(room)) return { ok: false, reason: "room_not_allowed" };
+    if (!socket.rooms.has(room)) return { ok: false, reason: "not_in_room" };
+
+    const role = policy.roleFor(member, socket.data.guest);
+    if (!canPublish(policy.accessFor(role, room))) return { ok: false, reason: "forbidden_role" };
+
+    let current: ChatEnvelope | undefined;
+    try {
+      current = await store.get(room, id);
+    } catch (err) {
+      slog.error("store-error", { msgId: id, room, err: String(err) });
+      return { ok: false, reason: "store_error" };
+    }
+    if (!current) return { ok: false, reason: "unknown_message" };
+    if (current.retracted) return { ok: false, reason: "retracted" };
+
+    const isAdmin = role === "admin" && !socket.data.guest;
+    if (current.memberId !== member.memberId && !isAdmin) return { ok: false, reason: "not_author" };
+    return { ok: true, current };
+  }
+
+  function rejectRevision(
+    action: "chat_edit" | "chat_retract",
+    msgId: string,
+    room: string,
+    reason: string,
+    ack: (res: ChatReviseAck) => void
+  ): void {
+    slog.warn(`${action.replace("_", "-")}-deny`, { msgId, room, reason });
+    audit.record({ action: `${action}_reject`, actor: member.memberId, room, reason, detail: { msgId } });
+    ack({ id: msgId, ok: false, reason });
+  }
+
+  async function storeRevision(
+    action: "chat_edit" | "chat_retract",
+    next: ChatEnvelope,
+    ack: (res: ChatReviseAck) => void
+  ): Promise<void> {
+    let revised: boolean;
+    try {
+      revised = await store.revise(next);
+    } catch (err) {
+      slog.error("store-error", { msgId: next.id, room: next.room, err: String(err) });
+      ack({ id: next.id, ok: false, reason: "store_error" });
+      return;
+    }
+    if (!revised) {
+      ack({ id: next.id, ok: false, reason: "unknown_message" }); // trimmed or purged meanwhile
+      return;
+    }
+
+    slog.info(action.replace("_", "-"), {
+      msgId: next.id,
+      room: next.room,
+      rev: next.rev,
+      author: next.memberId
+    });
+    audit.record({
+      action,
+      actor: member.memberId,
+      room: next.room,
+      detail: {
+        msgId: next.id,
+        rev: next.rev,
+        author: next.memberId,
+        bytes: next.body.length,
+        e2e: Boolean(next.enc)
+      }
+    });
+
+    io.to(next.room).emit("chat_revised", next);
+    ack({ id: next.id, ok: true, rev: next.rev });
+  }
+
+  socket.on("chat_edit", async (raw, ack) => {
+    if (typeof ack !== "function") return;
+
+    const id = extractId(raw);
+    const retryAfterMs = rateLimited("chat", extractRoom(raw), id);
+    if (retryAfterMs !== undefined) {
+      ack({ id, ok: false, reason: "rate_limited", retryAfterMs });
+      return;
+    }
+
+    const parsed = ChatEditSchema.safeParse(raw);
+    if (!parsed.success) {
+      ack({ id, ok: false, reason: parsed.error.issues[0]?.message ?? "invalid_edit" });
+      return;
+    }
+
+    const edit = parsed.data;
+    const room = normalizeRoom(edit.room);
+    const checked = await revisable(room, edit.id);
+    if (!checked.ok) {
+      rejectRevision("chat_edit", id, room, checked.reason, ack);
+      return;
+    }
+
+    const { current } = checked;
+    // an encrypted message stays encrypted, under the room's current key
+    if (!edit.enc && (REQUIRE_E2E || current.enc)) {
+      rejectRevision("chat_edit", id, room, "plaintext_not_allowed", ack);
+      return;
+    }
+    if (edit.enc && edit.enc.keyId !== keys.currentKeyId(room)) {
+      rejectRevision("chat_edit", id, room, "stale_key", ack);
+      return;
+    }
+
+    const next: ChatEnvelope = {
+      ...current,
+      body: edit.body,
+      enc: edit.enc,
+      rev: (current.rev ?? 1) + 1,
+      edited: { by: member.label, memberId: member.memberId, at: Date.now() }
+    };
+    await storeRevision("chat_edit", next, ack);
+  });
+
+  socket.on("chat_retract", async (raw, ack) => {
+    if (typeof ack !== "function") return;
+
+    const id = extractId(raw);
+    const retryAfterMs = rateLimited("chat", extractRoom(raw), id);
+    if (retryAfterMs !== undefined) {
+      ack({ id, ok: false, reason: "rate_limited", retryAfterMs });
+      return;
+    }
+
+    const parsed = ChatRetractSchema.safeParse(raw);
+    if (!parsed.success) {
+      ack({ id, ok: false, reason: parsed.error.issues[0]?.message ?? "invalid_retract" });
+      return;
+    }
+
+    const room = normalizeRoom(parsed.data.room);
+    const checked = await revisable(room, parsed.data.id);
+    if (!checked.ok) {
+      rejectRevision("chat_retract", id, room, checked.reason, ack);
+      return;
+    }
+
+    // the text and attachments stay in the superseded revision, for audit only
+    const next: ChatEnvelope = {
+      ...checked.current,
+      body: "",
+      enc: undefined,
+      attachments: undefined,
+      rev: (checked.current.rev ?? 1) + 1,
+      retracted: { by: member.label, memberId: member.memberId, at: Date.now() }
+    };
+    await storeRevision("chat_retract", next, ack);
+  });
+});
+
+Promise.all([
+  store.init(),
+  registry.init(),
+  rooms.init(),
+  policy.init(),
+  keys.init(),
+  packages.init(),
+  receipts.init(),
+  attachments.init(),
+  overlays.init(),
+  incidents.init(),
+  tasks.init(),
+  audit.init(),
+  cluster.init()
+])
+  .then(() => {
+    retention.start();
+    tasks.start();
+    // a client joins every open room on connect; that should not eat the joins it is allowed
+    limiter.setHeadroom("join", rooms.openIds().length);
+    limiter.start();
+    attachments.start();
+    // nodes already running hold the roster; this one only hears of changes from now on
+    if (cluster.adapter) {
+      io.serverSideEmitWithAck("presence_snapshot").then(
+        (snapshots) => snapshots.forEach((entries) => presence.restore(entries)),
+        (err) => log.warn("presence-snapshot-failed", { err: String(err) })
+      );
+    }
+    server.listen(PORT, () => {
+      started = true;
+      log.info("listening", {
+        url: `http://127.0.0.1:${PORT}`,
+        origins: CLIENT_ORIGINS,
+        store: store.kind,
+        cluster: cluster.kind,
+        nodeId: cluster.nodeId,
+        dedupe: cluster.dedupe.kind,
+        rooms: allowedRoomsList(),
+        members: registry.size,
+        guests: ALLOW_GUESTS,
+        admin: Boolean(ADMIN_TOKEN),
+        metricsToken: Boolean(METRICS_TOKEN),
+        e2e: REQUIRE_E2E ? "required" : "optional"
+      });
+    });
+  })
+  .catch((err) => {
+    log.error("init-failed", { err: String(err) });
+    process.exit(1);
+  });
@@ -0,0 +1,93 @@
+import fs from "fs";
+import path from "path";
+import { log } from "./log.js";
+import { sharedDocs } from "./redis.js";
+
+/**
+ * Serialized write-then-rename JSON writer for one file: a crash never leaves a
+ * half-written file, and overlapping saves never race on the temp file.
+ */
+export function createJsonWriter(filePath: string, pretty = false): (data: unknown) => Promise<void> {
+  let queue: Promise<void> = Promise.resolve();
+
+  const write = async (data: unknown) => {
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    const tmp = `${filePath}.tmp`;
+    await fs.promises.writeFile(tmp, JSON.stringify(data, null, pretty ? 2 : undefined), "utf8");
+    await fs.promises.rename(tmp, filePath);
+  };
+
+  return (data) => {
+    const next = queue.then(() => write(data));
+    queue = next.catch(() => undefined); // a failed write must not wedge later ones
+    return next;
+  };
+}
+
+/** Read and parse a JSON file; undefined when it does not exist. */
+export async function readJsonFile<T>(filePath: string): Promise<T | undefined> {
+  let text: string;
+  try {
+    text = await fs.promises.readFile(filePath, "utf8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw err;
+  }
+  return JSON.parse(text) as T;
+}
+
+/**
+ * A store's state as one JSON document: a file of this relay node, or with
+ * JSON_STORE=redis a Redis key every node of a cluster shares.
+ */
+export interface JsonDoc<T> {
+  /** For logs: the file path or Redis key. */
+  readonly where: string;
+  /** The document; undefined when there is none yet. */
+  read(): Promise<T | undefined>;
+  write(data: T): Promise<void>;
+  /** `fn` gets the document each time another node changed it. */
+  onRemoteChange(fn: (data: T) => void): void;
+}
+
+export class FileJsonDoc<T> implements JsonDoc<T> {
+  private readonly writer: (data: unknown) => Promise<void>;
+
+  constructor(
+    readonly where: string,
+    pretty = false
+  ) {
+    this.writer = createJsonWriter(where, pretty);
+  }
+
+  read(): Promise<T | undefined> {
+    return readJsonFile<T>(this.where);
+  }
+
+  write(data: T): Promise<void> {
+    return this.writer(data);
+  }
+
+  onRemoteChange(): void {} // no one else writes this node's file
+}
+
+/** Whether JSON_STORE=redis, i.e. every relay node of a cluster shares the documents. */
+export function jsonStoreShared(env: NodeJS.ProcessEnv): boolean {
+  return (env.JSON_STORE ?? "file").trim().toLowerCase() === "redis";
+}
+
+/** The document `name` of JSON_STORE: `file` (default, at `filePath`) or `redis`. */
+export function createJsonDoc<T>(
+  env: NodeJS.ProcessEnv,
+  name: string,
+  filePath: string,
+  pretty = false
+): JsonDoc<T> {
+  if (jsonStoreShared(env)) return sharedDocs(env).doc<T>(name);
+
+  const kind = (env.JSON_STORE ?? "file").trim().toLowerCase();
+  if (kind !== "file") {
+    log.warn("json-store-unknown-kind", { kind, using: "file" });
+  }
+  return new FileJsonDoc<T>(filePath, pretty);
+}
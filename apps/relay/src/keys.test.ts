@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { TestDoc } from "../test/test-doc.js";
+import { KeyDirectory, type KeysFile } from "./keys.js";
+
+const anyone = () => true;
+const grant = (deviceId: string) => ({ deviceId, wrappedKey: `wrapped-for-${deviceId}`, nonce: "n" });
+
+// alice's device minted k1 for the room; bob's device still needs a grant
+async function setup(): Promise<{ keys: KeyDirectory; doc: TestDoc<Partial<KeysFile>> }> {
+  const doc = new TestDoc<Partial<KeysFile>>();
+  const keys = new KeyDirectory(doc, 5);
+  await keys.init();
+  await keys.registerDevice("d-alice", "m_alice", { kty: "EC" });
+  await keys.registerDevice("d-bob", "m_bob", { kty: "EC" });
+  await keys.publish("family", "d-alice", "k1", true, [grant("d-alice")], anyone);
+  return { keys, doc };
+}
+
+describe("KeyDirectory", () => {
+  it("keeps the first grant for a device and refuses grants under a stale key", async () => {
+    const { keys } = await setup();
+
+    expect(await keys.publish("family", "d-alice", "k1", false, [grant("d-bob")], anyone)).toEqual({
+      ok: true,
+      accepted: 1
+    });
+    expect(await keys.publish("family", "d-alice", "k1", false, [grant("d-bob")], anyone)).toEqual({
+      ok: true,
+      accepted: 0
+    });
+    expect(await keys.publish("family", "d-alice", "k0", false, [grant("d-bob")], anyone)).toEqual({
+      ok: false,
+      reason: "stale_key"
+    });
+  });
+
+  it("accepts the retry of a grant that could not be saved", async () => {
+    const { keys, doc } = await setup();
+
+    doc.failing = true;
+    await expect(keys.publish("family", "d-alice", "k1", false, [grant("d-bob")], anyone)).rejects.toThrow(
+      "disk full"
+    );
+    expect(keys.hasGrant("family", "d-bob")).toBe(false);
+
+    doc.failing = false;
+    expect(await keys.publish("family", "d-alice", "k1", false, [grant("d-bob")], anyone)).toEqual({
+      ok: true,
+      accepted: 1
+    });
+  });
+
+  it("leaves no rotation, flag or device behind when they could not be saved", async () => {
+    const { keys, doc } = await setup();
+
+    doc.failing = true;
+    await expect(keys.rotateWhere((_room, memberId) => memberId !== "m_bob")).resolves.toEqual([]);
+    await expect(keys.rotateWhere((_room, memberId) => memberId !== "m_alice")).rejects.toThrow("disk full");
+    await expect(keys.registerDevice("d-carol", "m_carol", { kty: "EC" })).rejects.toThrow("disk full");
+
+    expect(keys.needsRotation("family")).toBe(false);
+    expect(keys.device("d-carol")).toBeUndefined();
+
+    doc.failing = false;
+    await keys.rotateWhere((_room, memberId) => memberId !== "m_alice");
+    expect(keys.needsRotation("family")).toBe(true);
+    expect(await keys.publish("family", "d-bob", "k2", true, [grant("d-bob")], anyone)).toEqual({
+      ok: true,
+      accepted: 1
+    });
+    expect(keys.currentKeyId("family")).toBe("k2");
+  });
+});
@@ -0,0 +1,230 @@
+import path from "path";
+import type { DeviceKey, RoomKeyGrant } from "@ac/protocol";
+import { createJsonDoc, type JsonDoc } from "./jsonfile.js";
+
+type StoredGrant = Pick<RoomKeyGrant, "fromDeviceId" | "wrappedKey" | "nonce">;
+
+type RoomKeyRecord = {
+  keyId: string;
+  createdAt: number;
+  createdBy: string; // deviceId
+  grants: Record<string, StoredGrant>; // recipient deviceId -> grant
+};
+
+type RoomKeys = {
+  current?: string;
+  rotate: boolean;
+  keys: RoomKeyRecord[]; // oldest → newest; older keys kept so history stays readable
+};
+
+export type KeysFile = {
+  devices: Record<string, Omit<DeviceKey, "deviceId">>;
+  rooms: Record<string, RoomKeys>;
+};
+
+export type PublishResult =
+  { ok: true; accepted: number } | { ok: false; reason: "key_exists" | "stale_key" | "no_grants" };
+
+/**
+ * Device public keys and wrapped room keys. The relay only stores and routes
+ * ciphertext; it never sees a room key in the clear.
+ */
+export class KeyDirectory {
+  private devices = new Map<string, Omit<DeviceKey, "deviceId">>();
+  private rooms = new Map<string, RoomKeys>();
+  private changing: Promise<unknown> = Promise.resolve(); // one change at a time, each on the last saved
+
+  constructor(
+    private readonly doc: JsonDoc<Partial<KeysFile>>,
+    private readonly keepPerRoom: number
+  ) {}
+
+  async init(): Promise<void> {
+    const data = await this.doc.read();
+    if (data) this.load(data);
+    this.doc.onRemoteChange((changed) => this.load(changed));
+  }
+
+  registerDevice(deviceId: string, memberId: string, publicKey: JsonWebKey): Promise<void> {
+    return this.change(async () => {
+      const prev = this.devices.get(deviceId);
+      if (prev && JSON.stringify(prev.publicKey) === JSON.stringify(publicKey)) return;
+
+      await this.commit(new Map(this.devices).set(deviceId, { memberId, publicKey }), this.rooms);
+    });
+  }
+
+  /** Drop a device's public key (its credential was revoked); rooms it holds grants in then need rotation. */
+  forgetDevice(deviceId: string): Promise<void> {
+    return this.change(async () => {
+      if (!this.devices.has(deviceId)) return;
+
+      const devices = new Map(this.devices);
+      devices.delete(deviceId);
+      await this.commit(devices, this.rooms);
+    });
+  }
+
+  device(deviceId: string): DeviceKey | undefined {
+    const d = this.devices.get(deviceId);
+    return d ? { deviceId, ...d } : undefined;
+  }
+
+  currentKeyId(room: string): string | undefined {
+    return this.rooms.get(room)?.current;
+  }
+
+  needsRotation(room: string): boolean {
+    const r = this.rooms.get(room);
+    return !r?.current || r.rotate;
+  }
+
+  hasGrant(room: string, deviceId: string): boolean {
+    const r = this.rooms.get(room);
+    const rec = r?.keys.find((k) => k.keyId === r.current);
+    return Boolean(rec?.grants[deviceId]);
+  }
+
+  /** Every grant addressed to deviceId in this room, across retained keys. */
+  grantsFor(room: string, deviceId: string): RoomKeyGrant[] {
+    const out: RoomKeyGrant[] = [];
+    for (const rec of this.rooms.get(room)?.keys ?? []) {
+      const g = rec.grants[deviceId];
+      const from = g ? this.devices.get(g.fromDeviceId) : undefined;
+      if (!g || !from) continue;
+      out.push({ room, keyId: rec.keyId, deviceId, ...g, fromPublicKey: from.publicKey });
+    }
+    return out;
+  }
+
+  /** Devices (of members allowed in the room) that still lack the current key. */
+  missingDevices(room: string, allowed: (memberId: string) => boolean): DeviceKey[] {
+    const r = this.rooms.get(room);
+    const rec = r?.rotate ? undefined : r?.keys.find((k) => k.keyId === r?.current);
+
+    const out: DeviceKey[] = [];
+    for (const [deviceId, d] of this.devices) {
+      if (!allowed(d.memberId)) continue;
+      if (rec?.grants[deviceId]) continue;
+      out.push({ deviceId, ...d });
+    }
+    return out;
+  }
+
+  publish(
+    room: string,
+    fromDeviceId: string,
+    keyId: string,
+    rotate: boolean,
+    grants: Array<Pick<RoomKeyGrant, "deviceId" | "wrappedKey" | "nonce">>,
+    allowed: (memberId: string) => boolean
+  ): Promise<PublishResult> {
+    return this.change(() => this.publishNow(room, fromDeviceId, keyId, rotate, grants, allowed));
+  }
+
+  private async publishNow(
+    room: string,
+    fromDeviceId: string,
+    keyId: string,
+    rotate: boolean,
+    grants: Array<Pick<RoomKeyGrant, "deviceId" | "wrappedKey" | "nonce">>,
+    allowed: (memberId: string) => boolean
+  ): Promise<PublishResult> {
+    // a copy of the room's keys; it replaces the live one only once saved
+    const saved = this.rooms.get(room);
+    const r: RoomKeys = saved ? { ...saved, keys: [...saved.keys] } : { rotate: false, keys: [] };
+
+    let rec: RoomKeyRecord;
+    if (rotate) {
+      if (r.current && !r.rotate) return { ok: false, reason: "key_exists" };
+      rec = { keyId, createdAt: Date.now(), createdBy: fromDeviceId, grants: {} };
+    } else {
+      if (r.rotate || r.current !== keyId) return { ok: false, reason: "stale_key" };
+      const at = r.keys.findIndex((k) => k.keyId === keyId);
+      if (at === -1) return { ok: false, reason: "stale_key" };
+      rec = { ...r.keys[at], grants: { ...r.keys[at].grants } };
+      r.keys[at] = rec;
+    }
+
+    let accepted = 0;
+    for (const g of grants) {
+      const target = this.devices.get(g.deviceId);
+      if (!target || !allowed(target.memberId)) continue; // never hand keys to outsiders
+      if (rec.grants[g.deviceId]) continue; // first grant wins
+      rec.grants[g.deviceId] = { fromDeviceId, wrappedKey: g.wrappedKey, nonce: g.nonce };
+      accepted++;
+    }
+
+    if (rotate) {
+      // the minter must be able to read its own key, or the rotation is useless
+      if (!rec.grants[fromDeviceId]) return { ok: false, reason: "no_grants" };
+
+      r.keys.push(rec);
+      while (r.keys.length > this.keepPerRoom) r.keys.shift();
+      r.current = keyId;
+      r.rotate = false;
+    }
+
+    await this.commit(this.devices, new Map(this.rooms).set(room, r));
+    return { ok: true, accepted };
+  }
+
+  /**
+   * Flag rotation in every room where a device that holds the current key
+   * no longer passes `allowed`. Returns the affected rooms.
+   */
+  rotateWhere(allowed: (room: string, memberId: string) => boolean): Promise<string[]> {
+    return this.change(() => this.rotateWhereNow(allowed));
+  }
+
+  private async rotateWhereNow(allowed: (room: string, memberId: string) => boolean): Promise<string[]> {
+    const rooms = new Map(this.rooms);
+    const affected: string[] = [];
+
+    for (const [room, r] of this.rooms) {
+      if (!r.current || r.rotate) continue;
+      const rec = r.keys.find((k) => k.keyId === r.current);
+      if (!rec) continue;
+
+      const leaked = Object.keys(rec.grants).some((deviceId) => {
+        const d = this.devices.get(deviceId);
+        return !d || !allowed(room, d.memberId);
+      });
+
+      if (leaked) {
+        rooms.set(room, { ...r, rotate: true });
+        affected.push(room);
+      }
+    }
+
+    if (affected.length) await this.commit(this.devices, rooms);
+    return affected;
+  }
+
+  private load(data: Partial<KeysFile>): void {
+    this.devices = new Map(Object.entries(data.devices ?? {}));
+    this.rooms = new Map(Object.entries(data.rooms ?? {}));
+  }
+
+  private change<T>(fn: () => Promise<T>): Promise<T> {
+    const next = this.changing.then(fn);
+    this.changing = next.catch(() => undefined); // a failed change must not wedge later ones
+    return next;
+  }
+
+  // save the next state and only then make it live: a failed save leaves no grant or key
+  // behind that would refuse the retry ("first grant wins", key_exists)
+  private async commit(
+    devices: Map<string, Omit<DeviceKey, "deviceId">>,
+    rooms: Map<string, RoomKeys>
+  ): Promise<void> {
+    await this.doc.write({ devices: Object.fromEntries(devices), rooms: Object.fromEntries(rooms) });
+    this.devices = devices;
+    this.rooms = rooms;
+  }
+}
+
+export function createKeyDirectory(env: NodeJS.ProcessEnv): KeyDirectory {
+  const file = env.KEYS_PATH ?? "data/keys.json";
+  return new KeyDirectory(createJsonDoc(env, "keys", path.resolve(file)), Number(env.ROOM_KEYS_KEPT ?? 5));
+}
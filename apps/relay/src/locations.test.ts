@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import type { Position } from "@ac/protocol";
+import { coarsen } from "./locations.js";
+
+const METERS_PER_DEGREE = 111_320;
+const BERLIN: Position = [13.40495, 52.52001];
+
+// good enough over a few kilometres
+function metersBetween(a: Position, b: Position): number {
+  const dLat = (b[1] - a[1]) * METERS_PER_DEGREE;
+  const dLon = (b[0] - a[0]) * METERS_PER_DEGREE * Math.cos((a[1] * Math.PI) / 180);
+  return Math.hypot(dLat, dLon);
+}
+
+function north(p: Position, meters: number): Position {
+  return [p[0], p[1] + meters / METERS_PER_DEGREE];
+}
+
+describe("coarsen", () => {
+  it("reports an exact position as it is", () => {
+    expect(coarsen(BERLIN, "exact", 8)).toEqual({ position: BERLIN, accuracy: 8 });
+  });
+
+  it("moves a position to the centre of its 100 m cell, shared by its neighbours", () => {
+    const { position: center } = coarsen(BERLIN, "100m");
+
+    expect(metersBetween(BERLIN, center)).toBeLessThan(50 * Math.SQRT2);
+    expect(coarsen(north(center, 40), "100m").position).toEqual(center);
+    expect(coarsen(north(center, -40), "100m").position).toEqual(center);
+    // the next cell north is one cell up; its longitude grid is sized at its own latitude
+    const next = coarsen(north(center, 100), "100m").position;
+    expect((next[1] - center[1]) * METERS_PER_DEGREE).toBeCloseTo(100, 0);
+  });
+
+  it("moves a position to the centre of its 1 km cell", () => {
+    const { position: center } = coarsen(BERLIN, "1km");
+
+    expect(metersBetween(BERLIN, center)).toBeLessThan(500 * Math.SQRT2);
+    expect(coarsen(north(center, 400), "1km").position).toEqual(center);
+    expect(coarsen(north(center, -400), "1km").position).toEqual(center);
+    const next = coarsen(north(center, 1000), "1km").position;
+    expect((next[1] - center[1]) * METERS_PER_DEGREE).toBeCloseTo(1000, 0);
+  });
+
+  it("stays within ±180 longitude and ±90 latitude at the poles and the antimeridian", () => {
+    const edges: Position[] = [
+      [180, 90],
+      [-180, -90],
+      [179.99999, 89.99999],
+      [-179.99999, -89.99999],
+      [180, 0],
+      [-180, 0]
+    ];
+
+    for (const edge of edges) {
+      for (const precision of ["100m", "1km"] as const) {
+        const [lon, lat] = coarsen(edge, precision).position;
+        expect(Math.abs(lon), `${edge} ${precision}`).toBeLessThanOrEqual(180);
+        expect(Math.abs(lat), `${edge} ${precision}`).toBeLessThanOrEqual(90);
+        expect(lat * edge[1], "same hemisphere").toBeGreaterThanOrEqual(0);
+      }
+    }
+  });
+
+  it("widens the accuracy to at least the cell size, and keeps a worse one", () => {
+    expect(coarsen(BERLIN, "100m", 5).accuracy).toBe(100);
+    expect(coarsen(BERLIN, "1km", 250).accuracy).toBe(1000);
+    expect(coarsen(BERLIN, "1km").accuracy).toBe(1000);
+    expect(coarsen(BERLIN, "100m", 2500).accuracy).toBe(2500);
+  });
+});
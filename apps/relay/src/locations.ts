@@ -0,0 +1,95 @@
+import type { LocationPrecision, LocationRemoved, MemberLocation, Position } from "@ac/protocol";
+
+const METERS_PER_DEGREE = 111_320;
+
+const GRID_METERS: Record<Exclude<LocationPrecision, "exact">, number> = {
+  "100m": 100,
+  "1km": 1000
+};
+
+function snap(value: number, step: number): number {
+  return Math.floor(value / step) * step + step / 2;
+}
+
+function round6(n: number): number {
+  return Math.round(n * 1e6) / 1e6;
+}
+
+/**
+ * Apply a precision setting: coarse precisions report the center of the grid cell
+ * containing the position (so nearby updates land on the same point), with accuracy
+ * no better than the cell size.
+ */
+export function coarsen(
+  position: Position,
+  precision: LocationPrecision,
+  accuracy = 0
+): { position: Position; accuracy: number } {
+  if (precision === "exact") return { position, accuracy };
+
+  const meters = GRID_METERS[precision];
+  const latStep = meters / METERS_PER_DEGREE;
+  const lat = Math.min(90, Math.max(-90, snap(position[1], latStep)));
+
+  // longitude cells widen toward the poles; size them at the snapped latitude
+  const cosLat = Math.max(Math.cos((lat * Math.PI) / 180), 0.01);
+  const lonStep = Math.min(360, meters / (METERS_PER_DEGREE * cosLat));
+  const lon = Math.min(180, Math.max(-180, snap(position[0], lonStep)));
+
+  return { position: [round6(lon), round6(lat)], accuracy: Math.max(accuracy, meters) };
+}
+
+type Entry = MemberLocation & { socketId: string };
+
+/**
+ * Live shared positions, one per member per room. Memory only: positions are
+ * never written to disk and disappear on expiry, stop, disconnect or relay restart.
+ */
+export class LocationBoard {
+  private readonly entries = new Map<string, Entry>(); // `${room}|${memberId}`
+
+  constructor(
+    readonly ttlMs: number,
+    readonly maxShareMs: number
+  ) {}
+
+  list(room: string): MemberLocation[] {
+    return Array.from(this.entries.values())
+      .filter((e) => e.room === room)
+      .map(({ socketId: _socketId, ...loc }) => loc);
+  }
+
+  has(room: string, memberId: string): boolean {
+    return this.entries.has(`${room}|${memberId}`);
+  }
+
+  set(loc: MemberLocation, socketId: string): void {
+    this.entries.set(`${loc.room}|${loc.memberId}`, { ...loc, socketId });
+  }
+
+  remove(room: string, memberId: string, reason: LocationRemoved["reason"]): LocationRemoved | undefined {
+    return this.entries.delete(`${room}|${memberId}`) ? { room, memberId, reason } : undefined;
+  }
+
+  /** Drop entries matching `pred`, reporting one removal per entry. */
+  removeWhere(pred: (e: Entry) => boolean, reason: LocationRemoved["reason"]): LocationRemoved[] {
+    const removed: LocationRemoved[] = [];
+    for (const [key, e] of this.entries) {
+      if (!pred(e)) continue;
+      this.entries.delete(key);
+      removed.push({ room: e.room, memberId: e.memberId, reason });
+    }
+    return removed;
+  }
+
+  expire(now: number): LocationRemoved[] {
+    return this.removeWhere((e) => e.expiresAt <= now, "expired");
+  }
+}
+
+export function createLocationBoard(env: NodeJS.ProcessEnv): LocationBoard {
+  return new LocationBoard(
+    Number(env.LOCATION_TTL_SECONDS ?? 300) * 1000,
+    Number(env.LOCATION_MAX_SHARE_MINUTES ?? 480) * 60_000
+  );
+}
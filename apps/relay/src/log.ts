@@ -0,0 +1,62 @@
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+type LogValue = string | number | boolean | null | undefined | string[];
+export type LogFields = Record<string, LogValue>;
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+function isLevel(v: string): v is LogLevel {
+  return v in LEVELS;
+}
+
+/**
+ * Leveled, structured logs: one JSON object per line on stdout with `ts`, `level`, `msg`
+ * (a short kebab-case event name) and the event's fields. Child loggers stamp correlation
+ * ids (`requestId` for HTTP, `socketId` for a connection) on every line they write.
+ */
+export class Logger {
+  constructor(
+    private readonly minLevel: number,
+    private readonly bound: LogFields = {}
+  ) {}
+
+  child(fields: LogFields): Logger {
+    return new Logger(this.minLevel, { ...this.bound, ...fields });
+  }
+
+  debug(msg: string, fields?: LogFields): void {
+    this.write("debug", msg, fields);
+  }
+
+  info(msg: string, fields?: LogFields): void {
+    this.write("info", msg, fields);
+  }
+
+  warn(msg: string, fields?: LogFields): void {
+    this.write("warn", msg, fields);
+  }
+
+  error(msg: string, fields?: LogFields): void {
+    this.write("error", msg, fields);
+  }
+
+  private write(level: LogLevel, msg: string, fields?: LogFields): void {
+    if (LEVELS[level] < this.minLevel) return;
+    const line = { ts: new Date().toISOString(), level, msg, ...this.bound, ...fields };
+    process.stdout.write(JSON.stringify(line) + "\n");
+  }
+}
+
+export function createLogger(env: NodeJS.ProcessEnv): Logger {
+  const level = (env.LOG_LEVEL ?? "info").trim().toLowerCase();
+  return new Logger(LEVELS[isLevel(level) ? level : "info"]);
+}
+
+/** The relay's root logger (LOG_LEVEL: debug | info | warn | error). */
+export const log = createLogger(process.env);
+
+/** The logger an HTTP handler should use: the request's, carrying its requestId. */
+export function requestLog(res: { locals: Record<string, unknown> }): Logger {
+  const bound = res.locals.log;
+  return bound instanceof Logger ? bound : log;
+}
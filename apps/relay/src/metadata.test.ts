@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { jpeg, png, PNG_SIGNATURE, webp, XMP } from "../test/images.js";
+import { sniffMime, stripMetadata } from "./metadata.js";
+
+const SOI = Buffer.from([0xff, 0xd8]);
+
+function stripped(mime: string, file: Buffer): { data: Buffer; removed: string[] } {
+  const result = stripMetadata(mime, file);
+  if (!result.ok) throw new Error(result.reason);
+  return { data: result.data, removed: [...result.removed].sort() };
+}
+
+describe("stripMetadata", () => {
+  it("drops a JPEG's EXIF, GPS, XMP and comment but keeps its orientation and image data", () => {
+    const { file, jfif, quant, scan, gps } = jpeg(6);
+    const { data, removed } = stripped("image/jpeg", file);
+
+    expect(removed).toEqual(["comment", "exif", "xmp"]);
+    expect(data.subarray(0, 2 + jfif.length)).toEqual(Buffer.concat([SOI, jfif]));
+    expect(data.subarray(data.length - quant.length - scan.length)).toEqual(Buffer.concat([quant, scan]));
+
+    const exif = data.subarray(2 + jfif.length, data.length - quant.length - scan.length);
+    expect(exif.toString("latin1", 4, 10)).toBe("Exif\0\0");
+    expect(exif.includes(Buffer.from([0x01, 0x12, 0, 3, 0, 0, 0, 1, 0, 6]))).toBe(true);
+    expect(data.includes(gps)).toBe(false);
+    expect(data.includes(XMP)).toBe(false);
+    expect(data.includes("Elm Street")).toBe(false);
+  });
+
+  it("leaves no EXIF in a JPEG whose orientation is the default", () => {
+    const { file, jfif, quant, scan } = jpeg(1);
+
+    expect(stripped("image/jpeg", file).data).toEqual(Buffer.concat([SOI, jfif, quant, scan]));
+  });
+
+  it("keeps only a PNG's header, pixels and end", () => {
+    const { file, ihdr, idat, iend } = png();
+    const { data, removed } = stripped("image/png", file);
+
+    expect(removed).toEqual(["exif", "text", "time"]);
+    expect(data).toEqual(Buffer.concat([PNG_SIGNATURE, ihdr, idat, iend]));
+  });
+
+  it("drops a WebP's EXIF and XMP chunks and their flags, and resizes the RIFF", () => {
+    const { file, stripped: expected, image } = webp();
+    const { data, removed } = stripped("image/webp", file);
+
+    expect(removed).toEqual(["exif", "xmp"]);
+    expect(data).toEqual(expected);
+    expect(data.includes(image)).toBe(true);
+    expect(data.readUInt32LE(4)).toBe(data.length - 8);
+  });
+
+  it("refuses truncated and malformed images", () => {
+    const truncated = [
+      ["image/jpeg", jpeg().file.subarray(0, 30)],
+      ["image/jpeg", Buffer.concat([SOI, Buffer.from("not a segment")])],
+      ["image/jpeg", Buffer.from([0xff, 0xd8, 0xff])],
+      ["image/png", png().file.subarray(0, 50)],
+      ["image/png", Buffer.concat([PNG_SIGNATURE, Buffer.from([0, 0, 0])])],
+      ["image/webp", webp().file.subarray(0, 40)],
+      ["image/webp", Buffer.concat([webp().file.subarray(0, 12), Buffer.from("VP8")])]
+    ] as const;
+
+    for (const [mime, file] of truncated) {
+      expect(stripMetadata(mime, file), mime).toEqual({ ok: false, reason: "invalid_image" });
+    }
+  });
+
+  it("passes other types through", () => {
+    const text = Buffer.from("gate left open\n");
+
+    expect(stripMetadata("text/plain", text)).toEqual({ ok: true, data: text, removed: [] });
+  });
+});
+
+describe("sniffMime", () => {
+  it("goes by content, not by what the upload claims", () => {
+    expect(sniffMime(jpeg().file)).toBe("image/jpeg");
+    expect(sniffMime(png().file)).toBe("image/png");
+    expect(sniffMime(webp().file)).toBe("image/webp");
+    expect(sniffMime(Buffer.from("%PDF-1.7\n"))).toBe("application/pdf");
+    expect(sniffMime(Buffer.from("plain words"))).toBe("text/plain");
+    expect(sniffMime(Buffer.from([0xc3, 0x28]))).toBeUndefined();
+  });
+});
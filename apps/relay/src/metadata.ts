@@ -0,0 +1,198 @@
+/**
+ * Content sniffing and metadata stripping for uploaded files, without image libraries:
+ * JPEG, PNG and WebP are rewritten segment by segment (pixels are copied untouched).
+ */
+
+export type StripResult =
+  | { ok: true; data: Buffer; removed: string[] }
+  | { ok: false; reason: "invalid_image" };
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/** The MIME type the bytes look like, for the types we accept; undefined when unrecognized. */
+export function sniffMime(data: Buffer): string | undefined {
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return "image/jpeg";
+  if (data.subarray(0, 8).equals(PNG_SIGNATURE)) return "image/png";
+  if (data.toString("latin1", 0, 4) === "RIFF" && data.toString("latin1", 8, 12) === "WEBP") return "image/webp";
+  if (data.toString("latin1", 0, 5) === "%PDF-") return "application/pdf";
+
+  // plain text: valid UTF-8 without NUL bytes
+  if (data.includes(0)) return undefined;
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(data);
+    return "text/plain";
+  } catch {
+    return undefined;
+  }
+}
+
+/** Remove identifying metadata (EXIF incl. GPS, XMP, IPTC, comments, text chunks). Other types pass through. */
+export function stripMetadata(mime: string, data: Buffer): StripResult {
+  try {
+    if (mime === "image/jpeg") return stripJpeg(data);
+    if (mime === "image/png") return stripPng(data);
+    if (mime === "image/webp") return stripWebp(data);
+  } catch {
+    return { ok: false, reason: "invalid_image" };
+  }
+  return { ok: true, data, removed: [] };
+}
+
+// APP0 (JFIF), APP2 (ICC profile) and APP14 (Adobe color transform) affect how pixels render
+const JPEG_KEEP_APP = new Set([0xe0, 0xe2, 0xee]);
+
+const JPEG_LABELS: Record<number, string> = { 0xe1: "exif", 0xed: "iptc", 0xfe: "comment" };
+
+function stripJpeg(data: Buffer): StripResult {
+  const out: Buffer[] = [data.subarray(0, 2)];
+  const removed = new Set<string>();
+  let orientation: number | undefined;
+  let pos = 2;
+
+  while (pos < data.length) {
+    if (data[pos] !== 0xff) return { ok: false, reason: "invalid_image" };
+    const marker = data[pos + 1];
+
+    // fill bytes and standalone markers carry no length
+    if (marker === 0xff) {
+      pos++;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      out.push(data.subarray(pos, pos + 2));
+      pos += 2;
+      continue;
+    }
+
+    const len = data.readUInt16BE(pos + 2);
+    const end = pos + 2 + len;
+    if (len < 2 || end > data.length) return { ok: false, reason: "invalid_image" };
+
+    // start of scan: entropy-coded data runs to the end
+    if (marker === 0xda) {
+      out.push(data.subarray(pos));
+      break;
+    }
+
+    const isApp = marker >= 0xe0 && marker <= 0xef;
+    if ((isApp && !JPEG_KEEP_APP.has(marker)) || marker === 0xfe) {
+      const payload = data.subarray(pos + 4, end);
+      if (marker === 0xe1 && payload.toString("latin1", 0, 6) === "Exif\0\0") {
+        orientation ??= exifOrientation(payload.subarray(6));
+      }
+      const xmp = marker === 0xe1 && payload.toString("latin1", 0, 4) === "http";
+      removed.add(xmp ? "xmp" : (JPEG_LABELS[marker] ?? "app_segment"));
+    } else {
+      out.push(data.subarray(pos, end));
+    }
+    pos = end;
+  }
+
+  // keep the one tag that changes how the photo displays
+  if (orientation && orientation !== 1) {
+    const afterJfif = out[1]?.[1] === 0xe0 ? 2 : 1;
+    out.splice(afterJfif, 0, orientationSegment(orientation));
+  }
+
+  return { ok: true, data: Buffer.concat(out), removed: Array.from(removed) };
+}
+
+// Orientation (0x0112) from IFD0 of a TIFF-structured EXIF block
+function exifOrientation(tiff: Buffer): number | undefined {
+  if (tiff.length < 8) return undefined;
+  const le = tiff.toString("latin1", 0, 2) === "II";
+  const u16 = (o: number) => (le ? tiff.readUInt16LE(o) : tiff.readUInt16BE(o));
+  const u32 = (o: number) => (le ? tiff.readUInt32LE(o) : tiff.readUInt32BE(o));
+
+  const ifd = u32(4);
+  if (ifd + 2 > tiff.length) return undefined;
+  const count = u16(ifd);
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > tiff.length) return undefined;
+    if (u16(entry) === 0x0112) return u16(entry + 8);
+  }
+  return undefined;
+}
+
+// APP1 "Exif" with a single IFD0 entry: Orientation (SHORT)
+function orientationSegment(orientation: number): Buffer {
+  const seg = Buffer.alloc(2 + 2 + 6 + 8 + 2 + 12 + 4);
+  let o = 0;
+  o = seg.writeUInt16BE(0xffe1, o);
+  o = seg.writeUInt16BE(seg.length - 2, o);
+  o += seg.write("Exif\0\0", o, "latin1");
+  o += seg.write("MM", o, "latin1");
+  o = seg.writeUInt16BE(42, o);
+  o = seg.writeUInt32BE(8, o); // IFD0 offset
+  o = seg.writeUInt16BE(1, o); // entry count
+  o = seg.writeUInt16BE(0x0112, o);
+  o = seg.writeUInt16BE(3, o); // SHORT
+  o = seg.writeUInt32BE(1, o);
+  o = seg.writeUInt16BE(orientation, o);
+  o += 2; // value padding
+  seg.writeUInt32BE(0, o); // no next IFD
+  return seg;
+}
+
+const PNG_DROP: Record<string, string> = {
+  eXIf: "exif",
+  tEXt: "text",
+  zTXt: "text",
+  iTXt: "text", // also where XMP lives
+  tIME: "time"
+};
+
+function stripPng(data: Buffer): StripResult {
+  const out: Buffer[] = [data.subarray(0, 8)];
+  const removed = new Set<string>();
+  let pos = 8;
+
+  while (pos < data.length) {
+    if (pos + 12 > data.length) return { ok: false, reason: "invalid_image" };
+    const len = data.readUInt32BE(pos);
+    const type = data.toString("latin1", pos + 4, pos + 8);
+    const end = pos + 12 + len;
+    if (end > data.length) return { ok: false, reason: "invalid_image" };
+
+    if (PNG_DROP[type]) removed.add(PNG_DROP[type]);
+    else out.push(data.subarray(pos, end));
+
+    pos = end;
+    if (type === "IEND") break;
+  }
+
+  return { ok: true, data: Buffer.concat(out), removed: Array.from(removed) };
+}
+
+const WEBP_DROP: Record<string, string> = { EXIF: "exif", "XMP ": "xmp" };
+
+function stripWebp(data: Buffer): StripResult {
+  const chunks: Buffer[] = [];
+  const removed = new Set<string>();
+  let pos = 12;
+
+  while (pos < data.length) {
+    if (pos + 8 > data.length) return { ok: false, reason: "invalid_image" };
+    const type = data.toString("latin1", pos, pos + 4);
+    const size = data.readUInt32LE(pos + 4);
+    const end = Math.min(data.length, pos + 8 + size + (size % 2));
+    if (pos + 8 + size > data.length) return { ok: false, reason: "invalid_image" };
+
+    if (WEBP_DROP[type]) {
+      removed.add(WEBP_DROP[type]);
+    } else {
+      const chunk = Buffer.from(data.subarray(pos, end));
+      if (type === "VP8X") chunk[8] &= ~0x0c; // clear the EXIF and XMP flags
+      chunks.push(chunk);
+    }
+    pos = end;
+  }
+
+  const body = Buffer.concat(chunks);
+  const header = Buffer.alloc(12);
+  header.write("RIFF", 0, "latin1");
+  header.writeUInt32LE(body.length + 4, 4);
+  header.write("WEBP", 8, "latin1");
+  return { ok: true, data: Buffer.concat([header, body]), removed: Array.from(removed) };
+}
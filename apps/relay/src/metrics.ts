@@ -0,0 +1,204 @@
+type Labels = Record<string, string>;
+
+// seconds; socket handlers are mostly sub-millisecond, history pages and file writes are not
+const DEFAULT_BUCKETS = [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5];
+
+function escapeLabel(v: string): string {
+  return v.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function labelText(labels: Labels): string {
+  const parts = Object.entries(labels).map(([k, v]) => `${k}="${escapeLabel(v)}"`);
+  return parts.length ? `{${parts.join(",")}}` : "";
+}
+
+function seriesKey(names: readonly string[], labels: Labels): string {
+  return JSON.stringify(names.map((n) => labels[n] ?? ""));
+}
+
+function pick(names: readonly string[], labels: Labels): Labels {
+  return Object.fromEntries(names.map((n) => [n, labels[n] ?? ""]));
+}
+
+interface Metric {
+  readonly name: string;
+  render(): string[];
+}
+
+export class Counter implements Metric {
+  private readonly series = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private readonly labelNames: readonly string[] = []
+  ) {}
+
+  inc(labels: Labels = {}, by = 1): void {
+    const key = seriesKey(this.labelNames, labels);
+    const s = this.series.get(key) ?? { labels: pick(this.labelNames, labels), value: 0 };
+    s.value += by;
+    this.series.set(key, s);
+  }
+
+  render(): string[] {
+    const out = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    if (!this.series.size && !this.labelNames.length) out.push(`${this.name} 0`);
+    for (const s of this.series.values()) out.push(`${this.name}${labelText(s.labels)} ${s.value}`);
+    return out;
+  }
+}
+
+/** A value read at scrape time. */
+export class Gauge implements Metric {
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private readonly collect: () => number | Array<[Labels, number]>
+  ) {}
+
+  render(): string[] {
+    const out = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} gauge`];
+    const value = this.collect();
+    if (typeof value === "number") out.push(`${this.name} ${value}`);
+    else for (const [labels, v] of value) out.push(`${this.name}${labelText(labels)} ${v}`);
+    return out;
+  }
+}
+
+type HistogramSeries = { labels: Labels; counts: number[]; sum: number; count: number };
+
+export class Histogram implements Metric {
+  private readonly series = new Map<string, HistogramSeries>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private readonly labelNames: readonly string[] = [],
+    private readonly buckets: readonly number[] = DEFAULT_BUCKETS
+  ) {}
+
+  observe(labels: Labels, seconds: number): void {
+    const key = seriesKey(this.labelNames, labels);
+    const s = this.series.get(key) ?? {
+      labels: pick(this.labelNames, labels),
+      counts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0
+    };
+    this.buckets.forEach((le, i) => {
+      if (seconds <= le) s.counts[i]++;
+    });
+    s.sum += seconds;
+    s.count++;
+    this.series.set(key, s);
+  }
+
+  /** Starts a clock; calling the result observes the elapsed time. */
+  startTimer(labels: Labels): () => void {
+    const start = process.hrtime.bigint();
+    return () => this.observe(labels, Number(process.hrtime.bigint() - start) / 1e9);
+  }
+
+  render(): string[] {
+    const out = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const s of this.series.values()) {
+      this.buckets.forEach((le, i) => {
+        out.push(`${this.name}_bucket${labelText({ ...s.labels, le: String(le) })} ${s.counts[i]}`);
+      });
+      out.push(`${this.name}_bucket${labelText({ ...s.labels, le: "+Inf" })} ${s.count}`);
+      out.push(`${this.name}_sum${labelText(s.labels)} ${s.sum}`);
+      out.push(`${this.name}_count${labelText(s.labels)} ${s.count}`);
+    }
+    return out;
+  }
+}
+
+/** Metrics in registration order, rendered in the Prometheus text format (0.0.4). */
+export class MetricsRegistry {
+  private readonly metrics: Metric[] = [];
+
+  register<M extends Metric>(metric: M): M {
+    this.metrics.push(metric);
+    return metric;
+  }
+
+  render(): string {
+    return this.metrics.flatMap((m) => m.render()).join("\n") + "\n";
+  }
+}
+
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+/**
+ * What the relay exposes on /metrics. Counts are per relay node, since its last start;
+ * room fan-out counts deliveries to this node's sockets only.
+ */
+export class RelayMetrics {
+  readonly registry = new MetricsRegistry();
+
+  readonly connections = this.registry.register(new Counter("nw_connections_total", "Sockets admitted"));
+  readonly connectDenials = this.registry.register(
+    new Counter("nw_connect_denials_total", "Connections refused, by reason", ["reason"])
+  );
+  readonly joins = this.registry.register(new Counter("nw_joins_total", "Room joins accepted"));
+  readonly joinDenials = this.registry.register(
+    new Counter("nw_join_denials_total", "Room joins denied, by reason", ["reason"])
+  );
+  readonly chat = this.registry.register(
+    new Counter("nw_chat_messages_total", "Chat messages by outcome: accepted, rejected, deduped", [
+      "result"
+    ])
+  );
+  readonly chatRejections = this.registry.register(
+    new Counter("nw_chat_rejections_total", "Chat messages rejected, by reason", ["reason"])
+  );
+  readonly roomMessages = this.registry.register(
+    new Counter("nw_room_messages_total", "Chat messages broadcast, per room", ["room"])
+  );
+  readonly roomFanout = this.registry.register(
+    new Counter("nw_room_fanout_total", "Chat deliveries to this node's sockets, per room", ["room"])
+  );
+  readonly handlerSeconds = this.registry.register(
+    new Histogram("nw_handler_duration_seconds", "Socket event handler latency", ["event"])
+  );
+  readonly httpSeconds = this.registry.register(
+    new Histogram("nw_http_request_duration_seconds", "HTTP request latency", ["method", "route", "status"])
+  );
+
+  constructor(connected: () => number, rooms: () => Array<[Labels, number]>) {
+    const startedAt = Date.now() / 1000;
+    this.registry.register(new Gauge("nw_sockets_connected", "Sockets connected to this node", connected));
+    this.registry.register(new Gauge("nw_room_sockets", "Sockets joined to each room on this node", rooms));
+    this.registry.register(
+      new Gauge("process_start_time_seconds", "Start time of the process since the epoch", () => startedAt)
+    );
+    this.registry.register(
+      new Gauge("process_resident_memory_bytes", "Resident memory size", () => process.memoryUsage().rss)
+    );
+  }
+}
+
+type HandlerRegistrar = { on(event: string, fn: (...args: unknown[]) => unknown): unknown };
+
+/**
+ * Time every handler registered on the socket from here on, until its returned promise
+ * (if any) settles. Socket.IO's own `disconnect` / `disconnecting` handlers are timed too.
+ */
+export function timeHandlers(socket: HandlerRegistrar, histogram: Histogram): void {
+  const on = socket.on.bind(socket);
+  socket.on = (event, fn) =>
+    on(event, (...args) => {
+      const done = histogram.startTimer({ event });
+      let result: unknown;
+      try {
+        result = fn(...args);
+      } catch (err) {
+        done();
+        throw err;
+      }
+      if (result instanceof Promise) void result.finally(done); // a rejection still surfaces as before
+      else done();
+      return result;
+    });
+}
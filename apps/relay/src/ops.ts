@@ -0,0 +1,61 @@
+import type { JoinDenial, RoomRate } from "@ac/protocol";
+
+const MINUTE = 60_000;
+const WINDOW_MINUTES = 15;
+
+/**
+ * What the admin console shows besides live sockets: chat messages relayed per room
+ * (per-minute buckets over the last 15 minutes) and the most recent join denials.
+ * Memory only and per relay node.
+ */
+export class OpsMonitor {
+  private readonly buckets = new Map<string, Map<number, number>>(); // room -> minute -> count
+  private readonly recent: JoinDenial[] = []; // oldest first
+
+  constructor(readonly denialsKeep: number) {}
+
+  recordMessage(room: string, now: number): void {
+    const minute = Math.floor(now / MINUTE);
+    const counts = this.buckets.get(room) ?? new Map<number, number>();
+    counts.set(minute, (counts.get(minute) ?? 0) + 1);
+    this.buckets.set(room, counts);
+  }
+
+  recordDenial(denial: JoinDenial): void {
+    this.recent.push(denial);
+    if (this.recent.length > this.denialsKeep) this.recent.splice(0, this.recent.length - this.denialsKeep);
+  }
+
+  /** Rooms with traffic in the last 15 minutes, busiest (last 5 minutes) first. */
+  rates(now: number): RoomRate[] {
+    const current = Math.floor(now / MINUTE);
+    const out: RoomRate[] = [];
+
+    for (const [room, counts] of this.buckets) {
+      const rate: RoomRate = { room, lastMinute: 0, last5Minutes: 0, last15Minutes: 0 };
+      for (const [minute, n] of counts) {
+        const age = current - minute;
+        if (age >= WINDOW_MINUTES) {
+          counts.delete(minute);
+          continue;
+        }
+        rate.last15Minutes += n;
+        if (age < 5) rate.last5Minutes += n;
+        if (age < 1) rate.lastMinute += n;
+      }
+
+      if (!counts.size) this.buckets.delete(room);
+      else out.push(rate);
+    }
+
+    return out.sort((a, b) => b.last5Minutes - a.last5Minutes || a.room.localeCompare(b.room));
+  }
+
+  denials(limit = this.denialsKeep): JoinDenial[] {
+    return this.recent.slice(-limit).reverse();
+  }
+}
+
+export function createOpsMonitor(env: NodeJS.ProcessEnv): OpsMonitor {
+  return new OpsMonitor(Number(env.OPS_DENIALS_KEEP ?? 200));
+}
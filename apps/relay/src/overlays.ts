@@ -0,0 +1,93 @@
+import path from "path";
+import type { OverlayFeature } from "@ac/protocol";
+import { createJsonDoc, type JsonDoc } from "./jsonfile.js";
+
+type OverlaysFile = {
+  overlays: OverlayFeature[];
+};
+
+export type OverlayUpsertResult =
+  | { ok: true; feature: OverlayFeature }
+  | { ok: false; reason: "room_overlay_limit" };
+
+/**
+ * The current overlay features of every room (last write wins per feature id),
+ * mirrored to a JSON document so the picture survives a relay restart.
+ */
+export class OverlayStore {
+  private readonly rooms = new Map<string, Map<string, OverlayFeature>>();
+
+  constructor(
+    private readonly doc: JsonDoc<Partial<OverlaysFile>>,
+    private readonly maxPerRoom: number
+  ) {}
+
+  async init(): Promise<void> {
+    const data = await this.doc.read();
+    if (data) this.load(data);
+    this.doc.onRemoteChange((changed) => this.load(changed));
+  }
+
+  list(room: string): OverlayFeature[] {
+    return Array.from(this.rooms.get(room)?.values() ?? []);
+  }
+
+  async upsert(feature: OverlayFeature): Promise<OverlayUpsertResult> {
+    const features = this.roomMap(feature.room);
+    const prev = features.get(feature.id);
+    if (!prev && features.size >= this.maxPerRoom) return { ok: false, reason: "room_overlay_limit" };
+
+    const stored: OverlayFeature = { ...feature, rev: (prev?.rev ?? 0) + 1 };
+    features.set(feature.id, stored);
+    try {
+      await this.save();
+    } catch (err) {
+      // the room keeps showing what is saved
+      if (prev) features.set(feature.id, prev);
+      else features.delete(feature.id);
+      throw err;
+    }
+    return { ok: true, feature: stored };
+  }
+
+  async delete(room: string, id: string): Promise<boolean> {
+    const features = this.rooms.get(room);
+    const prev = features?.get(id);
+    if (!features || !prev) return false;
+
+    features.delete(id);
+    try {
+      await this.save();
+    } catch (err) {
+      features.set(id, prev);
+      throw err;
+    }
+    return true;
+  }
+
+  private roomMap(room: string): Map<string, OverlayFeature> {
+    let features = this.rooms.get(room);
+    if (!features) {
+      features = new Map();
+      this.rooms.set(room, features);
+    }
+    return features;
+  }
+
+  private load(data: Partial<OverlaysFile>): void {
+    this.rooms.clear();
+    for (const f of data.overlays ?? []) this.roomMap(f.room).set(f.id, f);
+  }
+
+  private async save(): Promise<void> {
+    const overlays = Array.from(this.rooms.values()).flatMap((m) => Array.from(m.values()));
+    await this.doc.write({ overlays });
+  }
+}
+
+export function createOverlayStore(env: NodeJS.ProcessEnv): OverlayStore {
+  return new OverlayStore(
+    createJsonDoc(env, "overlays", path.resolve(env.OVERLAYS_PATH ?? "data/overlays.json")),
+    Number(env.OVERLAYS_MAX_PER_ROOM ?? 2000)
+  );
+}
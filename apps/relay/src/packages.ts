@@ -0,0 +1,161 @@
+import crypto from "crypto";
+import path from "path";
+import type {
+  MissionPackage,
+  MissionPackageDraft,
+  PackageLoadRecord,
+  PackageLoaded
+} from "@ac/protocol";
+import { SEMVER_PATTERN } from "@ac/protocol";
+import { createJsonDoc, type JsonDoc } from "./jsonfile.js";
+
+type PackagesFile = {
+  packages: MissionPackage[];
+  loads: Record<string, PackageLoadRecord[]>; // `${room}|${packageId}` -> one record per member
+};
+
+export type PublishResult =
+  | { ok: true; pkg: MissionPackage }
+  | { ok: false; reason: "hash_mismatch" | "version_not_newer" };
+
+/** Semver precedence (build metadata unsupported); a prerelease sorts before its release. */
+export function compareSemver(a: string, b: string): number {
+  const ma = SEMVER_PATTERN.exec(a);
+  const mb = SEMVER_PATTERN.exec(b);
+  if (!ma || !mb) return a.localeCompare(b);
+
+  for (let i = 1; i <= 3; i++) {
+    const d = Number(ma[i]) - Number(mb[i]);
+    if (d) return d;
+  }
+
+  const pa = ma[4];
+  const pb = mb[4];
+  if (pa === pb) return 0;
+  if (pa === undefined) return 1;
+  if (pb === undefined) return -1;
+  return pa.localeCompare(pb, undefined, { numeric: true });
+}
+
+/** JSON with object keys sorted recursively and no whitespace (the package hash input). */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function packageHash(draft: Omit<MissionPackageDraft, "hash">): string {
+  const { id, version, room, title, effective, sections } = draft;
+  return crypto
+    .createHash("sha256")
+    .update(canonicalJson({ id, version, room, title, effective, sections }))
+    .digest("hex");
+}
+
+/**
+ * Mission packages (every version) and per-member load acknowledgments,
+ * mirrored to a JSON document.
+ */
+export class PackageStore {
+  private packages: MissionPackage[] = [];
+  private loads = new Map<string, PackageLoadRecord[]>();
+
+  constructor(private readonly doc: JsonDoc<Partial<PackagesFile>>) {}
+
+  async init(): Promise<void> {
+    const data = await this.doc.read();
+    if (data) this.load(data);
+    this.doc.onRemoteChange((changed) => this.load(changed));
+  }
+
+  latest(room: string, packageId: string): MissionPackage | undefined {
+    let best: MissionPackage | undefined;
+    for (const p of this.packages) {
+      if (p.room !== room || p.id !== packageId) continue;
+      if (!best || compareSemver(p.version, best.version) > 0) best = p;
+    }
+    return best;
+  }
+
+  /** Latest version of every package distributed to the room. */
+  latestInRoom(room: string): MissionPackage[] {
+    const ids = new Set(this.packages.filter((p) => p.room === room).map((p) => p.id));
+    return Array.from(ids, (id) => this.latest(room, id)).filter((p): p is MissionPackage => !!p);
+  }
+
+  loadsFor(room: string, packageId: string): PackageLoadRecord[] {
+    return this.loads.get(`${room}|${packageId}`) ?? [];
+  }
+
+  async publish(
+    draft: MissionPackageDraft,
+    provenance: MissionPackage["provenance"]
+  ): Promise<PublishResult> {
+    if (packageHash(draft) !== draft.hash) return { ok: false, reason: "hash_mismatch" };
+
+    const prev = this.latest(draft.room, draft.id);
+    if (prev && compareSemver(draft.version, prev.version) <= 0) {
+      return { ok: false, reason: "version_not_newer" };
+    }
+
+    const pkg: MissionPackage = { ...draft, provenance };
+    await this.commit(() => this.packages.push(pkg));
+    return { ok: true, pkg };
+  }
+
+  /** Record a member's load ack; returns undefined for an unknown package/version. */
+  async recordLoad(
+    loaded: PackageLoaded,
+    member: { memberId: string; label: string }
+  ): Promise<PackageLoadRecord | undefined> {
+    const pkg = this.packages.find(
+      (p) => p.room === loaded.room && p.id === loaded.packageId && p.version === loaded.version
+    );
+    if (!pkg) return undefined;
+
+    const record: PackageLoadRecord = {
+      memberId: member.memberId,
+      label: member.label,
+      version: loaded.version,
+      hash: loaded.hash,
+      verified: loaded.hash === pkg.hash,
+      loadedAt: Date.now()
+    };
+
+    const key = `${loaded.room}|${loaded.packageId}`;
+    const list = (this.loads.get(key) ?? []).filter((r) => r.memberId !== member.memberId);
+    list.push(record);
+    await this.commit(() => this.loads.set(key, list));
+    return record;
+  }
+
+  private load(data: Partial<PackagesFile>): void {
+    this.packages = data.packages ?? [];
+    this.loads = new Map(Object.entries(data.loads ?? {}));
+  }
+
+  // apply a change and save it; a failed save puts the previous state back, so members are not
+  // served a version that was never saved and the retry is not refused as version_not_newer
+  private async commit(apply: () => void): Promise<void> {
+    const packages = [...this.packages];
+    const loads = new Map(this.loads);
+    apply();
+    try {
+      await this.doc.write({ packages: this.packages, loads: Object.fromEntries(this.loads) });
+    } catch (err) {
+      this.packages = packages;
+      this.loads = loads;
+      throw err;
+    }
+  }
+}
+
+export function createPackageStore(env: NodeJS.ProcessEnv): PackageStore {
+  const file = env.PACKAGES_PATH ?? "data/packages.json";
+  return new PackageStore(createJsonDoc(env, "packages", path.resolve(file)));
+}
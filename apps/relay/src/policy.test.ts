@@ -0,0 +1,139 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { MemberIdentity, RolePolicy } from "@ac/protocol";
+import { log } from "./log.js";
+import { canPublish, DEFAULT_POLICY, PolicyStore, type RoomSettings } from "./policy.js";
+
+let dir: string;
+let file: string;
+
+beforeEach(async () => {
+  dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "nw-policy-"));
+  file = path.join(dir, "policy.json");
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  fs.unwatchFile(file);
+  await fs.promises.rm(dir, { recursive: true, force: true });
+});
+
+const alice: MemberIdentity = { memberId: "m-alice", label: "Alice" };
+const bob: MemberIdentity = { memberId: "m-bob", label: "Bob" };
+
+const POLICY: RolePolicy = {
+  defaultRole: "member",
+  guestRole: "observer",
+  members: { "m-alice": "dispatcher" },
+  rooms: {
+    Emergency: { dispatcher: "publish", member: "read" },
+    "*": { dispatcher: "publish", member: "publish", observer: "read" }
+  },
+  retention: {
+    "vacant-1": { keepHistory: false },
+    "*": { maxAgeHours: 72 }
+  }
+};
+
+async function loaded(
+  policy: unknown,
+  catalog?: (room: string) => RoomSettings | undefined
+): Promise<PolicyStore> {
+  await fs.promises.writeFile(file, JSON.stringify(policy));
+  const store = new PolicyStore(file, catalog);
+  await store.init();
+  return store;
+}
+
+describe("PolicyStore", () => {
+  it("falls back to the built-in policy without a file", async () => {
+    const store = new PolicyStore(file);
+    await store.init();
+
+    expect(store.current).toEqual(DEFAULT_POLICY);
+    expect(store.accessFor("member", "emergency")).toBe("read");
+    expect(store.accessFor("member", "family")).toBe("publish");
+  });
+
+  it("resolves roles from the member map, the default and the guest role", async () => {
+    const store = await loaded(POLICY);
+
+    expect(store.roleFor(alice, false)).toBe("dispatcher");
+    expect(store.roleFor(bob, false)).toBe("member");
+    expect(store.roleFor(alice, true)).toBe("observer");
+  });
+
+  it("uses the room's ACL, then `*`, matching room names case-insensitively", async () => {
+    const store = await loaded(POLICY);
+
+    expect(store.accessFor("dispatcher", "emergency")).toBe("publish");
+    expect(store.accessFor("member", "emergency")).toBe("read");
+    expect(store.accessFor("observer", "emergency")).toBeUndefined();
+    expect(store.accessFor("member", "family")).toBe("publish");
+    expect(store.accessFor("observer", "family")).toBe("read");
+    expect(canPublish(store.accessFor("observer", "family"))).toBe(false);
+  });
+
+  it("gives admins admin access everywhere, frozen rooms included", async () => {
+    const store = await loaded(POLICY, () => ({ frozen: true }));
+
+    expect(store.accessFor("admin", "emergency")).toBe("admin");
+    expect(store.accessFor("admin", "anything")).toBe("admin");
+  });
+
+  it("takes a catalog room's defaultAccess only when the file has no entry for it", async () => {
+    const catalog: Record<string, RoomSettings> = {
+      emergency: { defaultAccess: { member: "publish" } },
+      ops: { defaultAccess: { dispatcher: "read" } }
+    };
+    const store = await loaded(POLICY, (room) => catalog[room]);
+
+    expect(store.accessFor("member", "emergency")).toBe("read");
+    expect(store.accessFor("dispatcher", "ops")).toBe("read");
+    expect(store.accessFor("member", "ops")).toBeUndefined();
+  });
+
+  it("makes frozen rooms read-only without granting access", async () => {
+    const store = await loaded(POLICY, (room) => (room === "family" ? { frozen: true } : undefined));
+
+    expect(store.accessFor("dispatcher", "family")).toBe("read");
+    expect(store.accessFor("member", "family")).toBe("read");
+    expect(store.accessFor("member", "vacant-2")).toBe("publish");
+
+    const noAccess = await loaded(POLICY, () => ({ frozen: true }));
+    expect(noAccess.accessFor("observer", "emergency")).toBeUndefined();
+  });
+
+  it("resolves retention with the `*` fallback and keepHistory defaulted", async () => {
+    const store = await loaded(POLICY);
+
+    expect(store.retentionFor("vacant-1")).toEqual({ keepHistory: false });
+    expect(store.retentionFor("family")).toEqual({ maxAgeHours: 72, keepHistory: true });
+
+    const none = await loaded({ defaultRole: "member", rooms: {} });
+    expect(none.retentionFor("family")).toEqual({ keepHistory: true });
+  });
+
+  it("keeps the live policy when an edit is invalid", async () => {
+    const logged = vi.spyOn(log, "error").mockImplementation(() => undefined);
+    const store = await loaded({ ...POLICY, defaultRole: "superuser" });
+
+    expect(store.current).toEqual(DEFAULT_POLICY);
+    expect(logged).toHaveBeenCalledWith("policy-invalid", expect.objectContaining({ field: "defaultRole" }));
+  });
+
+  it("re-applies the file when it changes and tells listeners", async () => {
+    const store = await loaded(POLICY);
+    const changed = vi.fn();
+    store.onChange(changed);
+
+    const later = new Date(Date.now() + 5000); // a distinct mtime, whatever the filesystem's resolution
+    await fs.promises.writeFile(file, JSON.stringify({ ...POLICY, defaultRole: "observer" }));
+    await fs.promises.utimes(file, later, later);
+
+    await vi.waitFor(() => expect(changed).toHaveBeenCalled(), { timeout: 5000 });
+    expect(store.roleFor(bob, false)).toBe("observer");
+  });
+});
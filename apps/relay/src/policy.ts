@@ -0,0 +1,177 @@
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import type {
+  MemberIdentity,
+  RetentionRule,
+  Role,
+  RolePolicy,
+  RoomAccess,
+  RoomInfo
+} from "@ac/protocol";
+import { log } from "./log.js";
+
+/** The catalog fields the policy consults. */
+export type RoomSettings = Pick<RoomInfo, "defaultAccess" | "frozen">;
+
+const ROLES = ["admin", "dispatcher", "member", "observer"] as const;
+const ACCESS_LEVELS = ["read", "publish", "admin"] as const;
+
+const RoleSchema = z.enum(ROLES);
+const AccessSchema = z.enum(ACCESS_LEVELS);
+
+export const RoomAclSchema = z
+  .object({
+    admin: AccessSchema.optional(),
+    dispatcher: AccessSchema.optional(),
+    member: AccessSchema.optional(),
+    observer: AccessSchema.optional()
+  })
+  .strict();
+
+const RetentionRuleSchema = z
+  .object({
+    keepHistory: z.boolean().optional(),
+    maxAgeHours: z.number().positive().optional(),
+    maxMessages: z.number().int().positive().optional()
+  })
+  .strict();
+
+const RolePolicySchema = z.object({
+  defaultRole: RoleSchema,
+  guestRole: RoleSchema.optional(),
+  members: z.record(RoleSchema).optional(),
+  rooms: z.record(RoomAclSchema),
+  retention: z.record(RetentionRuleSchema).optional()
+});
+
+function lowercaseKeys<T>(rec: Record<string, T>): Record<string, T> {
+  return Object.fromEntries(Object.entries(rec).map(([k, v]) => [k.trim().toLowerCase(), v]));
+}
+
+/**
+ * Built-in policy when no policy file exists: only dispatchers post to emergency.
+ */
+export const DEFAULT_POLICY: RolePolicy = {
+  defaultRole: "member",
+  guestRole: "member",
+  rooms: {
+    emergency: { dispatcher: "publish", member: "read", observer: "read" },
+    "*": { dispatcher: "publish", member: "publish", observer: "read" }
+  }
+};
+
+export function accessRank(access: RoomAccess | undefined): number {
+  return access ? ACCESS_LEVELS.indexOf(access) + 1 : 0;
+}
+
+export function canPublish(access: RoomAccess | undefined): boolean {
+  return accessRank(access) >= accessRank("publish");
+}
+
+/**
+ * Role/ACL policy backed by a JSON file. The file is polled and re-applied
+ * on change; an invalid edit is logged and the previous policy stays live.
+ * `catalog` supplies a room's catalog settings: its ACL, used when the file has none
+ * for it, and whether it is frozen (read-only for every role but admin).
+ */
+export class PolicyStore {
+  private policy: RolePolicy = DEFAULT_POLICY;
+  private readonly listeners = new Set<() => void>();
+
+  constructor(
+    private readonly filePath: string,
+    private readonly catalog: (room: string) => RoomSettings | undefined = () => undefined
+  ) {}
+
+  async init(): Promise<void> {
+    await this.load();
+
+    fs.watchFile(this.filePath, { interval: 1000 }, (curr, prev) => {
+      if (curr.mtimeMs === prev.mtimeMs) return;
+      void this.load().then(() => {
+        for (const fn of this.listeners) fn();
+      });
+    });
+  }
+
+  onChange(fn: () => void): () => void {
+    this.listeners.add(fn);
+    return () => this.listeners.delete(fn);
+  }
+
+  get current(): RolePolicy {
+    return this.policy;
+  }
+
+  roleFor(member: MemberIdentity, guest: boolean): Role {
+    if (guest) return this.policy.guestRole ?? "observer";
+    return this.policy.members?.[member.memberId] ?? this.policy.defaultRole;
+  }
+
+  accessFor(role: Role, room: string): RoomAccess | undefined {
+    if (role === "admin") return "admin";
+    const settings = this.catalog(room);
+    const acl = this.policy.rooms[room] ?? settings?.defaultAccess ?? this.policy.rooms["*"] ?? {};
+    const access = acl[role];
+    return access && settings?.frozen ? "read" : access;
+  }
+
+  /** The room's retention rule (falling back to `*`), with keepHistory resolved. */
+  retentionFor(room: string): RetentionRule {
+    const rule = this.policy.retention?.[room] ?? this.policy.retention?.["*"] ?? {};
+    return { ...rule, keepHistory: rule.keepHistory ?? true };
+  }
+
+  private async load(): Promise<void> {
+    let text: string;
+    try {
+      text = await fs.promises.readFile(this.filePath, "utf8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+        log.error("policy-read-failed", { path: this.filePath, err: String(err), keeping: "current" });
+        return;
+      }
+      this.policy = DEFAULT_POLICY;
+      log.info("policy-missing", { path: this.filePath, using: "built-in default" });
+      return;
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch (err) {
+      log.error("policy-invalid-json", { path: this.filePath, err: String(err), keeping: "current" });
+      return;
+    }
+
+    const parsed = RolePolicySchema.safeParse(json);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      log.error("policy-invalid", {
+        path: this.filePath,
+        field: issue?.path.join("."),
+        err: issue?.message,
+        keeping: "current"
+      });
+      return;
+    }
+
+    // room names are matched case-insensitively, like everywhere else in the relay
+    const rooms = lowercaseKeys(parsed.data.rooms);
+    const retention = parsed.data.retention && lowercaseKeys(parsed.data.retention);
+    this.policy = { ...parsed.data, rooms, retention };
+    log.info("policy-loaded", {
+      path: this.filePath,
+      rooms: Object.keys(parsed.data.rooms).length,
+      members: Object.keys(parsed.data.members ?? {}).length
+    });
+  }
+}
+
+export function createPolicyStore(
+  env: NodeJS.ProcessEnv,
+  catalog?: (room: string) => RoomSettings | undefined
+): PolicyStore {
+  return new PolicyStore(path.resolve(env.POLICY_PATH ?? "policy.json"), catalog);
+}
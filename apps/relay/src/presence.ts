@@ -0,0 +1,225 @@
+import type { MemberIdentity, PresenceEntry, PresenceState } from "@ac/protocol";
+
+export type Connection = {
+  socketId: string;
+  transport: string;
+  away: boolean;
+};
+
+export type Entry = {
+  member: MemberIdentity;
+  guest: boolean;
+  connections: Connection[];
+  published: PresenceEntry; // what the room was last told
+  goneAt?: number; // last connection dropped; offline once the grace period runs out
+};
+
+function stateOf(connections: Connection[]): PresenceState {
+  if (!connections.length) return "offline";
+  return connections.every((c) => c.away) ? "away" : "online";
+}
+
+function sameView(a: PresenceEntry, b: PresenceEntry): boolean {
+  return (
+    a.state === b.state &&
+    a.label === b.label &&
+    a.role === b.role &&
+    a.guest === b.guest &&
+    a.transports.join(",") === b.transports.join(",")
+  );
+}
+
+export type PresenceSnapshot = Entry[];
+
+/** One roster change, as relay nodes hand it to each other so every node applies it. */
+export type PresenceChange =
+  | { kind: "join"; room: string; member: MemberIdentity; guest: boolean; conn: Connection; at: number }
+  | { kind: "leave_room"; socketId: string; room: string; at: number }
+  | { kind: "disconnect"; socketId: string; at: number }
+  | { kind: "away"; socketId: string; away: boolean; at: number }
+  | { kind: "transport"; socketId: string; transport: string; at: number };
+
+/**
+ * Who is in which room, one entry per member per room, fed by joins, leaves and
+ * disconnects. Memory only: a relay restart starts with an empty roster (or the other
+ * nodes' copy, see `restore`). Methods return the entries whose published view changed,
+ * for the caller to push.
+ */
+export class PresenceBoard {
+  private readonly entries = new Map<string, Entry>(); // `${room}|${memberId}`
+
+  constructor(
+    readonly graceMs: number,
+    readonly lastSeenKeepMs: number
+  ) {}
+
+  /** Apply a change made on this node or relayed from another one. */
+  apply(change: PresenceChange): PresenceEntry[] {
+    switch (change.kind) {
+      case "join": {
+        const joined = this.join(change.room, change.member, change.guest, change.conn, change.at);
+        return joined ? [joined] : [];
+      }
+      case "leave_room":
+        return this.leaveRoom(change.socketId, change.room, change.at);
+      case "disconnect":
+        return this.disconnect(change.socketId, change.at);
+      case "away":
+        return this.setAway(change.socketId, change.away, change.at);
+      case "transport":
+        return this.setTransport(change.socketId, change.transport, change.at);
+    }
+  }
+
+  /** Every entry, for a node that just started to take over with `restore`. */
+  snapshot(): PresenceSnapshot {
+    return Array.from(this.entries.values());
+  }
+
+  /** Add another node's entries; those this node already has are kept. */
+  restore(entries: PresenceSnapshot): void {
+    for (const e of entries) {
+      const key = `${e.published.room}|${e.member.memberId}`;
+      if (!this.entries.has(key)) this.entries.set(key, e);
+    }
+  }
+
+  list(room: string): PresenceEntry[] {
+    return Array.from(this.entries.values())
+      .filter((e) => e.published.room === room)
+      .map((e) => e.published);
+  }
+
+  join(
+    room: string,
+    member: MemberIdentity,
+    guest: boolean,
+    conn: Connection,
+    now: number
+  ): PresenceEntry | undefined {
+    const key = `${room}|${member.memberId}`;
+    const e: Entry = this.entries.get(key) ?? {
+      member,
+      guest,
+      connections: [],
+      published: {
+        room,
+        memberId: member.memberId,
+        label: member.label,
+        state: "offline",
+        transports: [],
+        lastSeen: now
+      }
+    };
+
+    e.member = member;
+    e.guest = guest;
+    e.connections = [...e.connections.filter((c) => c.socketId !== conn.socketId), conn];
+    e.goneAt = undefined;
+    this.entries.set(key, e);
+
+    return this.publish(e, now);
+  }
+
+  /** Leave one room right away (policy or archive), with no grace period. */
+  leaveRoom(socketId: string, room: string, now: number): PresenceEntry[] {
+    return this.update(
+      (e) => e.published.room === room,
+      (e) => {
+        e.connections = e.connections.filter((c) => c.socketId !== socketId);
+      },
+      now
+    );
+  }
+
+  /** A socket went away: entries it leaves empty keep their view until the grace period ends. */
+  disconnect(socketId: string, now: number): PresenceEntry[] {
+    return this.update(
+      (e) => e.connections.some((c) => c.socketId === socketId),
+      (e) => {
+        e.connections = e.connections.filter((c) => c.socketId !== socketId);
+        if (!e.connections.length) e.goneAt = now;
+      },
+      now
+    );
+  }
+
+  setAway(socketId: string, away: boolean, now: number): PresenceEntry[] {
+    return this.update(
+      (e) => e.connections.some((c) => c.socketId === socketId),
+      (e) => {
+        for (const c of e.connections) if (c.socketId === socketId) c.away = away;
+      },
+      now
+    );
+  }
+
+  setTransport(socketId: string, transport: string, now: number): PresenceEntry[] {
+    return this.update(
+      (e) => e.connections.some((c) => c.socketId === socketId),
+      (e) => {
+        for (const c of e.connections) if (c.socketId === socketId) c.transport = transport;
+      },
+      now
+    );
+  }
+
+  /** Entries whose grace period ran out turn offline; long-gone ones are forgotten. */
+  expire(now: number): PresenceEntry[] {
+    const changed: PresenceEntry[] = [];
+    for (const [key, e] of this.entries) {
+      if (e.goneAt !== undefined && e.goneAt + this.graceMs <= now) {
+        e.published = { ...e.published, state: "offline", transports: [], lastSeen: e.goneAt };
+        e.goneAt = undefined;
+        changed.push(e.published);
+        continue;
+      }
+
+      const forgotten = e.published.lastSeen + this.lastSeenKeepMs <= now;
+      if (!e.connections.length && e.goneAt === undefined && forgotten) this.entries.delete(key);
+    }
+    return changed;
+  }
+
+  dropRoom(room: string): void {
+    for (const [key, e] of this.entries) if (e.published.room === room) this.entries.delete(key);
+  }
+
+  private update(pred: (e: Entry) => boolean, fn: (e: Entry) => void, now: number): PresenceEntry[] {
+    const changed: PresenceEntry[] = [];
+    for (const e of this.entries.values()) {
+      if (!pred(e)) continue;
+      fn(e);
+      const next = this.publish(e, now);
+      if (next) changed.push(next);
+    }
+    return changed;
+  }
+
+  // nothing is published during the grace period: a quick reconnect goes unnoticed
+  private publish(e: Entry, now: number): PresenceEntry | undefined {
+    if (e.goneAt !== undefined) return undefined;
+
+    const next: PresenceEntry = {
+      room: e.published.room,
+      memberId: e.member.memberId,
+      label: e.member.label,
+      role: e.member.role,
+      guest: e.guest || undefined,
+      state: stateOf(e.connections),
+      transports: e.connections.map((c) => c.transport),
+      lastSeen: now
+    };
+    if (sameView(next, e.published)) return undefined;
+
+    e.published = next;
+    return next;
+  }
+}
+
+export function createPresenceBoard(env: NodeJS.ProcessEnv): PresenceBoard {
+  return new PresenceBoard(
+    Number(env.PRESENCE_GRACE_SECONDS ?? 20) * 1000,
+    Number(env.PRESENCE_LAST_SEEN_HOURS ?? 24) * 3_600_000
+  );
+}
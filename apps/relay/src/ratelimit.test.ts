@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import { clientAddress, RateLimiter, type RateKeys } from "./ratelimit.js";
+
+const T0 = 1_000_000;
+
+// chat: 2 at once, a token a second; join: 1 at once, a token every 10 s
+function limiter(blockAfter = 100): RateLimiter {
+  return new RateLimiter(
+    {
+      chat: { burst: 2, perMinute: 60 },
+      join: { burst: 1, perMinute: 6 },
+      signal: { burst: 10, perMinute: 60 }
+    },
+    blockAfter,
+    60_000,
+    300_000
+  );
+}
+
+function keys(socket: string, member = "m1", ip = "10.0.0.1"): RateKeys {
+  return { socket, member, ip };
+}
+
+describe("RateLimiter", () => {
+  it("refuses a socket past its burst and says when a token is back", () => {
+    const limits = limiter();
+    expect(limits.check("chat", keys("s1"), T0)).toEqual({ ok: true });
+    expect(limits.check("chat", keys("s1"), T0)).toEqual({ ok: true });
+
+    expect(limits.check("chat", keys("s1"), T0)).toEqual({
+      ok: false,
+      scope: "socket",
+      retryAfterMs: 1000,
+      strike: "counted"
+    });
+    expect(limits.check("join", keys("s1"), T0)).toEqual({ ok: true }); // buckets are per event
+  });
+
+  it("refills at the configured rate, up to the burst", () => {
+    const limits = limiter();
+    limits.check("chat", keys("s1"), T0);
+    limits.check("chat", keys("s1"), T0);
+
+    expect(limits.check("chat", keys("s1"), T0 + 400)).toMatchObject({ ok: false, retryAfterMs: 600 });
+    expect(limits.check("chat", keys("s1"), T0 + 1000)).toEqual({ ok: true });
+    expect(limits.check("chat", keys("s1"), T0 + 1000)).toMatchObject({ ok: false, retryAfterMs: 1000 });
+
+    // an hour idle still holds only the burst
+    const later = T0 + 3_600_000;
+    expect(limits.check("chat", keys("s1"), later)).toEqual({ ok: true });
+    expect(limits.check("chat", keys("s1"), later)).toEqual({ ok: true });
+    expect(limits.check("chat", keys("s1"), later)).toMatchObject({ ok: false, scope: "socket" });
+  });
+
+  it("gives a member twice and an address four times a socket's burst", () => {
+    const limits = limiter();
+    const use = (k: RateKeys) => [1, 2].map(() => limits.check("chat", k, T0).ok);
+
+    expect([...use(keys("s1")), ...use(keys("s2"))]).toEqual([true, true, true, true]);
+    expect(limits.check("chat", keys("s3"), T0)).toMatchObject({ ok: false, scope: "member" });
+
+    expect([...use(keys("s4", "m2")), ...use(keys("s5", "m2"))]).toEqual([true, true, true, true]);
+    expect(limits.check("chat", keys("s6", "m3"), T0)).toMatchObject({ ok: false, scope: "ip" });
+    expect(limits.check("chat", keys("s6", "m3", "10.0.0.2"), T0)).toEqual({ ok: true });
+  });
+
+  it("takes no token for a refused request", () => {
+    const limits = limiter();
+    limits.check("chat", keys("s1"), T0);
+    limits.check("chat", keys("s1"), T0);
+    limits.check("chat", keys("s2"), T0);
+    limits.check("chat", keys("s2"), T0);
+
+    // refused on the member bucket: s3's own bucket keeps both tokens
+    expect(limits.check("chat", keys("s3"), T0)).toMatchObject({ ok: false, scope: "member" });
+    expect(limits.check("chat", keys("s3", "m2"), T0)).toEqual({ ok: true });
+    expect(limits.check("chat", keys("s3", "m2"), T0)).toEqual({ ok: true });
+    expect(limits.check("chat", keys("s3", "m2"), T0)).toMatchObject({ ok: false, scope: "socket" });
+  });
+
+  it("blocks a member and address that keep ignoring the retry hint, then lets them back", () => {
+    const limits = limiter(3);
+    limits.check("join", keys("s1"), T0);
+
+    expect(limits.check("join", keys("s1"), T0)).toMatchObject({ strike: "counted", retryAfterMs: 10_000 });
+    // in flight before the refusal arrived: refused, not counted again
+    expect(limits.check("join", keys("s1"), T0 + 10)).toMatchObject({ ok: false, strike: undefined });
+    expect(limits.check("join", keys("s1"), T0 + 9_000)).toMatchObject({ ok: false, strike: undefined });
+
+    // a token came back at 10 s and was spent; the next refusal is a new strike
+    expect(limits.check("join", keys("s1"), T0 + 10_000)).toEqual({ ok: true });
+    expect(limits.check("join", keys("s1"), T0 + 10_000)).toMatchObject({ strike: "counted" });
+    expect(limits.check("join", keys("s1"), T0 + 20_000)).toEqual({ ok: true });
+    expect(limits.check("join", keys("s1"), T0 + 20_000)).toEqual({
+      ok: false,
+      scope: "socket",
+      retryAfterMs: 300_000,
+      strike: "blocked"
+    });
+
+    // every event, every socket of the member and everyone behind the address
+    const blocked = { ok: false, scope: "blocked", retryAfterMs: 299_000 };
+    expect(limits.check("chat", keys("s2"), T0 + 21_000)).toEqual(blocked);
+    expect(limits.check("signal", keys("s3", "m2"), T0 + 21_000)).toEqual(blocked);
+    expect(limits.check("chat", keys("s4", "m3", "10.0.0.2"), T0 + 21_000)).toEqual({ ok: true });
+
+    expect(limits.check("chat", keys("s2"), T0 + 320_000)).toEqual({ ok: true });
+  });
+
+  it("adds headroom to an event's burst at every scope", () => {
+    const limits = limiter();
+    limits.setHeadroom("join", 3);
+    const joins = Array.from({ length: 5 }, () => limits.check("join", keys("s1"), T0).ok);
+
+    expect(joins).toEqual([true, true, true, true, false]);
+    expect(limits.check("chat", keys("s1"), T0)).toEqual({ ok: true });
+    expect(limits.check("chat", keys("s1"), T0)).toEqual({ ok: true });
+    expect(limits.check("chat", keys("s1"), T0)).toMatchObject({ ok: false });
+  });
+});
+
+describe("clientAddress", () => {
+  it("uses the peer address unless proxies are trusted", () => {
+    expect(clientAddress("10.0.0.9", "203.0.113.7", 0)).toBe("10.0.0.9");
+    expect(clientAddress("10.0.0.9", undefined, 1)).toBe("10.0.0.9");
+  });
+
+  it("counts trusted proxies from the relay outwards", () => {
+    const forwarded = "198.51.100.1, 203.0.113.7, 10.0.0.5";
+
+    expect(clientAddress("10.0.0.9", forwarded, 1)).toBe("10.0.0.5");
+    expect(clientAddress("10.0.0.9", forwarded, 2)).toBe("203.0.113.7");
+    expect(clientAddress("10.0.0.9", forwarded, 5)).toBe("198.51.100.1");
+    expect(clientAddress("10.0.0.9", ["198.51.100.1", "203.0.113.7"], 1)).toBe("203.0.113.7");
+  });
+});
@@ -0,0 +1,215 @@
+export type RateEvent = "chat" | "join" | "signal";
+export type RateScope = "socket" | "member" | "ip";
+
+/** Token bucket shape: `burst` requests at once, refilled at `perMinute`. */
+export type BucketLimit = {
+  burst: number;
+  perMinute: number;
+};
+
+/** Who is asking: one socket, the identity behind it and its remote address. */
+export type RateKeys = Record<RateScope, string>;
+
+export type RateDecision =
+  | { ok: true }
+  | {
+      ok: false;
+      scope: RateScope | "blocked"; // the exhausted bucket, or an active block
+      retryAfterMs: number;
+      strike?: "counted" | "blocked"; // counted against the offender; "blocked" when that started a block
+    };
+
+type Bucket = {
+  tokens: number;
+  updatedAt: number;
+};
+
+type Strikes = {
+  at: number[]; // violation times inside the window
+  quietUntil: number; // end of the last retry-after handed out
+  blockedUntil: number;
+};
+
+// an identity may use a few devices, an address may be a whole household
+const SCOPE_FACTOR: Record<RateScope, number> = { socket: 1, member: 2, ip: 4 };
+
+const SWEEP_INTERVAL_MS = 60_000;
+
+/**
+ * Token-bucket limits on chat, join and WebRTC signaling, applied per socket, per
+ * identity and per remote address at once. A request is allowed only when every bucket
+ * has a token. Identities (and addresses) that keep hitting a limit are blocked for a while.
+ */
+export class RateLimiter {
+  private readonly buckets = new Map<string, Bucket>();
+  private readonly strikes = new Map<string, Strikes>();
+  private readonly headroom: Partial<Record<RateEvent, number>> = {};
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly limits: Record<RateEvent, BucketLimit>,
+    private readonly blockAfter: number, // violations within the window
+    private readonly blockWindowMs: number,
+    private readonly blockMs: number
+  ) {}
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.sweep(), SWEEP_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  /**
+   * Allow `extra` more of `event` at once on top of its configured burst, refilled at the same
+   * rate; e.g. one join per open room, so a client joining the whole catalog on connect fits.
+   */
+  setHeadroom(event: RateEvent, extra: number): void {
+    this.headroom[event] = Math.max(0, extra);
+  }
+
+  check(event: RateEvent, keys: RateKeys, now = Date.now()): RateDecision {
+    const blocked = this.blockedFor(keys, now);
+    if (blocked > 0) {
+      return { ok: false, scope: "blocked", retryAfterMs: blocked };
+    }
+
+    const scopes = Object.keys(SCOPE_FACTOR) as RateScope[];
+    const held: Bucket[] = [];
+
+    for (const scope of scopes) {
+      const limit = this.limitFor(event, scope);
+      const bucket = this.refill(`${event}|${scope}|${keys[scope]}`, limit, now);
+
+      if (bucket.tokens < 1) {
+        const retryAfterMs = Math.ceil(((1 - bucket.tokens) * 60_000) / limit.perMinute);
+        const strike = this.strike(keys, now, retryAfterMs);
+        return strike === "blocked"
+          ? { ok: false, scope, retryAfterMs: this.blockMs, strike }
+          : { ok: false, scope, retryAfterMs, strike };
+      }
+      held.push(bucket);
+    }
+
+    // take only once every scope has room, so a denied request costs nothing
+    for (const bucket of held) bucket.tokens -= 1;
+    return { ok: true };
+  }
+
+  /** Drop a closed socket's buckets; identity and address buckets age out in the sweep. */
+  forget(socketId: string): void {
+    for (const event of Object.keys(this.limits)) this.buckets.delete(`${event}|socket|${socketId}`);
+  }
+
+  private limitFor(event: RateEvent, scope: RateScope): BucketLimit {
+    const base = this.limits[event];
+    return {
+      burst: (base.burst + (this.headroom[event] ?? 0)) * SCOPE_FACTOR[scope],
+      perMinute: base.perMinute * SCOPE_FACTOR[scope]
+    };
+  }
+
+  private refill(key: string, limit: BucketLimit, now: number): Bucket {
+    const bucket = this.buckets.get(key) ?? { tokens: limit.burst, updatedAt: now };
+    const gained = ((now - bucket.updatedAt) * limit.perMinute) / 60_000;
+    bucket.tokens = Math.min(limit.burst, bucket.tokens + gained);
+    bucket.updatedAt = now;
+    this.buckets.set(key, bucket);
+    return bucket;
+  }
+
+  private blockedFor(keys: RateKeys, now: number): number {
+    let remaining = 0;
+    for (const key of [`member|${keys.member}`, `ip|${keys.ip}`]) {
+      const s = this.strikes.get(key);
+      if (s && s.blockedUntil > now) remaining = Math.max(remaining, s.blockedUntil - now);
+    }
+    return remaining;
+  }
+
+  /**
+   * Count a violation against the identity and the address, blocking them after too many.
+   * Requests already in flight when the first refusal went out do not count again:
+   * one strike per retry-after that was ignored, not per refused request.
+   */
+  private strike(keys: RateKeys, now: number, retryAfterMs: number): "counted" | "blocked" | undefined {
+    let result: "counted" | "blocked" | undefined;
+
+    for (const key of [`member|${keys.member}`, `ip|${keys.ip}`]) {
+      const s = this.strikes.get(key) ?? { at: [], quietUntil: 0, blockedUntil: 0 };
+      if (now < s.quietUntil) continue;
+
+      s.quietUntil = now + retryAfterMs;
+      s.at = s.at.filter((t) => now - t < this.blockWindowMs);
+      s.at.push(now);
+      result ??= "counted";
+
+      if (s.at.length >= this.blockAfter) {
+        s.at = [];
+        s.blockedUntil = now + this.blockMs;
+        result = "blocked";
+      }
+      this.strikes.set(key, s);
+    }
+
+    return result;
+  }
+
+  private sweep(now = Date.now()): void {
+    for (const [key, bucket] of this.buckets) {
+      const event = key.slice(0, key.indexOf("|")) as RateEvent;
+      const limit = this.limitFor(event, "socket");
+      // idle long enough to be full again: same as having no bucket
+      if (now - bucket.updatedAt > (limit.burst * 60_000) / limit.perMinute) {
+        this.buckets.delete(key);
+      }
+    }
+
+    for (const [key, s] of this.strikes) {
+      const idle = s.blockedUntil <= now && s.quietUntil <= now;
+      if (idle && s.at.every((t) => now - t >= this.blockWindowMs)) this.strikes.delete(key);
+    }
+  }
+}
+
+/**
+ * The client's address: the socket's peer, or with `trustedHops` proxies in front of the relay
+ * (TRUST_PROXY) the address the outermost of them saw, taken from X-Forwarded-For. Counted the
+ * way Express's numeric "trust proxy" counts, so `req.ip` and sockets agree on it.
+ */
+export function clientAddress(
+  remote: string,
+  forwardedFor: string | string[] | undefined,
+  trustedHops: number
+): string {
+  if (trustedHops <= 0 || !forwardedFor) return remote;
+  const forwarded = String(forwardedFor)
+    .split(",")
+    .map((a) => a.trim())
+    .filter(Boolean);
+  // nearest first: our peer, then what each proxy says it was handed by
+  const hops = [remote, ...forwarded.reverse()];
+  return hops[Math.min(trustedHops, hops.length - 1)];
+}
+
+export function createRateLimiter(env: NodeJS.ProcessEnv): RateLimiter {
+  return new RateLimiter(
+    {
+      chat: {
+        burst: Number(env.RATE_CHAT_BURST ?? 10),
+        perMinute: Number(env.RATE_CHAT_PER_MINUTE ?? 60)
+      },
+      join: {
+        burst: Number(env.RATE_JOIN_BURST ?? 10),
+        perMinute: Number(env.RATE_JOIN_PER_MINUTE ?? 30)
+      },
+      // a peer link takes an offer or answer plus a handful of ICE candidates
+      signal: {
+        burst: Number(env.RATE_SIGNAL_BURST ?? 60),
+        perMinute: Number(env.RATE_SIGNAL_PER_MINUTE ?? 300)
+      }
+    },
+    Number(env.RATE_BLOCK_AFTER ?? 5),
+    Number(env.RATE_BLOCK_WINDOW_SECONDS ?? 60) * 1000,
+    Number(env.RATE_BLOCK_SECONDS ?? 300) * 1000
+  );
+}
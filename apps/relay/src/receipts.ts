@@ -0,0 +1,152 @@
+import path from "path";
+import type { ReceiptRecord, ReceiptState } from "@ac/protocol";
+import { createJsonDoc, type JsonDoc } from "./jsonfile.js";
+import { log } from "./log.js";
+
+/** A relayed message whose receipts are being collected. */
+export type TrackedMessage = {
+  room: string;
+  msgId: string;
+  senderId: string;
+  sentAt: number;
+  receipts: ReceiptRecord[]; // one per member
+};
+
+type ReceiptsFile = {
+  messages: TrackedMessage[];
+};
+
+/**
+ * Delivered/read receipts for the most recent messages of each room, mirrored to a
+ * JSON document. Receipts arrive far more often than anything else the relay stores, so
+ * changes are written out on a timer rather than one save per receipt. Receipts written
+ * by another relay node are merged in, never replacing this node's.
+ */
+export class ReceiptStore {
+  private messages = new Map<string, TrackedMessage>(); // `${room}|${msgId}`, oldest first
+  private dirty = false;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly doc: JsonDoc<Partial<ReceiptsFile>>,
+    readonly perRoomMax: number,
+    readonly flushMs: number
+  ) {}
+
+  async init(): Promise<void> {
+    const data = await this.doc.read();
+    for (const m of data?.messages ?? []) this.messages.set(`${m.room}|${m.msgId}`, m);
+    this.doc.onRemoteChange((changed) => this.merge(changed));
+
+    this.timer = setInterval(() => void this.flush(), this.flushMs);
+    this.timer.unref();
+  }
+
+  get(room: string, msgId: string): TrackedMessage | undefined {
+    return this.messages.get(`${room}|${msgId}`);
+  }
+
+  inRoom(room: string): TrackedMessage[] {
+    return Array.from(this.messages.values()).filter((m) => m.room === room);
+  }
+
+  /** Start collecting receipts for a relayed message; the oldest of the room is dropped past perRoomMax. */
+  track(room: string, msgId: string, senderId: string, sentAt: number): void {
+    this.messages.set(`${room}|${msgId}`, { room, msgId, senderId, sentAt, receipts: [] });
+
+    this.trim(room);
+    this.dirty = true;
+  }
+
+  /**
+   * Record a member's receipt. False when the message is unknown, the member sent it,
+   * or the state was already recorded (read implies delivered; the first time counts).
+   */
+  record(
+    room: string,
+    msgId: string,
+    member: { memberId: string; label: string },
+    state: ReceiptState,
+    at: number
+  ): boolean {
+    const msg = this.get(room, msgId);
+    if (!msg || msg.senderId === member.memberId) return false;
+
+    let rec = msg.receipts.find((r) => r.memberId === member.memberId);
+    if (!rec) {
+      rec = { memberId: member.memberId, label: member.label };
+      msg.receipts.push(rec);
+    } else if (state === "delivered" ? rec.deliveredAt : rec.readAt) {
+      return false;
+    }
+
+    rec.label = member.label;
+    rec.deliveredAt ??= at;
+    if (state === "read") rec.readAt = at;
+    this.dirty = true;
+    return true;
+  }
+
+  /** Apply what another relay node recorded (and writes out itself) without a write here. */
+  mirror(apply: () => void): void {
+    const dirty = this.dirty;
+    apply();
+    this.dirty = dirty;
+  }
+
+  async flush(): Promise<void> {
+    if (!this.dirty) return;
+    this.dirty = false;
+    try {
+      await this.doc.write({ messages: Array.from(this.messages.values()) });
+    } catch (err) {
+      this.dirty = true;
+      log.error("receipts-write-failed", { err: String(err) });
+    }
+  }
+
+  private trim(room: string): void {
+    const inRoom = this.inRoom(room);
+    for (const old of inRoom.slice(0, Math.max(0, inRoom.length - this.perRoomMax))) {
+      this.messages.delete(`${room}|${old.msgId}`);
+    }
+  }
+
+  // a receipt only ever gains timestamps, so the earliest of each wins
+  private merge(data: Partial<ReceiptsFile>): void {
+    let added = false;
+    for (const m of data.messages ?? []) {
+      const mine = this.messages.get(`${m.room}|${m.msgId}`);
+      if (!mine) {
+        this.messages.set(`${m.room}|${m.msgId}`, m);
+        added = true;
+        continue;
+      }
+      for (const rec of m.receipts) {
+        const own = mine.receipts.find((r) => r.memberId === rec.memberId);
+        if (!own) {
+          mine.receipts.push(rec);
+          continue;
+        }
+        own.deliveredAt = earliest(own.deliveredAt, rec.deliveredAt);
+        own.readAt = earliest(own.readAt, rec.readAt);
+      }
+    }
+    if (!added) return;
+
+    this.messages = new Map(Array.from(this.messages).sort(([, a], [, b]) => a.sentAt - b.sentAt));
+    for (const room of new Set(Array.from(this.messages.values(), (m) => m.room))) this.trim(room);
+  }
+}
+
+function earliest(a: number | undefined, b: number | undefined): number | undefined {
+  return a === undefined ? b : b === undefined ? a : Math.min(a, b);
+}
+
+export function createReceiptStore(env: NodeJS.ProcessEnv): ReceiptStore {
+  return new ReceiptStore(
+    createJsonDoc(env, "receipts", path.resolve(env.RECEIPTS_PATH ?? "data/receipts.json")),
+    Number(env.RECEIPTS_PER_ROOM ?? 500),
+    Number(env.RECEIPTS_FLUSH_SECONDS ?? 5) * 1000
+  );
+}
@@ -0,0 +1,97 @@
+import crypto from "crypto";
+import type { Redis } from "ioredis";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { testRedis } from "../test/fake-redis.js";
+import type { JsonDoc } from "./jsonfile.js";
+import { connectRedis, RedisDocs } from "./redis.js";
+
+type Counter = { count: number };
+
+// resolves with the document the next time another node changes it
+function remoteChange<T>(doc: JsonDoc<T>): Promise<T> {
+  return new Promise((resolve) => doc.onRemoteChange(resolve));
+}
+
+describe("RedisDocs", () => {
+  let redis: Awaited<ReturnType<typeof testRedis>>;
+  let prefix: string;
+  const clients: Redis[] = [];
+
+  beforeAll(async () => {
+    redis = await testRedis();
+  });
+
+  afterAll(() => redis.stop());
+
+  beforeEach(() => {
+    prefix = `nw-test-${crypto.randomUUID()}:`;
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map((c) => c.quit().catch(() => undefined)));
+  });
+
+  function connect(role: string): Redis {
+    const client = connectRedis({ REDIS_URL: redis.url }, role);
+    clients.push(client);
+    return client;
+  }
+
+  // one relay node's documents: its own connections, the same keys
+  async function node(): Promise<RedisDocs> {
+    const sub = connect("docs-sub");
+    const docs = new RedisDocs(connect("command"), connect("docs-tx"), sub, prefix);
+    // announcements are only heard once the subscription is in place
+    while (Number((await docs.redis.pubsub("NUMSUB", docs.channel))[1]) < 1) {
+      await new Promise((r) => setTimeout(r, 10));
+    }
+    return docs;
+  }
+
+  it("reads nothing before the first write, then what was written", async () => {
+    const doc = (await node()).doc<Counter>("counter");
+
+    expect(await doc.read()).toBeUndefined();
+    await doc.write({ count: 1 });
+    await doc.write({ count: 2 });
+
+    expect(await doc.read()).toEqual({ count: 2 });
+  });
+
+  it("hands another node's write to that node's listeners", async () => {
+    const a = (await node()).doc<Counter>("counter");
+    const b = (await node()).doc<Counter>("counter");
+    await Promise.all([a.read(), b.read()]);
+
+    const seenByB = remoteChange(b);
+    await a.write({ count: 1 });
+
+    expect(await seenByB).toEqual({ count: 1 });
+    await b.write({ count: 2 }); // b is now on a's version, so its own write lands
+    expect(await a.read()).toEqual({ count: 2 });
+  });
+
+  it("lets only one of two writes on the same version land; the other node reloads", async () => {
+    const a = (await node()).doc<Counter>("counter");
+    const b = (await node()).doc<Counter>("counter");
+    await Promise.all([a.read(), b.read()]);
+
+    const heard = [remoteChange(a), remoteChange(b)];
+    const [fromA, fromB] = await Promise.allSettled([a.write({ count: 1 }), b.write({ count: 2 })]);
+
+    expect([fromA.status, fromB.status].sort()).toEqual(["fulfilled", "rejected"]);
+    const [loser, lost] = fromA.status === "rejected" ? [0, fromA] : [1, fromB];
+    expect(String((lost as PromiseRejectedResult).reason)).toContain("changed by another relay node");
+    const winner = { count: loser === 0 ? 2 : 1 };
+    expect(await heard[loser]).toEqual(winner);
+    expect(await [a, b][loser].read()).toEqual(winner);
+  });
+
+  it("keeps documents of different names apart", async () => {
+    const docs = await node();
+    await docs.doc<Counter>("first").write({ count: 1 });
+
+    expect(await docs.doc<Counter>("second").read()).toBeUndefined();
+    expect(docs.doc<Counter>("first")).toBe(docs.doc<Counter>("first"));
+  });
+});
@@ -0,0 +1,202 @@
+import crypto from "crypto";
+import { Redis } from "ioredis";
+import type { ReadyCheck } from "./health.js";
+import type { JsonDoc } from "./jsonfile.js";
+import { log } from "./log.js";
+
+/** REDIS_URL, defaulting to a Redis on this host. */
+export function redisUrl(env: NodeJS.ProcessEnv): string {
+  return env.REDIS_URL?.trim() || "redis://127.0.0.1:6379";
+}
+
+/** Prefix of every key and channel the relay uses, so deployments can share one Redis. */
+export function redisPrefix(env: NodeJS.ProcessEnv): string {
+  return env.REDIS_PREFIX?.trim() || "nw:";
+}
+
+/**
+ * A new connection to REDIS_URL; `role` names it in logs. Pub/sub subscribers and
+ * WATCH transactions each need a connection of their own.
+ */
+export function connectRedis(env: NodeJS.ProcessEnv, role: string): Redis {
+  // a command fails after a few reconnect attempts instead of queueing forever
+  const client = new Redis(redisUrl(env), { maxRetriesPerRequest: 3 });
+  let down = false;
+  client.on("error", (err) => {
+    if (down) return; // once per outage; ioredis keeps reconnecting
+    down = true;
+    log.error("redis-error", { role, err: String(err) });
+  });
+  client.on("ready", () => {
+    if (down) log.info("redis-reconnected", { role });
+    down = false;
+  });
+  return client;
+}
+
+let shared: Redis | null = null;
+
+/** The command connection every Redis-backed store of this process shares. */
+export function sharedRedis(env: NodeJS.ProcessEnv): Redis {
+  shared ??= connectRedis(env, "command");
+  return shared;
+}
+
+/** Ready while the connection is up and answers a PING. */
+export async function redisCheck(client: Redis): Promise<ReadyCheck> {
+  if (client.status !== "ready") return { ok: false, detail: `redis ${client.status}` };
+  await client.ping();
+  return { ok: true, detail: "redis" };
+}
+
+type DocChange = { name: string; v: number; origin: string };
+
+/**
+ * JSON documents in Redis, shared by every relay node (JSON_STORE=redis). Each is a hash
+ * `{ v, data }`. A write lands only on the version this node last saw (WATCH/MULTI), so
+ * no node overwrites a change it has not seen: the losing write fails and the node
+ * reloads the newer document. Every write is announced on `<prefix>docs`, and the
+ * other nodes reload the document.
+ */
+export class RedisDocs {
+  readonly origin = crypto.randomUUID(); // tells this process's announcements apart
+  private readonly docs = new Map<string, RedisJsonDoc<unknown>>();
+  private tx: Promise<unknown> = Promise.resolve(); // WATCH..EXEC needs the connection to itself
+
+  constructor(
+    readonly redis: Redis,
+    private readonly txClient: Redis,
+    sub: Redis, // subscribed to the announcements, so it takes no other commands
+    readonly prefix: string
+  ) {
+    sub.on("message", (channel: string, message: string) => {
+      if (channel === this.channel) this.announced(message);
+    });
+    sub.subscribe(this.channel).catch((err) => log.error("docs-subscribe-failed", { err: String(err) }));
+  }
+
+  get channel(): string {
+    return `${this.prefix}docs`;
+  }
+
+  doc<T>(name: string): JsonDoc<T> {
+    let doc = this.docs.get(name);
+    if (!doc) {
+      doc = new RedisJsonDoc<unknown>(this, name);
+      this.docs.set(name, doc);
+    }
+    return doc as JsonDoc<T>;
+  }
+
+  /** Store `json` as version `expected + 1`; false when the document is no longer at `expected`. */
+  commit(name: string, expected: number, json: string): Promise<boolean> {
+    const key = `${this.prefix}doc:${name}`;
+    const change: DocChange = { name, v: expected + 1, origin: this.origin };
+
+    const run = this.tx.then(async () => {
+      await this.txClient.watch(key);
+      if (Number((await this.txClient.hget(key, "v")) ?? 0) !== expected) {
+        await this.txClient.unwatch();
+        return false;
+      }
+      const results = await this.txClient
+        .multi()
+        .hset(key, "v", change.v, "data", json)
+        .publish(this.channel, JSON.stringify(change))
+        .exec();
+      const failed = results?.find(([err]) => err);
+      if (failed) throw failed[0];
+      return results !== null; // null: the key changed after WATCH
+    });
+    this.tx = run.catch(() => undefined);
+    return run;
+  }
+
+  private announced(message: string): void {
+    let change: DocChange;
+    try {
+      change = JSON.parse(message) as DocChange;
+    } catch {
+      return;
+    }
+    if (change.origin === this.origin) return;
+    this.docs.get(change.name)?.changedTo(change.v);
+  }
+}
+
+class RedisJsonDoc<T> implements JsonDoc<T> {
+  readonly where: string;
+  private version = 0; // of the document as this node last read or wrote it
+  private epoch = 0; // bumped on every reload: writes queued before one were built on stale state
+  private reloading = false;
+  private queue: Promise<unknown> = Promise.resolve(); // reads, writes and reloads, in order
+  private readonly listeners = new Set<(data: T) => void>();
+
+  constructor(
+    private readonly docs: RedisDocs,
+    private readonly name: string
+  ) {
+    this.where = `${docs.prefix}doc:${name}`;
+  }
+
+  read(): Promise<T | undefined> {
+    return this.enqueue(() => this.fetch());
+  }
+
+  write(data: T): Promise<void> {
+    const json = JSON.stringify(data); // the state as of the call, like the file writer
+    const epoch = this.epoch;
+    return this.enqueue(async () => {
+      if (epoch !== this.epoch || !(await this.docs.commit(this.name, this.version, json))) {
+        // reloaded after the caller has dealt with the failure (e.g. rolled its change back)
+        this.scheduleReload();
+        throw new Error(`${this.name} was changed by another relay node; try again`);
+      }
+      this.version++;
+    });
+  }
+
+  onRemoteChange(fn: (data: T) => void): void {
+    this.listeners.add(fn);
+  }
+
+  changedTo(version: number): void {
+    if (version > this.version) this.scheduleReload();
+  }
+
+  private scheduleReload(): void {
+    if (this.reloading) return;
+    this.reloading = true;
+    this.enqueue(async () => {
+      this.reloading = false;
+      this.epoch++;
+      const data = await this.fetch();
+      if (data !== undefined) for (const fn of this.listeners) fn(data);
+    }).catch((err) => log.error("doc-reload-failed", { doc: this.name, err: String(err) }));
+  }
+
+  private async fetch(): Promise<T | undefined> {
+    const [v, data] = await this.docs.redis.hmget(this.where, "v", "data");
+    this.version = Number(v ?? 0);
+    return data === null ? undefined : (JSON.parse(data) as T);
+  }
+
+  private enqueue<R>(fn: () => Promise<R>): Promise<R> {
+    const next = this.queue.then(fn);
+    this.queue = next.catch(() => undefined); // a failed step must not wedge later ones
+    return next;
+  }
+}
+
+let docs: RedisDocs | null = null;
+
+/** The shared documents of this process (one subscription and one transaction connection). */
+export function sharedDocs(env: NodeJS.ProcessEnv): RedisDocs {
+  docs ??= new RedisDocs(
+    sharedRedis(env),
+    connectRedis(env, "docs-tx"),
+    connectRedis(env, "docs-sub"),
+    redisPrefix(env)
+  );
+  return docs;
+}
@@ -0,0 +1,137 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { ChatEnvelope, RetentionRule } from "@ac/protocol";
+import { log } from "./log.js";
+import { RetentionEnforcer, type RoomPurge } from "./retention.js";
+import { JsonlMessageStore, MemoryMessageStore, type MessageStore } from "./store.js";
+
+const HOUR = 3_600_000;
+const NOW = Date.UTC(2026, 0, 1, 12);
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
+
+function envelope(room: string, id: string): ChatEnvelope {
+  return { id, room, from: "tester", sentAt: NOW, body: id };
+}
+
+// each message stored `hoursAgo[i]` hours before NOW
+async function fill(store: MessageStore, room: string, hoursAgo: number[]): Promise<void> {
+  vi.useFakeTimers();
+  for (const [i, h] of hoursAgo.entries()) {
+    vi.setSystemTime(NOW - h * HOUR);
+    await store.append(envelope(room, `${room}-${i + 1}`));
+  }
+  vi.useRealTimers();
+}
+
+async function ids(store: MessageStore, room: string): Promise<string[]> {
+  return (await store.page(room, undefined, 100)).messages.map((m) => m.id);
+}
+
+function enforcer(store: MessageStore, rules: Record<string, RetentionRule>, purges: RoomPurge[] = []) {
+  return new RetentionEnforcer(store, (room) => rules[room] ?? {}, (p) => purges.push(p), 60_000);
+}
+
+describe("RetentionEnforcer", () => {
+  it("leaves rooms without a rule alone", async () => {
+    const store = new MemoryMessageStore(100);
+    await fill(store, "family", [48, 1]);
+
+    expect(await enforcer(store, {}).run(NOW)).toEqual([]);
+    expect(await ids(store, "family")).toEqual(["family-1", "family-2"]);
+  });
+
+  it("empties rooms that keep no history", async () => {
+    const store = new MemoryMessageStore(100);
+    await fill(store, "vacant-1", [2, 1, 0]);
+
+    const purges: RoomPurge[] = [];
+    await enforcer(store, { "vacant-1": { keepHistory: false } }, purges).run(NOW);
+
+    expect(purges).toEqual([{ room: "vacant-1", reason: "no_history", removed: 3, throughSeq: 3 }]);
+    expect(await ids(store, "vacant-1")).toEqual([]);
+  });
+
+  it("drops messages stored longer ago than maxAgeHours", async () => {
+    const store = new MemoryMessageStore(100);
+    await fill(store, "family", [30, 25, 23, 1]);
+
+    const purges = await enforcer(store, { family: { maxAgeHours: 24 } }).run(NOW);
+
+    expect(purges).toEqual([{ room: "family", reason: "max_age", removed: 2, throughSeq: 2 }]);
+    expect(await ids(store, "family")).toEqual(["family-3", "family-4"]);
+  });
+
+  it("ages messages without storedAt by their send time", async () => {
+    const store = new MemoryMessageStore(100);
+    await store.append(envelope("family", "old"));
+    const stored = await store.get("family", "old");
+    if (stored) {
+      delete stored.storedAt;
+      stored.sentAt = NOW - 2 * HOUR;
+    }
+
+    await enforcer(store, { family: { maxAgeHours: 1 } }).run(NOW);
+
+    expect(await ids(store, "family")).toEqual([]);
+  });
+
+  it("keeps only the newest maxMessages, reporting each reason separately", async () => {
+    const store = new MemoryMessageStore(100);
+    await fill(store, "emergency", [50, 5, 4, 3, 2, 1]);
+
+    const purges = await enforcer(store, { emergency: { maxAgeHours: 48, maxMessages: 3 } }).run(NOW);
+
+    expect(purges).toEqual([
+      { room: "emergency", reason: "max_age", removed: 1, throughSeq: 1 },
+      { room: "emergency", reason: "max_messages", removed: 2, throughSeq: 3 }
+    ]);
+    expect(await ids(store, "emergency")).toEqual(["emergency-4", "emergency-5", "emergency-6"]);
+  });
+
+  it("applies each room's own rule", async () => {
+    const store = new MemoryMessageStore(100);
+    await fill(store, "family", [3, 2, 1]);
+    await fill(store, "emergency", [3, 2, 1]);
+
+    await enforcer(store, { family: { maxMessages: 1 } }).run(NOW);
+
+    expect(await ids(store, "family")).toEqual(["family-3"]);
+    expect(await ids(store, "emergency")).toHaveLength(3);
+  });
+
+  it("never reuses the seq of a purged message, across restarts", async () => {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "nw-retention-"));
+    try {
+      const file = path.join(dir, "messages.jsonl");
+      const store = new JsonlMessageStore(file, 100);
+      await store.init();
+      await fill(store, "family", [3, 2, 1]);
+
+      await enforcer(store, { family: { keepHistory: false } }).run(NOW);
+
+      const reopened = new JsonlMessageStore(file, 100);
+      await reopened.init();
+      expect(await ids(reopened, "family")).toEqual([]);
+      expect((await reopened.append(envelope("family", "next"))).seq).toBe(4);
+    } finally {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("logs a failed pass instead of throwing from the timer", async () => {
+    const logged = vi.spyOn(log, "error").mockImplementation(() => undefined);
+    const store = new MemoryMessageStore(100);
+    await fill(store, "family", [1]);
+    vi.spyOn(store, "purge").mockRejectedValueOnce(new Error("EIO"));
+
+    enforcer(store, { family: { keepHistory: false } }).start();
+
+    await vi.waitFor(() => expect(logged).toHaveBeenCalledWith("retention-failed", { err: "Error: EIO" }));
+  });
+});
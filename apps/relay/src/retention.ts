@@ -0,0 +1,100 @@
+import type { ChatEnvelope, RetentionRule } from "@ac/protocol";
+import { log } from "./log.js";
+import type { MessageStore } from "./store.js";
+
+export type PurgeReason = "no_history" | "max_age" | "max_messages";
+
+/** One purge pass over one room, for one reason. */
+export type RoomPurge = {
+  room: string;
+  reason: PurgeReason;
+  removed: number;
+  throughSeq?: number; // highest seq removed
+};
+
+// older stores have no storedAt; fall back to the sender's clock
+function dropReason(
+  rule: RetentionRule,
+  msg: ChatEnvelope,
+  newer: number,
+  now: number
+): PurgeReason | undefined {
+  if (rule.keepHistory === false) return "no_history";
+  const age = now - (msg.storedAt ?? msg.sentAt);
+  if (rule.maxAgeHours !== undefined && age > rule.maxAgeHours * 3_600_000) return "max_age";
+  if (rule.maxMessages !== undefined && newer >= rule.maxMessages) return "max_messages";
+  return undefined;
+}
+
+/**
+ * Applies per-room retention rules to the message store on a timer.
+ * Every purge is reported through `onPurge` (logged and audited by the caller).
+ */
+export class RetentionEnforcer {
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly store: MessageStore,
+    private readonly ruleFor: (room: string) => RetentionRule,
+    private readonly onPurge: (purge: RoomPurge) => void,
+    readonly intervalMs: number
+  ) {}
+
+  start(): void {
+    if (this.timer) return;
+    this.tick();
+    this.timer = setInterval(() => this.tick(), this.intervalMs);
+    this.timer.unref();
+  }
+
+  // a failed pass (e.g. the store could not rewrite its file) is tried again on the next tick
+  private tick(): void {
+    this.run().catch((err) => log.error("retention-failed", { err: String(err) }));
+  }
+
+  async run(now = Date.now()): Promise<RoomPurge[]> {
+    const purges: RoomPurge[] = [];
+
+    for (const room of await this.store.roomNames()) {
+      const rule = this.ruleFor(room);
+      const reasons = new Map<ChatEnvelope, PurgeReason>();
+
+      const dropped = await this.store.purge(room, (msg, newer) => {
+        const reason = dropReason(rule, msg, newer, now);
+        if (reason) reasons.set(msg, reason);
+        return reason !== undefined;
+      });
+
+      const byReason = new Map<PurgeReason, ChatEnvelope[]>();
+      for (const msg of dropped) {
+        const reason = reasons.get(msg);
+        if (!reason) continue;
+        const list = byReason.get(reason) ?? [];
+        list.push(msg);
+        byReason.set(reason, list);
+      }
+
+      for (const [reason, msgs] of byReason) {
+        const purge: RoomPurge = {
+          room,
+          reason,
+          removed: msgs.length,
+          throughSeq: msgs.reduce((max, m) => Math.max(max, m.seq ?? 0), 0)
+        };
+        purges.push(purge);
+        this.onPurge(purge);
+      }
+    }
+
+    return purges;
+  }
+}
+
+export function createRetentionEnforcer(
+  env: NodeJS.ProcessEnv,
+  store: MessageStore,
+  ruleFor: (room: string) => RetentionRule,
+  onPurge: (purge: RoomPurge) => void
+): RetentionEnforcer {
+  return new RetentionEnforcer(store, ruleFor, onPurge, Number(env.RETENTION_PURGE_SECONDS ?? 60) * 1000);
+}
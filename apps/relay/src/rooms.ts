@@ -0,0 +1,186 @@
+import path from "path";
+import type { RoomAcl, RoomInfo } from "@ac/protocol";
+import { createJsonDoc, type JsonDoc } from "./jsonfile.js";
+import { log } from "./log.js";
+
+type RoomsFile = {
+  rooms: RoomInfo[];
+};
+
+export type RoomDraft = {
+  id: string;
+  label?: string;
+  purpose?: string;
+  defaultAccess?: RoomAcl;
+};
+
+export type RoomPatch = {
+  label?: string;
+  purpose?: string | null; // null clears it
+  defaultAccess?: RoomAcl | null;
+};
+
+export type RoomResult =
+  | { ok: true; room: RoomInfo }
+  | { ok: false; reason: "room_exists" | "unknown_room" | "invalid_room" };
+
+// room ids travel in join/chat and key every per-room store
+export const ROOM_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+
+// "vacant-1" -> "Vacant 1"
+function defaultLabel(id: string): string {
+  return id
+    .split(/[-_]/)
+    .filter(Boolean)
+    .map((w) => w[0].toUpperCase() + w.slice(1))
+    .join(" ");
+}
+
+/**
+ * The relay's room catalog, mirrored to a JSON document. On first start (no document yet)
+ * it is seeded from `seed` (ALLOWED_ROOMS, or the built-in list). Every change, also one
+ * made by another relay node, is reported to `onChange` listeners, which push
+ * `rooms_updated` to clients.
+ */
+export class RoomCatalog {
+  private readonly rooms = new Map<string, RoomInfo>();
+  private readonly listeners = new Set<(rooms: RoomInfo[]) => void>();
+
+  constructor(
+    private readonly doc: JsonDoc<Partial<RoomsFile>>,
+    private readonly seed: string[]
+  ) {}
+
+  async init(): Promise<void> {
+    const data = await this.doc.read();
+
+    if (data) {
+      this.load(data);
+    } else {
+      const now = Date.now();
+      for (const id of this.seed) {
+        if (!ROOM_ID_PATTERN.test(id)) {
+          log.warn("rooms-invalid-seed", { room: id });
+          continue;
+        }
+        this.rooms.set(id, { id, label: defaultLabel(id), createdAt: now, updatedAt: now });
+      }
+      try {
+        await this.save();
+      } catch (err) {
+        // another relay node seeded the shared catalog first
+        const seeded = await this.doc.read();
+        if (!seeded) throw err;
+        this.load(seeded);
+      }
+    }
+
+    this.doc.onRemoteChange((data) => {
+      this.load(data);
+      const rooms = this.list();
+      for (const fn of this.listeners) fn(rooms);
+    });
+    log.info("rooms-loaded", { rooms: this.rooms.size, path: this.doc.where });
+  }
+
+  onChange(fn: (rooms: RoomInfo[]) => void): () => void {
+    this.listeners.add(fn);
+    return () => this.listeners.delete(fn);
+  }
+
+  list(): RoomInfo[] {
+    return Array.from(this.rooms.values()).sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  get(id: string): RoomInfo | undefined {
+    return this.rooms.get(id);
+  }
+
+  /** Rooms that accept joins and chat. */
+  isOpen(id: string): boolean {
+    const room = this.rooms.get(id);
+    return Boolean(room && !room.archived);
+  }
+
+  openIds(): string[] {
+    return this.list()
+      .filter((r) => !r.archived)
+      .map((r) => r.id);
+  }
+
+  async create(draft: RoomDraft): Promise<RoomResult> {
+    if (!ROOM_ID_PATTERN.test(draft.id)) return { ok: false, reason: "invalid_room" };
+    if (this.rooms.has(draft.id)) return { ok: false, reason: "room_exists" };
+
+    const now = Date.now();
+    const room: RoomInfo = {
+      id: draft.id,
+      label: draft.label ?? defaultLabel(draft.id),
+      purpose: draft.purpose,
+      defaultAccess: draft.defaultAccess,
+      createdAt: now,
+      updatedAt: now
+    };
+    return this.put(room);
+  }
+
+  async update(id: string, patch: RoomPatch): Promise<RoomResult> {
+    const room = this.rooms.get(id);
+    if (!room) return { ok: false, reason: "unknown_room" };
+
+    const next: RoomInfo = { ...room, updatedAt: Date.now() };
+    if (patch.label !== undefined) next.label = patch.label;
+    if (patch.purpose !== undefined) next.purpose = patch.purpose ?? undefined;
+    if (patch.defaultAccess !== undefined) next.defaultAccess = patch.defaultAccess ?? undefined;
+    return this.put(next);
+  }
+
+  async setArchived(id: string, archived: boolean): Promise<RoomResult> {
+    const room = this.rooms.get(id);
+    if (!room) return { ok: false, reason: "unknown_room" };
+    return this.put({ ...room, archived: archived || undefined, updatedAt: Date.now() });
+  }
+
+  async setFrozen(id: string, frozen: boolean): Promise<RoomResult> {
+    const room = this.rooms.get(id);
+    if (!room) return { ok: false, reason: "unknown_room" };
+    return this.put({ ...room, frozen: frozen || undefined, updatedAt: Date.now() });
+  }
+
+  private async put(room: RoomInfo): Promise<RoomResult> {
+    const prev = this.rooms.get(room.id);
+    this.rooms.set(room.id, room);
+    try {
+      await this.save();
+    } catch (err) {
+      // keep enforcing what is on disk; the admin sees the failure and can retry
+      if (prev) this.rooms.set(room.id, prev);
+      else this.rooms.delete(room.id);
+      throw err;
+    }
+    const rooms = this.list();
+    for (const fn of this.listeners) fn(rooms);
+    return { ok: true, room };
+  }
+
+  private load(data: Partial<RoomsFile>): void {
+    this.rooms.clear();
+    for (const r of data.rooms ?? []) this.rooms.set(r.id, r);
+  }
+
+  private save(): Promise<void> {
+    return this.doc.write({ rooms: this.list() });
+  }
+}
+
+const DEFAULT_ROOMS = ["emergency", "family", "vacant-1", "vacant-2", "vacant-3", "vacant-4"];
+
+export function createRoomCatalog(env: NodeJS.ProcessEnv): RoomCatalog {
+  const seed = env.ALLOWED_ROOMS
+    ? env.ALLOWED_ROOMS.split(",")
+        .map((s) => s.trim().toLowerCase())
+        .filter(Boolean)
+    : DEFAULT_ROOMS;
+  const filePath = path.resolve(env.ROOMS_PATH ?? "data/rooms.json");
+  return new RoomCatalog(createJsonDoc(env, "rooms", filePath, true), seed);
+}
@@ -0,0 +1,143 @@
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { Redis } from "ioredis";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import type { ChatEnvelope } from "@ac/protocol";
+import { testRedis } from "../test/fake-redis.js";
+import { connectRedis } from "./redis.js";
+import { JsonlMessageStore, RedisMessageStore } from "./store.js";
+
+function envelope(room: string, id: string): ChatEnvelope {
+  return { id, room, from: "tester", sentAt: Date.now(), body: id };
+}
+
+describe("RedisMessageStore", () => {
+  let redis: Awaited<ReturnType<typeof testRedis>>;
+  let prefix: string;
+  const clients: Redis[] = [];
+
+  beforeAll(async () => {
+    redis = await testRedis();
+  });
+
+  afterAll(() => redis.stop());
+
+  beforeEach(() => {
+    prefix = `nw-test-${crypto.randomUUID()}:`;
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map((c) => c.quit()));
+  });
+
+  // one relay node's store: its own connection, the same keys
+  async function node(perRoomMax = 100): Promise<RedisMessageStore> {
+    const client = connectRedis({ REDIS_URL: redis.url }, "command");
+    clients.push(client);
+    const store = new RedisMessageStore(client, prefix, perRoomMax);
+    await store.init();
+    return store;
+  }
+
+  it("numbers a room's messages in one sequence whichever node stored them", async () => {
+    const a = await node();
+    const b = await node();
+
+    const first = await a.append(envelope("family", "m1"));
+    const second = await b.append(envelope("family", "m2"));
+    const elsewhere = await b.append(envelope("emergency", "m3"));
+
+    expect([first.seq, second.seq, elsewhere.seq]).toEqual([1, 2, 1]);
+    expect(second.storedAt).toEqual(expect.any(Number));
+    expect((await a.page("family", undefined, 10)).messages.map((m) => m.id)).toEqual(["m1", "m2"]);
+    expect((await a.roomNames()).sort()).toEqual(["emergency", "family"]);
+  });
+
+  it("pages backwards from an exclusive seq cursor", async () => {
+    const store = await node();
+    for (let i = 1; i <= 5; i++) await store.append(envelope("family", `m${i}`));
+
+    const newest = await store.page("family", undefined, 2);
+    const older = await store.page("family", 4, 2);
+    const oldest = await store.page("family", 2, 2);
+
+    expect(newest).toMatchObject({ messages: [{ seq: 4 }, { seq: 5 }], hasMore: true });
+    expect(older).toMatchObject({ messages: [{ seq: 2 }, { seq: 3 }], hasMore: true });
+    expect(oldest).toMatchObject({ messages: [{ seq: 1 }], hasMore: false });
+  });
+
+  it("keeps at most perRoomMax messages, without reusing their seqs", async () => {
+    const store = await node(2);
+    for (let i = 1; i <= 4; i++) await store.append(envelope("family", `m${i}`));
+
+    expect((await store.page("family", undefined, 10)).messages.map((m) => m.seq)).toEqual([3, 4]);
+    expect(await store.get("family", "m1")).toBeUndefined();
+    expect((await store.append(envelope("family", "m5"))).seq).toBe(5);
+  });
+
+  it("keeps every superseded revision, oldest first", async () => {
+    const a = await node();
+    const b = await node();
+    const original = await a.append(envelope("family", "m1"));
+
+    expect(await b.revise({ ...original, body: "edited", rev: 2 })).toBe(true);
+    expect(await a.revise({ ...original, body: "edited again", rev: 3 })).toBe(true);
+    expect(await a.revise(envelope("family", "never-stored"))).toBe(false);
+
+    expect(await b.get("family", "m1")).toMatchObject({ body: "edited again", rev: 3, seq: 1 });
+    expect((await b.revisions("family", "m1")).map((r) => r.body)).toEqual(["m1", "edited"]);
+  });
+
+  it("reports each purged message once when two nodes purge at the same time", async () => {
+    const a = await node();
+    const b = await node();
+    for (let i = 1; i <= 3; i++) await a.append(envelope("family", `m${i}`));
+
+    const keepNewest = (_msg: ChatEnvelope, newer: number) => newer >= 1;
+    const [fromA, fromB] = await Promise.all([a.purge("family", keepNewest), b.purge("family", keepNewest)]);
+
+    expect([...fromA, ...fromB].map((m) => m.id).sort()).toEqual(["m1", "m2"]);
+    expect((await b.page("family", undefined, 10)).messages.map((m) => m.id)).toEqual(["m3"]);
+
+    await a.purge("family", () => true);
+    expect(await a.roomNames()).toEqual([]);
+    expect((await a.append(envelope("family", "m4"))).seq).toBe(4);
+  });
+});
+
+describe("JsonlMessageStore", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "nw-store-"));
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  });
+
+  it("keeps no trace of a message or revision whose line could not be written", async () => {
+    const file = path.join(dir, "messages.jsonl");
+    const store = new JsonlMessageStore(file, 100);
+    await store.init();
+    const original = await store.append(envelope("family", "m1"));
+
+    await fs.promises.rename(file, `${file}.away`);
+    await fs.promises.mkdir(file); // appending to a directory fails
+    await expect(store.append(envelope("family", "m2"))).rejects.toThrow();
+    await expect(store.revise({ ...original, body: "edited", rev: 2 })).rejects.toThrow();
+
+    expect((await store.page("family", undefined, 10)).messages.map((m) => m.id)).toEqual(["m1"]);
+    expect(await store.get("family", "m1")).toMatchObject({ body: "m1" });
+
+    await fs.promises.rmdir(file);
+    await fs.promises.rename(`${file}.away`, file);
+    expect((await store.append(envelope("family", "m2"))).seq).toBe(2);
+
+    const reopened = new JsonlMessageStore(file, 100);
+    await reopened.init();
+    expect((await reopened.page("family", undefined, 10)).messages.map((m) => m.seq)).toEqual([1, 2]);
+  });
+});
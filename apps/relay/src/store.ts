@@ -0,0 +1,403 @@
+import fs from "fs";
+import path from "path";
+import type { ChatEnvelope } from "@ac/protocol";
+import type { ChainableCommander, Redis } from "ioredis";
+import { fileCheck, type ReadyCheck } from "./health.js";
+import { log } from "./log.js";
+import { redisCheck, redisPrefix, sharedRedis } from "./redis.js";
+
+export type HistoryPage = {
+  messages: ChatEnvelope[]; // oldest → newest
+  hasMore: boolean;
+};
+
+/**
+ * Message persistence used by the relay.
+ * Implementations assign a per-room `seq` on append; `page` walks backwards by seq.
+ */
+export interface MessageStore {
+  readonly kind: string;
+  init(): Promise<void>;
+  /** For /ready: whether messages can be stored right now. */
+  check(): Promise<ReadyCheck>;
+  append(msg: ChatEnvelope): Promise<ChatEnvelope>;
+  page(room: string, before: number | undefined, limit: number): Promise<HistoryPage>;
+  /** Rooms that currently hold messages. */
+  roomNames(): Promise<string[]>;
+  /**
+   * Drop the room's messages for which `drop` returns true (`newer`: how many stored
+   * messages are newer). Seq numbers are never reused. Resolves to the dropped messages.
+   */
+  purge(room: string, drop: (msg: ChatEnvelope, newer: number) => boolean): Promise<ChatEnvelope[]>;
+  /** The stored message with this id, if the room still holds it. */
+  get(room: string, id: string): Promise<ChatEnvelope | undefined>;
+  /**
+   * Replace a stored message (same room and id) with a new revision. The revision it
+   * supersedes is kept, never overwritten. False when the message is not stored.
+   */
+  revise(next: ChatEnvelope): Promise<boolean>;
+  /** Superseded revisions of a message, oldest (the original) first. */
+  revisions(room: string, id: string): Promise<ChatEnvelope[]>;
+}
+
+/**
+ * In-memory store (lost on restart). Keeps at most `perRoomMax` messages per room.
+ */
+export class MemoryMessageStore implements MessageStore {
+  readonly kind: string = "memory";
+
+  protected readonly rooms = new Map<string, ChatEnvelope[]>();
+  protected readonly nextSeq = new Map<string, number>();
+  protected readonly superseded = new Map<string, ChatEnvelope[]>(); // room|id -> older revisions
+
+  constructor(protected readonly perRoomMax: number) {}
+
+  async init(): Promise<void> {}
+
+  async check(): Promise<ReadyCheck> {
+    return { ok: true, detail: "in memory" };
+  }
+
+  async append(msg: ChatEnvelope): Promise<ChatEnvelope> {
+    const stored = this.numbered(msg);
+    this.insert(stored);
+    return stored;
+  }
+
+  async roomNames(): Promise<string[]> {
+    return Array.from(this.rooms.entries())
+      .filter(([, list]) => list.length)
+      .map(([room]) => room);
+  }
+
+  async purge(room: string, drop: (msg: ChatEnvelope, newer: number) => boolean): Promise<ChatEnvelope[]> {
+    const list = this.rooms.get(room) ?? [];
+    const dropped: ChatEnvelope[] = [];
+    const kept = list.filter((m, i) => {
+      if (!drop(m, list.length - 1 - i)) return true;
+      dropped.push(m);
+      return false;
+    });
+    if (dropped.length) this.rooms.set(room, kept);
+    for (const m of dropped) this.superseded.delete(`${room}|${m.id}`);
+    return dropped;
+  }
+
+  async get(room: string, id: string): Promise<ChatEnvelope | undefined> {
+    return this.rooms.get(room)?.find((m) => m.id === id);
+  }
+
+  async revise(next: ChatEnvelope): Promise<boolean> {
+    return this.replace(next);
+  }
+
+  async revisions(room: string, id: string): Promise<ChatEnvelope[]> {
+    return this.superseded.get(`${room}|${id}`) ?? [];
+  }
+
+  async page(room: string, before: number | undefined, limit: number): Promise<HistoryPage> {
+    const list = this.rooms.get(room) ?? [];
+
+    // list is ordered by seq; find the first index at/after the cursor
+    let end = list.length;
+    if (before !== undefined) {
+      end = list.findIndex((m) => (m.seq ?? 0) >= before);
+      if (end === -1) end = list.length;
+    }
+
+    const start = Math.max(0, end - limit);
+    return { messages: list.slice(start, end), hasMore: start > 0 };
+  }
+
+  /** `msg` as it would be stored next; nothing changes until it is inserted. */
+  protected numbered(msg: ChatEnvelope): ChatEnvelope {
+    return { ...msg, seq: this.nextSeq.get(msg.room) ?? 1, storedAt: Date.now() };
+  }
+
+  protected insert(stored: ChatEnvelope): void {
+    const room = stored.room;
+    const seq = stored.seq ?? 0;
+
+    const list = this.rooms.get(room) ?? [];
+    list.push(stored);
+    while (list.length > this.perRoomMax) {
+      const trimmed = list.shift();
+      if (trimmed) this.superseded.delete(`${room}|${trimmed.id}`);
+    }
+    this.rooms.set(room, list);
+
+    this.nextSeq.set(room, Math.max(this.nextSeq.get(room) ?? 1, seq + 1));
+  }
+
+  protected replace(next: ChatEnvelope): boolean {
+    const list = this.rooms.get(next.room) ?? [];
+    const i = list.findIndex((m) => m.id === next.id);
+    if (i === -1) return false;
+
+    const key = `${next.room}|${next.id}`;
+    this.superseded.set(key, [...(this.superseded.get(key) ?? []), list[i]]);
+    list[i] = next;
+    return true;
+  }
+}
+
+type SeqMark = { room: string; nextSeq: number };
+type RevisionLine = { revised: ChatEnvelope };
+
+/**
+ * Append-only JSONL store. The file is replayed into memory on init;
+ * every accepted message is appended as one line, every later revision as a
+ * `{ revised }` line. A purge rewrites the file (write-then-rename), leading with
+ * `{ room, nextSeq }` marks so seqs stay monotonic.
+ */
+export class JsonlMessageStore extends MemoryMessageStore {
+  override readonly kind = "jsonl";
+  private queue: Promise<unknown> = Promise.resolve(); // appends and rewrites, in order
+  private writeError: string | undefined; // of the last write, until one succeeds
+
+  constructor(
+    private readonly filePath: string,
+    perRoomMax: number
+  ) {
+    super(perRoomMax);
+  }
+
+  override async init(): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    let text = "";
+    try {
+      text = await fs.promises.readFile(this.filePath, "utf8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+    }
+
+    let skipped = 0;
+    for (const line of text.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const msg = JSON.parse(line) as ChatEnvelope | SeqMark | RevisionLine;
+        if ("revised" in msg) {
+          this.replace(msg.revised); // no-op when its message was trimmed (or its line lost)
+          continue;
+        }
+        if ("nextSeq" in msg && typeof msg.room === "string" && typeof msg.nextSeq === "number") {
+          this.nextSeq.set(msg.room, Math.max(this.nextSeq.get(msg.room) ?? 1, msg.nextSeq));
+          continue;
+        }
+        if (typeof msg?.room !== "string" || !("seq" in msg) || typeof msg.seq !== "number") {
+          skipped++;
+          continue;
+        }
+        this.insert(msg);
+      } catch {
+        skipped++; // torn write at tail, or hand-edited line
+      }
+    }
+
+    for (const list of this.rooms.values()) {
+      list.sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0));
+    }
+
+    if (skipped) {
+      log.warn("store-skipped-lines", { skipped, path: this.filePath });
+    }
+  }
+
+  // the line is written before the message enters memory: a write that fails leaves neither
+  // the message nor its seq behind, so the client's retry is stored once, under the same seq
+  override append(msg: ChatEnvelope): Promise<ChatEnvelope> {
+    return this.enqueue(async () => {
+      const stored = this.numbered(msg);
+      await fs.promises.appendFile(this.filePath, JSON.stringify(stored) + "\n", "utf8");
+      this.insert(stored);
+      return stored;
+    });
+  }
+
+  override async purge(
+    room: string,
+    drop: (msg: ChatEnvelope, newer: number) => boolean
+  ): Promise<ChatEnvelope[]> {
+    const dropped = await super.purge(room, drop);
+    if (dropped.length) await this.enqueue(() => this.rewrite());
+    return dropped;
+  }
+
+  override revise(next: ChatEnvelope): Promise<boolean> {
+    return this.enqueue(async () => {
+      if (!this.rooms.get(next.room)?.some((m) => m.id === next.id)) return false;
+      const line: RevisionLine = { revised: next };
+      await fs.promises.appendFile(this.filePath, JSON.stringify(line) + "\n", "utf8");
+      return this.replace(next);
+    });
+  }
+
+  override check(): Promise<ReadyCheck> {
+    return fileCheck(this.filePath, this.writeError);
+  }
+
+  private enqueue<T>(fn: () => Promise<T>): Promise<T> {
+    const next = this.queue.then(fn);
+    this.queue = next.then(
+      () => (this.writeError = undefined),
+      (err) => (this.writeError = String(err))
+    );
+    return next;
+  }
+
+  private async rewrite(): Promise<void> {
+    const marks: SeqMark[] = Array.from(this.nextSeq, ([room, nextSeq]) => ({ room, nextSeq }));
+    const originals: ChatEnvelope[] = [];
+    const revised: RevisionLine[] = [];
+    for (const msg of Array.from(this.rooms.values()).flat()) {
+      const [first, ...later] = [...(this.superseded.get(`${msg.room}|${msg.id}`) ?? []), msg];
+      originals.push(first);
+      for (const r of later) revised.push({ revised: r });
+    }
+    const lines = [...marks, ...originals, ...revised].map((l) => JSON.stringify(l));
+
+    const tmp = `${this.filePath}.tmp`;
+    await fs.promises.writeFile(tmp, lines.join("\n") + "\n", "utf8");
+    await fs.promises.rename(tmp, this.filePath);
+  }
+}
+
+/**
+ * Messages in Redis, shared by every relay node: history and the per-room `seq` (an INCR
+ * counter, so seqs stay monotonic and are never reused) are the same whichever node
+ * accepted a message. Per room: a sorted set of ids by seq, a hash of id -> latest
+ * revision, and a list of superseded revisions per message.
+ */
+export class RedisMessageStore implements MessageStore {
+  readonly kind = "redis";
+
+  constructor(
+    private readonly redis: Redis,
+    private readonly prefix: string, // e.g. "nw:"
+    private readonly perRoomMax: number
+  ) {}
+
+  async init(): Promise<void> {
+    await this.redis.ping();
+  }
+
+  check(): Promise<ReadyCheck> {
+    return redisCheck(this.redis);
+  }
+
+  async append(msg: ChatEnvelope): Promise<ChatEnvelope> {
+    const seq = await this.redis.incr(this.key("seq", msg.room));
+    const stored: ChatEnvelope = { ...msg, seq, storedAt: Date.now() };
+    await exec(
+      this.redis
+        .multi()
+        .hset(this.key("msg", msg.room), msg.id, JSON.stringify(stored))
+        .zadd(this.key("ids", msg.room), seq, msg.id)
+        .sadd(`${this.prefix}rooms`, msg.room)
+    );
+
+    const count = await this.redis.zcard(this.key("ids", msg.room));
+    if (count > this.perRoomMax) {
+      const oldest = await this.redis.zrange(this.key("ids", msg.room), 0, count - this.perRoomMax - 1);
+      await this.remove(msg.room, oldest);
+    }
+    return stored;
+  }
+
+  async page(room: string, before: number | undefined, limit: number): Promise<HistoryPage> {
+    const max = before === undefined ? "+inf" : `(${before}`;
+    const ids = await this.redis.zrevrangebyscore(this.key("ids", room), max, "-inf", "LIMIT", 0, limit + 1);
+    return { messages: await this.load(room, ids.slice(0, limit).reverse()), hasMore: ids.length > limit };
+  }
+
+  roomNames(): Promise<string[]> {
+    return this.redis.smembers(`${this.prefix}rooms`);
+  }
+
+  async purge(room: string, drop: (msg: ChatEnvelope, newer: number) => boolean): Promise<ChatEnvelope[]> {
+    const list = await this.load(room, await this.redis.zrange(this.key("ids", room), 0, -1));
+    const dropping = list.filter((m, i) => drop(m, list.length - 1 - i));
+    if (!dropping.length) return [];
+
+    // another node may purge the same messages at once; each counts only what it removed
+    const removed = await this.remove(room, dropping.map((m) => m.id));
+    if (!(await this.redis.zcard(this.key("ids", room)))) await this.redis.srem(`${this.prefix}rooms`, room);
+    return dropping.filter((m) => removed.has(m.id));
+  }
+
+  async get(room: string, id: string): Promise<ChatEnvelope | undefined> {
+    const json = await this.redis.hget(this.key("msg", room), id);
+    return json ? (JSON.parse(json) as ChatEnvelope) : undefined;
+  }
+
+  async revise(next: ChatEnvelope): Promise<boolean> {
+    const prev = await this.redis.hget(this.key("msg", next.room), next.id);
+    if (!prev) return false;
+
+    await exec(
+      this.redis
+        .multi()
+        .rpush(this.key("revs", next.room, next.id), prev)
+        .hset(this.key("msg", next.room), next.id, JSON.stringify(next))
+    );
+    // purged or trimmed meanwhile: drop what this just wrote back
+    if ((await this.redis.zscore(this.key("ids", next.room), next.id)) === null) {
+      await this.remove(next.room, [next.id]);
+      return false;
+    }
+    return true;
+  }
+
+  async revisions(room: string, id: string): Promise<ChatEnvelope[]> {
+    const lines = await this.redis.lrange(this.key("revs", room, id), 0, -1);
+    return lines.map((l) => JSON.parse(l) as ChatEnvelope);
+  }
+
+  private key(kind: "seq" | "ids" | "msg" | "revs", room: string, id?: string): string {
+    return `${this.prefix}${kind}:${room}${id === undefined ? "" : `:${id}`}`;
+  }
+
+  // messages by id, in the order given; ids removed meanwhile are skipped
+  private async load(room: string, ids: string[]): Promise<ChatEnvelope[]> {
+    if (!ids.length) return [];
+    const lines = await this.redis.hmget(this.key("msg", room), ...ids);
+    return lines.filter((l): l is string => l !== null).map((l) => JSON.parse(l) as ChatEnvelope);
+  }
+
+  // resolves to the ids this call removed (not already gone)
+  private async remove(room: string, ids: string[]): Promise<Set<string>> {
+    if (!ids.length) return new Set();
+    const tx = this.redis.multi();
+    for (const id of ids) tx.zrem(this.key("ids", room), id);
+    tx.hdel(this.key("msg", room), ...ids);
+    tx.del(...ids.map((id) => this.key("revs", room, id)));
+    const results = await exec(tx);
+    return new Set(ids.filter((_, i) => results[i] === 1));
+  }
+}
+
+// MULTI/EXEC that fails when any queued command did
+async function exec(tx: ChainableCommander): Promise<unknown[]> {
+  const results = (await tx.exec()) ?? [];
+  const failed = results.find(([err]) => err);
+  if (failed) throw failed[0];
+  return results.map(([, result]) => result);
+}
+
+export function createMessageStore(env: NodeJS.ProcessEnv): MessageStore {
+  const kind = (env.MESSAGE_STORE ?? "memory").trim().toLowerCase();
+  const perRoomMax = Number(env.HISTORY_MAX_PER_ROOM ?? 1000);
+
+  if (kind === "jsonl") {
+    const file = env.MESSAGE_STORE_PATH ?? "data/messages.jsonl";
+    return new JsonlMessageStore(path.resolve(file), perRoomMax);
+  }
+
+  if (kind === "redis") return new RedisMessageStore(sharedRedis(env), redisPrefix(env), perRoomMax);
+
+  if (kind !== "memory") {
+    log.warn("store-unknown-kind", { kind, using: "memory" });
+  }
+  return new MemoryMessageStore(perRoomMax);
+}
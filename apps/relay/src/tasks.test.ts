@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import type { MemberIdentity, TaskDraft } from "@ac/protocol";
+import { TestDoc } from "../test/test-doc.js";
+import { TaskBoard, type TaskActor, type TasksFile } from "./tasks.js";
+
+const dispatcher: MemberIdentity = { memberId: "m_dispatch", label: "Dispatch" };
+const assignee: MemberIdentity = { memberId: "m_ana", label: "Ana" };
+const asAssignee: TaskActor = { ...assignee, dispatcher: false };
+
+function draft(id: string): TaskDraft {
+  return {
+    id,
+    room: "family",
+    title: "Check the side gate",
+    assigneeId: assignee.memberId,
+    ackRequired: true
+  };
+}
+
+async function setup(): Promise<{ board: TaskBoard; doc: TestDoc<Partial<TasksFile>> }> {
+  const doc = new TestDoc<Partial<TasksFile>>();
+  const board = new TaskBoard(doc, 10, 60_000, () => undefined);
+  await board.init();
+  return { board, doc };
+}
+
+describe("TaskBoard", () => {
+  it("moves a task through its lifecycle and refuses moves the actor may not make", async () => {
+    const { board } = await setup();
+    await board.issue(draft("t1"), dispatcher, assignee);
+
+    expect(await board.transition("family", "t1", "in_progress", asAssignee)).toEqual({
+      ok: false,
+      reason: "ack_required"
+    });
+    const asDispatcher: TaskActor = { ...dispatcher, dispatcher: true };
+    expect(await board.transition("family", "t1", "acknowledged", asDispatcher)).toEqual({
+      ok: false,
+      reason: "not_assignee"
+    });
+    const acked = await board.transition("family", "t1", "acknowledged", asAssignee);
+
+    expect(acked).toMatchObject({ ok: true, task: { state: "acknowledged" } });
+    expect(board.tasksIn("family")[0].history.map((h) => h.to)).toEqual(["issued", "acknowledged"]);
+  });
+
+  it("forgets a task whose issue could not be saved, so the retry is issued", async () => {
+    const { board, doc } = await setup();
+
+    doc.failing = true;
+    await expect(board.issue(draft("t1"), dispatcher, assignee)).rejects.toThrow("disk full");
+    expect(board.tasksIn("family")).toEqual([]);
+
+    doc.failing = false;
+    expect(await board.issue(draft("t1"), dispatcher, assignee)).toMatchObject({ ok: true });
+  });
+
+  it("keeps a task's previous state when its transition could not be saved", async () => {
+    const { board, doc } = await setup();
+    await board.issue(draft("t1"), dispatcher, assignee);
+
+    doc.failing = true;
+    await expect(board.transition("family", "t1", "acknowledged", asAssignee)).rejects.toThrow("disk full");
+    expect(board.tasksIn("family")[0]).toMatchObject({ state: "issued", history: [{ to: "issued" }] });
+
+    doc.failing = false;
+    expect(await board.transition("family", "t1", "acknowledged", asAssignee)).toMatchObject({ ok: true });
+  });
+});
@@ -0,0 +1,208 @@
+import path from "path";
+import type { MemberIdentity, Task, TaskDraft, TaskState } from "@ac/protocol";
+import { createJsonDoc, type JsonDoc } from "./jsonfile.js";
+import { log } from "./log.js";
+
+export type TasksFile = {
+  tasks: Task[];
+};
+
+/** Who is acting on a task; `dispatcher` is true for dispatcher/admin roles. */
+export type TaskActor = {
+  memberId: string;
+  label: string;
+  dispatcher: boolean;
+};
+
+export type TaskResult =
+  | { ok: true; task: Task }
+  | {
+      ok: false;
+      reason: "task_exists" | "unknown_task" | "invalid_transition" | "not_assignee" | "ack_required";
+    };
+
+// allowed lifecycle moves; issued → in_progress only when no acknowledgment is required
+const TRANSITIONS: Record<TaskState, TaskState[]> = {
+  issued: ["acknowledged", "in_progress", "declined"],
+  acknowledged: ["in_progress", "complete", "declined"],
+  in_progress: ["complete", "declined"],
+  complete: [],
+  declined: []
+};
+
+/**
+ * Check a lifecycle move against the actor. Only the assignee acknowledges, starts or
+ * declines; the assignee or a dispatcher completes.
+ */
+function transitionDenied(
+  task: Task,
+  to: TaskState,
+  actor: TaskActor
+): Extract<TaskResult, { ok: false }>["reason"] | undefined {
+  if (!TRANSITIONS[task.state].includes(to)) return "invalid_transition";
+
+  const isAssignee = task.assignee.memberId === actor.memberId;
+  if (to === "complete") return isAssignee || actor.dispatcher ? undefined : "not_assignee";
+  if (!isAssignee) return "not_assignee";
+  if (task.state === "issued" && to === "in_progress" && task.ackRequired) return "ack_required";
+  return undefined;
+}
+
+/**
+ * Tasks per room, mirrored to a JSON document, with their full transition history.
+ * A timer escalates tasks whose acknowledgment deadline passed while still issued;
+ * every escalation is reported through `onEscalate` (emitted and audited by the caller).
+ */
+export class TaskBoard {
+  private readonly tasks = new Map<string, Task>(); // `${room}|${id}`
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly doc: JsonDoc<Partial<TasksFile>>,
+    readonly defaultAckMinutes: number,
+    readonly checkIntervalMs: number,
+    private readonly onEscalate: (task: Task) => void
+  ) {}
+
+  async init(): Promise<void> {
+    const data = await this.doc.read();
+    if (data) this.load(data);
+    this.doc.onRemoteChange((changed) => this.load(changed));
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.tick();
+    this.timer = setInterval(() => this.tick(), this.checkIntervalMs);
+    this.timer.unref();
+  }
+
+  tasksIn(room: string): Task[] {
+    return Array.from(this.tasks.values()).filter((t) => t.room === room);
+  }
+
+  /** `assignee` must already be resolved (and room-authorized) by the caller. */
+  async issue(draft: TaskDraft, issuer: MemberIdentity, assignee: MemberIdentity): Promise<TaskResult> {
+    const key = `${draft.room}|${draft.id}`;
+    if (this.tasks.has(key)) return { ok: false, reason: "task_exists" };
+
+    const now = Date.now();
+    const task: Task = {
+      id: draft.id,
+      room: draft.room,
+      title: draft.title,
+      ...(draft.details ? { details: draft.details } : {}),
+      assignee,
+      ...(draft.dueAt ? { dueAt: draft.dueAt } : {}),
+      ackRequired: draft.ackRequired,
+      ...(draft.ackRequired
+        ? { ackDueAt: now + (draft.ackWithinMinutes ?? this.defaultAckMinutes) * 60_000 }
+        : {}),
+      state: "issued",
+      createdAt: now,
+      createdBy: issuer.label,
+      memberId: issuer.memberId,
+      updatedAt: now,
+      history: [{ to: "issued", by: issuer.label, memberId: issuer.memberId, at: now }]
+    };
+
+    await this.put(key, task);
+    return { ok: true, task };
+  }
+
+  async transition(
+    room: string,
+    id: string,
+    to: TaskState,
+    actor: TaskActor,
+    note?: string
+  ): Promise<TaskResult> {
+    const key = `${room}|${id}`;
+    const task = this.tasks.get(key);
+    if (!task) return { ok: false, reason: "unknown_task" };
+
+    const denied = transitionDenied(task, to, actor);
+    if (denied) return { ok: false, reason: denied };
+
+    const now = Date.now();
+    const next: Task = {
+      ...task,
+      state: to,
+      updatedAt: now,
+      history: [
+        ...task.history,
+        {
+          from: task.state,
+          to,
+          by: actor.label,
+          memberId: actor.memberId,
+          at: now,
+          ...(note ? { note } : {})
+        }
+      ]
+    };
+
+    await this.put(key, next);
+    return { ok: true, task: next };
+  }
+
+  /** Mark (once) and report every issued task whose ack deadline has passed. */
+  async escalate(now = Date.now()): Promise<Task[]> {
+    const overdue: Task[] = [];
+    const before: Array<[string, Task]> = [];
+
+    for (const [key, task] of this.tasks) {
+      if (task.state !== "issued" || !task.ackDueAt || task.escalatedAt || task.ackDueAt > now) continue;
+      const escalated: Task = { ...task, escalatedAt: now, updatedAt: now };
+      this.tasks.set(key, escalated);
+      overdue.push(escalated);
+      before.push([key, task]);
+    }
+
+    if (!overdue.length) return overdue;
+    try {
+      await this.save();
+    } catch (err) {
+      // unmark them so the next tick escalates them again
+      for (const [key, task] of before) this.tasks.set(key, task);
+      throw err;
+    }
+    for (const task of overdue) this.onEscalate(task);
+    return overdue;
+  }
+
+  private tick(): void {
+    this.escalate().catch((err) => log.error("task-escalate-failed", { err: String(err) }));
+  }
+
+  private async put(key: string, task: Task): Promise<void> {
+    const prev = this.tasks.get(key);
+    this.tasks.set(key, task);
+    try {
+      await this.save();
+    } catch (err) {
+      // members are not served a task that was never saved, and the retry is not a task_exists
+      if (prev) this.tasks.set(key, prev);
+      else this.tasks.delete(key);
+      throw err;
+    }
+  }
+
+  private load(data: Partial<TasksFile>): void {
+    this.tasks.clear();
+    for (const t of data.tasks ?? []) this.tasks.set(`${t.room}|${t.id}`, t);
+  }
+
+  private async save(): Promise<void> {
+    await this.doc.write({ tasks: Array.from(this.tasks.values()) });
+  }
+}
+
+export function createTaskBoard(env: NodeJS.ProcessEnv, onEscalate: (task: Task) => void): TaskBoard {
+  return new TaskBoard(
+    createJsonDoc(env, "tasks", path.resolve(env.TASKS_PATH ?? "data/tasks.json")),
+    Number(env.TASK_ACK_MINUTES ?? 10),
+    Number(env.TASK_ESCALATION_SECONDS ?? 15) * 1000,
+    onEscalate
+  );
+}
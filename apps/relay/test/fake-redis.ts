@@ -0,0 +1,503 @@
+import net from "net";
+import type { AddressInfo } from "net";
+
+/**
+ * A small in-process Redis (RESP2 over TCP) for tests: the commands the relay's Redis
+ * backends send, with pub/sub, key expiry and WATCH/MULTI/EXEC. Not for production use;
+ * tests run against a real Redis instead when REDIS_URL is set.
+ */
+
+type Types = {
+  string: Buffer;
+  hash: Map<string, Buffer>;
+  zset: Map<string, number>;
+  list: Buffer[];
+  set: Set<string>;
+};
+type Value = { [K in keyof Types]: { type: K; value: Types[K] } }[keyof Types];
+
+type Reply = string | number | Buffer | null | Error | Reply[] | { status: string };
+
+class Conn {
+  readonly channels = new Set<string>();
+  readonly patterns = new Set<string>();
+  readonly watched = new Map<string, number>(); // key -> version when watched
+  queued: Buffer[][] | null = null; // between MULTI and EXEC
+  private buffer = Buffer.alloc(0);
+
+  constructor(
+    readonly socket: net.Socket,
+    private readonly server: FakeRedis
+  ) {
+    socket.on("data", (chunk: Buffer) => this.read(chunk));
+    socket.on("error", () => undefined);
+    socket.on("close", () => server.drop(this));
+  }
+
+  get subscriptions(): number {
+    return this.channels.size + this.patterns.size;
+  }
+
+  send(reply: Reply): void {
+    if (!this.socket.destroyed) this.socket.write(encode(reply));
+  }
+
+  private read(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    for (;;) {
+      const parsed = parseCommand(this.buffer);
+      if (!parsed) return;
+      this.buffer = this.buffer.subarray(parsed.length);
+      this.server.run(this, parsed.args);
+    }
+  }
+}
+
+function encode(reply: Reply): Buffer {
+  if (reply === null) return Buffer.from("$-1\r\n");
+  if (typeof reply === "number") return Buffer.from(`:${reply}\r\n`);
+  if (reply instanceof Error) return Buffer.from(`-${reply.message}\r\n`);
+  if (Array.isArray(reply)) return Buffer.concat([Buffer.from(`*${reply.length}\r\n`), ...reply.map(encode)]);
+  if (typeof reply === "object" && !Buffer.isBuffer(reply)) return Buffer.from(`+${reply.status}\r\n`);
+  const bytes = Buffer.isBuffer(reply) ? reply : Buffer.from(reply);
+  return Buffer.concat([Buffer.from(`$${bytes.length}\r\n`), bytes, Buffer.from("\r\n")]);
+}
+
+// one `*<n>\r\n$<len>\r\n<bytes>\r\n...` command, or null until it has fully arrived
+function parseCommand(buf: Buffer): { args: Buffer[]; length: number } | null {
+  if (!buf.length) return null;
+  let pos = 0;
+  const line = (): string | null => {
+    const end = buf.indexOf("\r\n", pos);
+    if (end === -1) return null;
+    const text = buf.toString("utf8", pos, end);
+    pos = end + 2;
+    return text;
+  };
+
+  if (buf[0] !== 0x2a) {
+    // inline command (e.g. typed into a terminal)
+    const text = line();
+    if (text === null) return null;
+    return { args: text.split(" ").filter(Boolean).map((s) => Buffer.from(s)), length: pos };
+  }
+
+  const head = line();
+  if (head === null) return null;
+  const args: Buffer[] = [];
+  for (let i = 0; i < Number(head.slice(1)); i++) {
+    const size = line();
+    if (size === null) return null;
+    const len = Number(size.slice(1));
+    if (buf.length < pos + len + 2) return null;
+    args.push(buf.subarray(pos, pos + len));
+    pos += len + 2;
+  }
+  return { args, length: pos };
+}
+
+function globToRegExp(glob: string): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "*") source += ".*";
+    else if (c === "?") source += ".";
+    else if (c === "\\" && i + 1 < glob.length) source += `\\${glob[++i]}`;
+    else if (c === "[") {
+      const end = glob.indexOf("]", i);
+      if (end === -1) source += "\\[";
+      else {
+        source += glob.slice(i, end + 1); // a character class reads the same in both
+        i = end;
+      }
+    } else source += c.replace(/[.+^${}()|\\/]/g, "\\$&");
+  }
+  return new RegExp(`^${source}$`, "s");
+}
+
+// `(5` is exclusive, `-inf`/`+inf` are open
+function scoreBound(raw: string): { value: number; exclusive: boolean } {
+  const exclusive = raw.startsWith("(");
+  const text = exclusive ? raw.slice(1) : raw;
+  const value = text === "+inf" || text === "inf" ? Infinity : text === "-inf" ? -Infinity : Number(text);
+  return { value, exclusive };
+}
+
+const OK = { status: "OK" };
+const WRONGTYPE = new Error("WRONGTYPE Operation against a key holding the wrong kind of value");
+
+export class FakeRedis {
+  private readonly data = new Map<string, Value>();
+  private readonly expires = new Map<string, number>(); // key -> epoch ms
+  private readonly versions = new Map<string, number>(); // bumped on every write, for WATCH
+  private readonly conns = new Set<Conn>();
+  private server: net.Server | null = null;
+
+  /** Listen on a free local port; resolves to the redis:// URL. */
+  async start(): Promise<string> {
+    this.server = net.createServer((socket) => {
+      socket.setNoDelay(true);
+      this.conns.add(new Conn(socket, this));
+    });
+    await new Promise<void>((resolve) => this.server?.listen(0, "127.0.0.1", resolve));
+    const { port } = this.server.address() as AddressInfo;
+    return `redis://127.0.0.1:${port}`;
+  }
+
+  async stop(): Promise<void> {
+    for (const c of this.conns) c.socket.destroy();
+    await new Promise<void>((resolve) => (this.server ? this.server.close(() => resolve()) : resolve()));
+  }
+
+  /** Drop every key (like FLUSHALL), e.g. between tests. */
+  flush(): void {
+    for (const key of this.data.keys()) this.touch(key);
+    this.data.clear();
+    this.expires.clear();
+  }
+
+  drop(conn: Conn): void {
+    this.conns.delete(conn);
+  }
+
+  run(conn: Conn, args: Buffer[]): void {
+    const name = args[0]?.toString("utf8").toUpperCase() ?? "";
+
+    if (conn.queued && !["EXEC", "DISCARD", "MULTI", "WATCH"].includes(name)) {
+      conn.queued.push(args);
+      conn.send({ status: "QUEUED" });
+      return;
+    }
+    if (conn.subscriptions && !SUBSCRIBER_COMMANDS.has(name)) {
+      conn.send(new Error(`ERR Can't execute '${name.toLowerCase()}' in subscribed mode`));
+      return;
+    }
+
+    switch (name) {
+      case "MULTI":
+        conn.queued = [];
+        conn.send(OK);
+        return;
+      case "DISCARD":
+        conn.queued = null;
+        conn.watched.clear();
+        conn.send(OK);
+        return;
+      case "EXEC": {
+        const queued = conn.queued ?? [];
+        conn.queued = null;
+        const dirty = Array.from(conn.watched).some(([key, v]) => (this.versions.get(key) ?? 0) !== v);
+        conn.watched.clear();
+        conn.send(dirty ? null : queued.map((cmd) => this.exec(conn, cmd) ?? null));
+        return;
+      }
+      case "WATCH":
+        for (const key of args.slice(1).map(String)) conn.watched.set(key, this.versions.get(key) ?? 0);
+        conn.send(OK);
+        return;
+      case "UNWATCH":
+        conn.watched.clear();
+        conn.send(OK);
+        return;
+    }
+
+    const reply = this.exec(conn, args);
+    if (reply !== undefined) conn.send(reply);
+  }
+
+  // one command; undefined when it already answered (pub/sub confirmations)
+  private exec(conn: Conn, args: Buffer[]): Reply | undefined {
+    const name = args[0].toString("utf8").toUpperCase();
+    const s = args.slice(1).map((a) => a.toString("utf8"));
+
+    switch (name) {
+      case "PING":
+        if (conn.subscriptions) return ["pong", s[0] ?? ""];
+        return s.length ? args[1] : { status: "PONG" };
+      case "ECHO":
+        return args[1];
+      case "INFO":
+        return "# Server\r\nredis_version:7.2.0\r\nloading:0\r\n";
+      case "CLIENT":
+      case "SELECT":
+        return OK;
+      case "QUIT":
+        conn.send(OK);
+        conn.socket.end();
+        return undefined;
+
+      case "GET": {
+        const v = this.read(s[0], "string");
+        return v instanceof Error ? v : (v?.value ?? null);
+      }
+      case "SET": {
+        const opts = s.slice(2).map((o) => o.toUpperCase());
+        if (opts.includes("NX") && this.live(s[0])) return null;
+        if (opts.includes("XX") && !this.live(s[0])) return null;
+        this.data.set(s[0], { type: "string", value: Buffer.from(args[2]) });
+        this.expires.delete(s[0]);
+        const px = opts.indexOf("PX");
+        const ex = opts.indexOf("EX");
+        if (px !== -1) this.expires.set(s[0], Date.now() + Number(s[2 + px + 1]));
+        if (ex !== -1) this.expires.set(s[0], Date.now() + Number(s[2 + ex + 1]) * 1000);
+        this.touch(s[0]);
+        return OK;
+      }
+      case "INCR": {
+        const v = this.read(s[0], "string");
+        if (v instanceof Error) return v;
+        const next = Number(v?.value.toString() ?? 0) + 1;
+        this.data.set(s[0], { type: "string", value: Buffer.from(String(next)) });
+        this.touch(s[0]);
+        return next;
+      }
+      case "DEL": {
+        let n = 0;
+        for (const key of s) {
+          if (!this.live(key)) continue;
+          this.remove(key);
+          n++;
+        }
+        return n;
+      }
+      case "EXISTS":
+        return s.filter((key) => this.live(key)).length;
+      case "PEXPIRE":
+        if (!this.live(s[0])) return 0;
+        this.expires.set(s[0], Date.now() + Number(s[1]));
+        return 1;
+
+      case "HSET": {
+        const h = this.write(s[0], "hash", () => new Map<string, Buffer>());
+        if (h instanceof Error) return h;
+        let added = 0;
+        for (let i = 1; i + 1 < s.length; i += 2) {
+          if (!h.has(s[i])) added++;
+          h.set(s[i], Buffer.from(args[i + 2]));
+        }
+        return added;
+      }
+      case "HGET": {
+        const h = this.read(s[0], "hash");
+        return h instanceof Error ? h : (h?.value.get(s[1]) ?? null);
+      }
+      case "HMGET": {
+        const h = this.read(s[0], "hash");
+        return h instanceof Error ? h : s.slice(1).map((f) => h?.value.get(f) ?? null);
+      }
+      case "HGETALL": {
+        const h = this.read(s[0], "hash");
+        if (h instanceof Error) return h;
+        return Array.from(h?.value ?? []).flatMap(([f, v]) => [f, v]);
+      }
+      case "HEXISTS": {
+        const h = this.read(s[0], "hash");
+        return h instanceof Error ? h : h?.value.has(s[1]) ? 1 : 0;
+      }
+      case "HDEL": {
+        const h = this.read(s[0], "hash");
+        if (h instanceof Error) return h;
+        const n = s.slice(1).filter((f) => h?.value.delete(f)).length;
+        if (n) this.changed(s[0]);
+        return n;
+      }
+
+      case "ZADD": {
+        const z = this.write(s[0], "zset", () => new Map<string, number>());
+        if (z instanceof Error) return z;
+        let added = 0;
+        for (let i = 1; i + 1 < s.length; i += 2) {
+          if (!z.has(s[i + 1])) added++;
+          z.set(s[i + 1], Number(s[i]));
+        }
+        return added;
+      }
+      case "ZREM": {
+        const z = this.read(s[0], "zset");
+        if (z instanceof Error) return z;
+        const n = s.slice(1).filter((m) => z?.value.delete(m)).length;
+        if (n) this.changed(s[0]);
+        return n;
+      }
+      case "ZSCORE": {
+        const z = this.read(s[0], "zset");
+        if (z instanceof Error) return z;
+        const score = z?.value.get(s[1]);
+        return score === undefined ? null : String(score);
+      }
+      case "ZCARD": {
+        const z = this.read(s[0], "zset");
+        return z instanceof Error ? z : (z?.value.size ?? 0);
+      }
+      case "ZRANGE": {
+        const z = this.read(s[0], "zset");
+        if (z instanceof Error) return z;
+        const sorted = this.sorted(z?.value);
+        const start = Number(s[1]) < 0 ? Math.max(0, sorted.length + Number(s[1])) : Number(s[1]);
+        const stop = Number(s[2]) < 0 ? sorted.length + Number(s[2]) : Number(s[2]);
+        return sorted.slice(start, stop + 1).map(([m]) => m);
+      }
+      case "ZREVRANGEBYSCORE": {
+        const z = this.read(s[0], "zset");
+        if (z instanceof Error) return z;
+        const max = scoreBound(s[1]);
+        const min = scoreBound(s[2]);
+        let hits = this.sorted(z?.value)
+          .reverse()
+          .filter(([, score]) => (max.exclusive ? score < max.value : score <= max.value))
+          .filter(([, score]) => (min.exclusive ? score > min.value : score >= min.value));
+        const limit = s.findIndex((o) => o.toUpperCase() === "LIMIT");
+        if (limit !== -1) {
+          const offset = Number(s[limit + 1]);
+          const count = Number(s[limit + 2]);
+          hits = hits.slice(offset, count < 0 ? undefined : offset + count);
+        }
+        return hits.map(([m]) => m);
+      }
+
+      case "RPUSH": {
+        const l = this.write(s[0], "list", () => [] as Buffer[]);
+        if (l instanceof Error) return l;
+        l.push(...args.slice(2).map((a) => Buffer.from(a)));
+        return l.length;
+      }
+      case "LRANGE": {
+        const l = this.read(s[0], "list");
+        if (l instanceof Error) return l;
+        const list = l?.value ?? [];
+        const start = Number(s[1]) < 0 ? Math.max(0, list.length + Number(s[1])) : Number(s[1]);
+        const stop = Number(s[2]) < 0 ? list.length + Number(s[2]) : Number(s[2]);
+        return list.slice(start, stop + 1);
+      }
+
+      case "SADD": {
+        const set = this.write(s[0], "set", () => new Set<string>());
+        if (set instanceof Error) return set;
+        const before = set.size;
+        for (const m of s.slice(1)) set.add(m);
+        return set.size - before;
+      }
+      case "SREM": {
+        const set = this.read(s[0], "set");
+        if (set instanceof Error) return set;
+        const n = s.slice(1).filter((m) => set?.value.delete(m)).length;
+        if (n) this.changed(s[0]);
+        return n;
+      }
+      case "SMEMBERS": {
+        const set = this.read(s[0], "set");
+        return set instanceof Error ? set : Array.from(set?.value ?? []);
+      }
+
+      case "PUBLISH":
+        return this.publish(s[0], args[2]);
+      case "SUBSCRIBE":
+      case "PSUBSCRIBE": {
+        const set = name === "SUBSCRIBE" ? conn.channels : conn.patterns;
+        for (const ch of s) {
+          set.add(ch);
+          conn.send([name.toLowerCase(), ch, conn.subscriptions]);
+        }
+        return undefined;
+      }
+      case "UNSUBSCRIBE":
+      case "PUNSUBSCRIBE": {
+        const set = name === "UNSUBSCRIBE" ? conn.channels : conn.patterns;
+        const targets = s.length ? s : Array.from(set);
+        if (!targets.length) conn.send([name.toLowerCase(), null, conn.subscriptions]);
+        for (const ch of targets) {
+          set.delete(ch);
+          conn.send([name.toLowerCase(), ch, conn.subscriptions]);
+        }
+        return undefined;
+      }
+      case "PUBSUB": {
+        if (s[0]?.toUpperCase() !== "NUMSUB") return new Error("ERR unsupported PUBSUB subcommand");
+        const conns = Array.from(this.conns);
+        return s.slice(1).flatMap((ch) => [ch, conns.filter((c) => c.channels.has(ch)).length]);
+      }
+
+      default:
+        return new Error(`ERR unknown command '${name.toLowerCase()}'`);
+    }
+  }
+
+  private publish(channel: string, payload: Buffer): number {
+    let n = 0;
+    for (const c of this.conns) {
+      if (c.channels.has(channel)) {
+        c.send(["message", channel, payload]);
+        n++;
+      }
+      for (const p of c.patterns) {
+        if (!globToRegExp(p).test(channel)) continue;
+        c.send(["pmessage", p, channel, payload]);
+        n++;
+      }
+    }
+    return n;
+  }
+
+  private sorted(z: Map<string, number> | undefined): Array<[string, number]> {
+    return Array.from(z ?? []).sort(([ma, a], [mb, b]) => a - b || (ma < mb ? -1 : ma > mb ? 1 : 0));
+  }
+
+  private live(key: string): boolean {
+    const at = this.expires.get(key);
+    if (at !== undefined && at <= Date.now()) this.remove(key);
+    return this.data.has(key);
+  }
+
+  private read<K extends keyof Types>(key: string, type: K): { value: Types[K] } | undefined | Error {
+    if (!this.live(key)) return undefined;
+    const v = this.data.get(key);
+    return v?.type === type ? (v as unknown as { value: Types[K] }) : WRONGTYPE;
+  }
+
+  // the key's value for a write (created when missing); counts as a change
+  private write<K extends keyof Types>(key: string, type: K, empty: () => Types[K]): Types[K] | Error {
+    const v = this.read(key, type);
+    if (v instanceof Error) return v;
+    this.touch(key);
+    if (v) return v.value;
+    const value = empty();
+    this.data.set(key, { type, value } as Value);
+    return value;
+  }
+
+  // collections that became empty disappear, as in Redis
+  private changed(key: string): void {
+    this.touch(key);
+    const v = this.data.get(key);
+    const size = v && (v.type === "list" ? v.value.length : v.type === "string" ? 1 : v.value.size);
+    if (v && !size) this.data.delete(key);
+  }
+
+  private remove(key: string): void {
+    this.data.delete(key);
+    this.expires.delete(key);
+    this.touch(key);
+  }
+
+  private touch(key: string): void {
+    this.versions.set(key, (this.versions.get(key) ?? 0) + 1);
+  }
+}
+
+// all a connection may send while it is subscribed
+const SUBSCRIBER_COMMANDS = new Set([
+  "SUBSCRIBE",
+  "PSUBSCRIBE",
+  "UNSUBSCRIBE",
+  "PUNSUBSCRIBE",
+  "PING",
+  "QUIT"
+]);
+
+/** The Redis tests run against: REDIS_URL when set, else a FakeRedis on a free port. */
+export async function testRedis(): Promise<{ url: string; stop(): Promise<void> }> {
+  if (process.env.REDIS_URL) return { url: process.env.REDIS_URL, stop: async () => undefined };
+  const fake = new FakeRedis();
+  const url = await fake.start();
+  return { url, stop: () => fake.stop() };
+}
@@ -0,0 +1,131 @@
+import zlib from "zlib";
+
+/**
+ * Small, well-formed JPEG, PNG and WebP files carrying the metadata uploads lose (EXIF with a
+ * GPS position, XMP, comments and text chunks), built byte by byte so a test can name each part.
+ */
+
+/** A TIFF-structured EXIF block: IFD0 with an Orientation and a GPS IFD holding a latitude. */
+export function exifBlock(orientation: number): { tiff: Buffer; gps: Buffer } {
+  const tiff = Buffer.alloc(92);
+  tiff.write("MM", 0, "latin1");
+  tiff.writeUInt16BE(42, 2);
+  tiff.writeUInt32BE(8, 4);
+
+  // IFD0 at 8: Orientation, GPSInfo -> 38
+  tiff.writeUInt16BE(2, 8);
+  ifdEntry(tiff, 10, 0x0112, 3, 1, orientation << 16);
+  ifdEntry(tiff, 22, 0x8825, 4, 1, 38);
+  tiff.writeUInt32BE(0, 34);
+
+  // GPS IFD at 38: GPSLatitudeRef "N", GPSLatitude -> three rationals at 68
+  tiff.writeUInt16BE(2, 38);
+  ifdEntry(tiff, 40, 0x0001, 2, 2, 0x4e000000);
+  ifdEntry(tiff, 52, 0x0002, 5, 3, 68);
+  tiff.writeUInt32BE(0, 64);
+  [51, 1, 30, 1, 2646, 100].forEach((n, i) => tiff.writeUInt32BE(n, 68 + i * 4));
+
+  return { tiff, gps: tiff.subarray(38) };
+}
+
+function ifdEntry(buf: Buffer, at: number, tag: number, type: number, count: number, value: number): void {
+  buf.writeUInt16BE(tag, at);
+  buf.writeUInt16BE(type, at + 2);
+  buf.writeUInt32BE(count, at + 4);
+  buf.writeUInt32BE(value >>> 0, at + 8);
+}
+
+export const XMP = Buffer.from(
+  '<x:xmpmeta xmlns:x="adobe:ns:meta/"><exif:GPSLatitude>51,30.44N</exif:GPSLatitude></x:xmpmeta>'
+);
+
+function jpegSegment(marker: number, payload: Buffer): Buffer {
+  const head = Buffer.alloc(4);
+  head.writeUInt16BE(0xff00 | marker, 0);
+  head.writeUInt16BE(payload.length + 2, 2);
+  return Buffer.concat([head, payload]);
+}
+
+/** JPEG parts in file order; `scan` runs from the start of scan to the end of the image. */
+export function jpeg(orientation = 6) {
+  const { tiff, gps } = exifBlock(orientation);
+  const jfif = jpegSegment(0xe0, Buffer.from("JFIF\0\x01\x01\0\0\x01\0\x01\0\0", "latin1"));
+  const exif = jpegSegment(0xe1, Buffer.concat([Buffer.from("Exif\0\0", "latin1"), tiff]));
+  const xmp = jpegSegment(0xe1, Buffer.concat([Buffer.from("http://ns.adobe.com/xap/1.0/\0"), XMP]));
+  const comment = jpegSegment(0xfe, Buffer.from("taken at 12 Elm Street"));
+  const quant = jpegSegment(0xdb, Buffer.alloc(65, 1));
+  const scan = Buffer.concat([
+    jpegSegment(0xda, Buffer.from([1, 1, 0, 0, 0x3f, 0])),
+    Buffer.from([0x12, 0xff, 0x00, 0x34, 0xff, 0xd0, 0x56, 0xff, 0xd9])
+  ]);
+
+  const file = Buffer.concat([Buffer.from([0xff, 0xd8]), jfif, exif, xmp, comment, quant, scan]);
+  return { file, jfif, quant, scan, gps };
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const head = Buffer.alloc(8);
+  head.writeUInt32BE(data.length, 0);
+  head.write(type, 4, "latin1");
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(zlib.crc32(Buffer.concat([head.subarray(4), data])), 0);
+  return Buffer.concat([head, data, crc]);
+}
+
+export const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/** A 2x2 RGB PNG with EXIF, XMP (iTXt), text and time chunks around its pixels. */
+export function png() {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(2, 0);
+  header.writeUInt32BE(2, 4);
+  header.set([8, 2, 0, 0, 0], 8);
+  const rows = Buffer.from([0, 255, 0, 0, 0, 255, 0, 0, 0, 0, 255, 255, 255, 255]);
+
+  const ihdr = pngChunk("IHDR", header);
+  const idat = pngChunk("IDAT", zlib.deflateSync(rows));
+  const iend = pngChunk("IEND", Buffer.alloc(0));
+  const file = Buffer.concat([
+    PNG_SIGNATURE,
+    ihdr,
+    pngChunk("eXIf", exifBlock(1).tiff),
+    pngChunk("tEXt", Buffer.from("Comment\0taken at 12 Elm Street", "latin1")),
+    pngChunk("iTXt", Buffer.concat([Buffer.from("XML:com.adobe.xmp\0\0\0\0\0", "latin1"), XMP])),
+    idat,
+    pngChunk("tIME", Buffer.from([0x07, 0xea, 10, 19, 8, 30, 0])),
+    iend
+  ]);
+  return { file, ihdr, idat, iend };
+}
+
+function riffChunk(type: string, data: Buffer): Buffer {
+  const head = Buffer.alloc(8);
+  head.write(type, 0, "latin1");
+  head.writeUInt32LE(data.length, 4);
+  return Buffer.concat([head, data, Buffer.alloc(data.length % 2)]);
+}
+
+function riff(chunks: Buffer[]): Buffer {
+  const body = Buffer.concat(chunks);
+  const header = Buffer.alloc(12);
+  header.write("RIFF", 0, "latin1");
+  header.writeUInt32LE(body.length + 4, 4);
+  header.write("WEBP", 8, "latin1");
+  return Buffer.concat([header, body]);
+}
+
+/** An extended WebP (VP8X) whose EXIF and XMP flags are set, with both chunks after the image. */
+export function webp() {
+  const flags = Buffer.alloc(10);
+  flags[0] = 0x0c;
+  flags.writeUIntLE(1, 4, 3); // canvas 2x2, stored minus one
+  flags.writeUIntLE(1, 7, 3);
+  const vp8x = riffChunk("VP8X", flags);
+  // an odd-sized bitstream stand-in, so the pad byte is carried too
+  const image = riffChunk("VP8L", Buffer.from([0x2f, 0x01, 0x40, 0x00, 0x00, 0x07, 0x10, 0x11, 0xfd]));
+
+  const file = riff([vp8x, image, riffChunk("EXIF", exifBlock(1).tiff), riffChunk("XMP ", XMP)]);
+  const vp8xCleared = Buffer.from(vp8x);
+  vp8xCleared[8] = 0;
+  return { file, stripped: riff([vp8xCleared, image]), image };
+}
@@ -0,0 +1,19 @@
+import type { JsonDoc } from "../src/jsonfile.js";
+
+/** An in-memory store document for tests; writes fail while `failing` is set. */
+export class TestDoc<T> implements JsonDoc<T> {
+  readonly where = "test";
+  failing = false;
+  data: T | undefined;
+
+  async read(): Promise<T | undefined> {
+    return this.data;
+  }
+
+  async write(data: T): Promise<void> {
+    if (this.failing) throw new Error("disk full");
+    this.data = structuredClone(data);
+  }
+
+  onRemoteChange(): void {}
+}
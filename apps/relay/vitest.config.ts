@@ -0,0 +1,7 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    env: { LOG_LEVEL: "error" } // tests assert on failures; routine lines are noise
+  }
+});
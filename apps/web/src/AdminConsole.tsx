@@ -0,0 +1,296 @@
+import { useEffect, useState } from "react";
+import type { JoinDenial, LiveSocket, RoomInfo, RoomRate } from "@ac/protocol";
+import { adminRequest, clearAdminToken, loadAdminToken, saveAdminToken } from "./admin.ts";
+
+type Props = {
+  relayUrl: string;
+};
+
+type Snapshot = {
+  sockets: LiveSocket[];
+  rates: RoomRate[];
+  denials: JoinDenial[];
+  rooms: RoomInfo[];
+  at: number;
+};
+
+const POLL_MS = 5000;
+
+const cell = {
+  padding: "3px 6px",
+  borderBottom: "1px solid #eee",
+  textAlign: "left" as const,
+  verticalAlign: "top" as const
+};
+
+function fmtSince(ms: number): string {
+  const mins = Math.floor((Date.now() - ms) / 60_000);
+  if (mins < 1) return "just now";
+  if (mins < 60) return `${mins}m`;
+  return `${Math.floor(mins / 60)}h ${mins % 60}m`;
+}
+
+/**
+ * Operator view over the relay's /admin routes: live sockets, per-room message rates,
+ * recent join denials, and kick / revoke / freeze actions. Polls while open.
+ */
+export default function AdminConsole({ relayUrl }: Props) {
+  const [token, setToken] = useState(() => loadAdminToken());
+  const [tokenDraft, setTokenDraft] = useState("");
+  const [snapshot, setSnapshot] = useState<Snapshot | null>(null);
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+  const [refreshTick, setRefreshTick] = useState(0);
+
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+
+    async function poll() {
+      const [sockets, rates, denials, rooms] = await Promise.all([
+        adminRequest<{ sockets: LiveSocket[] }>(relayUrl, token, "GET", "/sockets"),
+        adminRequest<{ rates: RoomRate[] }>(relayUrl, token, "GET", "/rates"),
+        adminRequest<{ denials: JoinDenial[] }>(relayUrl, token, "GET", "/denials?limit=50"),
+        adminRequest<{ rooms: RoomInfo[] }>(relayUrl, token, "GET", "/rooms")
+      ]);
+      if (cancelled) return;
+
+      if (!sockets.ok || !rates.ok || !denials.ok || !rooms.ok) {
+        const reason =
+          [sockets, rates, denials, rooms].map((r) => (r.ok ? "" : r.reason)).find(Boolean) ?? "error";
+        if (reason === "unauthorized") {
+          clearAdminToken();
+          setToken("");
+        }
+        setError(reason);
+        return;
+      }
+
+      setError("");
+      setSnapshot({
+        sockets: sockets.sockets,
+        rates: rates.rates,
+        denials: denials.denials,
+        rooms: rooms.rooms,
+        at: Date.now()
+      });
+    }
+
+    void poll();
+    const timer = window.setInterval(() => void poll(), POLL_MS);
+    return () => {
+      cancelled = true;
+      window.clearInterval(timer);
+    };
+  }, [relayUrl, token, refreshTick]);
+
+  function signIn() {
+    const t = tokenDraft.trim();
+    if (!t) return;
+    saveAdminToken(t);
+    setTokenDraft("");
+    setError("");
+    setToken(t);
+  }
+
+  function signOut() {
+    clearAdminToken();
+    setToken("");
+    setSnapshot(null);
+  }
+
+  async function act(label: string, path: string, confirmText?: string) {
+    if (confirmText && !window.confirm(confirmText)) return;
+
+    const res = await adminRequest<Record<string, unknown>>(relayUrl, token, "POST", path);
+    setNotice(res.ok ? `${label}: done` : `${label}: failed (${res.reason})`);
+    setRefreshTick((n) => n + 1);
+  }
+
+  if (!token) {
+    return (
+      <div style={{ marginTop: 16 }}>
+        <div style={{ fontSize: 12, opacity: 0.8, marginBottom: 6 }}>
+          Admin console: enter the relay's admin token (kept for this tab only).
+          {error ? <span style={{ color: "#b00020" }}> Last attempt: {error}</span> : null}
+        </div>
+        <input
+          type="password"
+          value={tokenDraft}
+          onChange={(e) => setTokenDraft(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && signIn()}
+          placeholder="Admin token…"
+        />{" "}
+        <button onClick={signIn} disabled={!tokenDraft.trim()}>
+          Open console
+        </button>
+      </div>
+    );
+  }
+
+  const rateByRoom = new Map((snapshot?.rates ?? []).map((r) => [r.room, r]));
+  const openRooms = (snapshot?.rooms ?? []).filter((r) => !r.archived);
+
+  return (
+    <div style={{ marginTop: 16, fontSize: 12 }}>
+      <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+        <b>Admin console</b>
+        <span style={{ opacity: 0.7 }}>
+          {snapshot ? `updated ${new Date(snapshot.at).toLocaleTimeString()}` : "loading…"}
+        </span>
+        <button onClick={() => setRefreshTick((n) => n + 1)}>Refresh</button>
+        <button onClick={signOut}>Sign out</button>
+      </div>
+      {error ? <div style={{ color: "#b00020", marginTop: 4 }}>⚠ {error}</div> : null}
+      {notice ? <div style={{ marginTop: 4 }}>{notice}</div> : null}
+
+      <h4 style={{ margin: "14px 0 4px" }}>Connected sockets ({snapshot?.sockets.length ?? 0})</h4>
+      <table style={{ borderCollapse: "collapse", width: "100%" }}>
+        <thead>
+          <tr>
+            <th style={cell}>Member</th>
+            <th style={cell}>Role</th>
+            <th style={cell}>Origin / IP</th>
+            <th style={cell}>Transport</th>
+            <th style={cell}>Rooms</th>
+            <th style={cell}>Connected</th>
+            <th style={cell} />
+          </tr>
+        </thead>
+        <tbody>
+          {(snapshot?.sockets ?? []).map((s) => (
+            <tr key={s.socketId}>
+              <td style={cell} title={`${s.memberId} • socket ${s.socketId}`}>
+                <b>{s.label}</b>
+                {s.away ? " (away)" : ""}
+              </td>
+              <td style={cell}>{s.guest ? "guest" : (s.role ?? "member")}</td>
+              <td style={cell}>
+                {s.origin ?? "unknown"}
+                <div style={{ opacity: 0.7 }}>{s.ip ?? ""}</div>
+              </td>
+              <td style={cell}>
+                {s.transport}
+                <div style={{ opacity: 0.7 }}>protocol v{s.protocol}</div>
+              </td>
+              <td style={cell}>{s.rooms.join(", ") || "none"}</td>
+              <td style={cell}>{fmtSince(s.connectedAt)}</td>
+              <td style={{ ...cell, whiteSpace: "nowrap" }}>
+                <button
+                  onClick={() => void act(`kick ${s.label}`, `/sockets/${encodeURIComponent(s.socketId)}/kick`)}
+                >
+                  Kick
+                </button>{" "}
+                {s.credentialId ? (
+                  <button
+                    onClick={() =>
+                      void act(
+                        `revoke ${s.label}'s device`,
+                        `/credentials/${encodeURIComponent(s.credentialId ?? "")}/revoke`,
+                        `Revoke this device credential of ${s.label}? The device must be enrolled again.`
+                      )
+                    }
+                  >
+                    Revoke device
+                  </button>
+                ) : null}{" "}
+                {!s.guest ? (
+                  <button
+                    onClick={() =>
+                      void act(
+                        `revoke ${s.label}`,
+                        `/members/${encodeURIComponent(s.memberId)}/revoke`,
+                        `Revoke ${s.label} entirely? Every device of theirs is signed out for good.`
+                      )
+                    }
+                  >
+                    Revoke member
+                  </button>
+                ) : null}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <h4 style={{ margin: "14px 0 4px" }}>Rooms (messages relayed by this node)</h4>
+      <table style={{ borderCollapse: "collapse", width: "100%" }}>
+        <thead>
+          <tr>
+            <th style={cell}>Room</th>
+            <th style={cell}>Last minute</th>
+            <th style={cell}>Last 5 min</th>
+            <th style={cell}>Last 15 min</th>
+            <th style={cell}>State</th>
+            <th style={cell} />
+          </tr>
+        </thead>
+        <tbody>
+          {openRooms.map((r) => {
+            const rate = rateByRoom.get(r.id);
+            return (
+              <tr key={r.id}>
+                <td style={cell} title={r.id}>
+                  {r.label}
+                </td>
+                <td style={cell}>{rate?.lastMinute ?? 0}</td>
+                <td style={cell}>{rate?.last5Minutes ?? 0}</td>
+                <td style={cell}>{rate?.last15Minutes ?? 0}</td>
+                <td style={cell}>{r.frozen ? "🧊 frozen (read-only)" : "open"}</td>
+                <td style={cell}>
+                  {r.frozen ? (
+                    <button
+                      onClick={() => void act(`unfreeze ${r.label}`, `/rooms/${encodeURIComponent(r.id)}/unfreeze`)}
+                    >
+                      Unfreeze
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() =>
+                        void act(
+                          `freeze ${r.label}`,
+                          `/rooms/${encodeURIComponent(r.id)}/freeze`,
+                          `Freeze ${r.label}? Everyone but admins becomes read-only there.`
+                        )
+                      }
+                    >
+                      Freeze
+                    </button>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      <h4 style={{ margin: "14px 0 4px" }}>Recent join denials</h4>
+      {!snapshot?.denials.length ? <div style={{ opacity: 0.7 }}>None since the relay started.</div> : null}
+      {snapshot?.denials.length ? (
+        <table style={{ borderCollapse: "collapse", width: "100%" }}>
+          <thead>
+            <tr>
+              <th style={cell}>When</th>
+              <th style={cell}>Member</th>
+              <th style={cell}>Room</th>
+              <th style={cell}>Reason</th>
+            </tr>
+          </thead>
+          <tbody>
+            {snapshot.denials.map((d) => (
+              <tr key={`${d.at}|${d.socketId}|${d.room}`}>
+                <td style={cell}>{new Date(d.at).toLocaleTimeString()}</td>
+                <td style={cell} title={d.memberId}>
+                  {d.label}
+                  {d.role ? ` (${d.role})` : ""}
+                </td>
+                <td style={cell}>{d.room}</td>
+                <td style={cell}>{d.reason}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : null}
+    </div>
+  );
+}
@@ -1,100 +1,322 @@
-import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import { io, type Socket } from "socket.io-client";
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
 import type {
+  AttachmentRef,
+  Capability,
   ChatAck,
+  ChatEdit,
   ChatEnvelope,
-  ClientToServerEvents,
+  ChatReviseAck,
+  ClientHello,
+  ConnectErrorReason,
+  DeviceKeyAck,
+  HistoryAck,
+  Incident,
+  IncidentAck,
+  IncidentDraft,
+  IncidentListAck,
   JoinAck,
-  ServerToClientEvents
+  LocationListAck,
+  LocationUpdate,
+  MemberIdentity,
+  MemberLocation,
+  MessagePriority,
+  MissionPackage,
+  MissionPackageDraft,
+  OverlayAck,
+  OverlayFeature,
+  OverlayListAck,
+  PackageListAck,
+  PackagePublishAck,
+  PackageStatus,
+  PresenceEntry,
+  ReceiptListAck,
+  ReceiptState,
+  ReceiptStatus,
+  RelayHello,
+  Report,
+  ReportAck,
+  ReportBody,
+  ReportState,
+  RoomAccess,
+  Task,
+  TaskAck,
+  TaskDraft,
+  TaskListAck,
+  TaskState,
+  RoomKeyPublishAck,
+  RetentionRule,
+  RoomKeyState,
+  RoomInfo,
+  RosterAck,
+  RtcPeer,
+  RtcPeersAck,
+  Transport,
+  TransportStatus
 } from "@ac/protocol";
+import {
+  CAPABILITIES,
+  ChatEditSchema,
+  ChatEnvelopeSchema,
+  IncidentDraftSchema,
+  LocationUpdateSchema,
+  MIN_PROTOCOL_VERSION,
+  MissionPackageDraftSchema,
+  OverlayFeatureSchema,
+  PROTOCOL_VERSION,
+  ReportDraftSchema,
+  ReportTransitionSchema,
+  TaskDraftSchema,
+  TaskTransitionSchema
+} from "@ac/protocol";
+import { adminRequestedInUrl } from "./admin.ts";
+import AdminConsole from "./AdminConsole.tsx";
+import { downloadAttachment, formatBytes, uploadAttachment } from "./attachments.ts";
+import AttachmentView from "./AttachmentView.tsx";
+import { loadOrCreateDeviceKeys, RoomKeyring, type KeyRpc } from "./e2e.ts";
+import {
+  loadLoadedPackages,
+  packageHash,
+  saveLoadedPackages,
+  type LoadedPackage
+} from "./packages.ts";
+import IncidentBoard from "./IncidentBoard.tsx";
+import { LocationSharer, type ShareSettings, type ShareState } from "./location.ts";
+import LocationShare from "./LocationShare.tsx";
+import MapPanel from "./MapPanel.tsx";
+import type { OverlayDraft } from "./overlays.ts";
+import {
+  backoffMs,
+  clearOfflineStore,
+  deleteOutboxEntry,
+  loadOutbox,
+  loadStoredHistory,
+  OUTBOX_MAX_AGE_MS,
+  pruneStoredHistory,
+  saveOutboxEntry,
+  storeHistory,
+  type OutboxEntry
+} from "./offline.ts";
+import { notify, notifyPermission, requestNotifyPermission } from "./notify.ts";
+import { PeerMesh } from "./peers.ts";
+import PackagesPanel from "./PackagesPanel.tsx";
+import { FALLBACK_ROOM, firstOpenRoom, loadRoomCatalog, roomFromUrl, saveRoomCatalog } from "./rooms.ts";
+import RosterPanel from "./RosterPanel.tsx";
+import TasksPanel from "./TasksPanel.tsx";
+import { SocketIoTransport } from "./transport.ts";
+import { invalidReason } from "./validate.ts";
+import {
+  clearCredential,
+  loadCredential,
+  readEnrollCodeFromUrl,
+  redeemEnrollment,
+  saveCredential,
+  stripEnrollCodeFromUrl
+} from "./enrollment.ts";
 
 const RELAY_URL = import.meta.env.VITE_RELAY_URL ?? "http://127.0.0.1:8787";
 
+// this build implements every capability the protocol defines
+const CLIENT_HELLO: ClientHello = {
+  protocol: PROTOCOL_VERSION,
+  minProtocol: MIN_PROTOCOL_VERSION,
+  capabilities: [...CAPABILITIES]
+};
+
+// connect_error reasons that no retry fixes: this build and the relay cannot talk
+type Incompatible = Extract<ConnectErrorReason, "client_outdated" | "relay_outdated" | "capability_missing">;
+
+const INCOMPATIBLE: Record<Incompatible, string> = {
+  client_outdated: "This app is older than the relay. Please reload to get the current version.",
+  relay_outdated: "The relay is older than this app. Ask the operator to update the relay, then reload.",
+  capability_missing:
+    "This app lacks a feature the relay requires (such as end-to-end encryption). Please reload to get the current version."
+};
+
+function isIncompatible(reason: string): reason is Incompatible {
+  return reason in INCOMPATIBLE;
+}
+
 function uuid(): string {
   return crypto.randomUUID();
 }
 
 type ConnStatus = "connecting" | "connected" | "disconnected" | "error";
-type Delivery = "pending" | "sent" | "failed";
+type Delivery = "queued" | "pending" | "sent" | "failed"; // queued: waiting offline in the outbox
 type Direction = "outgoing" | "incoming";
 
 type ChatItem = ChatEnvelope & {
   delivery?: Delivery;
   error?: string;
   direction?: Direction; // set in handlers (never computed from refs in render)
+  e2e?: boolean; // arrived end-to-end encrypted (body holds the decrypted text)
+  locked?: boolean; // encrypted and we do not hold its room key (yet)
+  viaPeer?: boolean; // came over a WebRTC data channel; the relay's copy replaces it
+  peers?: number; // outgoing: handed to this many peers directly while the relay path was down
 };
 
-const ROOM_PRESETS = [
-  { value: "emergency", label: "Emergency" },
-  { value: "family", label: "Family" },
-  { value: "vacant-1", label: "Vacant Room 1" },
-  { value: "vacant-2", label: "Vacant Room 2" },
-  { value: "vacant-3", label: "Vacant Room 3" },
-  { value: "vacant-4", label: "Vacant Room 4" }
-] as const;
-
-type RoomId = (typeof ROOM_PRESETS)[number]["value"];
-
-const ROOM_LOOKUP = new Map<string, RoomId>(
-  ROOM_PRESETS.flatMap((r) => [
-    [r.value.toLowerCase(), r.value],
-    [r.label.toLowerCase(), r.value]
-  ])
-);
-
-function normalizeRoomFromUrl(raw: string | null | undefined): RoomId | null {
-  if (!raw) return null;
-  const key = raw.trim().toLowerCase();
-  return ROOM_LOOKUP.get(key) ?? null;
+type View = "chat" | "incidents" | "tasks" | "map" | "packages" | "admin";
+
+// the composer's attachment: uploading, uploaded (attachment set) or failed (error set)
+type UploadState = {
+  key: string;
+  name: string;
+  progress: number; // 0..1
+  previewUrl?: string; // local object URL, images only
+  attachment?: AttachmentRef;
+  error?: string;
+};
+
+const DISPATCH_ROLES = new Set(["admin", "dispatcher"]);
+
+function keyRpcFor(t: Transport): KeyRpc {
+  return {
+    roomKeys: async (room) => {
+      try {
+        return await t.request("room_keys", room);
+      } catch {
+        const res: RoomKeyState = { room, ok: false, reason: "no_ack", rotate: false, grants: [], devices: [] };
+        return res;
+      }
+    },
+    publish: async (pub) => {
+      try {
+        return await t.request("room_key_publish", pub);
+      } catch {
+        const res: RoomKeyPublishAck = { room: pub.room, ok: false, reason: "no_ack" };
+        return res;
+      }
+    }
+  };
+}
+
+function getInitialRoom(): string {
+  const catalog = loadRoomCatalog();
+  return roomFromUrl(catalog) ?? firstOpenRoom(catalog) ?? FALLBACK_ROOM;
 }
 
-function getInitialRoom(): RoomId {
-  const params = new URLSearchParams(window.location.search);
-  return normalizeRoomFromUrl(params.get("room")) ?? "family";
+const NOT_ENROLLED = "not_enrolled (open an enrollment link or paste a code)";
+
+const HISTORY_PAGE = 50;
+
+// queued messages sent per flush, so a reconnect does not dump the whole outbox on the relay
+const FLUSH_BATCH = 5;
+
+function formatHours(h: number): string {
+  return h >= 48 && h % 24 === 0 ? `${h / 24} days` : `${h}h`;
 }
 
-function getInitialToken(): string {
-  const params = new URLSearchParams(window.location.search);
-  return params.get("token") ?? (import.meta.env.VITE_INVITE_TOKEN as string | undefined) ?? "";
+// "messages in this room expire after 24h"; undefined when the relay keeps everything
+function describeRetention(rule: RetentionRule): string | undefined {
+  if (rule.keepHistory === false) return "messages in this room are not stored (live only)";
+
+  const parts: string[] = [];
+  if (rule.maxAgeHours !== undefined) parts.push(`expire after ${formatHours(rule.maxAgeHours)}`);
+  if (rule.maxMessages !== undefined) parts.push(`are capped at the latest ${rule.maxMessages}`);
+  return parts.length ? `messages in this room ${parts.join(" and ")}` : undefined;
 }
 
-// engine.io internals (dev visibility)
-type EngineEvent = "upgrade" | "transport";
-type EngineLike = {
-  transport?: { name?: string };
-  on?: (event: EngineEvent, cb: (arg: unknown) => void) => void;
-  off?: (event: EngineEvent, cb: (arg: unknown) => void) => void;
-};
+type HistoryMeta = { hasMore: boolean; loading: boolean };
 
-function readName(v: unknown): string | undefined {
-  if (!v || typeof v !== "object") return undefined;
-  const name = (v as Record<string, unknown>).name;
-  return typeof name === "string" ? name : undefined;
+type ReceiptSummary = { read: number; delivered: number; total: number; unread: MemberIdentity[] };
+
+// counts only members still expected in the room (the roster can change after sending)
+function summarizeReceipts(st: ReceiptStatus): ReceiptSummary {
+  const byMember = new Map(st.receipts.map((r) => [r.memberId, r]));
+  const unread = st.expected.filter((m) => !byMember.get(m.memberId)?.readAt);
+  const delivered = st.expected.filter((m) => byMember.get(m.memberId)?.deliveredAt).length;
+  return { read: st.expected.length - unread.length, delivered, total: st.expected.length, unread };
+}
+
+// receipts batched per flush into one `receipt` event per room and state
+const RECEIPT_BATCH = 100;
+
+// stored messages (seq) first in seq order; not-yet-stored ones after, by sentAt
+function compareMessages(a: ChatEnvelope, b: ChatEnvelope): number {
+  if (a.seq !== undefined && b.seq !== undefined) return a.seq - b.seq;
+  if (a.seq !== undefined) return -1;
+  if (b.seq !== undefined) return 1;
+  return a.sentAt - b.sentAt;
+}
+
+// a newer revision replaces the message outright (fields it dropped, like a retracted
+// message's attachments, must not survive); only what this client tracks is carried over
+function applyRevision(m: ChatItem, next: ChatItem): ChatItem {
+  if ((next.rev ?? 1) <= (m.rev ?? 1)) return m;
+  return { ...next, direction: m.direction, delivery: m.delivery, error: m.error };
 }
 
 type RoomJoinState =
   | { room: string; phase: "unknown" }
   | { room: string; phase: "joining" }
-  | { room: string; phase: "joined" }
-  | { room: string; phase: "denied"; reason: string; allowedRooms?: string[] };
+  | { room: string; phase: "joined"; access: RoomAccess }
+  | { room: string; phase: "denied"; reason: string; allowedRooms?: string[]; retryAt?: number };
 
 export default function App() {
-  const [roomPreset, setRoomPreset] = useState<RoomId>(() => getInitialRoom());
-  const [token] = useState<string>(() => getInitialToken());
+  const [roomPreset, setRoomPreset] = useState<string>(() => getInitialRoom());
+  // the relay's room catalog (rooms_updated), cached for offline starts
+  const [catalog, setCatalog] = useState<RoomInfo[]>(() => loadRoomCatalog());
+  // incoming messages per room since it was last open
+  const [unread, setUnread] = useState<Record<string, number>>({});
+  // flash messages shown in the banner until dismissed (ids; the text comes from `messages`)
+  const [flashIds, setFlashIds] = useState<string[]>([]);
+  const [notifyPerm, setNotifyPerm] = useState(() => notifyPermission());
+  const [priority, setPriority] = useState<MessagePriority>("routine");
+  const [upload, setUpload] = useState<UploadState | null>(null);
+  const [credential, setCredential] = useState<string>(() => loadCredential());
+  const [enrollCode, setEnrollCode] = useState<string>(() => readEnrollCodeFromUrl());
+  const [enrolling, setEnrolling] = useState(false);
+  const [me, setMe] = useState<MemberIdentity | null>(null);
 
-  const [from, setFrom] = useState("laptop");
   const [text, setText] = useState("");
   const [messages, setMessages] = useState<ChatItem[]>([]);
 
-  const hasToken = Boolean(token);
+  const hasCredential = Boolean(credential);
 
-  // initialize from token (avoids setState-in-effect warnings)
-  const [status, setStatus] = useState<ConnStatus>(() => (hasToken ? "connecting" : "error"));
-  const [statusDetail, setStatusDetail] = useState(() =>
-    hasToken ? "" : "missing_invite_token (use ?token=... or VITE_INVITE_TOKEN)"
-  );
+  // initialize from credential (avoids setState-in-effect warnings)
+  const [status, setStatus] = useState<ConnStatus>(() => (hasCredential ? "connecting" : "error"));
+  const [statusDetail, setStatusDetail] = useState(() => (hasCredential ? "" : NOT_ENROLLED));
 
   const [transport, setTransport] = useState<string>("");
+  // open WebRTC data channels per room (the fallback when the relay path degrades)
+  const [peerLinks, setPeerLinks] = useState<Record<string, RtcPeer[]>>({});
+  const [relayHello, setRelayHello] = useState<RelayHello | null>(null);
+  const [incompatible, setIncompatible] = useState<Incompatible | null>(null);
+  const [composeError, setComposeError] = useState("");
+  const [replyToId, setReplyToId] = useState<string | null>(null); // thread root the composer replies in
+  const [editingId, setEditingId] = useState<string | null>(null); // message the composer is editing
+  const [reviseError, setReviseError] = useState("");
+  const [openThreads, setOpenThreads] = useState<Record<string, boolean>>({}); // `${room}|${rootId}`
+
+  const [historyMeta, setHistoryMeta] = useState<Record<string, HistoryMeta>>({});
+
+  const [view, setView] = useState<View>("chat");
+  // mission packages, keyed by `${room}|${packageId}`
+  const [packages, setPackages] = useState<Record<string, MissionPackage>>({});
+  const [packageStatus, setPackageStatus] = useState<Record<string, PackageStatus>>({});
+  // delivered/read receipts of messages, keyed by `${room}|${msgId}`
+  const [receiptStatus, setReceiptStatus] = useState<Record<string, ReceiptStatus>>({});
+  const [pageVisible, setPageVisible] = useState(() => document.visibilityState === "visible");
+  // incidents and reports, keyed by `${room}|${id}`; assignable members by room
+  const [incidents, setIncidents] = useState<Record<string, Incident>>({});
+  const [reports, setReports] = useState<Record<string, Report>>({});
+  const [assignable, setAssignable] = useState<Record<string, MemberIdentity[]>>({});
+  // tasks of every joined room, keyed by `${room}|${id}`; escalations not yet dismissed
+  const [tasks, setTasks] = useState<Record<string, Task>>({});
+  const [escalatedKeys, setEscalatedKeys] = useState<string[]>([]);
+  // shared member positions, keyed by `${room}|${memberId}`; this device's own share
+  const [locations, setLocations] = useState<Record<string, MemberLocation>>({});
+  const [shareState, setShareState] = useState<ShareState | null>(null);
+  // room presence, keyed by `${room}|${memberId}`
+  const [roster, setRoster] = useState<Record<string, PresenceEntry>>({});
+  const sharerRef = useRef<LocationSharer | null>(null);
+  // overlay features, keyed by `${room}|${id}`
+  const [overlays, setOverlays] = useState<Record<string, OverlayFeature>>({});
+  const [loadedPackages, setLoadedPackages] = useState<Record<string, LoadedPackage>>(() =>
+    loadLoadedPackages()
+  );
+
+  // each joined room's retention rule, from its JoinAck
+  const [retention, setRetention] = useState<Record<string, RetentionRule>>({});
 
   const [roomJoin, setRoomJoin] = useState<RoomJoinState>(() => ({
     room: roomPreset,
@@ -103,378 +325,2107 @@ export default function App() {
 
   const room = roomPreset;
 
-  const socketRef = useRef<Socket<ServerToClientEvents, ClientToServerEvents> | null>(null);
+  const transportRef = useRef<Transport | null>(null);
+  const meshRef = useRef<PeerMesh | null>(null); // set while the relay offers rtc
   const roomRef = useRef<string>(room);
 
   // client-side join bookkeeping
-  const joinedRoomsRef = useRef(new Set<string>());
+  const joinedRoomsRef = useRef(new Map<string, RoomAccess>());
   const joinInflightRef = useRef(new Map<string, Promise<JoinAck>>());
+  const joinRetryRef = useRef(new Map<string, number>()); // room -> epoch ms, after a rate_limited join
+  const catalogRef = useRef<RoomInfo[]>(catalog);
+  const meRef = useRef<MemberIdentity | null>(null);
 
-  // delivery bookkeeping
-  const pendingIdsRef = useRef(new Set<string>());
-  const pendingMapRef = useRef(new Map<string, ChatEnvelope>());
-  const attemptRef = useRef(new Map<string, number>());
-  const RETRY_MAX = 5;
+  // delivery bookkeeping: not-yet-acked outgoing messages, mirrored to IndexedDB
+  const outboxRef = useRef(new Map<string, OutboxEntry>());
+  // relay said rate_limited: nothing goes out before `until`, then the outbox drains one at a time
+  const rateLimitRef = useRef({ until: 0, slow: false });
 
   // dedupe
   const seenRef = useRef(new Set<string>());
+  const peerCopiesRef = useRef(new Set<string>()); // seen, but only from a peer so far
   const localIdsRef = useRef(new Set<string>());
 
+  // history paging: oldest seq loaded per room (exclusive cursor for the next page)
+  const historyCursorRef = useRef(new Map<string, number>());
+  const listRef = useRef<HTMLDivElement | null>(null);
+  const scrollAnchorRef = useRef<number | null>(null);
+
+  // e2e: resolves to this device's keyring once registered (null = guest, plaintext only)
+  const keyringRef = useRef<RoomKeyring | null>(null);
+  const deviceReadyRef = useRef<Promise<RoomKeyring | null> | null>(null);
+  const lockedRef = useRef(new Map<string, ChatEnvelope>()); // encrypted envelopes we could not open yet
+
+  // receipts waiting for the next flush, keyed by `${room}|${state}`; ids already reported read
+  const receiptQueueRef = useRef(new Map<string, Set<string>>());
+  const readSentRef = useRef(new Set<string>());
+
   const visibleMessages = useMemo(
     () => messages.filter((m) => m.room === room),
     [messages, room]
   );
 
+  // replies sit under their thread's root, collapsed; a reply whose root is not loaded stands alone
+  const threads = useMemo(() => {
+    const ids = new Set(visibleMessages.map((m) => m.id));
+    const roots: ChatItem[] = [];
+    const replies = new Map<string, ChatItem[]>();
+    for (const m of visibleMessages) {
+      if (!m.replyTo || !ids.has(m.replyTo)) {
+        roots.push(m);
+        continue;
+      }
+      const list = replies.get(m.replyTo) ?? [];
+      list.push(m);
+      replies.set(m.replyTo, list);
+    }
+    return { roots, replies };
+  }, [visibleMessages]);
+
+  // what is actually on screen: roots, and the replies of expanded threads
+  const shownMessages = useMemo(
+    () =>
+      threads.roots.flatMap((m) =>
+        openThreads[`${m.room}|${m.id}`] ? [m, ...(threads.replies.get(m.id) ?? [])] : [m]
+      ),
+    [threads, openThreads]
+  );
+
   const shareUrl = useMemo(() => {
-    if (!token) return "";
     const u = new URL(window.location.href);
+    u.searchParams.delete("enroll");
     u.searchParams.set("room", room);
-    u.searchParams.set("token", token);
     return u.toString();
-  }, [room, token]);
+  }, [room]);
+
+  const enrollStartedRef = useRef(false);
+
+  const enroll = useCallback(async (code: string) => {
+    if (!code || enrollStartedRef.current) return;
+    enrollStartedRef.current = true;
+    setEnrolling(true);
+
+    const res = await redeemEnrollment(RELAY_URL, code);
+
+    enrollStartedRef.current = false;
+    setEnrolling(false);
+    stripEnrollCodeFromUrl();
+
+    if (!res.ok) {
+      setStatus("error");
+      setStatusDetail(`enrollment failed (${res.reason})`);
+      return;
+    }
+
+    saveCredential(res.credential);
+    setEnrollCode("");
+    setStatus("connecting");
+    setStatusDetail("");
+    setCredential(res.credential);
+  }, []);
+
+  // redeem a code handed over via ?enroll=... once, on first load
+  const urlEnrollCodeRef = useRef(enrollCode);
+  useEffect(() => {
+    const code = urlEnrollCodeRef.current;
+    urlEnrollCodeRef.current = "";
+    if (code) void enroll(code);
+  }, [enroll]);
 
   useEffect(() => {
     roomRef.current = room;
   }, [room]);
 
-  const joinRoom = useCallback((r: string): Promise<JoinAck> => {
-    const s = socketRef.current;
-
-    if (!s || !s.connected) {
-      return Promise.resolve({ room: r, ok: false, reason: "not_connected" });
+  // keep the viewport steady when older messages are prepended
+  useLayoutEffect(() => {
+    const el = listRef.current;
+    const prevHeight = scrollAnchorRef.current;
+    if (!el || prevHeight === null) return;
+    scrollAnchorRef.current = null;
+    el.scrollTop += el.scrollHeight - prevHeight;
+  }, [visibleMessages]);
+
+  const openEnvelope = useCallback(async (msg: ChatEnvelope): Promise<ChatItem> => {
+    if (!msg.enc) {
+      lockedRef.current.delete(msg.id); // a retraction (or plaintext edit) supersedes a locked revision
+      return msg;
     }
 
-    if (joinedRoomsRef.current.has(r)) {
-      return Promise.resolve({ room: r, ok: true });
+    const plain = (await keyringRef.current?.open(msg)) ?? null;
+    if (plain === null) {
+      lockedRef.current.set(msg.id, msg);
+      return { ...msg, body: "", e2e: true, locked: true };
     }
 
-    const inflight = joinInflightRef.current.get(r);
-    if (inflight) return inflight;
-
-    if (roomRef.current === r) setRoomJoin({ room: r, phase: "joining" });
+    lockedRef.current.delete(msg.id);
+    return { ...msg, body: plain, e2e: true, locked: false };
+  }, []);
 
-    const p = new Promise<JoinAck>((resolve) => {
-      let settled = false;
+  // retry envelopes that arrived before we held their key
+  const reopenLocked = useCallback(
+    async (r: string) => {
+      const opened = new Map<string, ChatItem>();
 
-      const timer = window.setTimeout(() => {
-        if (settled) return;
-        settled = true;
+      for (const env of Array.from(lockedRef.current.values())) {
+        if (env.room !== r) continue;
+        const item = await openEnvelope(env);
+        if (!item.locked) opened.set(env.id, item);
+      }
 
-        joinInflightRef.current.delete(r);
+      if (!opened.size) return;
+      setMessages((prev) =>
+        prev.map((m) => {
+          const o = opened.get(m.id);
+          return o ? { ...m, body: o.body, e2e: true, locked: false } : m;
+        })
+      );
+    },
+    [openEnvelope]
+  );
 
-        const res: JoinAck = { room: r, ok: false, reason: "no_ack" };
-        if (roomRef.current === r) {
-          setRoomJoin({ room: r, phase: "denied", reason: "no_ack" });
-        }
-        resolve(res);
-      }, 1500);
+  const syncRoomKeys = useCallback(
+    async (r: string): Promise<boolean> => {
+      const ring = await deviceReadyRef.current;
+      const t = transportRef.current;
+      if (!ring || !t?.connected) return false;
 
-      s.emit("join", r, (ack?: JoinAck) => {
-        if (settled) return;
-        settled = true;
+      const ok = await ring.sync(r, keyRpcFor(t));
+      await reopenLocked(r); // grants for older keys may have arrived even if current did not
+      return ok;
+    },
+    [reopenLocked]
+  );
 
-        window.clearTimeout(timer);
-        joinInflightRef.current.delete(r);
+  /**
+   * The envelope as it goes on the wire: encrypted when this device takes part in e2e.
+   * Fails closed: null (never plaintext) when an enrolled device lacks the room key.
+   */
+  const sealForRoom = useCallback(
+    async (env: ChatEnvelope): Promise<ChatEnvelope | null> => {
+      const ring = await deviceReadyRef.current;
+      if (!ring) return env;
+
+      const sealed = await ring.seal(env);
+      if (sealed) return sealed;
+      await syncRoomKeys(env.room);
+      return ring.seal(env);
+    },
+    [syncRoomKeys]
+  );
 
-        const res: JoinAck =
-          ack && typeof ack === "object" ? ack : { room: r, ok: false, reason: "bad_ack" };
+  /** Encrypt (when this device takes part in e2e) and emit; false when the room key is missing. */
+  const emitChat = useCallback(
+    async (t: Transport, env: ChatEnvelope): Promise<boolean> => {
+      const sealed = await sealForRoom(env);
+      if (!sealed) return false;
 
-        if (res.ok) {
-          joinedRoomsRef.current.add(r);
-          if (roomRef.current === r) setRoomJoin({ room: r, phase: "joined" });
-        } else if (roomRef.current === r) {
-          setRoomJoin({
-            room: r,
-            phase: "denied",
-            reason: res.reason ?? "join_denied",
-            allowedRooms: res.allowedRooms
-          });
-        }
+      t.send(sealed);
+      return true;
+    },
+    [sealForRoom]
+  );
 
-        resolve(res);
-      });
-    });
+  const setOutboxEntry = useCallback((entry: OutboxEntry) => {
+    outboxRef.current.set(entry.env.id, entry);
+    void saveOutboxEntry(entry);
+  }, []);
 
-    joinInflightRef.current.set(r, p);
-    return p;
+  const setDelivery = useCallback((id: string, delivery: Delivery, error = "") => {
+    setMessages((prev) => prev.map((m) => (m.id === id ? { ...m, delivery, error } : m)));
   }, []);
 
-  const ensureJoined = useCallback(
-    async (r: string): Promise<boolean> => {
-      const res = await joinRoom(r);
-      return Boolean(res.ok);
+  const markPendingFailed = useCallback(
+    (id: string, reason: string) => {
+      outboxRef.current.delete(id);
+      void deleteOutboxEntry(id);
+      setDelivery(id, "failed", reason);
     },
-    [joinRoom]
+    [setDelivery]
   );
 
-  useEffect(() => {
-    if (!hasToken) return;
+  const mergeHistory = useCallback(async (msgs: ChatEnvelope[]) => {
+    const fresh: ChatEnvelope[] = [];
+    const stored = new Map<string, ChatEnvelope>();
+
+    const replacing = new Set<string>(); // peer copies the relay's stored copy replaces
+
+    for (const msg of msgs) {
+      stored.set(msg.id, msg);
+      if (peerCopiesRef.current.delete(msg.id)) replacing.add(msg.id);
+      // a revised message may be newer than the copy we hold (edited while we were away)
+      else if (seenRef.current.has(msg.id) && !msg.rev) continue;
+      seenRef.current.add(msg.id);
+      fresh.push(msg);
+    }
 
-    const s = io(RELAY_URL, {
-      transports: ["websocket", "polling"],
-      withCredentials: true,
-      auth: { token }
+    const opened = await Promise.all(
+      fresh.map(async (msg): Promise<ChatItem> => {
+        const item = await openEnvelope(msg);
+        return localIdsRef.current.has(msg.id)
+          ? { ...item, direction: "outgoing", delivery: "sent" }
+          : { ...item, direction: "incoming" };
+      })
+    );
+
+    setMessages((prev) => {
+      const known = new Set(prev.map((m) => m.id));
+      const byId = new Map(opened.map((m) => [m.id, m]));
+      const next = prev.map((m) => {
+        const o = byId.get(m.id);
+        if (o && replacing.has(m.id)) return { ...o, direction: m.direction };
+        if (o) return applyRevision(m, o);
+        const s = stored.get(m.id);
+        return s && m.seq === undefined ? { ...m, seq: s.seq } : m;
+      });
+      for (const m of opened) if (!known.has(m.id)) next.push(m);
+      return next.sort(compareMessages);
     });
+  }, [openEnvelope]);
+
+  const requestHistory = useCallback(
+    (r: string, before?: number): Promise<HistoryAck> => {
+      const t = transportRef.current;
+      const fail = (reason: string): HistoryAck => ({
+        room: r,
+        ok: false,
+        reason,
+        messages: [],
+        hasMore: false
+      });
 
-    socketRef.current = s;
+      if (!t?.connected) return Promise.resolve(fail("not_connected"));
 
-    const engine = (s.io as unknown as { engine?: EngineLike }).engine;
+      setHistoryMeta((prev) => ({
+        ...prev,
+        [r]: { hasMore: prev[r]?.hasMore ?? false, loading: true }
+      }));
 
-    const setFromEngine = () => {
-      const name = engine?.transport?.name;
-      if (typeof name === "string") setTransport(name);
-    };
+      const finish = (res: HistoryAck): HistoryAck => {
+        if (res.ok) {
+          const oldest = res.messages[0]?.seq;
+          const cursor = historyCursorRef.current.get(r);
+          if (oldest !== undefined && (cursor === undefined || oldest < cursor)) {
+            historyCursorRef.current.set(r, oldest);
+          }
+          void storeHistory(res.messages.map((env) => ({ env, local: localIdsRef.current.has(env.id) })));
+          void mergeHistory(res.messages);
+        }
 
-    const onEngineEvent = (arg: unknown) => {
-      const name = readName(arg);
-      if (name) setTransport(name);
-      else setFromEngine();
-    };
+        setHistoryMeta((prev) => {
+          // a newest-page backfill must not clear hasMore learned from older pages
+          const hasMore =
+            res.ok && before !== undefined ? res.hasMore : (prev[r]?.hasMore ?? false) || res.hasMore;
+          return { ...prev, [r]: { hasMore, loading: false } };
+        });
 
-    const markPendingFailed = (id: string, reason: string) => {
-      pendingIdsRef.current.delete(id);
-      pendingMapRef.current.delete(id);
-      attemptRef.current.delete(id);
+        return res;
+      };
 
-      setMessages((prev) =>
-        prev.map((m) => (m.id === id ? { ...m, delivery: "failed", error: reason } : m))
+      return t.request("history", { room: r, before, limit: HISTORY_PAGE }, 3000).then(
+        (ack) => finish(ack && typeof ack === "object" ? ack : fail("bad_ack")),
+        () => finish(fail("no_ack"))
       );
-    };
+    },
+    [mergeHistory]
+  );
 
-    const flushPending = async () => {
-      const byRoom = new Map<string, ChatEnvelope[]>();
+  // what survived the last session: received history, and the outbox (shown as queued)
+  useEffect(() => {
+    let cancelled = false;
 
-      for (const id of pendingIdsRef.current) {
-        const env = pendingMapRef.current.get(id);
-        if (!env) continue;
-        const arr = byRoom.get(env.room) ?? [];
-        arr.push(env);
-        byRoom.set(env.room, arr);
-      }
+    void Promise.all([loadStoredHistory(), loadOutbox()]).then(async ([stored, queued]) => {
+      if (cancelled) return;
 
-      for (const [r, envs] of byRoom) {
-        const ok = await ensureJoined(r);
+      for (const m of stored) if (m.local) localIdsRef.current.add(m.env.id);
+      await mergeHistory(stored.map((m) => m.env));
 
-        if (!ok) {
-          for (const env of envs) markPendingFailed(env.id, "join_denied");
+      const restored: ChatItem[] = [];
+      for (const entry of queued) {
+        if (seenRef.current.has(entry.env.id)) {
+          void deleteOutboxEntry(entry.env.id); // reached the relay; only the ack was lost
           continue;
         }
+        if (outboxRef.current.has(entry.env.id)) continue;
+        outboxRef.current.set(entry.env.id, { ...entry, nextAttemptAt: 0 });
+        localIdsRef.current.add(entry.env.id);
+        restored.push({ ...entry.env, delivery: "queued", direction: "outgoing" });
+      }
 
-        for (const env of envs) {
-          const attempts = (attemptRef.current.get(env.id) ?? 0) + 1;
-          attemptRef.current.set(env.id, attempts);
+      if (restored.length) setMessages((prev) => [...prev, ...restored].sort(compareMessages));
+    });
 
-          if (attempts > RETRY_MAX) {
-            markPendingFailed(env.id, "retry_limit");
-            continue;
-          }
+    return () => {
+      cancelled = true;
+    };
+  }, [mergeHistory]);
 
-          s.emit("chat", env);
-        }
+  const loadOlder = useCallback(
+    (r: string) => {
+      const before = historyCursorRef.current.get(r);
+      if (before === undefined) return;
+
+      const el = listRef.current;
+      if (el) scrollAnchorRef.current = el.scrollHeight;
+
+      void requestHistory(r, before);
+    },
+    [requestHistory]
+  );
+
+  const upsertPackage = useCallback((pkg: MissionPackage) => {
+    setPackages((prev) => ({ ...prev, [`${pkg.room}|${pkg.id}`]: pkg }));
+  }, []);
+
+  const upsertPackageStatus = useCallback((st: PackageStatus) => {
+    setPackageStatus((prev) => ({ ...prev, [`${st.room}|${st.packageId}`]: st }));
+  }, []);
+
+  const requestPackages = useCallback(
+    async (r: string) => {
+      const t = transportRef.current;
+      if (!t?.connected) return;
+
+      let res: PackageListAck;
+      try {
+        res = await t.request("packages", r);
+      } catch {
+        return;
       }
-    };
+      if (!res.ok) return;
 
-    s.on("connect", () => {
-      setStatus("connected");
-      setStatusDetail("");
-      setFromEngine();
+      for (const pkg of res.packages) upsertPackage(pkg);
+      for (const st of res.statuses) upsertPackageStatus(st);
+    },
+    [upsertPackage, upsertPackageStatus]
+  );
 
-      // membership unknown after reconnect
-      joinedRoomsRef.current.clear();
-      joinInflightRef.current.clear();
+  const upsertReceiptStatus = useCallback((st: ReceiptStatus) => {
+    setReceiptStatus((prev) => ({ ...prev, [`${st.room}|${st.msgId}`]: st }));
+  }, []);
 
-      void ensureJoined(roomRef.current);
-      void flushPending();
-    });
+  const requestReceipts = useCallback(
+    async (r: string) => {
+      const t = transportRef.current;
+      if (!t?.connected) return;
 
-    s.on("disconnect", (reason) => {
-      setStatus("disconnected");
-      setStatusDetail(reason ?? "");
-    });
+      let res: ReceiptListAck;
+      try {
+        res = await t.request("receipts", r);
+      } catch {
+        return;
+      }
+      if (!res.ok) return;
 
-    s.on("connect_error", (err) => {
-      setStatus("error");
-      const msg = err?.message ?? String(err);
-      setStatusDetail(msg === "unauthorized" ? "unauthorized (bad/missing token)" : msg);
-    });
+      for (const st of res.statuses) upsertReceiptStatus(st);
+    },
+    [upsertReceiptStatus]
+  );
 
-    s.on("chat_ack", (ack: ChatAck) => {
-      if (!ack?.id) return;
+  const queueReceipts = useCallback((r: string, ids: string[], state: ReceiptState) => {
+    const key = `${r}|${state}`;
+    const queued = receiptQueueRef.current.get(key) ?? new Set<string>();
+    for (const id of ids) queued.add(id);
+    receiptQueueRef.current.set(key, queued);
+  }, []);
 
-      pendingIdsRef.current.delete(ack.id);
-      pendingMapRef.current.delete(ack.id);
-      attemptRef.current.delete(ack.id);
+  const requestOverlays = useCallback(async (r: string) => {
+    const t = transportRef.current;
+    if (!t?.connected) return;
 
-      setMessages((prev) =>
-        prev.map((m) => {
-          if (m.id !== ack.id) return m;
-          if (ack.ok) return { ...m, delivery: "sent", error: "" };
-          return { ...m, delivery: "failed", error: ack.reason ?? "rejected" };
-        })
-      );
+    let res: OverlayListAck;
+    try {
+      res = await t.request("overlays", r);
+    } catch {
+      return;
+    }
+    if (!res.ok) return;
+
+    // the relay's list is authoritative for the room: replace, don't merge
+    setOverlays((prev) => {
+      const next: Record<string, OverlayFeature> = {};
+      for (const [k, f] of Object.entries(prev)) if (f.room !== r) next[k] = f;
+      for (const f of res.overlays) next[`${f.room}|${f.id}`] = f;
+      return next;
     });
+  }, []);
 
-    s.on("chat", (msg: ChatEnvelope) => {
-      if (seenRef.current.has(msg.id)) return;
-      seenRef.current.add(msg.id);
+  const upsertReport = useCallback((rep: Report) => {
+    setReports((prev) => {
+      const cur = prev[`${rep.room}|${rep.id}`];
+      if (cur && cur.updatedAt > rep.updatedAt) return prev;
+      return { ...prev, [`${rep.room}|${rep.id}`]: rep };
+    });
+  }, []);
 
-      const isLocal = localIdsRef.current.has(msg.id);
-      const patch: Partial<ChatItem> = isLocal
-        ? { direction: "outgoing" }
-        : { direction: "incoming", delivery: undefined, error: "" };
+  const requestIncidents = useCallback(
+    async (r: string) => {
+      const t = transportRef.current;
+      if (!t?.connected) return;
 
-      setMessages((prev) => {
-        const idx = prev.findIndex((m) => m.id === msg.id);
-        if (idx === -1) return [...prev, { ...msg, ...patch }];
+      let res: IncidentListAck;
+      try {
+        res = await t.request("incidents", r);
+      } catch {
+        return;
+      }
+      if (!res.ok) return;
 
-        const copy = prev.slice();
-        copy[idx] = { ...copy[idx], ...msg, ...patch };
-        return copy;
+      setIncidents((prev) => {
+        const next = { ...prev };
+        for (const i of res.incidents) next[`${i.room}|${i.id}`] = i;
+        return next;
       });
+      for (const rep of res.reports) upsertReport(rep);
+      setAssignable((prev) => ({ ...prev, [r]: res.members }));
+    },
+    [upsertReport]
+  );
+
+  const upsertTask = useCallback((task: Task) => {
+    setTasks((prev) => {
+      const cur = prev[`${task.room}|${task.id}`];
+      if (cur && cur.updatedAt > task.updatedAt) return prev;
+      return { ...prev, [`${task.room}|${task.id}`]: task };
     });
+  }, []);
 
-    engine?.on?.("upgrade", onEngineEvent);
-    engine?.on?.("transport", onEngineEvent);
+  const requestTasks = useCallback(
+    async (r: string) => {
+      const t = transportRef.current;
+      if (!t?.connected) return;
 
-    return () => {
-      engine?.off?.("upgrade", onEngineEvent);
-      engine?.off?.("transport", onEngineEvent);
-      s.disconnect();
-      socketRef.current = null;
-    };
-  }, [hasToken, token, ensureJoined]);
+      let res: TaskListAck;
+      try {
+        res = await t.request("tasks", r);
+      } catch {
+        return;
+      }
+      if (!res.ok) return;
 
-  const canSend =
-    status === "connected" && roomJoin.phase === "joined" && roomJoin.room === room;
+      for (const task of res.tasks) upsertTask(task);
+      setAssignable((prev) => ({ ...prev, [r]: res.members }));
+    },
+    [upsertTask]
+  );
 
-  function onRoomChange(next: RoomId) {
-    setRoomPreset(next);
-    roomRef.current = next;
+  const requestLocations = useCallback(async (r: string) => {
+    const t = transportRef.current;
+    if (!t?.connected) return;
 
-    const s = socketRef.current;
-    if (s?.connected) {
-      void ensureJoined(next);
-    } else {
-      setRoomJoin({ room: next, phase: "unknown" });
+    let res: LocationListAck;
+    try {
+      res = await t.request("locations", r);
+    } catch {
+      return;
     }
-  }
+    if (!res.ok) return;
 
-  async function sendAsync() {
-    const s = socketRef.current;
-    if (!s) return;
+    setLocations((prev) => {
+      const next: Record<string, MemberLocation> = {};
+      for (const [k, l] of Object.entries(prev)) if (l.room !== r) next[k] = l;
+      for (const l of res.locations) next[`${l.room}|${l.memberId}`] = l;
+      return next;
+    });
+  }, []);
 
-    const body = text.trim();
-    if (!body) return;
+  const requestRoster = useCallback(async (r: string) => {
+    const t = transportRef.current;
+    if (!t?.connected) return;
 
-    // ensure join (so server doesn't deny with not_in_room)
-    const ok = await ensureJoined(room);
-    if (!ok) return;
+    let res: RosterAck;
+    try {
+      res = await t.request("roster", r);
+    } catch {
+      return;
+    }
+    if (!res.ok) return;
 
-    const env: ChatEnvelope = {
-      id: uuid(),
-      room,
-      from,
-      sentAt: Date.now(),
-      body
-    };
+    setRoster((prev) => {
+      const next: Record<string, PresenceEntry> = {};
+      for (const [k, p] of Object.entries(prev)) if (p.room !== r) next[k] = p;
+      for (const p of res.members) next[`${p.room}|${p.memberId}`] = p;
+      return next;
+    });
+  }, []);
 
-    localIdsRef.current.add(env.id);
+  // register with the room's peers; this tab offers links to every one it has none with
+  const requestPeers = useCallback(async (r: string) => {
+    const t = transportRef.current;
+    const mesh = meshRef.current;
+    if (!t?.connected || !mesh) return;
+
+    let res: RtcPeersAck;
+    try {
+      res = await t.request("rtc_peers", { room: r, peerId: mesh.peerId });
+    } catch {
+      return;
+    }
+    if (res.ok) mesh.connect(r, res.peers);
+  }, []);
 
-    pendingIdsRef.current.add(env.id);
-    pendingMapRef.current.set(env.id, env);
-    attemptRef.current.set(env.id, 0);
+  const joinRoom = useCallback((r: string): Promise<JoinAck> => {
+    const t = transportRef.current;
 
-    setMessages((prev) => [...prev, { ...env, delivery: "pending", direction: "outgoing" }]);
+    if (!t?.connected) {
+      return Promise.resolve({ room: r, ok: false, reason: "not_connected" });
+    }
 
-    s.emit("chat", env);
-    setText("");
-  }
+    const joinedAccess = joinedRoomsRef.current.get(r);
+    if (joinedAccess) {
+      if (roomRef.current === r) setRoomJoin({ room: r, phase: "joined", access: joinedAccess });
+      return Promise.resolve({ room: r, ok: true, access: joinedAccess });
+    }
 
-  function send() {
-    void sendAsync();
-  }
+    const inflight = joinInflightRef.current.get(r);
+    if (inflight) return inflight;
 
-  return (
-    <div style={{ maxWidth: 780, margin: "24px auto", fontFamily: "system-ui" }}>
-      <h1>N̷e̷i̷g̷h̷b̷o̷r̷h̷o̷o̷d̷ W̷a̷t̷c̷h̷</h1>
+    if (roomRef.current === r) setRoomJoin({ room: r, phase: "joining" });
 
-      <div style={{ display: "flex", gap: 12, flexWrap: "wrap", alignItems: "center" }}>
-        <label>
-          Room{" "}
-          <select value={roomPreset} onChange={(e) => onRoomChange(e.target.value as RoomId)}>
-            {ROOM_PRESETS.map((r) => (
-              <option key={r.value} value={r.value}>
-                {r.label}
-              </option>
-            ))}
-          </select>
-        </label>
+    const settle = (res: JoinAck): JoinAck => {
+      joinInflightRef.current.delete(r);
 
-        <label>
-          From <input value={from} onChange={(e) => setFrom(e.target.value)} />
-        </label>
+      if (res.ok) {
+        // older relays omit access; they let every joined socket publish
+        const access = res.access ?? "publish";
+        joinedRoomsRef.current.set(r, access);
+        if (roomRef.current === r) setRoomJoin({ room: r, phase: "joined", access });
 
-        <div>
-          Status: <b>{status}</b>
-          {transport ? <span style={{ opacity: 0.7 }}> (transport: {transport})</span> : null}
-          {statusDetail ? <span style={{ opacity: 0.7 }}> ({statusDetail})</span> : null}
-        </div>
-      </div>
+        const rule = res.retention;
+        if (rule) {
+          setRetention((prev) => ({ ...prev, [r]: rule }));
+          void pruneStoredHistory(r, rule);
+        }
 
-      <div style={{ marginTop: 8, fontSize: 12, opacity: 0.85 }}>
-        Room join:{" "}
-        {roomJoin.room !== room ? (
-          <span>unknown</span>
-        ) : roomJoin.phase === "joined" ? (
-          <span>joined</span>
-        ) : roomJoin.phase === "joining" ? (
-          <span>joining…</span>
-        ) : roomJoin.phase === "denied" ? (
-          <span>
-            denied ({roomJoin.reason})
-            {roomJoin.allowedRooms?.length ? (
-              <span> • allowed: {roomJoin.allowedRooms.join(", ")}</span>
-            ) : null}
-          </span>
-        ) : (
-          <span>unknown</span>
-        )}
-      </div>
+        // backfill newest page (also fills any gap after a reconnect)
+        void requestHistory(r);
+        void syncRoomKeys(r);
+        void requestPackages(r);
+        void requestReceipts(r);
+        void requestOverlays(r);
+        void requestIncidents(r);
+        void requestTasks(r);
+        void requestLocations(r);
+        void requestRoster(r);
+        void requestPeers(r);
+      } else {
+        const retryAt =
+          res.reason === "rate_limited" ? Date.now() + (res.retryAfterMs ?? backoffMs(1)) : undefined;
+        if (retryAt) joinRetryRef.current.set(r, retryAt);
 
-      {token ? (
-        <div style={{ marginTop: 10, opacity: 0.85, fontSize: 12 }}>
-          Invite link (share):
-          <input style={{ width: "100%", marginTop: 6 }} readOnly value={shareUrl} />
-        </div>
-      ) : null}
+        if (roomRef.current === r) {
+          setRoomJoin({
+            room: r,
+            phase: "denied",
+            reason: res.reason ?? "join_denied",
+            allowedRooms: res.allowedRooms,
+            retryAt
+          });
+        }
+      }
 
-      <div style={{ display: "flex", gap: 8, marginTop: 12 }}>
-        <input
+      return res;
+    };
+
+    const p = t.join(r, 1500).then(
+      (ack) => settle(ack && typeof ack === "object" ? ack : { room: r, ok: false, reason: "bad_ack" }),
+      (err: unknown) =>
+        settle({ room: r, ok: false, reason: err instanceof Error ? err.message : "no_ack" })
+    );
+
+    joinInflightRef.current.set(r, p);
+    return p;
+  }, [
+    requestHistory,
+    syncRoomKeys,
+    requestPackages,
+    requestReceipts,
+    requestOverlays,
+    requestIncidents,
+    requestTasks,
+    requestLocations,
+    requestRoster,
+    requestPeers
+  ]);
+
+  const ensureJoined = useCallback(
+    async (r: string): Promise<boolean> => {
+      const res = await joinRoom(r);
+      return Boolean(res.ok);
+    },
+    [joinRoom]
+  );
+
+  useEffect(() => {
+    const sharer = new LocationSharer(async (u: LocationUpdate) => {
+      const invalid = invalidReason(LocationUpdateSchema, u, "invalid_request");
+      if (invalid) return { ok: false, reason: invalid };
+
+      const t = transportRef.current;
+      if (!t?.connected) throw new Error("not_connected");
+      return t.request("location_update", u);
+    }, setShareState);
+    sharerRef.current = sharer;
+
+    return () => {
+      sharer.stop();
+      sharerRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const onVisibility = () => {
+      const visible = document.visibilityState === "visible";
+      setPageVisible(visible);
+
+      const t = transportRef.current;
+      if (t?.connected) t.emit("presence_update", { away: !visible });
+    };
+    document.addEventListener("visibilitychange", onVisibility);
+    return () => document.removeEventListener("visibilitychange", onVisibility);
+  }, []);
+
+  // what is on screen counts as read: the open room's chat, in a visible tab, decrypted
+  useEffect(() => {
+    if (!pageVisible || view !== "chat") return;
+
+    const ids = shownMessages
+      .filter((m) => m.direction === "incoming" && !m.locked && !readSentRef.current.has(m.id))
+      .map((m) => m.id);
+    if (!ids.length) return;
+
+    for (const id of ids) readSentRef.current.add(id);
+    queueReceipts(room, ids, "read");
+  }, [shownMessages, room, view, pageVisible, queueReceipts]);
+
+  // positions expire on the relay too; this only keeps the map honest between events
+  useEffect(() => {
+    const t = window.setInterval(() => {
+      const now = Date.now();
+      setLocations((prev) => {
+        const live = Object.entries(prev).filter(([, l]) => l.expiresAt > now);
+        return live.length === Object.keys(prev).length ? prev : Object.fromEntries(live);
+      });
+    }, 5000);
+    return () => window.clearInterval(t);
+  }, []);
+
+  useEffect(() => {
+    if (!hasCredential) return;
+
+    const t: Transport = new SocketIoTransport(RELAY_URL, { ...CLIENT_HELLO, credential });
+    transportRef.current = t;
+
+    let e2eRequired = false; // from the relay's hello: peers must not slip plaintext past it
+
+    // direct links to the other tabs in each room, signaled through the relay
+    const mesh: PeerMesh | null = PeerMesh.supported()
+      ? new PeerMesh({
+          // only while connected: Socket.IO would replay stale signals after a reconnect
+          signal: (signal) => t.connected && t.emit("rtc_signal", signal),
+          message: (msg) => void receive(msg, true),
+          change: () => setPeerLinks(mesh?.snapshot() ?? {})
+        })
+      : null;
+
+    const registerDevice = async (): Promise<RoomKeyring | null> => {
+      let keysForDevice;
+      try {
+        keysForDevice = await loadOrCreateDeviceKeys();
+      } catch {
+        return null; // no WebCrypto (insecure context): plaintext only
+      }
+
+      let res: DeviceKeyAck;
+      try {
+        res = await t.request("device_key", keysForDevice.publicJwk);
+      } catch {
+        res = { ok: false, reason: "no_ack" };
+      }
+
+      if (!res.ok && res.reason === "guest") return null;
+
+      // even if registration failed, keep the keyring so sends fail closed instead of going out in clear
+      keyringRef.current ??= new RoomKeyring(keysForDevice);
+      for (const r of joinedRoomsRef.current.keys()) void syncRoomKeys(r);
+      return keyringRef.current;
+    };
+
+    const sendPending = async (entry: OutboxEntry) => {
+      const { env } = entry;
+
+      if (Date.now() - env.sentAt > OUTBOX_MAX_AGE_MS) {
+        markPendingFailed(env.id, "expired");
+        return;
+      }
+
+      // resends are safe: the relay dedupes by id; the backoff only spaces out unacked retries
+      const attempts = entry.attempts + 1;
+      setOutboxEntry({ env, attempts, nextAttemptAt: Date.now() + backoffMs(attempts) });
+      setDelivery(env.id, "pending");
+
+      if (!(await emitChat(t, env))) markPendingFailed(env.id, "no_room_key");
+    };
+
+    let flushing = false;
+
+    // `all`: send every queued message (reconnect); otherwise only those whose backoff has run out
+    const flushPending = async (all: boolean) => {
+      const limit = rateLimitRef.current;
+      if (flushing || !t.connected) return;
+
+      const now = Date.now();
+      if (now < limit.until) return;
+      if (!outboxRef.current.size) limit.slow = false;
+
+      flushing = true;
+
+      const byRoom = new Map<string, OutboxEntry[]>();
+      let budget = limit.slow ? 1 : FLUSH_BATCH;
+
+      for (const entry of outboxRef.current.values()) {
+        if (!all && entry.nextAttemptAt > now) continue;
+        if (budget-- <= 0) break;
+        const arr = byRoom.get(entry.env.room) ?? [];
+        arr.push(entry);
+        byRoom.set(entry.env.room, arr);
+      }
+
+      try {
+        for (const [r, entries] of byRoom) {
+          const res = await joinRoom(r);
+
+          if (!res.ok) {
+            if (res.reason === "rate_limited") {
+              limit.until = Date.now() + (res.retryAfterMs ?? backoffMs(1));
+              break;
+            }
+            // still offline (or no answer): keep them queued for the next attempt
+            if (!t.connected || res.reason === "not_connected" || res.reason === "no_ack") continue;
+            for (const entry of entries) markPendingFailed(entry.env.id, res.reason ?? "join_denied");
+            continue;
+          }
+
+          for (const entry of entries) {
+            if (outboxRef.current.get(entry.env.id) === entry) await sendPending(entry);
+          }
+        }
+      } finally {
+        flushing = false;
+      }
+    };
+
+    // stay joined to every open room in the catalog (rooms the role cannot read just deny)
+    const subscribeAll = async () => {
+      const ids = catalogRef.current.filter((r) => !r.archived).map((r) => r.id);
+
+      for (let i = 0; i < ids.length; i++) {
+        if (!t.connected) return;
+        const res = await joinRoom(ids[i]);
+        if (res.reason !== "rate_limited") continue;
+
+        // the rest wait for the same retry-after instead of piling on
+        const retryAt = joinRetryRef.current.get(ids[i]) ?? Date.now() + backoffMs(1);
+        for (const rest of ids.slice(i + 1)) joinRetryRef.current.set(rest, retryAt);
+        return;
+      }
+    };
+
+    // receipts for rooms we are not (yet) joined to wait for the join
+    const flushReceipts = () => {
+      if (!t.connected) return;
+
+      for (const [key, ids] of receiptQueueRef.current) {
+        const sep = key.lastIndexOf("|");
+        const r = key.slice(0, sep);
+        const state = key.slice(sep + 1) as ReceiptState;
+        if (!joinedRoomsRef.current.has(r)) continue;
+
+        const all = Array.from(ids);
+        for (let i = 0; i < all.length; i += RECEIPT_BATCH) {
+          t.emit("receipt", { room: r, ids: all.slice(i, i + RECEIPT_BATCH), state });
+        }
+        receiptQueueRef.current.delete(key);
+      }
+    };
+
+    const peerSent = new Set<string>();
+    let peering = false;
+
+    // relay down, or a message still unacked after its first retry: room peers get it directly too
+    // (the outbox keeps it until the relay acks; receivers dedupe by id)
+    const sendToPeers = async () => {
+      const m = meshRef.current;
+      if (peering || !m) return;
+
+      const open = m.snapshot();
+      const due = Array.from(outboxRef.current.values()).filter(
+        (e) => !peerSent.has(e.env.id) && open[e.env.room]?.length && (!t.connected || e.attempts >= 2)
+      );
+      if (!due.length) return;
+
+      peering = true;
+      try {
+        for (const { env } of due) {
+          const sealed = await sealForRoom(env);
+          const sent = sealed ? m.send(sealed) : 0;
+          if (!sent) continue;
+          peerSent.add(env.id);
+          setMessages((prev) => prev.map((x) => (x.id === env.id ? { ...x, peers: sent } : x)));
+        }
+      } finally {
+        peering = false;
+      }
+    };
+
+    const retryTimer = window.setInterval(() => {
+      const now = Date.now();
+      for (const [r, retryAt] of joinRetryRef.current) {
+        if (retryAt > now) continue;
+        joinRetryRef.current.delete(r);
+        void ensureJoined(r);
+      }
+      void flushPending(false);
+      void sendToPeers();
+      flushReceipts();
+    }, 1000);
+
+    const onConnected = () => {
+      // membership unknown after reconnect
+      joinedRoomsRef.current.clear();
+      joinInflightRef.current.clear();
+
+      deviceReadyRef.current = registerDevice();
+
+      // before the joins, so the roster starts out right
+      t.emit("presence_update", { away: document.visibilityState !== "visible" });
+
+      void ensureJoined(roomRef.current);
+      void subscribeAll();
+      void flushPending(true);
+
+      // the relay dropped our shared position when the old connection went away
+      const shareRoom = sharerRef.current?.room;
+      if (shareRoom) void ensureJoined(shareRoom).then((ok) => ok && sharerRef.current?.resend());
+    };
+
+    let lastState: TransportStatus["state"] = "connecting";
+
+    t.onStatus((st: TransportStatus) => {
+      const wasConnected = lastState === "connected";
+      lastState = st.state;
+      if (st.via) setTransport(st.via);
+
+      if (st.state === "connected") {
+        setStatus("connected");
+        setStatusDetail("");
+        setIncompatible(null);
+        if (!wasConnected) onConnected();
+        return;
+      }
+
+      // whatever was in flight waits in the outbox until the next connect
+      if (wasConnected) {
+        setMessages((prev) =>
+          prev.map((m) => (m.delivery === "pending" ? { ...m, delivery: "queued" } : m))
+        );
+      }
+
+      if (st.state !== "error") {
+        setStatus(st.state);
+        setStatusDetail(st.detail ?? "");
+        return;
+      }
+
+      setStatus("error");
+      const msg = st.detail ?? "";
+
+      // the relay refused this build; Socket.IO does not retry a refused handshake
+      if (isIncompatible(msg)) {
+        setIncompatible(msg);
+        setStatusDetail(msg);
+        return;
+      }
+
+      if (msg === "revoked") {
+        // credential is dead for good; drop it so the enrollment form comes back
+        clearCredential();
+        void clearOfflineStore();
+        outboxRef.current.clear();
+        mesh?.close();
+        setCredential("");
+        meRef.current = null;
+        setMe(null);
+        setStatusDetail("revoked (ask an admin for a new enrollment code)");
+        return;
+      }
+
+      setStatusDetail(msg === "unauthorized" ? "unauthorized (unknown credential)" : msg);
+    });
+
+    t.on("hello", (hello: RelayHello) => {
+      setRelayHello(hello);
+      e2eRequired = hello.required.includes("e2e");
+      meshRef.current = hello.capabilities.includes("rtc") ? mesh : null;
+    });
+
+    t.on("rooms_updated", (rooms: RoomInfo[]) => {
+      const wasFrozen = new Map(catalogRef.current.map((r) => [r.id, Boolean(r.frozen)]));
+      catalogRef.current = rooms;
+      setCatalog(rooms);
+      saveRoomCatalog(rooms);
+
+      // archiving removed us from the room on the relay
+      for (const r of rooms) {
+        if (r.archived) mesh?.leave(r.id);
+        if (!r.archived || !joinedRoomsRef.current.has(r.id)) continue;
+        joinedRoomsRef.current.delete(r.id);
+        if (roomRef.current === r.id) setRoomJoin({ room: r.id, phase: "denied", reason: "room_archived" });
+      }
+
+      // (un)freezing changes our access there; forget it so subscribeAll below rejoins
+      for (const r of rooms) {
+        if (Boolean(r.frozen) !== wasFrozen.get(r.id)) joinedRoomsRef.current.delete(r.id);
+      }
+
+      // the room we were on is not in the catalog at all: move to one that is
+      if (!rooms.some((r) => r.id === roomRef.current)) {
+        const next = firstOpenRoom(rooms);
+        if (!next) return;
+        setRoomPreset(next);
+        roomRef.current = next;
+        void ensureJoined(next);
+      }
+
+      // pick up rooms created since we connected
+      if (t.connected) void subscribeAll();
+    });
+
+    t.on("session", (identity: MemberIdentity) => {
+      meRef.current = identity;
+      setMe(identity);
+
+      // a role change (policy reload) invalidates cached room access: rejoin
+      if (t.connected && joinedRoomsRef.current.size) {
+        joinedRoomsRef.current.clear();
+        joinInflightRef.current.clear();
+        void ensureJoined(roomRef.current);
+        void subscribeAll();
+      }
+    });
+
+    t.onAck((ack: ChatAck) => {
+      if (!ack?.id) return;
+
+      const entry = outboxRef.current.get(ack.id);
+
+      // room was re-keyed under us: pick up the new key and re-encrypt
+      if (entry && !ack.ok && ack.reason === "stale_key") {
+        void syncRoomKeys(entry.env.room).then(() => sendPending(entry));
+        return;
+      }
+
+      // the relay could not store it; leave it queued for the backoff retry
+      if (entry && !ack.ok && ack.reason === "store_error") return;
+
+      // over the relay's limit: hold everything until retryAfterMs, then drain slowly
+      if (entry && !ack.ok && ack.reason === "rate_limited") {
+        const until = Date.now() + (ack.retryAfterMs ?? backoffMs(entry.attempts));
+        rateLimitRef.current = { until: Math.max(rateLimitRef.current.until, until), slow: true };
+        setOutboxEntry({ ...entry, nextAttemptAt: until });
+        setDelivery(ack.id, "pending", "rate_limited");
+        return;
+      }
+
+      if (!ack.ok) {
+        markPendingFailed(ack.id, ack.reason ?? "rejected");
+        return;
+      }
+
+      outboxRef.current.delete(ack.id);
+      void deleteOutboxEntry(ack.id);
+      setDelivery(ack.id, "sent");
+    });
+
+    // a message may come from the relay and from a peer: the first copy shows, the relay's
+    // (stored, with seq) replaces a peer's
+    const receive = async (msg: ChatEnvelope, viaPeer: boolean) => {
+      const peerCopy = peerCopiesRef.current.has(msg.id);
+      if (viaPeer) {
+        // our own messages only come back through the relay
+        if (seenRef.current.has(msg.id) || localIdsRef.current.has(msg.id)) return;
+        if (e2eRequired && !msg.enc) return;
+        peerCopiesRef.current.add(msg.id);
+      } else {
+        if (seenRef.current.has(msg.id) && !peerCopy) return;
+        peerCopiesRef.current.delete(msg.id);
+      }
+      seenRef.current.add(msg.id);
+
+      const isLocal = localIdsRef.current.has(msg.id);
+      if (!viaPeer) void storeHistory([{ env: msg, local: isLocal }]); // peer copies are not kept offline
+
+      const item = await openEnvelope(msg);
+
+      const patch: Partial<ChatItem> = isLocal
+        ? { direction: "outgoing" }
+        : { direction: "incoming", delivery: undefined, error: "", viaPeer };
+
+      setMessages((prev) => {
+        const idx = prev.findIndex((m) => m.id === msg.id);
+        if (idx === -1) return [...prev, { ...item, ...patch }];
+
+        const copy = prev.slice();
+        copy[idx] = { ...copy[idx], ...item, ...patch };
+        return copy;
+      });
+
+      // receipts, unread count and flash alert go with the first copy only
+      if (isLocal || peerCopy) return;
+
+      queueReceipts(msg.room, [msg.id], "delivered");
+
+      if (msg.room !== roomRef.current) {
+        setUnread((prev) => ({ ...prev, [msg.room]: (prev[msg.room] ?? 0) + 1 }));
+      }
+
+      // flash traffic interrupts whatever room is open
+      if (msg.priority === "flash") {
+        setFlashIds((prev) => (prev.includes(msg.id) ? prev : [...prev, msg.id]));
+        const label = catalogRef.current.find((r) => r.id === msg.room)?.label ?? msg.room;
+        notify(`⚡ FLASH — ${label}`, `${msg.from}: ${item.locked ? "(encrypted)" : item.body}`, msg.id);
+      }
+    };
+
+    t.onMessage((msg: ChatEnvelope) => void receive(msg, false));
+
+    t.on("rtc_signal", (signal) => void mesh?.handleSignal(signal));
+
+    t.on("chat_revised", async (msg: ChatEnvelope) => {
+      void storeHistory([{ env: msg, local: localIdsRef.current.has(msg.id) }]);
+      const item = await openEnvelope(msg);
+      setMessages((prev) => prev.map((m) => (m.id === msg.id ? applyRevision(m, item) : m)));
+    });
+
+    t.on("package", (pkg: MissionPackage) => {
+      upsertPackage(pkg);
+    });
+
+    t.on("package_status", (st: PackageStatus) => {
+      upsertPackageStatus(st);
+    });
+
+    t.on("receipt_status", (st: ReceiptStatus) => {
+      upsertReceiptStatus(st);
+    });
+
+    t.on("incident", (i: Incident) => {
+      setIncidents((prev) => ({ ...prev, [`${i.room}|${i.id}`]: i }));
+      if (i.status === "closed") sharerRef.current?.incidentClosed(i.room, i.id);
+    });
+
+    t.on("location", (loc: MemberLocation) => {
+      setLocations((prev) => ({ ...prev, [`${loc.room}|${loc.memberId}`]: loc }));
+    });
+
+    t.on("presence", (p: PresenceEntry) => {
+      setRoster((prev) => ({ ...prev, [`${p.room}|${p.memberId}`]: p }));
+    });
+
+    t.on("location_removed", ({ room: r, memberId }) => {
+      setLocations((prev) => {
+        const next = { ...prev };
+        delete next[`${r}|${memberId}`];
+        return next;
+      });
+    });
+
+    t.on("report", (rep: Report) => {
+      upsertReport(rep);
+    });
+
+    t.on("task", (task: Task) => {
+      upsertTask(task);
+    });
+
+    // the issuer and the room's dispatchers follow up on tasks nobody acknowledged in time
+    t.on("task_escalated", (task: Task) => {
+      upsertTask(task);
+      const self = meRef.current;
+      if (!self || (task.memberId !== self.memberId && !(self.role && DISPATCH_ROLES.has(self.role)))) return;
+
+      const key = `${task.room}|${task.id}`;
+      setEscalatedKeys((prev) => (prev.includes(key) ? prev : [...prev, key]));
+      const label = catalogRef.current.find((r) => r.id === task.room)?.label ?? task.room;
+      notify(`⏰ Task not acknowledged — ${label}`, `${task.assignee.label}: ${task.title}`, key);
+    });
+
+    t.on("overlay_upsert", (f: OverlayFeature) => {
+      setOverlays((prev) => {
+        const cur = prev[`${f.room}|${f.id}`];
+        if (cur?.rev && f.rev && cur.rev >= f.rev) return prev;
+        return { ...prev, [`${f.room}|${f.id}`]: f };
+      });
+    });
+
+    t.on("overlay_delete", ({ room: r, id }) => {
+      setOverlays((prev) => {
+        const next = { ...prev };
+        delete next[`${r}|${id}`];
+        return next;
+      });
+    });
+
+    t.on("room_keys_changed", ({ room: r }) => {
+      if (joinedRoomsRef.current.has(r)) void syncRoomKeys(r);
+    });
+
+    t.connect();
+
+    return () => {
+      window.clearInterval(retryTimer);
+      t.disconnect();
+      transportRef.current = null;
+      mesh?.close();
+      meshRef.current = null;
+    };
+  }, [
+    hasCredential,
+    credential,
+    ensureJoined,
+    joinRoom,
+    emitChat,
+    sealForRoom,
+    markPendingFailed,
+    setOutboxEntry,
+    setDelivery,
+    openEnvelope,
+    syncRoomKeys,
+    upsertPackage,
+    upsertPackageStatus,
+    upsertReceiptStatus,
+    queueReceipts,
+    upsertReport,
+    upsertTask
+  ]);
+
+  const activeHistory = historyMeta[room];
+
+  function onListScroll() {
+    const el = listRef.current;
+    if (!el || el.scrollTop > 24) return;
+    if (activeHistory?.hasMore && !activeHistory.loading) loadOlder(room);
+  }
+
+  const joinedHere = roomJoin.phase === "joined" && roomJoin.room === room ? roomJoin : null;
+  const readOnly = joinedHere?.access === "read";
+
+  const canSend = status === "connected" && Boolean(joinedHere) && !readOnly;
+
+  // offline, messages go to the outbox unless this room already refused us
+  const deniedHere = roomJoin.phase === "denied" && roomJoin.room === room;
+  const canQueue = hasCredential && status !== "connected" && !readOnly && !deniedHere;
+
+  const retentionNote = retention[room] && describeRetention(retention[room]);
+
+  const queuedCount = messages.filter((m) => m.delivery === "queued").length;
+  const roomPeers = peerLinks[room] ?? [];
+
+  // attachments need the relay: no picking while offline, no sending mid-upload
+  const uploading = Boolean(upload && !upload.attachment && !upload.error);
+
+  // before the relay's hello (offline start), assume it offers everything
+  const relayOffers = (c: Capability) => !relayHello || relayHello.capabilities.includes(c);
+
+  // open rooms from the catalog, plus the current one when it is archived or not (yet) listed
+  const roomInfo = catalog.find((r) => r.id === room);
+  const pickerRooms = useMemo(() => {
+    const open = catalog.filter((r) => !r.archived);
+    if (open.some((r) => r.id === room)) return open;
+    const current = catalog.find((r) => r.id === room) ?? { id: room, label: room, createdAt: 0, updatedAt: 0 };
+    return [current, ...open];
+  }, [catalog, room]);
+
+  const flashMessages = useMemo(
+    () => flashIds.map((id) => messages.find((m) => m.id === id)).filter((m): m is ChatItem => Boolean(m)),
+    [flashIds, messages]
+  );
+
+  const isDispatcher = canSend && Boolean(me?.role && DISPATCH_ROLES.has(me.role));
+
+  const roomPackages = useMemo(() => {
+    const list = Object.values(packages).filter((p) => p.room === room);
+    return list.sort((a, b) => a.title.localeCompare(b.title));
+  }, [packages, room]);
+
+  const roomPackageStatus = useMemo(() => {
+    const out: Record<string, PackageStatus> = {};
+    for (const st of Object.values(packageStatus)) if (st.room === room) out[st.packageId] = st;
+    return out;
+  }, [packageStatus, room]);
+
+  const roomLoadedPackages = useMemo(() => {
+    const out: Record<string, LoadedPackage> = {};
+    const prefix = `${room}|`;
+    for (const [k, v] of Object.entries(loadedPackages)) {
+      if (k.startsWith(prefix)) out[k.slice(prefix.length)] = v;
+    }
+    return out;
+  }, [loadedPackages, room]);
+
+  // verify the content hash ourselves, keep the package locally, then ack "loaded"
+  async function loadPackage(pkg: MissionPackage) {
+    const t = transportRef.current;
+    const hash = await packageHash(pkg);
+    const verified = hash === pkg.hash;
+
+    const next = {
+      ...loadedPackages,
+      [`${pkg.room}|${pkg.id}`]: { version: pkg.version, hash, verified, loadedAt: Date.now() }
+    };
+    setLoadedPackages(next);
+    saveLoadedPackages(next);
+
+    t?.emit("package_loaded", { room: pkg.room, packageId: pkg.id, version: pkg.version, hash });
+  }
+
+  const roomIncidents = useMemo(
+    () => Object.values(incidents).filter((i) => i.room === room),
+    [incidents, room]
+  );
+
+  const roomReports = useMemo(
+    () => Object.values(reports).filter((r) => r.room === room),
+    [reports, room]
+  );
+
+  const activeIncidentCount = roomIncidents.filter((i) => i.status === "active").length;
+
+  const allTasks = useMemo(() => Object.values(tasks), [tasks]);
+
+  // assigned to me and still waiting for my acknowledgment
+  const tasksToAck = allTasks.filter(
+    (task) => task.state === "issued" && task.assignee.memberId === me?.memberId
+  ).length;
+
+  const escalatedTasks = escalatedKeys
+    .map((key) => tasks[key])
+    .filter((task): task is Task => Boolean(task) && task.state === "issued");
+
+  async function incidentRpc<T extends { id: string; ok: boolean; reason?: string }>(
+    id: string,
+    call: (t: Transport) => Promise<T>
+  ): Promise<T | { id: string; ok: false; reason: string }> {
+    const t = transportRef.current;
+    if (!t?.connected) return { id, ok: false, reason: "not_connected" };
+
+    try {
+      return await call(t);
+    } catch {
+      return { id, ok: false, reason: "no_ack" };
+    }
+  }
+
+  function openIncident(draft: Omit<IncidentDraft, "id" | "room">): Promise<IncidentAck> {
+    const id = crypto.randomUUID();
+    const req = { ...draft, id, room };
+    const invalid = invalidReason(IncidentDraftSchema, req, "invalid_incident");
+    if (invalid) return Promise.resolve({ id, ok: false, reason: invalid });
+
+    return incidentRpc(id, (t) => t.request("incident_open", req));
+  }
+
+  function closeIncident(id: string): Promise<IncidentAck> {
+    return incidentRpc(id, (t) =>
+      t.request("incident_close", { room, id })
+    );
+  }
+
+  function fileReport(incidentId: string, body: ReportBody): Promise<ReportAck> {
+    const id = crypto.randomUUID();
+    const req = { ...body, id, incidentId, room };
+    const invalid = invalidReason(ReportDraftSchema, req, "invalid_report");
+    if (invalid) return Promise.resolve({ id, ok: false, reason: invalid });
+
+    return incidentRpc(id, (t) => t.request("report_file", req));
+  }
+
+  function transitionReport(reportId: string, to: ReportState, assignee?: string): Promise<ReportAck> {
+    const req = { room, reportId, to, assignee };
+    const invalid = invalidReason(ReportTransitionSchema, req, "invalid_request");
+    if (invalid) return Promise.resolve({ id: reportId, ok: false, reason: invalid });
+
+    return incidentRpc(reportId, (t) => t.request("report_transition", req));
+  }
+
+  function issueTask(draft: Omit<TaskDraft, "id" | "room">): Promise<TaskAck> {
+    const id = crypto.randomUUID();
+    const req = { ...draft, id, room };
+    const invalid = invalidReason(TaskDraftSchema, req, "invalid_task");
+    if (invalid) return Promise.resolve({ id, ok: false, reason: invalid });
+
+    return incidentRpc(id, (t) => t.request("task_issue", req));
+  }
+
+  function transitionTask(task: Task, to: TaskState, note?: string): Promise<TaskAck> {
+    const req = { room: task.room, id: task.id, to, ...(note ? { note } : {}) };
+    const invalid = invalidReason(TaskTransitionSchema, req, "invalid_request");
+    if (invalid) return Promise.resolve({ id: task.id, ok: false, reason: invalid });
+
+    return incidentRpc(task.id, (t) => t.request("task_transition", req));
+  }
+
+  const roomLocations = useMemo(
+    () => Object.values(locations).filter((l) => l.room === room),
+    [locations, room]
+  );
+
+  const roomRoster = useMemo(
+    () => Object.values(roster).filter((p) => p.room === room),
+    [roster, room]
+  );
+
+  const roomOverlays = useMemo(
+    () => Object.values(overlays).filter((f) => f.room === room),
+    [overlays, room]
+  );
+
+  async function upsertOverlay(draft: OverlayDraft): Promise<OverlayAck> {
+    const invalid = invalidReason(OverlayFeatureSchema, draft, "invalid_overlay");
+    if (invalid) return { id: draft.id, ok: false, reason: invalid };
+
+    const t = transportRef.current;
+    if (!t?.connected) return { id: draft.id, ok: false, reason: "not_connected" };
+
+    try {
+      return await t.request("overlay_upsert", draft);
+    } catch {
+      return { id: draft.id, ok: false, reason: "no_ack" };
+    }
+  }
+
+  async function deleteOverlay(id: string): Promise<OverlayAck> {
+    const t = transportRef.current;
+    if (!t?.connected) return { id, ok: false, reason: "not_connected" };
+
+    try {
+      return await t.request("overlay_delete", { room, id });
+    } catch {
+      return { id, ok: false, reason: "no_ack" };
+    }
+  }
+
+  async function publishPackage(
+    draft: Omit<MissionPackageDraft, "hash" | "room">
+  ): Promise<PackagePublishAck> {
+    const t = transportRef.current;
+    const id = typeof draft?.id === "string" ? draft.id : "";
+    if (!t?.connected) return { id, ok: false, reason: "not_connected" };
+
+    const full = { ...draft, room };
+    const hash = await packageHash(full);
+    const invalid = invalidReason(MissionPackageDraftSchema, { ...full, hash }, "invalid_package");
+    if (invalid) return { id, ok: false, reason: invalid };
+
+    try {
+      return await t.request("package_publish", { ...full, hash });
+    } catch {
+      return { id, ok: false, reason: "no_ack" };
+    }
+  }
+
+  const stragglerCount = useMemo(() => {
+    let n = 0;
+    for (const pkg of roomPackages) {
+      if (roomLoadedPackages[pkg.id]?.version !== pkg.version) n++;
+    }
+    return n;
+  }, [roomPackages, roomLoadedPackages]);
+
+  function onRoomChange(next: string) {
+    setRoomPreset(next);
+    roomRef.current = next;
+    setUnread((prev) => ({ ...prev, [next]: 0 }));
+    setReplyToId(null);
+    if (editingId) cancelEdit();
+
+    const t = transportRef.current;
+    if (t?.connected) {
+      void ensureJoined(next);
+    } else {
+      setRoomJoin({ room: next, phase: "unknown" });
+    }
+  }
+
+  async function sendAsync() {
+    const attachment = upload?.attachment;
+    // older clients only show the body, so an attachment-only message names the file
+    const body = text.trim() || (attachment ? `📎 ${attachment.name}` : "");
+    if (!body) return;
+
+    const t = transportRef.current;
+    const online = Boolean(t?.connected);
+
+    // ensure join (so server doesn't deny with not_in_room); offline, queue and join on reconnect
+    if (online && !(await ensureJoined(room))) return;
+
+    const env: ChatEnvelope = {
+      id: uuid(),
+      room,
+      from: me?.label ?? "",
+      sentAt: Date.now(),
+      body,
+      ...(priority !== "routine" ? { priority } : {}),
+      ...(attachment ? { attachments: [attachment] } : {}),
+      ...(replyToId ? { replyTo: replyToId } : {})
+    };
+
+    // the relay would refuse it anyway; keep the draft so it can be fixed
+    const invalid = invalidReason(ChatEnvelopeSchema, env, "invalid_message");
+    setComposeError(invalid ?? "");
+    if (invalid) return;
+
+    localIdsRef.current.add(env.id);
+    setText("");
+    if (attachment) clearUpload();
+    if (replyToId) {
+      setOpenThreads((prev) => ({ ...prev, [`${room}|${replyToId}`]: true }));
+      setReplyToId(null);
+    }
+    // flash is for one message, never a sticky setting
+    if (priority === "flash") setPriority("routine");
+
+    if (!online || !t) {
+      setOutboxEntry({ env, attempts: 0, nextAttemptAt: 0 });
+      setMessages((prev) => [...prev, { ...env, delivery: "queued", direction: "outgoing" }]);
+      return;
+    }
+
+    // while rate limited, line up behind the outbox instead of adding to the flood
+    const limit = rateLimitRef.current;
+    if (limit.slow || Date.now() < limit.until) {
+      setOutboxEntry({ env, attempts: 0, nextAttemptAt: limit.until });
+      setMessages((prev) => [
+        ...prev,
+        { ...env, delivery: "pending", error: "rate_limited", direction: "outgoing" }
+      ]);
+      return;
+    }
+
+    setOutboxEntry({ env, attempts: 1, nextAttemptAt: Date.now() + backoffMs(1) });
+    setMessages((prev) => [...prev, { ...env, delivery: "pending", direction: "outgoing" }]);
+
+    if (!(await emitChat(t, env))) markPendingFailed(env.id, "no_room_key");
+  }
+
+  function send() {
+    if (editingId) {
+      void saveEdit(editingId);
+      return;
+    }
+    if (uploading) return;
+    if (canSend || canQueue) void sendAsync();
+  }
+
+  // only the author or an admin may change a stored message; the relay checks again
+  function mayRevise(m: ChatItem): boolean {
+    if (!canSend || m.seq === undefined || m.retracted) return false;
+    return m.memberId === me?.memberId || me?.role === "admin";
+  }
+
+  function startEdit(m: ChatItem) {
+    setReplyToId(null);
+    setReviseError("");
+    setComposeError("");
+    setEditingId(m.id);
+    setText(m.body);
+  }
+
+  function cancelEdit() {
+    setEditingId(null);
+    setText("");
+  }
+
+  async function requestEdit(m: ChatItem, body: string): Promise<ChatReviseAck> {
+    const t = transportRef.current;
+    if (!t?.connected) return { id: m.id, ok: false, reason: "not_connected" };
+
+    // checked in plaintext: the length limit applies to what was typed
+    const invalid = invalidReason(ChatEditSchema, { room: m.room, id: m.id, body }, "invalid_edit");
+    if (invalid) return { id: m.id, ok: false, reason: invalid };
+
+    // sealed like a new message, under the same id (the ciphertext is bound to it)
+    const sealed = await sealForRoom({ ...m, body, enc: undefined });
+    if (!sealed) return { id: m.id, ok: false, reason: "no_room_key" };
+    const edit: ChatEdit = {
+      room: m.room,
+      id: m.id,
+      body: sealed.body,
+      ...(sealed.enc ? { enc: sealed.enc } : {})
+    };
+
+    try {
+      return await t.request("chat_edit", edit);
+    } catch {
+      return { id: m.id, ok: false, reason: "no_ack" };
+    }
+  }
+
+  async function saveEdit(id: string) {
+    const m = messages.find((x) => x.id === id);
+    const body = text.trim();
+    if (!m || !body) return;
+    if (body === m.body) {
+      cancelEdit();
+      return;
+    }
+
+    const res = await requestEdit(m, body);
+    if (!res.ok) {
+      setReviseError(`edit not saved: ${res.reason === "body_too_long" ? "message is too long" : res.reason}`);
+      return;
+    }
+    setReviseError("");
+    cancelEdit();
+  }
+
+  async function retract(m: ChatItem) {
+    if (!window.confirm("Retract this message? Everyone will see that it was retracted, and by whom.")) return;
+
+    const t = transportRef.current;
+    let res: ChatReviseAck;
+    if (!t?.connected) {
+      res = { id: m.id, ok: false, reason: "not_connected" };
+    } else {
+      try {
+        res = await t.request("chat_retract", { room: m.room, id: m.id });
+      } catch {
+        res = { id: m.id, ok: false, reason: "no_ack" };
+      }
+    }
+
+    setReviseError(res.ok ? "" : `not retracted: ${res.reason}`);
+    if (res.ok && editingId === m.id) cancelEdit();
+  }
+
+  const loadAttachment = useCallback(
+    (ref: AttachmentRef) => downloadAttachment(RELAY_URL, credential, ref),
+    [credential]
+  );
+
+  function clearUpload() {
+    if (upload?.previewUrl) URL.revokeObjectURL(upload.previewUrl);
+    setUpload(null);
+  }
+
+  async function attachFile(file: File) {
+    clearUpload();
+
+    const key = uuid();
+    const previewUrl = file.type.startsWith("image/") ? URL.createObjectURL(file) : undefined;
+    setUpload({ key, name: file.name, progress: 0, previewUrl });
+
+    // a newer pick replaces this upload; its late progress and result are dropped
+    const patch = (p: Partial<UploadState>) =>
+      setUpload((prev) => (prev?.key === key ? { ...prev, ...p } : prev));
+
+    const res = await uploadAttachment(RELAY_URL, credential, room, file, (progress) => patch({ progress }));
+    if (res.ok && res.attachment) patch({ attachment: res.attachment, progress: 1 });
+    else patch({ error: res.reason ?? "upload_failed" });
+  }
+
+  const replyTarget = replyToId ? visibleMessages.find((m) => m.id === replyToId) : undefined;
+
+  function startReply(m: ChatItem) {
+    setReplyToId(m.replyTo ?? m.id); // threads are one level deep: reply in the root's thread
+    setComposeError("");
+  }
+
+  function renderMessage(m: ChatItem) {
+    const label =
+      m.direction === "incoming" ? "received" : m.delivery === "queued" ? "queued offline" : m.delivery ?? "sent";
+
+    // senders see who read their messages; dispatchers also follow up on others' critical ones
+    const receipts = receiptStatus[`${m.room}|${m.id}`];
+    const critical = m.priority === "flash" || m.priority === "priority";
+    const summary =
+      receipts && (m.direction === "outgoing" || (critical && isDispatcher)) ? summarizeReceipts(receipts) : null;
+
+    return (
+      <div style={{ padding: "8px 0" }}>
+        <div style={{ fontSize: 12, opacity: 0.7 }}>
+          [{m.room}] {m.from} • {new Date(m.sentAt).toLocaleTimeString()} •{" "}
+          {m.delivery === "queued" ? <b style={{ color: "#b26a00" }}>📤 {label}</b> : label}
+          {label === "failed" && m.error ? ` (${m.error})` : ""}
+          {label === "pending" && m.error === "rate_limited" ? " (rate limited, retrying)" : ""}
+          {m.peers && m.delivery !== "sent"
+            ? ` • ⇄ handed to ${m.peers} peer${m.peers === 1 ? "" : "s"}`
+            : ""}
+          {m.viaPeer ? " • ⇄ via peer" : ""}
+          {m.e2e ? " • 🔒" : ""}
+          {m.priority === "flash" ? <b style={{ color: "#b00020" }}> • ⚡ FLASH</b> : null}
+          {m.priority === "priority" ? <b style={{ color: "#b26a00" }}> • ❗ PRIORITY</b> : null}
+          {summary?.total ? (
+            <span>
+              {" "}
+              • 👁 read by {summary.read}/{summary.total}
+              {summary.delivered > summary.read ? ` (${summary.delivered} delivered)` : ""}
+            </span>
+          ) : null}
+        </div>
+        {m.retracted ? (
+          <div style={{ opacity: 0.6, fontStyle: "italic" }}>
+            🚫 retracted by {m.retracted.by} • {new Date(m.retracted.at).toLocaleTimeString()}
+          </div>
+        ) : (
+          <div style={m.locked ? { opacity: 0.6, fontStyle: "italic" } : undefined}>
+            {m.locked ? "🔒 encrypted (waiting for room key)" : m.body}
+            {m.edited ? (
+              <span
+                style={{ fontSize: 12, opacity: 0.6 }}
+                title={`edited ${new Date(m.edited.at).toLocaleString()} • revision ${m.rev ?? 1}`}
+              >
+                {" "}
+                (edited{m.edited.memberId !== m.memberId ? ` by ${m.edited.by}` : ""})
+              </span>
+            ) : null}
+          </div>
+        )}
+        {m.attachments?.length ? (
+          <div style={{ display: "flex", gap: 8, flexWrap: "wrap", marginTop: 4 }}>
+            {m.attachments.map((a) => (
+              <AttachmentView key={a.id} attachment={a} load={loadAttachment} />
+            ))}
+          </div>
+        ) : null}
+        {summary && critical && summary.unread.length ? (
+          <div style={{ fontSize: 12, color: "#b26a00" }}>
+            Not read yet: {summary.unread.map((u) => u.label).join(", ")}
+          </div>
+        ) : null}
+        <div style={{ display: "flex", gap: 6, marginTop: 4, fontSize: 12 }}>
+          {canSend || canQueue ? (
+            <button onClick={() => startReply(m)} disabled={Boolean(editingId)}>
+              ↩ Reply
+            </button>
+          ) : null}
+          {mayRevise(m) && !m.locked ? <button onClick={() => startEdit(m)}>✎ Edit</button> : null}
+          {mayRevise(m) ? <button onClick={() => void retract(m)}>Retract</button> : null}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ maxWidth: 1000, margin: "24px auto", fontFamily: "system-ui" }}>
+      <h1>N̷e̷i̷g̷h̷b̷o̷r̷h̷o̷o̷d̷ W̷a̷t̷c̷h̷</h1>
+
+      <div style={{ display: "flex", gap: 12, flexWrap: "wrap", alignItems: "center" }}>
+        <label>
+          Room{" "}
+          <select value={roomPreset} onChange={(e) => onRoomChange(e.target.value)}>
+            {pickerRooms.map((r) => (
+              <option key={r.id} value={r.id}>
+                {r.label}
+                {r.archived ? " (archived)" : ""}
+                {unread[r.id] ? ` (${unread[r.id]})` : ""}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        {roomInfo?.purpose ? <div style={{ fontSize: 12, opacity: 0.75 }}>{roomInfo.purpose}</div> : null}
+
+        {notifyPerm === "default" ? (
+          <button onClick={() => void requestNotifyPermission().then(setNotifyPerm)}>
+            🔔 Notify me of flash traffic
+          </button>
+        ) : null}
+
+        {me ? (
+          <div>
+            Signed in as <b>{me.label}</b>
+          </div>
+        ) : null}
+
+        {shareState && !shareState.stopped && view !== "map" ? (
+          <div>
+            📍 sharing location ({shareState.room}){" "}
+            <button onClick={() => sharerRef.current?.stop()}>Stop</button>
+          </div>
+        ) : null}
+
+        <div>
+          Status: <b>{status}</b>
+          {transport ? <span style={{ opacity: 0.7 }}> (transport: {transport})</span> : null}
+          {statusDetail ? <span style={{ opacity: 0.7 }}> ({statusDetail})</span> : null}
+          {queuedCount ? <span> • 📤 {queuedCount} queued offline</span> : null}
+          {roomPeers.length ? (
+            <span title={roomPeers.map((p) => p.label).join(", ")}>
+              {" "}
+              • ⇄ {roomPeers.length} direct peer link{roomPeers.length === 1 ? "" : "s"}
+            </span>
+          ) : null}
+        </div>
+      </div>
+
+      {incompatible ? (
+        <div
+          role="alert"
+          style={{ marginTop: 10, padding: 10, border: "2px solid #b00020", borderRadius: 6, background: "#fdecea" }}
+        >
+          <b>Can't connect: app and relay versions don't match.</b>
+          <div style={{ marginTop: 4 }}>{INCOMPATIBLE[incompatible]}</div>
+          <div style={{ marginTop: 4, fontSize: 12, opacity: 0.75 }}>
+            This app speaks protocol v{PROTOCOL_VERSION} (and v{MIN_PROTOCOL_VERSION} or newer from the relay).
+          </div>
+          <button style={{ marginTop: 6 }} onClick={() => window.location.reload()}>
+            Reload
+          </button>
+        </div>
+      ) : null}
+
+      {flashMessages.map((m) => (
+        <div
+          key={m.id}
+          role="alert"
+          style={{
+            marginTop: 10,
+            padding: "8px 10px",
+            background: "#b00020",
+            color: "white",
+            borderRadius: 4,
+            display: "flex",
+            gap: 8,
+            alignItems: "center"
+          }}
+        >
+          <div style={{ flex: 1 }}>
+            <b>⚡ FLASH</b> [{catalog.find((r) => r.id === m.room)?.label ?? m.room}] {m.from} •{" "}
+            {new Date(m.sentAt).toLocaleTimeString()}: {m.locked ? "🔒 encrypted (waiting for room key)" : m.body}
+          </div>
+          {m.room !== room ? <button onClick={() => onRoomChange(m.room)}>Open room</button> : null}
+          <button onClick={() => setFlashIds((prev) => prev.filter((id) => id !== m.id))}>Dismiss</button>
+        </div>
+      ))}
+
+      {escalatedTasks.map((task) => (
+        <div
+          key={`${task.room}|${task.id}`}
+          role="alert"
+          style={{
+            marginTop: 10,
+            padding: "8px 10px",
+            background: "#b26a00",
+            color: "white",
+            borderRadius: 4,
+            display: "flex",
+            gap: 8,
+            alignItems: "center"
+          }}
+        >
+          <div style={{ flex: 1 }}>
+            <b>⏰ NOT ACKNOWLEDGED</b> [{catalog.find((r) => r.id === task.room)?.label ?? task.room}]{" "}
+            {task.assignee.label} has not acknowledged "{task.title}" (issued by {task.createdBy})
+          </div>
+          <button
+            onClick={() => {
+              if (task.room !== room) onRoomChange(task.room);
+              setView("tasks");
+            }}
+          >
+            Open tasks
+          </button>
+          <button
+            onClick={() => setEscalatedKeys((prev) => prev.filter((k) => k !== `${task.room}|${task.id}`))}
+          >
+            Dismiss
+          </button>
+        </div>
+      ))}
+
+      <div style={{ marginTop: 8, fontSize: 12, opacity: 0.85 }}>
+        Room join:{" "}
+        {roomJoin.room !== room ? (
+          <span>unknown</span>
+        ) : roomJoin.phase === "joined" ? (
+          <span>
+            joined
+            {roomJoin.access !== "read" ? "" : roomInfo?.frozen ? " (read-only: frozen by an admin)" : " (read-only)"}
+            {me?.role ? <span> • role: {me.role}</span> : null}
+            {retentionNote ? <span> • ⏳ {retentionNote}</span> : null}
+          </span>
+        ) : roomJoin.phase === "joining" ? (
+          <span>joining…</span>
+        ) : roomJoin.phase === "denied" ? (
+          <span>
+            denied ({roomJoin.reason})
+            {roomJoin.retryAt ? (
+              <span> • retrying at {new Date(roomJoin.retryAt).toLocaleTimeString()}</span>
+            ) : null}
+            {roomJoin.allowedRooms?.length ? (
+              <span> • allowed: {roomJoin.allowedRooms.join(", ")}</span>
+            ) : null}
+          </span>
+        ) : (
+          <span>unknown</span>
+        )}
+      </div>
+
+      {!hasCredential ? (
+        <div style={{ display: "flex", gap: 8, marginTop: 12 }}>
+          <input
+            style={{ flex: 1 }}
+            value={enrollCode}
+            onChange={(e) => setEnrollCode(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && void enroll(enrollCode.trim())}
+            placeholder="Enrollment code…"
+          />
+          <button onClick={() => void enroll(enrollCode.trim())} disabled={enrolling || !enrollCode.trim()}>
+            {enrolling ? "Enrolling…" : "Enroll this device"}
+          </button>
+        </div>
+      ) : (
+        <div style={{ marginTop: 10, opacity: 0.85, fontSize: 12 }}>
+          Room link (share with enrolled members):
+          <input style={{ width: "100%", marginTop: 6 }} readOnly value={shareUrl} />
+        </div>
+      )}
+
+      <div style={{ display: "flex", gap: 8, marginTop: 12 }}>
+        <button onClick={() => setView("chat")} disabled={view === "chat"}>
+          Chat
+        </button>
+        <button onClick={() => setView("incidents")} disabled={view === "incidents"}>
+          Incidents
+          {activeIncidentCount ? ` (${activeIncidentCount} active)` : ""}
+        </button>
+        <button onClick={() => setView("tasks")} disabled={view === "tasks"}>
+          My tasks
+          {tasksToAck ? ` (${tasksToAck} to acknowledge)` : ""}
+        </button>
+        <button onClick={() => setView("map")} disabled={view === "map"}>
+          Map
+        </button>
+        <button onClick={() => setView("packages")} disabled={view === "packages"}>
+          Mission packages
+          {stragglerCount ? ` (${stragglerCount} to load)` : ""}
+        </button>
+        {me?.role === "admin" || adminRequestedInUrl() ? (
+          <button onClick={() => setView("admin")} disabled={view === "admin"}>
+            Admin
+          </button>
+        ) : null}
+      </div>
+
+      {view === "incidents" ? (
+        <IncidentBoard
+          me={me}
+          incidents={roomIncidents}
+          reports={roomReports}
+          members={assignable[room] ?? []}
+          canEdit={canSend}
+          isDispatcher={isDispatcher}
+          onOpenIncident={openIncident}
+          onCloseIncident={closeIncident}
+          onFileReport={fileReport}
+          onTransition={transitionReport}
+        />
+      ) : null}
+
+      {view === "tasks" ? (
+        <TasksPanel
+          me={me}
+          room={room}
+          roomLabel={(r) => catalog.find((c) => c.id === r)?.label ?? r}
+          tasks={allTasks}
+          members={assignable[room] ?? []}
+          canIssue={isDispatcher}
+          onIssue={issueTask}
+          onTransition={transitionTask}
+          onOpenRoom={onRoomChange}
+        />
+      ) : null}
+
+      {view === "map" ? (
+        <LocationShare
+          room={room}
+          incidents={roomIncidents.filter((i) => i.status === "active")}
+          state={shareState}
+          canShare={canSend}
+          onStart={(settings: ShareSettings) => sharerRef.current?.start(settings)}
+          onStop={() => sharerRef.current?.stop()}
+        />
+      ) : null}
+
+      {view === "map" ? (
+        <MapPanel
+          room={room}
+          features={roomOverlays}
+          locations={roomLocations}
+          canEdit={canSend}
+          onUpsert={upsertOverlay}
+          onDelete={deleteOverlay}
+        />
+      ) : null}
+
+      {view === "admin" ? <AdminConsole relayUrl={RELAY_URL} /> : null}
+
+      {view === "packages" ? (
+        <PackagesPanel
+          room={room}
+          packages={roomPackages}
+          statuses={roomPackageStatus}
+          loaded={roomLoadedPackages}
+          canPublish={isDispatcher}
+          onLoad={(pkg) => void loadPackage(pkg)}
+          onPublish={publishPackage}
+        />
+      ) : null}
+
+      {(replyTarget || editingId) && view === "chat" ? (
+        <div style={{ display: "flex", gap: 8, alignItems: "center", marginTop: 12, fontSize: 12 }}>
+          {editingId ? (
+            <span>✎ Editing your message: everyone sees it was edited</span>
+          ) : replyTarget ? (
+            <span>
+              ↩ Replying in the thread of <b>{replyTarget.from}</b>:{" "}
+              <i>{replyTarget.retracted || replyTarget.locked ? "…" : replyTarget.body.slice(0, 80)}</i>
+            </span>
+          ) : null}
+          <button onClick={() => (editingId ? cancelEdit() : setReplyToId(null))}>Cancel</button>
+        </div>
+      ) : null}
+
+      <div style={{ display: view === "chat" ? "flex" : "none", gap: 8, marginTop: 12 }}>
+        <input
           style={{ flex: 1 }}
           value={text}
-          onChange={(e) => setText(e.target.value)}
-          onKeyDown={(e) => e.key === "Enter" && send()}
-          placeholder="Type a message…"
+          onChange={(e) => {
+            setText(e.target.value);
+            setComposeError("");
+          }}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") send();
+            if (e.key === "Escape" && editingId) cancelEdit();
+          }}
+          placeholder={
+            readOnly
+              ? roomInfo?.frozen
+                ? "Room frozen by an admin (read-only)"
+                : "Read-only room for your role"
+              : "Type a message…"
+          }
+          disabled={readOnly}
         />
-        <button onClick={send} disabled={!canSend}>
-          Send
-        </button>
+        <select
+          value={priority}
+          onChange={(e) => setPriority(e.target.value as MessagePriority)}
+          disabled={readOnly || Boolean(editingId)}
+          title="Message priority"
+        >
+          <option value="routine">Routine</option>
+          <option value="priority">Priority</option>
+          <option value="flash">⚡ Flash</option>
+        </select>
+        {relayOffers("attachments") ? (
+          <label title="Attach a photo or file (metadata such as GPS is removed by the relay)">
+            <input
+              type="file"
+              style={{ display: "none" }}
+              disabled={!canSend || Boolean(editingId)}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (file) void attachFile(file);
+              }}
+            />
+            <span style={{ cursor: canSend ? "pointer" : "default", opacity: canSend ? 1 : 0.4 }}>📎</span>
+          </label>
+        ) : null}
+        {editingId ? (
+          <button onClick={send} disabled={!canSend}>
+            Save
+          </button>
+        ) : (
+          <button onClick={send} disabled={(!canSend && !canQueue) || uploading}>
+            {canQueue ? "Queue" : "Send"}
+          </button>
+        )}
       </div>
 
-      <div style={{ marginTop: 16 }}>
-        {visibleMessages.map((m) => {
-          const label = m.direction === "incoming" ? "received" : m.delivery ?? "sent";
+      {composeError && view === "chat" ? (
+        <div style={{ marginTop: 6, fontSize: 12, color: "#b00020" }}>
+          ⚠ not sent: {composeError === "body_too_long" ? "message is too long" : composeError}
+        </div>
+      ) : null}
 
-          return (
-            <div key={m.id} style={{ padding: "8px 0", borderBottom: "1px solid #ddd" }}>
-              <div style={{ fontSize: 12, opacity: 0.7 }}>
-                [{m.room}] {m.from} • {new Date(m.sentAt).toLocaleTimeString()} • {label}
-                {label === "failed" && m.error ? ` (${m.error})` : ""}
-              </div>
-              <div>{m.body}</div>
+      {reviseError && view === "chat" ? (
+        <div style={{ marginTop: 6, fontSize: 12, color: "#b00020" }}>⚠ {reviseError}</div>
+      ) : null}
+
+      {upload && view === "chat" ? (
+        <div style={{ display: "flex", gap: 8, alignItems: "center", marginTop: 6, fontSize: 12 }}>
+          {upload.previewUrl ? (
+            <img src={upload.previewUrl} alt="" style={{ maxWidth: 64, maxHeight: 48, objectFit: "cover" }} />
+          ) : null}
+          <span>
+            📎 {upload.name}{" "}
+            {upload.error ? (
+              <b style={{ color: "#b00020" }}>upload failed ({upload.error})</b>
+            ) : upload.attachment ? (
+              <span>
+                ready ({formatBytes(upload.attachment.size)}) • sent with your next message
+              </span>
+            ) : (
+              <progress value={upload.progress} max={1} style={{ width: 120 }} />
+            )}
+          </span>
+          <button onClick={clearUpload}>Remove</button>
+        </div>
+      ) : null}
+
+      <div style={{ display: view === "chat" ? "flex" : "none", gap: 12, marginTop: 16, alignItems: "flex-start" }}>
+        <div
+          ref={listRef}
+          onScroll={onListScroll}
+          style={{ flex: 1, maxHeight: 480, overflowY: "auto" }}
+        >
+          {activeHistory?.hasMore ? (
+            <div style={{ textAlign: "center", fontSize: 12, padding: "6px 0" }}>
+              <button onClick={() => loadOlder(room)} disabled={activeHistory.loading}>
+                {activeHistory.loading ? "Loading…" : "Load older messages"}
+              </button>
             </div>
-          );
-        })}
+          ) : null}
+
+          {threads.roots.map((m) => {
+            const replies = threads.replies.get(m.id) ?? [];
+            const key = `${m.room}|${m.id}`;
+            const open = Boolean(openThreads[key]);
+            return (
+              <div key={m.id} style={{ borderBottom: "1px solid #ddd" }}>
+                {renderMessage(m)}
+                {replies.length ? (
+                  <button
+                    style={{ fontSize: 12, marginBottom: 6 }}
+                    onClick={() => setOpenThreads((prev) => ({ ...prev, [key]: !open }))}
+                  >
+                    {open ? "▾ hide replies" : `💬 ${replies.length} ${replies.length === 1 ? "reply" : "replies"}`}
+                  </button>
+                ) : null}
+                {open ? (
+                  <div style={{ marginLeft: 18, paddingLeft: 8, borderLeft: "2px solid #ddd" }}>
+                    {replies.map((r) => (
+                      <div key={r.id}>{renderMessage(r)}</div>
+                    ))}
+                  </div>
+                ) : null}
+              </div>
+            );
+          })}
+        </div>
+
+        <RosterPanel members={roomRoster} me={me} />
       </div>
     </div>
   );
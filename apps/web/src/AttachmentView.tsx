@@ -0,0 +1,87 @@
+import { useEffect, useState } from "react";
+import type { AttachmentRef } from "@ac/protocol";
+import { formatBytes, type DownloadResult } from "./attachments.ts";
+
+type Props = {
+  attachment: AttachmentRef;
+  load: (ref: AttachmentRef) => Promise<DownloadResult>;
+};
+
+type Preview = { url?: string; error?: string };
+
+/**
+ * One attachment of a message. Images are fetched right away and shown as a thumbnail
+ * (only once their hash checks out); other files download on click, verified the same way.
+ */
+export default function AttachmentView({ attachment, load }: Props) {
+  const isImage = attachment.mime.startsWith("image/");
+  const [preview, setPreview] = useState<Preview>({});
+  const [downloadError, setDownloadError] = useState("");
+
+  useEffect(() => {
+    if (!isImage) return;
+
+    let cancelled = false;
+    let url: string | undefined;
+
+    void load(attachment).then((res) => {
+      if (cancelled) return;
+      if (res.ok) {
+        url = URL.createObjectURL(res.blob);
+        setPreview({ url });
+      } else {
+        setPreview({ error: res.reason });
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [attachment, isImage, load]);
+
+  async function download() {
+    setDownloadError("");
+    const res = await load(attachment);
+    if (!res.ok) {
+      setDownloadError(res.reason);
+      return;
+    }
+
+    const url = URL.createObjectURL(res.blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = attachment.name;
+    a.click();
+    window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+
+  const error = preview.error ?? downloadError;
+
+  return (
+    <div style={{ fontSize: 12, border: "1px solid #ddd", borderRadius: 4, padding: 6, maxWidth: 220 }}>
+      {isImage && preview.url ? (
+        <a href={preview.url} target="_blank" rel="noreferrer">
+          <img
+            src={preview.url}
+            alt={attachment.name}
+            style={{ display: "block", maxWidth: 200, maxHeight: 140, objectFit: "cover", borderRadius: 2 }}
+          />
+        </a>
+      ) : null}
+      {isImage && !preview.url && !preview.error ? <div style={{ opacity: 0.7 }}>Loading preview…</div> : null}
+
+      <div style={{ marginTop: 4, wordBreak: "break-all" }}>
+        📎 {attachment.name} ({formatBytes(attachment.size)})
+      </div>
+      {error ? (
+        <div style={{ color: "#b00020" }}>
+          {error === "hash_mismatch" ? "⚠ hash mismatch: file does not match the message" : `⚠ ${error}`}
+        </div>
+      ) : preview.url ? (
+        <div style={{ opacity: 0.7 }}>✓ sha256 verified</div>
+      ) : null}
+      {!isImage ? <button onClick={() => void download()}>Download</button> : null}
+    </div>
+  );
+}
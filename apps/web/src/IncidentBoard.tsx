@@ -0,0 +1,366 @@
+import { useMemo, useState } from "react";
+import type {
+  Incident,
+  IncidentAck,
+  IncidentDraft,
+  MemberIdentity,
+  Report,
+  ReportAck,
+  ReportBody,
+  ReportState,
+  Severity
+} from "@ac/protocol";
+
+type Props = {
+  me: MemberIdentity | null;
+  incidents: Incident[];
+  reports: Report[];
+  members: MemberIdentity[]; // assignable in this room
+  canEdit: boolean; // publish access
+  isDispatcher: boolean;
+  onOpenIncident: (draft: Omit<IncidentDraft, "id" | "room">) => Promise<IncidentAck>;
+  onCloseIncident: (id: string) => Promise<IncidentAck>;
+  onFileReport: (incidentId: string, body: ReportBody) => Promise<ReportAck>;
+  onTransition: (reportId: string, to: ReportState, assignee?: string) => Promise<ReportAck>;
+};
+
+type Template = ReportBody["template"];
+
+const SEVERITIES: Severity[] = ["low", "moderate", "high", "critical"];
+const STATES: ReportState[] = ["open", "assigned", "acknowledged", "done"];
+
+const SEVERITY_COLOR: Record<Severity, string> = {
+  low: "#7f8c8d",
+  moderate: "#d68910",
+  high: "#d35400",
+  critical: "#c0392b"
+};
+
+// [key, label, input kind, required]
+type FieldSpec = [string, string, "text" | "long" | "number" | "severity" | "datetime", boolean];
+
+const TEMPLATE_FIELDS: Record<Template, FieldSpec[]> = {
+  sitrep: [
+    ["situation", "Situation", "long", true],
+    ["actions", "Actions taken", "long", true],
+    ["needs", "Needs", "long", false],
+    ["casualties", "Casualties", "number", false]
+  ],
+  hazard: [
+    ["hazard", "Hazard", "text", true],
+    ["severity", "Severity", "severity", true],
+    ["location", "Location", "text", false],
+    ["instructions", "Instructions", "long", false]
+  ],
+  task: [
+    ["task", "Task", "long", true],
+    ["location", "Location", "text", false],
+    ["due", "Due", "datetime", false]
+  ]
+};
+
+function fmtTime(ms: number): string {
+  return new Date(ms).toLocaleString();
+}
+
+// form strings → typed template fields; empty optional fields are dropped
+function toBody(template: Template, form: Record<string, string>): ReportBody | string {
+  const fields: Record<string, string | number> = {};
+
+  for (const [key, label, kind, required] of TEMPLATE_FIELDS[template]) {
+    const raw = (form[key] ?? "").trim();
+    if (!raw) {
+      if (required) return `${label} is required`;
+      continue;
+    }
+
+    if (kind === "number") {
+      const n = Number(raw);
+      if (!Number.isInteger(n) || n < 0) return `${label} must be a whole number`;
+      fields[key] = n;
+    } else if (kind === "datetime") {
+      const t = new Date(raw).getTime();
+      if (!Number.isFinite(t)) return `${label} is not a valid time`;
+      fields[key] = t;
+    } else {
+      fields[key] = raw;
+    }
+  }
+
+  return { template, fields } as ReportBody;
+}
+
+function summary(r: Report): string {
+  switch (r.template) {
+    case "sitrep":
+      return r.fields.situation;
+    case "hazard":
+      return `${r.fields.hazard} (${r.fields.severity})`;
+    case "task":
+      return r.fields.task;
+  }
+}
+
+function details(r: Report): [string, string][] {
+  const out: [string, string][] = [];
+  for (const [key, label, kind] of TEMPLATE_FIELDS[r.template]) {
+    const v = (r.fields as Record<string, string | number | undefined>)[key];
+    if (v === undefined) continue;
+    out.push([label, kind === "datetime" ? fmtTime(Number(v)) : String(v)]);
+  }
+  return out;
+}
+
+export default function IncidentBoard(props: Props) {
+  const { me, incidents, reports, members, canEdit, isDispatcher } = props;
+
+  const [selectedId, setSelectedId] = useState("");
+  const [title, setTitle] = useState("");
+  const [severity, setSeverity] = useState<Severity>("moderate");
+  const [template, setTemplate] = useState<Template>("sitrep");
+  const [form, setForm] = useState<Record<string, string>>({});
+  const [assignTo, setAssignTo] = useState<Record<string, string>>({}); // reportId -> memberId
+  const [notice, setNotice] = useState("");
+
+  const sorted = useMemo(
+    () =>
+      [...incidents].sort((a, b) =>
+        a.status !== b.status ? (a.status === "active" ? -1 : 1) : b.createdAt - a.createdAt
+      ),
+    [incidents]
+  );
+
+  const selected = sorted.find((i) => i.id === selectedId) ?? sorted[0];
+
+  const byState = useMemo(() => {
+    const out: Record<ReportState, Report[]> = { open: [], assigned: [], acknowledged: [], done: [] };
+    for (const r of reports) if (r.incidentId === selected?.id) out[r.state].push(r);
+    for (const s of STATES) out[s].sort((a, b) => b.updatedAt - a.updatedAt);
+    return out;
+  }, [reports, selected]);
+
+  function showResult(res: { ok: boolean; reason?: string }, okText: string) {
+    setNotice(res.ok ? okText : `rejected (${res.reason})`);
+    return res.ok;
+  }
+
+  async function openIncident() {
+    const res = await props.onOpenIncident({ title: title.trim(), severity });
+    if (showResult(res, "incident opened")) {
+      setTitle("");
+      setSelectedId(res.id);
+    }
+  }
+
+  async function fileReport() {
+    if (!selected) return;
+    const body = toBody(template, form);
+    if (typeof body === "string") {
+      setNotice(body);
+      return;
+    }
+
+    if (showResult(await props.onFileReport(selected.id, body), "report filed")) setForm({});
+  }
+
+  async function transition(r: Report, to: ReportState) {
+    const assignee = to === "assigned" ? assignTo[r.id] : undefined;
+    showResult(await props.onTransition(r.id, to, assignee), `report ${to}`);
+  }
+
+  function actionsFor(r: Report) {
+    if (!canEdit || !selected || selected.status === "closed") return null;
+    const mine = r.assignee?.memberId === me?.memberId;
+
+    return (
+      <div style={{ display: "flex", gap: 6, marginTop: 6, flexWrap: "wrap" }}>
+        {isDispatcher && (r.state === "open" || r.state === "assigned") ? (
+          <>
+            <select
+              value={assignTo[r.id] ?? ""}
+              onChange={(e) => setAssignTo((prev) => ({ ...prev, [r.id]: e.target.value }))}
+            >
+              <option value="">assign to…</option>
+              {members.map((m) => (
+                <option key={m.memberId} value={m.memberId}>
+                  {m.label}
+                </option>
+              ))}
+            </select>
+            <button onClick={() => void transition(r, "assigned")} disabled={!assignTo[r.id]}>
+              {r.state === "assigned" ? "Reassign" : "Assign"}
+            </button>
+          </>
+        ) : null}
+        {r.state === "assigned" && mine ? (
+          <button onClick={() => void transition(r, "acknowledged")}>Acknowledge</button>
+        ) : null}
+        {r.state === "acknowledged" && (mine || isDispatcher) ? (
+          <button onClick={() => void transition(r, "done")}>Mark done</button>
+        ) : null}
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ marginTop: 16 }}>
+      <div style={{ display: "flex", gap: 6, flexWrap: "wrap" }}>
+        {sorted.map((i) => (
+          <button
+            key={i.id}
+            onClick={() => setSelectedId(i.id)}
+            disabled={i.id === selected?.id}
+            style={{ borderLeft: `4px solid ${SEVERITY_COLOR[i.severity]}`, opacity: i.status === "closed" ? 0.6 : 1 }}
+          >
+            {i.title}
+            {i.status === "closed" ? " (closed)" : ""}
+          </button>
+        ))}
+        {!sorted.length ? <span style={{ fontSize: 12, opacity: 0.7 }}>No incidents in this room.</span> : null}
+      </div>
+
+      {canEdit ? (
+        <div style={{ display: "flex", gap: 8, marginTop: 8 }}>
+          <input
+            style={{ flex: 1 }}
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="New incident title…"
+          />
+          <select value={severity} onChange={(e) => setSeverity(e.target.value as Severity)}>
+            {SEVERITIES.map((s) => (
+              <option key={s} value={s}>
+                {s}
+              </option>
+            ))}
+          </select>
+          <button onClick={() => void openIncident()} disabled={!title.trim()}>
+            Open incident
+          </button>
+        </div>
+      ) : null}
+
+      {notice ? <div style={{ fontSize: 12, marginTop: 6 }}>{notice}</div> : null}
+
+      {selected ? (
+        <div style={{ marginTop: 12 }}>
+          <div>
+            <b>{selected.title}</b>{" "}
+            <span style={{ color: SEVERITY_COLOR[selected.severity] }}>{selected.severity}</span>
+            <span style={{ fontSize: 12, opacity: 0.7 }}>
+              {" "}
+              • {selected.status} • opened by {selected.createdBy} at {fmtTime(selected.createdAt)}
+              {selected.closedAt ? ` • closed ${fmtTime(selected.closedAt)}` : ""}
+            </span>{" "}
+            {canEdit && selected.status === "active" && (isDispatcher || selected.memberId === me?.memberId) ? (
+              <button
+                onClick={() =>
+                  void props.onCloseIncident(selected.id).then((res) => showResult(res, "incident closed"))
+                }
+              >
+                Close incident
+              </button>
+            ) : null}
+          </div>
+
+          <div style={{ display: "grid", gridTemplateColumns: "repeat(4, 1fr)", gap: 8, marginTop: 8 }}>
+            {STATES.map((state) => (
+              <div key={state} style={{ background: "rgba(127, 127, 127, 0.08)", padding: 6, minHeight: 80 }}>
+                <div style={{ fontSize: 12, fontWeight: 600, textTransform: "uppercase" }}>
+                  {state} ({byState[state].length})
+                </div>
+                {byState[state].map((r) => (
+                  <div key={r.id} style={{ fontSize: 12, padding: "6px 0", borderBottom: "1px solid #ddd" }}>
+                    <div>
+                      <b>{r.template.toUpperCase()}</b> {summary(r)}
+                    </div>
+                    <div style={{ opacity: 0.7 }}>
+                      by {r.createdBy} • {fmtTime(r.createdAt)}
+                      {r.assignee ? ` • → ${r.assignee.label}` : ""}
+                    </div>
+                    <details>
+                      <summary>details</summary>
+                      {details(r).map(([label, value]) => (
+                        <div key={label}>
+                          {label}: {value}
+                        </div>
+                      ))}
+                      {r.history.map((h, i) => (
+                        <div key={i} style={{ opacity: 0.7 }}>
+                          {fmtTime(h.at)} {h.by}: {h.from ? `${h.from} → ` : ""}
+                          {h.to}
+                          {h.assignee ? ` (${h.assignee.label})` : ""}
+                        </div>
+                      ))}
+                    </details>
+                    {actionsFor(r)}
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+
+          {canEdit && selected.status === "active" ? (
+            <div style={{ marginTop: 12 }}>
+              <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+                <span style={{ fontSize: 12 }}>File report:</span>
+                <select
+                  value={template}
+                  onChange={(e) => {
+                    setTemplate(e.target.value as Template);
+                    setForm({});
+                  }}
+                >
+                  <option value="sitrep">SITREP</option>
+                  <option value="hazard">Hazard</option>
+                  <option value="task">Task</option>
+                </select>
+              </div>
+
+              {TEMPLATE_FIELDS[template].map(([key, label, kind, required]) => {
+                const value = form[key] ?? "";
+                const set = (v: string) => setForm((prev) => ({ ...prev, [key]: v }));
+                const placeholder = `${label}${required ? "" : " (optional)"}`;
+
+                return (
+                  <div key={key} style={{ marginTop: 6 }}>
+                    {kind === "long" ? (
+                      <textarea
+                        style={{ width: "100%", minHeight: 48 }}
+                        value={value}
+                        onChange={(e) => set(e.target.value)}
+                        placeholder={placeholder}
+                      />
+                    ) : kind === "severity" ? (
+                      <select value={value} onChange={(e) => set(e.target.value)}>
+                        <option value="">{placeholder}…</option>
+                        {SEVERITIES.map((s) => (
+                          <option key={s} value={s}>
+                            {s}
+                          </option>
+                        ))}
+                      </select>
+                    ) : (
+                      <input
+                        style={{ width: "100%" }}
+                        type={kind === "number" ? "number" : kind === "datetime" ? "datetime-local" : "text"}
+                        value={value}
+                        onChange={(e) => set(e.target.value)}
+                        placeholder={placeholder}
+                        title={placeholder}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+
+              <button style={{ marginTop: 6 }} onClick={() => void fileReport()}>
+                File {template === "sitrep" ? "SITREP" : template}
+              </button>
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { useState } from "react";
+import type { Incident, LocationPrecision } from "@ac/protocol";
+import type { ShareSettings, ShareState } from "./location.ts";
+
+type Props = {
+  room: string;
+  incidents: Incident[]; // active incidents in the room
+  state: ShareState | null;
+  canShare: boolean;
+  onStart: (settings: ShareSettings) => void;
+  onStop: () => void;
+};
+
+const PRECISIONS: [LocationPrecision, string][] = [
+  ["1km", "~1 km grid"],
+  ["100m", "~100 m grid"],
+  ["exact", "exact"]
+];
+
+const DURATIONS: [number, string][] = [
+  [15, "15 min"],
+  [60, "1 hour"],
+  [240, "4 hours"],
+  [480, "8 hours"]
+];
+
+export default function LocationShare(props: Props) {
+  const { room, incidents, state, canShare, onStart, onStop } = props;
+
+  const [incidentId, setIncidentId] = useState("");
+  const [precision, setPrecision] = useState<LocationPrecision>("1km");
+  const [minutes, setMinutes] = useState(60);
+
+  const sharing = state && !state.stopped ? state : null;
+  const chosen = incidents.find((i) => i.id === incidentId) ?? incidents[0];
+
+  if (sharing) {
+    const incident = incidents.find((i) => i.id === sharing.incidentId);
+    return (
+      <div style={{ marginTop: 12, fontSize: 12, display: "flex", gap: 8, alignItems: "center" }}>
+        <span>
+          📍 Sharing your location ({PRECISIONS.find(([p]) => p === sharing.precision)?.[1]}) in{" "}
+          <b>{sharing.room}</b> for “{incident?.title ?? sharing.incidentId}” until{" "}
+          {new Date(sharing.until).toLocaleTimeString()}
+          {sharing.lastSentAt ? ` • last sent ${new Date(sharing.lastSentAt).toLocaleTimeString()}` : " • waiting for a fix…"}
+          {sharing.error ? ` • ${sharing.error}` : ""}
+        </span>
+        <button onClick={onStop}>Stop sharing</button>
+      </div>
+    );
+  }
+
+  if (!canShare) return null;
+
+  return (
+    <div style={{ marginTop: 12, fontSize: 12 }}>
+      {state?.stopped ? <div>Location sharing stopped ({state.error}).</div> : null}
+      {!chosen ? (
+        <div style={{ opacity: 0.7 }}>Location sharing is available while an incident is active in this room.</div>
+      ) : (
+        <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+          <span>Share my location for</span>
+          <select value={chosen.id} onChange={(e) => setIncidentId(e.target.value)}>
+            {incidents.map((i) => (
+              <option key={i.id} value={i.id}>
+                {i.title}
+              </option>
+            ))}
+          </select>
+          <select value={precision} onChange={(e) => setPrecision(e.target.value as LocationPrecision)}>
+            {PRECISIONS.map(([p, label]) => (
+              <option key={p} value={p}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <select value={minutes} onChange={(e) => setMinutes(Number(e.target.value))}>
+            {DURATIONS.map(([m, label]) => (
+              <option key={m} value={m}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() =>
+              onStart({ room, incidentId: chosen.id, precision, until: Date.now() + minutes * 60_000 })
+            }
+          >
+            Start sharing
+          </button>
+          <span style={{ opacity: 0.7, flexBasis: "100%" }}>
+            Members of {room} will see your position at this precision until you stop, the time runs
+            out, you disconnect, or the incident closes. Nothing is stored.
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,384 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import L from "leaflet";
+import "leaflet/dist/leaflet.css";
+import type {
+  MemberLocation,
+  OverlayAck,
+  OverlayFeature,
+  OverlayGeometry,
+  Position
+} from "@ac/protocol";
+import { DEFAULT_LAYER, parseGeoJson, toGeoJson, type OverlayDraft } from "./overlays.ts";
+
+// Tiles: any XYZ template. For offline use, copy a tile pyramid into public/tiles
+// and set VITE_TILE_URL=/tiles/{z}/{x}/{y}.png
+const TILE_URL = import.meta.env.VITE_TILE_URL ?? "https://tile.openstreetmap.org/{z}/{x}/{y}.png";
+const TILE_ATTRIBUTION =
+  import.meta.env.VITE_TILE_ATTRIBUTION ?? "&copy; OpenStreetMap contributors";
+const TILE_MAX_ZOOM = Number(import.meta.env.VITE_TILE_MAX_ZOOM ?? 19);
+
+// "lat,lon,zoom"
+const [CENTER_LAT, CENTER_LON, CENTER_ZOOM] = String(
+  import.meta.env.VITE_MAP_CENTER ?? "39.5,-98.35,4"
+)
+  .split(",")
+  .map(Number);
+
+const DEFAULT_COLOR = "#d35400";
+
+type DrawMode = "none" | OverlayGeometry["type"];
+
+type Props = {
+  room: string;
+  features: OverlayFeature[];
+  locations: MemberLocation[]; // shared member positions (already precision-limited by the relay)
+  canEdit: boolean;
+  onUpsert: (draft: OverlayDraft) => Promise<OverlayAck>;
+  onDelete: (id: string) => Promise<OverlayAck>;
+};
+
+function colorOf(f: OverlayFeature): string {
+  const c = f.properties.color;
+  return typeof c === "string" && /^#[0-9a-f]{6}$/i.test(c) ? c : DEFAULT_COLOR;
+}
+
+function latLng(p: Position): L.LatLngTuple {
+  return [p[1], p[0]];
+}
+
+function toLeaflet(f: OverlayFeature): L.Layer {
+  const color = colorOf(f);
+  const g = f.geometry;
+
+  if (g.type === "Point") return L.circleMarker(latLng(g.coordinates), { radius: 7, color });
+  if (g.type === "LineString") return L.polyline(g.coordinates.map(latLng), { color });
+  return L.polygon(g.coordinates.map((ring) => ring.map(latLng)), { color });
+}
+
+// built with textContent: properties come from other members
+function popupFor(f: OverlayFeature): HTMLElement {
+  const el = document.createElement("div");
+  const title = document.createElement("b");
+  title.textContent = String(f.properties.name ?? f.geometry.type);
+  el.appendChild(title);
+
+  const lines = [`layer: ${f.layer}`];
+  if (typeof f.properties.note === "string") lines.push(f.properties.note);
+  if (f.updatedBy) lines.push(`by ${f.updatedBy} ${f.updatedAt ? new Date(f.updatedAt).toLocaleString() : ""}`);
+
+  for (const line of lines) {
+    const div = document.createElement("div");
+    div.textContent = line;
+    el.appendChild(div);
+  }
+  return el;
+}
+
+function locationLabel(loc: MemberLocation): HTMLElement {
+  const el = document.createElement("span");
+  el.textContent = `${loc.label}${loc.precision === "exact" ? "" : ` (~${loc.precision})`}`;
+  return el;
+}
+
+function draftGeometry(mode: DrawMode, vertices: Position[]): OverlayGeometry | null {
+  if (mode === "Point" && vertices.length === 1) return { type: "Point", coordinates: vertices[0] };
+  if (mode === "LineString" && vertices.length >= 2) return { type: "LineString", coordinates: vertices };
+  if (mode === "Polygon" && vertices.length >= 3) {
+    return { type: "Polygon", coordinates: [[...vertices, vertices[0]]] };
+  }
+  return null;
+}
+
+function round6(n: number): number {
+  return Math.round(n * 1e6) / 1e6;
+}
+
+export default function MapPanel(props: Props) {
+  const { room, features, locations, canEdit, onUpsert, onDelete } = props;
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<L.Map | null>(null);
+  const featureGroupRef = useRef<L.FeatureGroup | null>(null);
+  const draftGroupRef = useRef<L.LayerGroup | null>(null);
+  const locationGroupRef = useRef<L.LayerGroup | null>(null);
+
+  const [hidden, setHidden] = useState<Set<string>>(() => new Set());
+  const [activeLayer, setActiveLayer] = useState(DEFAULT_LAYER);
+  const [newLayer, setNewLayer] = useState("");
+  const [mode, setMode] = useState<DrawMode>("none");
+  const [vertices, setVertices] = useState<Position[]>([]);
+  const [name, setName] = useState("");
+  const [color, setColor] = useState(DEFAULT_COLOR);
+  const [notice, setNotice] = useState("");
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+
+    const map = L.map(el).setView([CENTER_LAT, CENTER_LON], CENTER_ZOOM);
+    L.tileLayer(TILE_URL, { attribution: TILE_ATTRIBUTION, maxZoom: TILE_MAX_ZOOM }).addTo(map);
+    featureGroupRef.current = L.featureGroup().addTo(map);
+    draftGroupRef.current = L.layerGroup().addTo(map);
+    locationGroupRef.current = L.layerGroup().addTo(map);
+    mapRef.current = map;
+
+    return () => {
+      map.remove();
+      mapRef.current = null;
+      featureGroupRef.current = null;
+      draftGroupRef.current = null;
+      locationGroupRef.current = null;
+    };
+  }, []);
+
+  // shared overlays
+  useEffect(() => {
+    const group = featureGroupRef.current;
+    if (!group) return;
+
+    group.clearLayers();
+    for (const f of features) {
+      if (hidden.has(f.layer)) continue;
+      group.addLayer(toLeaflet(f).bindPopup(popupFor(f)));
+    }
+  }, [features, hidden]);
+
+  // member positions: the circle is the uncertainty (grid cell or device accuracy)
+  useEffect(() => {
+    const group = locationGroupRef.current;
+    if (!group) return;
+
+    group.clearLayers();
+    for (const loc of locations) {
+      const at = latLng(loc.position);
+      group.addLayer(L.circle(at, { radius: loc.accuracy, color: "#2471a3", weight: 1, fillOpacity: 0.1 }));
+      group.addLayer(
+        L.circleMarker(at, { radius: 5, color: "#2471a3", fillOpacity: 1 }).bindTooltip(locationLabel(loc), {
+          permanent: true,
+          direction: "right"
+        })
+      );
+    }
+  }, [locations]);
+
+  // local drawing in progress
+  useEffect(() => {
+    const group = draftGroupRef.current;
+    if (!group) return;
+
+    group.clearLayers();
+    const pts = vertices.map(latLng);
+    for (const p of pts) group.addLayer(L.circleMarker(p, { radius: 4, color, dashArray: "2 4" }));
+    if (mode === "LineString" && pts.length >= 2) group.addLayer(L.polyline(pts, { color, dashArray: "6 6" }));
+    if (mode === "Polygon" && pts.length >= 3) group.addLayer(L.polygon(pts, { color, dashArray: "6 6" }));
+  }, [vertices, mode, color]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || mode === "none") return;
+
+    const onClick = (e: L.LeafletMouseEvent) => {
+      const p: Position = [round6(e.latlng.wrap().lng), round6(e.latlng.lat)];
+      setVertices((prev) => (mode === "Point" ? [p] : [...prev, p]));
+    };
+
+    map.on("click", onClick);
+    return () => {
+      map.off("click", onClick);
+    };
+  }, [mode]);
+
+  const layers = useMemo(() => {
+    const counts = new Map<string, number>([[activeLayer, 0]]);
+    for (const f of features) counts.set(f.layer, (counts.get(f.layer) ?? 0) + 1);
+    return Array.from(counts).sort(([a], [b]) => a.localeCompare(b));
+  }, [features, activeLayer]);
+
+  const visible = useMemo(() => features.filter((f) => !hidden.has(f.layer)), [features, hidden]);
+
+  const draft = draftGeometry(mode, vertices);
+
+  function toggleLayer(layer: string) {
+    setHidden((prev) => {
+      const next = new Set(prev);
+      if (next.has(layer)) next.delete(layer);
+      else next.add(layer);
+      return next;
+    });
+  }
+
+  function startDrawing(next: DrawMode) {
+    setMode(next);
+    setVertices([]);
+    setNotice("");
+  }
+
+  async function saveDraft() {
+    if (!draft) return;
+
+    const properties: OverlayFeature["properties"] = { color };
+    if (name.trim()) properties.name = name.trim();
+
+    const res = await onUpsert({ id: crypto.randomUUID(), room, layer: activeLayer, geometry: draft, properties });
+    if (!res.ok) {
+      setNotice(`rejected (${res.reason})`);
+      return;
+    }
+
+    setNotice("saved");
+    setVertices([]);
+    setName("");
+  }
+
+  async function importFile(file: File) {
+    let parsed: ReturnType<typeof parseGeoJson>;
+    try {
+      parsed = parseGeoJson(await file.text(), room, activeLayer);
+    } catch {
+      setNotice("invalid GeoJSON");
+      return;
+    }
+
+    let ok = 0;
+    let rejected = 0;
+    for (const f of parsed.features) {
+      const res = await onUpsert(f);
+      if (res.ok) ok++;
+      else rejected++;
+    }
+
+    setNotice(`imported ${ok}, rejected ${rejected}, skipped ${parsed.skipped} (unsupported geometry)`);
+  }
+
+  function exportVisible() {
+    const blob = new Blob([toGeoJson(visible)], { type: "application/geo+json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${room}-overlays.geojson`;
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  function fitToOverlays() {
+    const bounds = featureGroupRef.current?.getBounds();
+    if (bounds?.isValid()) mapRef.current?.fitBounds(bounds, { padding: [24, 24], maxZoom: 16 });
+  }
+
+  return (
+    <div style={{ marginTop: 16 }}>
+      <div ref={containerRef} style={{ height: 420, border: "1px solid #ddd" }} />
+
+      <div style={{ display: "flex", gap: 8, marginTop: 8, flexWrap: "wrap", alignItems: "center" }}>
+        <button onClick={fitToOverlays} disabled={!visible.length}>
+          Fit to overlays
+        </button>
+        <button onClick={exportVisible} disabled={!visible.length}>
+          Export GeoJSON
+        </button>
+        {canEdit ? (
+          <label style={{ fontSize: 12 }}>
+            Import GeoJSON{" "}
+            <input
+              type="file"
+              accept=".geojson,.json,application/geo+json,application/json"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (file) void importFile(file);
+              }}
+            />
+          </label>
+        ) : null}
+        {notice ? <span style={{ fontSize: 12 }}>{notice}</span> : null}
+      </div>
+
+      {canEdit ? (
+        <div style={{ display: "flex", gap: 8, marginTop: 8, flexWrap: "wrap", alignItems: "center" }}>
+          <span style={{ fontSize: 12 }}>Draw into “{activeLayer}”:</span>
+          {(["Point", "LineString", "Polygon"] as const).map((m) => (
+            <button key={m} onClick={() => startDrawing(m)} disabled={mode === m}>
+              {m === "Point" ? "Marker" : m === "LineString" ? "Line" : "Polygon"}
+            </button>
+          ))}
+          {mode !== "none" ? (
+            <>
+              <input
+                style={{ width: 140 }}
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Name (optional)"
+              />
+              <input type="color" value={color} onChange={(e) => setColor(e.target.value)} />
+              <button onClick={() => void saveDraft()} disabled={!draft}>
+                Save
+              </button>
+              <button onClick={() => setVertices((v) => v.slice(0, -1))} disabled={!vertices.length}>
+                Undo point
+              </button>
+              <button onClick={() => startDrawing("none")}>Done</button>
+              <span style={{ fontSize: 12, opacity: 0.7 }}>
+                {mode === "Point" ? "click the map to place" : "click the map to add vertices"}
+              </span>
+            </>
+          ) : null}
+        </div>
+      ) : null}
+
+      <div style={{ marginTop: 12, fontSize: 12 }}>
+        <b>Layers</b>
+        {layers.map(([layer, count]) => (
+          <div key={layer} style={{ display: "flex", gap: 8, alignItems: "center" }}>
+            <input type="checkbox" checked={!hidden.has(layer)} onChange={() => toggleLayer(layer)} />
+            <span style={{ flex: 1 }}>
+              {layer} ({count})
+            </span>
+            {canEdit ? (
+              <button onClick={() => setActiveLayer(layer)} disabled={layer === activeLayer}>
+                {layer === activeLayer ? "drawing here" : "draw here"}
+              </button>
+            ) : null}
+          </div>
+        ))}
+
+        {canEdit ? (
+          <div style={{ display: "flex", gap: 8, marginTop: 6 }}>
+            <input value={newLayer} onChange={(e) => setNewLayer(e.target.value)} placeholder="New layer…" />
+            <button
+              onClick={() => {
+                setActiveLayer(newLayer.trim());
+                setNewLayer("");
+              }}
+              disabled={!newLayer.trim()}
+            >
+              Add layer
+            </button>
+          </div>
+        ) : null}
+      </div>
+
+      <div style={{ marginTop: 12, fontSize: 12 }}>
+        {visible.map((f) => (
+          <div key={f.id} style={{ display: "flex", gap: 8, padding: "4px 0", borderBottom: "1px solid #eee" }}>
+            <span style={{ color: colorOf(f) }}>■</span>
+            <span style={{ flex: 1 }}>
+              {String(f.properties.name ?? f.geometry.type)}{" "}
+              <span style={{ opacity: 0.7 }}>
+                • {f.layer} • {f.updatedBy ?? "?"} • rev {f.rev ?? 1}
+              </span>
+            </span>
+            {canEdit ? (
+              <button
+                onClick={() =>
+                  void onDelete(f.id).then((res) => !res.ok && setNotice(`delete rejected (${res.reason})`))
+                }
+              >
+                Delete
+              </button>
+            ) : null}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+import { useState } from "react";
+import type {
+  MissionPackage,
+  MissionPackageDraft,
+  PackagePublishAck,
+  PackageStatus
+} from "@ac/protocol";
+import type { LoadedPackage } from "./packages.ts";
+
+type Props = {
+  room: string;
+  packages: MissionPackage[];
+  statuses: Record<string, PackageStatus>; // by package id
+  loaded: Record<string, LoadedPackage>; // by package id (this device)
+  canPublish: boolean;
+  onLoad: (pkg: MissionPackage) => void;
+  onPublish: (draft: Omit<MissionPackageDraft, "hash" | "room">) => Promise<PackagePublishAck>;
+};
+
+function fmtTime(ms: number | undefined): string {
+  return ms ? new Date(ms).toLocaleString() : "open";
+}
+
+function bumpPatch(version: string): string {
+  const m = /^(\d+)\.(\d+)\.(\d+)/.exec(version);
+  return m ? `${m[1]}.${m[2]}.${Number(m[3]) + 1}` : version;
+}
+
+function draftTemplate(): string {
+  return JSON.stringify(
+    {
+      id: "new-package",
+      version: "1.0.0",
+      title: "New mission package",
+      effective: { from: Date.now() },
+      sections: [{ kind: "notes", name: "Brief", content: "" }]
+    },
+    null,
+    2
+  );
+}
+
+export default function PackagesPanel(props: Props) {
+  const { packages, statuses, loaded, canPublish, onLoad, onPublish } = props;
+
+  const [draftText, setDraftText] = useState<string>(() => draftTemplate());
+  const [publishing, setPublishing] = useState(false);
+  const [publishResult, setPublishResult] = useState("");
+
+  async function publish() {
+    let draft: Omit<MissionPackageDraft, "hash" | "room">;
+    try {
+      draft = JSON.parse(draftText) as Omit<MissionPackageDraft, "hash" | "room">;
+    } catch {
+      setPublishResult("invalid JSON");
+      return;
+    }
+
+    setPublishing(true);
+    const res = await onPublish(draft);
+    setPublishing(false);
+    setPublishResult(res.ok ? `published ${res.id}@${res.version}` : `rejected (${res.reason})`);
+  }
+
+  function startNewVersion(pkg: MissionPackage) {
+    const { id, title, effective, sections } = pkg;
+    setDraftText(JSON.stringify({ id, version: bumpPatch(pkg.version), title, effective, sections }, null, 2));
+    setPublishResult("");
+  }
+
+  return (
+    <div style={{ marginTop: 16 }}>
+      {packages.length === 0 ? (
+        <div style={{ fontSize: 12, opacity: 0.7 }}>No mission packages in this room yet.</div>
+      ) : null}
+
+      {packages.map((pkg) => {
+        const mine = loaded[pkg.id];
+        const status = statuses[pkg.id];
+        const current = mine?.version === pkg.version && mine.verified;
+        const loads = new Map((status?.loads ?? []).map((l) => [l.memberId, l]));
+
+        return (
+          <div key={pkg.id} style={{ padding: "10px 0", borderBottom: "1px solid #ddd" }}>
+            <div>
+              <b>{pkg.title}</b>{" "}
+              <span style={{ opacity: 0.7 }}>
+                {pkg.id}@{pkg.version}
+              </span>
+            </div>
+            <div style={{ fontSize: 12, opacity: 0.7 }}>
+              effective {fmtTime(pkg.effective.from)} → {fmtTime(pkg.effective.until)} • published by{" "}
+              {pkg.provenance.publisherLabel} at {fmtTime(pkg.provenance.publishedAt)} • sha256{" "}
+              {pkg.hash.slice(0, 12)}… • {pkg.sections.length} section(s)
+            </div>
+
+            <div style={{ marginTop: 6, display: "flex", gap: 8, alignItems: "center" }}>
+              {current ? (
+                <span style={{ fontSize: 12 }}>✔ loaded (hash verified)</span>
+              ) : (
+                <>
+                  {mine && !mine.verified ? (
+                    <span style={{ fontSize: 12, color: "#c0392b" }}>hash mismatch on last load</span>
+                  ) : mine ? (
+                    <span style={{ fontSize: 12, color: "#d68910" }}>you have {mine.version}</span>
+                  ) : null}
+                  <button onClick={() => onLoad(pkg)}>Load {pkg.version}</button>
+                </>
+              )}
+              {canPublish ? (
+                <button onClick={() => startNewVersion(pkg)}>New version…</button>
+              ) : null}
+            </div>
+
+            {status ? (
+              <table style={{ marginTop: 8, fontSize: 12, borderCollapse: "collapse" }}>
+                <tbody>
+                  {status.expected.map((m) => {
+                    const l = loads.get(m.memberId);
+                    const ok = l?.version === status.latestVersion && l.verified;
+                    const state = !l
+                      ? "not loaded"
+                      : !l.verified
+                        ? `hash mismatch (${l.version})`
+                        : l.version === status.latestVersion
+                          ? "loaded"
+                          : `on ${l.version}`;
+
+                    return (
+                      <tr
+                        key={m.memberId}
+                        style={ok ? undefined : { background: "rgba(214, 137, 16, 0.2)" }}
+                      >
+                        <td style={{ padding: "2px 8px" }}>{m.label}</td>
+                        <td style={{ padding: "2px 8px" }}>{state}</td>
+                        <td style={{ padding: "2px 8px", opacity: 0.7 }}>
+                          {l ? new Date(l.loadedAt).toLocaleString() : ""}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            ) : null}
+          </div>
+        );
+      })}
+
+      {canPublish ? (
+        <div style={{ marginTop: 16 }}>
+          <div style={{ fontSize: 12, opacity: 0.85 }}>
+            Publish to this room (JSON: id, version, title, effective, sections):
+          </div>
+          <textarea
+            style={{ width: "100%", minHeight: 160, fontFamily: "monospace", marginTop: 6 }}
+            value={draftText}
+            onChange={(e) => setDraftText(e.target.value)}
+          />
+          <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+            <button onClick={() => void publish()} disabled={publishing}>
+              {publishing ? "Publishing…" : "Publish package"}
+            </button>
+            {publishResult ? <span style={{ fontSize: 12 }}>{publishResult}</span> : null}
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
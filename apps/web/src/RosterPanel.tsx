@@ -0,0 +1,51 @@
+import type { MemberIdentity, PresenceEntry, PresenceState } from "@ac/protocol";
+
+type Props = {
+  members: PresenceEntry[]; // the active room's roster
+  me: MemberIdentity | null;
+};
+
+const ORDER: Record<PresenceState, number> = { online: 0, away: 1, offline: 2 };
+
+const DOT: Record<PresenceState, string> = {
+  online: "#2e7d32",
+  away: "#b26a00",
+  offline: "#9e9e9e"
+};
+
+function describe(m: PresenceEntry): string {
+  const at = new Date(m.lastSeen).toLocaleTimeString();
+  if (m.state === "offline") return `last seen ${at}`;
+  const via = m.transports.length ? m.transports.join(", ") : "connecting";
+  return m.state === "away" ? `away since ${at} • ${via}` : via;
+}
+
+export default function RosterPanel({ members, me }: Props) {
+  const sorted = [...members].sort(
+    (a, b) => ORDER[a.state] - ORDER[b.state] || a.label.localeCompare(b.label)
+  );
+  const here = members.filter((m) => m.state !== "offline").length;
+
+  return (
+    <aside style={{ width: 200, flexShrink: 0, fontSize: 12, borderLeft: "1px solid #ddd", paddingLeft: 10 }}>
+      <div style={{ fontWeight: 600, marginBottom: 6 }}>In this room ({here})</div>
+      {!sorted.length ? <div style={{ opacity: 0.7 }}>Nobody here yet.</div> : null}
+
+      {sorted.map((m) => (
+        <div
+          key={m.memberId}
+          title={m.memberId}
+          style={{ padding: "4px 0", opacity: m.state === "offline" ? 0.6 : 1 }}
+        >
+          <div>
+            <span style={{ color: DOT[m.state] }}>●</span> <b>{m.label}</b>
+            {m.memberId === me?.memberId ? " (you)" : ""}
+          </div>
+          <div style={{ opacity: 0.75 }}>
+            {m.guest ? "guest" : (m.role ?? "member")} • {describe(m)}
+          </div>
+        </div>
+      ))}
+    </aside>
+  );
+}
@@ -0,0 +1,285 @@
+import { useMemo, useState } from "react";
+import type { MemberIdentity, Task, TaskAck, TaskDraft, TaskState } from "@ac/protocol";
+
+type Props = {
+  me: MemberIdentity | null;
+  room: string;
+  roomLabel: (room: string) => string;
+  tasks: Task[]; // every joined room's
+  members: MemberIdentity[]; // assignable in the open room
+  canIssue: boolean; // dispatcher with publish access to the open room
+  onIssue: (draft: Omit<TaskDraft, "id" | "room">) => Promise<TaskAck>;
+  onTransition: (task: Task, to: TaskState, note?: string) => Promise<TaskAck>;
+  onOpenRoom: (room: string) => void;
+};
+
+const FINAL: TaskState[] = ["complete", "declined"];
+
+const STATE_LABEL: Record<TaskState, string> = {
+  issued: "issued",
+  acknowledged: "acknowledged",
+  in_progress: "in progress",
+  complete: "complete",
+  declined: "declined"
+};
+
+function fmtTime(ms: number): string {
+  return new Date(ms).toLocaleString();
+}
+
+// open tasks first; among them the most urgent deadline first
+function compareTasks(a: Task, b: Task): number {
+  const af = FINAL.includes(a.state);
+  const bf = FINAL.includes(b.state);
+  if (af !== bf) return af ? 1 : -1;
+  if (af) return b.updatedAt - a.updatedAt;
+  const deadline = (t: Task) => (t.state === "issued" ? t.ackDueAt : undefined) ?? t.dueAt ?? Infinity;
+  return deadline(a) - deadline(b) || b.createdAt - a.createdAt;
+}
+
+function isOverdue(task: Task): boolean {
+  return task.dueAt !== undefined && !FINAL.includes(task.state) && task.dueAt < Date.now();
+}
+
+function Deadlines({ task }: { task: Task }) {
+  const overdue = isOverdue(task);
+  return (
+    <div style={{ fontSize: 12, opacity: 0.8 }}>
+      {task.dueAt ? (
+        <span style={overdue ? { color: "#b00020" } : undefined}>
+          due {fmtTime(task.dueAt)}
+          {overdue ? " (overdue)" : ""}
+        </span>
+      ) : (
+        <span>no due time</span>
+      )}
+      {task.state === "issued" && task.ackDueAt ? <span> • acknowledge by {fmtTime(task.ackDueAt)}</span> : null}
+      {task.escalatedAt ? (
+        <b style={{ color: "#b00020" }}> • ⏰ escalated {new Date(task.escalatedAt).toLocaleTimeString()}</b>
+      ) : null}
+    </div>
+  );
+}
+
+/**
+ * Tasks assigned to this member across joined rooms, with one-tap acknowledge; dispatchers
+ * also issue tasks in the open room and follow what they issued there.
+ */
+export default function TasksPanel(props: Props) {
+  const { me, room, roomLabel, tasks, members, canIssue } = props;
+
+  const [title, setTitle] = useState("");
+  const [details, setDetails] = useState("");
+  const [assigneeId, setAssigneeId] = useState("");
+  const [due, setDue] = useState(""); // datetime-local
+  const [ackRequired, setAckRequired] = useState(true);
+  const [ackMinutes, setAckMinutes] = useState("10");
+  const [notice, setNotice] = useState("");
+  const [busy, setBusy] = useState<Record<string, boolean>>({}); // task key -> request in flight
+
+  const mine = useMemo(
+    () => tasks.filter((t) => t.assignee.memberId === me?.memberId).sort(compareTasks),
+    [tasks, me]
+  );
+  const roomTasks = useMemo(() => tasks.filter((t) => t.room === room).sort(compareTasks), [tasks, room]);
+
+  const openMine = mine.filter((t) => !FINAL.includes(t.state));
+  const doneMine = mine.filter((t) => FINAL.includes(t.state));
+
+  function showResult(res: TaskAck, okText: string) {
+    setNotice(res.ok ? okText : `rejected (${res.reason})`);
+    return res.ok;
+  }
+
+  async function move(task: Task, to: TaskState) {
+    let note: string | undefined;
+    if (to === "declined") {
+      const reason = window.prompt(`Decline "${task.title}"? Tell ${task.createdBy} why (optional):`, "");
+      if (reason === null) return;
+      note = reason.trim() || undefined;
+    }
+
+    const key = `${task.room}|${task.id}`;
+    setBusy((prev) => ({ ...prev, [key]: true }));
+    showResult(await props.onTransition(task, to, note), `task ${STATE_LABEL[to]}`);
+    setBusy((prev) => ({ ...prev, [key]: false }));
+  }
+
+  async function issue() {
+    const dueAt = due ? new Date(due).getTime() : undefined;
+    if (dueAt !== undefined && !Number.isFinite(dueAt)) {
+      setNotice("Due is not a valid time");
+      return;
+    }
+    const minutes = Number(ackMinutes);
+
+    const res = await props.onIssue({
+      title: title.trim(),
+      ...(details.trim() ? { details: details.trim() } : {}),
+      assigneeId,
+      ...(dueAt !== undefined ? { dueAt } : {}),
+      ackRequired,
+      ...(ackRequired && ackMinutes.trim() ? { ackWithinMinutes: minutes } : {})
+    });
+    if (showResult(res, "task issued")) {
+      setTitle("");
+      setDetails("");
+      setDue("");
+    }
+  }
+
+  function assigneeActions(task: Task) {
+    const disabled = Boolean(busy[`${task.room}|${task.id}`]);
+    return (
+      <div style={{ display: "flex", gap: 6, marginTop: 6, flexWrap: "wrap" }}>
+        {task.state === "issued" ? (
+          <button
+            style={{ fontSize: 16, padding: "6px 14px", fontWeight: 600 }}
+            onClick={() => void move(task, "acknowledged")}
+            disabled={disabled}
+          >
+            ✓ Acknowledge
+          </button>
+        ) : null}
+        {task.state === "acknowledged" || (task.state === "issued" && !task.ackRequired) ? (
+          <button onClick={() => void move(task, "in_progress")} disabled={disabled}>
+            Start
+          </button>
+        ) : null}
+        {task.state === "acknowledged" || task.state === "in_progress" ? (
+          <button onClick={() => void move(task, "complete")} disabled={disabled}>
+            Complete
+          </button>
+        ) : null}
+        <button onClick={() => void move(task, "declined")} disabled={disabled}>
+          Decline
+        </button>
+      </div>
+    );
+  }
+
+  function history(task: Task) {
+    return (
+      <details style={{ fontSize: 12 }}>
+        <summary>history</summary>
+        {task.details ? <div style={{ whiteSpace: "pre-wrap" }}>{task.details}</div> : null}
+        {task.history.map((h, i) => (
+          <div key={i} style={{ opacity: 0.7 }}>
+            {fmtTime(h.at)} {h.by}: {h.from ? `${STATE_LABEL[h.from]} → ` : ""}
+            {STATE_LABEL[h.to]}
+            {h.note ? ` ("${h.note}")` : ""}
+          </div>
+        ))}
+      </details>
+    );
+  }
+
+  return (
+    <div style={{ marginTop: 16 }}>
+      <h4 style={{ margin: "0 0 6px" }}>My tasks ({openMine.length} open)</h4>
+      {!openMine.length ? <div style={{ fontSize: 12, opacity: 0.7 }}>Nothing assigned to you.</div> : null}
+      {openMine.map((task) => (
+        <div
+          key={`${task.room}|${task.id}`}
+          style={{
+            padding: 8,
+            marginBottom: 8,
+            borderLeft: `4px solid ${task.state === "issued" ? "#b26a00" : "#2e7d32"}`,
+            background: "rgba(127, 127, 127, 0.08)"
+          }}
+        >
+          <div>
+            <b>{task.title}</b>{" "}
+            <span style={{ fontSize: 12, opacity: 0.8 }}>
+              • {STATE_LABEL[task.state]} • from {task.createdBy} in {roomLabel(task.room)}
+            </span>{" "}
+            {task.room !== room ? <button onClick={() => props.onOpenRoom(task.room)}>Open room</button> : null}
+          </div>
+          <Deadlines task={task} />
+          {history(task)}
+          {assigneeActions(task)}
+        </div>
+      ))}
+      {doneMine.length ? (
+        <details style={{ fontSize: 12 }}>
+          <summary>Finished ({doneMine.length})</summary>
+          {doneMine.map((task) => (
+            <div key={`${task.room}|${task.id}`} style={{ padding: "4px 0" }}>
+              {task.title} • {STATE_LABEL[task.state]} {fmtTime(task.updatedAt)} • {roomLabel(task.room)}
+            </div>
+          ))}
+        </details>
+      ) : null}
+
+      {notice ? <div style={{ fontSize: 12, marginTop: 6 }}>{notice}</div> : null}
+
+      {canIssue ? (
+        <div style={{ marginTop: 16 }}>
+          <h4 style={{ margin: "0 0 6px" }}>Issue a task in {roomLabel(room)}</h4>
+          <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+            <input
+              style={{ flex: 1, minWidth: 200 }}
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="What needs doing, e.g. check the north gate…"
+            />
+            <select value={assigneeId} onChange={(e) => setAssigneeId(e.target.value)}>
+              <option value="">assign to…</option>
+              {members.map((m) => (
+                <option key={m.memberId} value={m.memberId}>
+                  {m.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <textarea
+            style={{ width: "100%", minHeight: 40, marginTop: 6 }}
+            value={details}
+            onChange={(e) => setDetails(e.target.value)}
+            placeholder="Details (optional)"
+          />
+          <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", fontSize: 12 }}>
+            <label>
+              Due{" "}
+              <input type="datetime-local" value={due} onChange={(e) => setDue(e.target.value)} />
+            </label>
+            <label>
+              <input type="checkbox" checked={ackRequired} onChange={(e) => setAckRequired(e.target.checked)} />{" "}
+              acknowledgment required within
+            </label>
+            <input
+              type="number"
+              min={1}
+              style={{ width: 60 }}
+              value={ackMinutes}
+              onChange={(e) => setAckMinutes(e.target.value)}
+              disabled={!ackRequired}
+            />
+            <span>min (escalated to the room otherwise)</span>
+            <button onClick={() => void issue()} disabled={!title.trim() || !assigneeId}>
+              Issue task
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      {canIssue && roomTasks.length ? (
+        <div style={{ marginTop: 16 }}>
+          <h4 style={{ margin: "0 0 6px" }}>Tasks in {roomLabel(room)}</h4>
+          {roomTasks.map((task) => (
+            <div key={task.id} style={{ fontSize: 12, padding: "6px 0", borderBottom: "1px solid #ddd" }}>
+              <div>
+                <b>{task.title}</b> → {task.assignee.label} • {STATE_LABEL[task.state]} • by {task.createdBy}
+              </div>
+              <Deadlines task={task} />
+              {history(task)}
+              {task.state === "acknowledged" || task.state === "in_progress" ? (
+                <button onClick={() => void move(task, "complete")}>Mark complete</button>
+              ) : null}
+            </div>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+const ADMIN_TOKEN_KEY = "nw.adminToken";
+
+// the relay's ADMIN_TOKEN: per tab only, never next to the device credential in localStorage
+export function loadAdminToken(): string {
+  try {
+    return window.sessionStorage.getItem(ADMIN_TOKEN_KEY) ?? "";
+  } catch {
+    return "";
+  }
+}
+
+export function saveAdminToken(token: string): void {
+  window.sessionStorage.setItem(ADMIN_TOKEN_KEY, token);
+}
+
+export function clearAdminToken(): void {
+  window.sessionStorage.removeItem(ADMIN_TOKEN_KEY);
+}
+
+export function adminRequestedInUrl(): boolean {
+  return new URLSearchParams(window.location.search).has("admin");
+}
+
+export type AdminResult<T> = ({ ok: true } & T) | { ok: false; reason: string };
+
+/** Call a relay /admin route with the admin token as a Bearer token. */
+export async function adminRequest<T>(
+  relayUrl: string,
+  token: string,
+  method: "GET" | "POST",
+  path: string
+): Promise<AdminResult<T>> {
+  try {
+    const res = await fetch(new URL(`/admin${path}`, relayUrl), {
+      method,
+      headers: { Authorization: `Bearer ${token}` }
+    });
+    const body = (await res.json()) as AdminResult<T>;
+    return body && typeof body === "object" ? body : { ok: false, reason: `http_${res.status}` };
+  } catch {
+    return { ok: false, reason: "network_error" };
+  }
+}
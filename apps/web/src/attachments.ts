@@ -0,0 +1,96 @@
+import type { AttachmentRef, AttachmentUploadAck } from "@ac/protocol";
+
+export type DownloadResult = { ok: true; blob: Blob } | { ok: false; reason: string };
+
+async function sha256Hex(data: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Upload a file to the relay for `room`. XHR rather than fetch: only XHR reports upload
+ * progress. `onProgress` gets 0..1; the answer is the relay's ack (or a local failure).
+ */
+export async function uploadAttachment(
+  relayUrl: string,
+  credential: string,
+  room: string,
+  file: File,
+  onProgress: (fraction: number) => void
+): Promise<AttachmentUploadAck> {
+  let hash: string;
+  try {
+    hash = await sha256Hex(await file.arrayBuffer());
+  } catch {
+    return { ok: false, reason: "read_failed" };
+  }
+
+  const url = new URL("/attachments", relayUrl);
+  url.searchParams.set("room", room);
+  url.searchParams.set("name", file.name);
+
+  return new Promise((resolve) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", url);
+    xhr.setRequestHeader("Authorization", `Bearer ${credential}`);
+    xhr.setRequestHeader("Content-Type", file.type || "application/octet-stream");
+    xhr.setRequestHeader("X-Content-SHA256", hash);
+
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) onProgress(e.loaded / e.total);
+    };
+    xhr.onload = () => {
+      try {
+        const body = JSON.parse(xhr.responseText) as AttachmentUploadAck;
+        resolve(body && typeof body === "object" ? body : { ok: false, reason: "bad_response" });
+      } catch {
+        resolve({ ok: false, reason: `http_${xhr.status}` });
+      }
+    };
+    xhr.onerror = () => resolve({ ok: false, reason: "network_error" });
+
+    xhr.send(file);
+  });
+}
+
+// verified downloads, by attachment id (a rerender or a second message must not refetch)
+const downloads = new Map<string, Promise<DownloadResult>>();
+
+/** Fetch an attachment and check it against the hash its message carried. */
+export function downloadAttachment(
+  relayUrl: string,
+  credential: string,
+  ref: AttachmentRef
+): Promise<DownloadResult> {
+  const key = `${ref.id}|${ref.hash}`;
+  const cached = downloads.get(key);
+  if (cached) return cached;
+
+  const p = fetchVerified(relayUrl, credential, ref);
+  downloads.set(key, p);
+  // failures may be transient (offline); let the next attempt try again
+  void p.then((res) => !res.ok && downloads.delete(key));
+  return p;
+}
+
+async function fetchVerified(relayUrl: string, credential: string, ref: AttachmentRef): Promise<DownloadResult> {
+  let res: Response;
+  try {
+    res = await fetch(new URL(`/attachments/${encodeURIComponent(ref.id)}`, relayUrl), {
+      headers: { Authorization: `Bearer ${credential}` }
+    });
+  } catch {
+    return { ok: false, reason: "network_error" };
+  }
+  if (!res.ok) return { ok: false, reason: res.status === 404 ? "not_found" : `http_${res.status}` };
+
+  const data = await res.arrayBuffer();
+  if ((await sha256Hex(data)) !== ref.hash) return { ok: false, reason: "hash_mismatch" };
+  return { ok: true, blob: new Blob([data], { type: ref.mime }) };
+}
+
+export function formatBytes(n: number): string {
+  if (n < 1024) return `${n} B`;
+  if (n < 1024 * 1024) return `${(n / 1024).toFixed(0)} KB`;
+  return `${(n / (1024 * 1024)).toFixed(1)} MB`;
+}
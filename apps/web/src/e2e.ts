@@ -0,0 +1,263 @@
+import type {
+  ChatEnvelope,
+  DeviceKey,
+  RoomKeyGrant,
+  RoomKeyPublish,
+  RoomKeyPublishAck,
+  RoomKeyState
+} from "@ac/protocol";
+
+const DEVICE_KEY = "nw.deviceKey";
+const ALG = "A256GCM" as const;
+
+const enc = new TextEncoder();
+const dec = new TextDecoder();
+
+function toB64(buf: ArrayBuffer | Uint8Array): string {
+  const bytes = buf instanceof Uint8Array ? buf : new Uint8Array(buf);
+  let s = "";
+  for (const b of bytes) s += String.fromCharCode(b);
+  return btoa(s);
+}
+
+function fromB64(s: string): Uint8Array<ArrayBuffer> {
+  const bin = atob(s);
+  const out = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i);
+  return out;
+}
+
+function nonce(): Uint8Array<ArrayBuffer> {
+  return crypto.getRandomValues(new Uint8Array(12));
+}
+
+export type DeviceKeys = {
+  publicJwk: JsonWebKey;
+  privateKey: CryptoKey;
+};
+
+/**
+ * This device's ECDH P-256 key pair. Created once and kept in localStorage (v0);
+ * the public half is registered with the relay, the private half never leaves the browser.
+ */
+export async function loadOrCreateDeviceKeys(): Promise<DeviceKeys> {
+  const saved = window.localStorage.getItem(DEVICE_KEY);
+  if (saved) {
+    try {
+      const { publicJwk, privateJwk } = JSON.parse(saved) as {
+        publicJwk: JsonWebKey;
+        privateJwk: JsonWebKey;
+      };
+      const privateKey = await crypto.subtle.importKey(
+        "jwk",
+        privateJwk,
+        { name: "ECDH", namedCurve: "P-256" },
+        false,
+        ["deriveKey"]
+      );
+      return { publicJwk, privateKey };
+    } catch {
+      // unreadable pair: fall through and mint a new one
+    }
+  }
+
+  const pair = await crypto.subtle.generateKey({ name: "ECDH", namedCurve: "P-256" }, true, [
+    "deriveKey"
+  ]);
+  const { kty, crv, x, y } = await crypto.subtle.exportKey("jwk", pair.publicKey);
+  const publicJwk: JsonWebKey = { kty, crv, x, y };
+  const privateJwk = await crypto.subtle.exportKey("jwk", pair.privateKey);
+
+  window.localStorage.setItem(DEVICE_KEY, JSON.stringify({ publicJwk, privateJwk }));
+  return { publicJwk, privateKey: pair.privateKey };
+}
+
+async function deriveWrapKey(privateKey: CryptoKey, peer: JsonWebKey): Promise<CryptoKey> {
+  const peerKey = await crypto.subtle.importKey(
+    "jwk",
+    peer,
+    { name: "ECDH", namedCurve: "P-256" },
+    false,
+    []
+  );
+  return crypto.subtle.deriveKey(
+    { name: "ECDH", public: peerKey },
+    privateKey,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+function wrapAad(room: string, keyId: string, deviceId: string): Uint8Array<ArrayBuffer> {
+  return enc.encode(`${room}|${keyId}|${deviceId}`);
+}
+
+function bodyAad(env: Pick<ChatEnvelope, "room" | "id">, keyId: string): Uint8Array<ArrayBuffer> {
+  return enc.encode(`${env.room}|${env.id}|${keyId}`);
+}
+
+export type KeyRpc = {
+  roomKeys: (room: string) => Promise<RoomKeyState>;
+  publish: (pub: RoomKeyPublish) => Promise<RoomKeyPublishAck>;
+};
+
+/**
+ * Room keys this device holds, plus the sync protocol with the relay:
+ * unwrap grants addressed to us, mint a key when the room needs one (or needs rotation),
+ * and wrap the current key for room devices that are still missing it.
+ */
+export class RoomKeyring {
+  private readonly keys = new Map<string, CryptoKey>(); // `${room}|${keyId}`
+  private readonly current = new Map<string, string>(); // room -> keyId
+  private readonly inflight = new Map<string, Promise<boolean>>();
+  private readonly device: DeviceKeys;
+
+  constructor(device: DeviceKeys) {
+    this.device = device;
+  }
+
+  /** Resolves true when the room's current key is usable. Concurrent calls share one sync. */
+  sync(room: string, rpc: KeyRpc): Promise<boolean> {
+    const inflight = this.inflight.get(room);
+    if (inflight) return inflight;
+
+    const p = this.syncOnce(room, rpc, 1).finally(() => this.inflight.delete(room));
+    this.inflight.set(room, p);
+    return p;
+  }
+
+  async seal(env: ChatEnvelope): Promise<ChatEnvelope | null> {
+    const keyId = this.current.get(env.room);
+    const key = keyId ? this.keys.get(`${env.room}|${keyId}`) : undefined;
+    if (!keyId || !key) return null;
+
+    const iv = nonce();
+    const ct = await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv, additionalData: bodyAad(env, keyId) },
+      key,
+      enc.encode(env.body)
+    );
+
+    return { ...env, body: toB64(ct), enc: { alg: ALG, keyId, nonce: toB64(iv) } };
+  }
+
+  /** Plaintext of an encrypted envelope, or null when we lack its key (or it fails to verify). */
+  async open(env: ChatEnvelope): Promise<string | null> {
+    if (!env.enc) return env.body;
+    const key = this.keys.get(`${env.room}|${env.enc.keyId}`);
+    if (!key) return null;
+
+    try {
+      const pt = await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: fromB64(env.enc.nonce), additionalData: bodyAad(env, env.enc.keyId) },
+        key,
+        fromB64(env.body)
+      );
+      return dec.decode(pt);
+    } catch {
+      return null;
+    }
+  }
+
+  private async syncOnce(room: string, rpc: KeyRpc, retries: number): Promise<boolean> {
+    const st = await rpc.roomKeys(room);
+    if (!st.ok) return false;
+
+    for (const grant of st.grants) {
+      const id = `${room}|${grant.keyId}`;
+      if (this.keys.has(id)) continue;
+      const key = await this.unwrap(grant);
+      if (key) this.keys.set(id, key);
+    }
+
+    if (st.rotate || !st.currentKeyId) {
+      const keyId = crypto.randomUUID();
+      const key = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, [
+        "encrypt",
+        "decrypt"
+      ]);
+
+      const res = await rpc.publish({
+        room,
+        keyId,
+        rotate: true,
+        grants: await this.wrapFor(room, keyId, key, st.devices)
+      });
+
+      if (res.ok) {
+        this.keys.set(`${room}|${keyId}`, key);
+        this.current.set(room, keyId);
+        return true;
+      }
+
+      // someone else minted first: pick up their grant instead
+      if (res.reason === "key_exists" && retries > 0) return this.syncOnce(room, rpc, retries - 1);
+      return false;
+    }
+
+    this.current.set(room, st.currentKeyId);
+    const key = this.keys.get(`${room}|${st.currentKeyId}`);
+    if (!key) return false; // a holder will wrap it for us; wait for room_keys_changed
+
+    if (st.devices.length) {
+      await rpc.publish({
+        room,
+        keyId: st.currentKeyId,
+        rotate: false,
+        grants: await this.wrapFor(room, st.currentKeyId, key, st.devices)
+      });
+    }
+
+    return true;
+  }
+
+  private async wrapFor(
+    room: string,
+    keyId: string,
+    key: CryptoKey,
+    devices: DeviceKey[]
+  ): Promise<RoomKeyPublish["grants"]> {
+    const raw = await crypto.subtle.exportKey("raw", key);
+    const out: RoomKeyPublish["grants"] = [];
+
+    for (const d of devices) {
+      try {
+        const wrapKey = await deriveWrapKey(this.device.privateKey, d.publicKey);
+        const iv = nonce();
+        const wrapped = await crypto.subtle.encrypt(
+          { name: "AES-GCM", iv, additionalData: wrapAad(room, keyId, d.deviceId) },
+          wrapKey,
+          raw
+        );
+        out.push({ deviceId: d.deviceId, wrappedKey: toB64(wrapped), nonce: toB64(iv) });
+      } catch {
+        // malformed peer key: skip that device rather than failing the whole room
+      }
+    }
+
+    return out;
+  }
+
+  private async unwrap(grant: RoomKeyGrant): Promise<CryptoKey | null> {
+    try {
+      const wrapKey = await deriveWrapKey(this.device.privateKey, grant.fromPublicKey);
+      const raw = await crypto.subtle.decrypt(
+        {
+          name: "AES-GCM",
+          iv: fromB64(grant.nonce),
+          additionalData: wrapAad(grant.room, grant.keyId, grant.deviceId)
+        },
+        wrapKey,
+        fromB64(grant.wrappedKey)
+      );
+      // extractable: we may need to re-wrap it for devices that join later
+      return await crypto.subtle.importKey("raw", raw, { name: "AES-GCM" }, true, [
+        "encrypt",
+        "decrypt"
+      ]);
+    } catch {
+      return null;
+    }
+  }
+}
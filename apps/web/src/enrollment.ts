@@ -0,0 +1,49 @@
+import type { EnrollRedeemResponse } from "@ac/protocol";
+
+const CREDENTIAL_KEY = "nw.credential";
+
+export function loadCredential(): string {
+  try {
+    return window.localStorage.getItem(CREDENTIAL_KEY) ?? "";
+  } catch {
+    return "";
+  }
+}
+
+export function saveCredential(credential: string): void {
+  window.localStorage.setItem(CREDENTIAL_KEY, credential);
+}
+
+export function clearCredential(): void {
+  window.localStorage.removeItem(CREDENTIAL_KEY);
+}
+
+export function readEnrollCodeFromUrl(): string {
+  const params = new URLSearchParams(window.location.search);
+  return (params.get("enroll") ?? "").trim();
+}
+
+/**
+ * Drop a one-time `?enroll=CODE` from the address bar once it has been used,
+ * so it is not left in history or re-shared with the room link.
+ */
+export function stripEnrollCodeFromUrl(): void {
+  const u = new URL(window.location.href);
+  if (!u.searchParams.has("enroll")) return;
+  u.searchParams.delete("enroll");
+  window.history.replaceState(null, "", u.toString());
+}
+
+export async function redeemEnrollment(relayUrl: string, code: string): Promise<EnrollRedeemResponse> {
+  try {
+    const res = await fetch(new URL("/enroll/redeem", relayUrl), {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ code })
+    });
+    const body = (await res.json()) as EnrollRedeemResponse;
+    return body && typeof body === "object" ? body : { ok: false, reason: "bad_response" };
+  } catch (err) {
+    return { ok: false, reason: err instanceof Error ? err.message : "network_error" };
+  }
+}
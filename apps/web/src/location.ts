@@ -0,0 +1,130 @@
+import type { LocationAck, LocationPrecision, LocationUpdate, Position } from "@ac/protocol";
+
+export type ShareSettings = {
+  room: string;
+  incidentId: string;
+  precision: LocationPrecision;
+  until: number; // epoch ms
+};
+
+export type ShareState = ShareSettings & {
+  lastSentAt?: number;
+  error?: string;
+  stopped?: boolean; // ended by an error rather than by the member
+};
+
+// at most one update per interval while moving; resend while still so the relay's TTL doesn't lapse
+const MIN_SEND_INTERVAL_MS = 15_000;
+const REFRESH_INTERVAL_MS = 60_000;
+
+/**
+ * This device's opt-in location sharing: watches the browser position while a share
+ * is active and stops by itself at `until`. Nothing is stored; a reload ends the share.
+ */
+export class LocationSharer {
+  private settings: ShareSettings | null = null;
+  private watchId: number | null = null;
+  private stopTimer: number | null = null;
+  private refreshTimer: number | null = null;
+  private last: { position: Position; accuracy: number } | null = null;
+  private lastSentAt = 0;
+  private readonly send: (u: LocationUpdate) => Promise<LocationAck>;
+  private readonly onState: (state: ShareState | null) => void;
+
+  constructor(
+    send: (u: LocationUpdate) => Promise<LocationAck>,
+    onState: (state: ShareState | null) => void
+  ) {
+    this.send = send;
+    this.onState = onState;
+  }
+
+  /** Room of the active share, if any. */
+  get room(): string | undefined {
+    return this.settings?.room;
+  }
+
+  start(settings: ShareSettings): void {
+    this.stop();
+
+    if (!("geolocation" in navigator)) {
+      this.onState({ ...settings, stopped: true, error: "geolocation unavailable" });
+      return;
+    }
+
+    this.settings = settings;
+    this.onState({ ...settings });
+
+    this.watchId = navigator.geolocation.watchPosition(
+      (pos) => {
+        this.last = { position: [pos.coords.longitude, pos.coords.latitude], accuracy: pos.coords.accuracy };
+        if (Date.now() - this.lastSentAt >= MIN_SEND_INTERVAL_MS) void this.push();
+      },
+      (err) => {
+        const current = this.settings;
+        if (!current) return;
+        if (err.code !== err.PERMISSION_DENIED) {
+          this.onState({ ...current, error: err.message });
+          return;
+        }
+        this.stop();
+        this.onState({ ...current, stopped: true, error: "location permission denied" });
+      },
+      { enableHighAccuracy: settings.precision === "exact", maximumAge: 30_000, timeout: 30_000 }
+    );
+
+    this.stopTimer = window.setTimeout(() => this.stop(), Math.max(0, settings.until - Date.now()));
+    this.refreshTimer = window.setInterval(() => void this.push(), REFRESH_INTERVAL_MS);
+  }
+
+  /** Re-send the last fix (e.g. after a reconnect, when the relay has dropped our position). */
+  resend(): void {
+    if (this.settings && this.last) void this.push();
+  }
+
+  /** The relay already dropped our position for a closed incident; stop watching. */
+  incidentClosed(room: string, incidentId: string): void {
+    const settings = this.settings;
+    if (settings?.room !== room || settings.incidentId !== incidentId) return;
+    this.stop();
+    this.onState({ ...settings, stopped: true, error: "incident_closed" });
+  }
+
+  stop(): void {
+    const settings = this.settings;
+    this.settings = null;
+    this.last = null;
+    this.lastSentAt = 0;
+
+    if (this.watchId !== null) navigator.geolocation.clearWatch(this.watchId);
+    if (this.stopTimer !== null) window.clearTimeout(this.stopTimer);
+    if (this.refreshTimer !== null) window.clearInterval(this.refreshTimer);
+    this.watchId = this.stopTimer = this.refreshTimer = null;
+
+    if (!settings) return;
+    void this.send({ ...settings, sharing: false }).catch(() => undefined);
+    this.onState(null);
+  }
+
+  private async push(): Promise<void> {
+    const settings = this.settings;
+    if (!settings || !this.last) return;
+
+    this.lastSentAt = Date.now();
+    let res: LocationAck;
+    try {
+      res = await this.send({ ...settings, sharing: true, ...this.last });
+    } catch {
+      return; // offline: the next fix or refresh tries again
+    }
+
+    if (this.settings !== settings) return;
+    if (!res.ok) {
+      // the relay refused (closed incident, lost access, ...): stop rather than retry
+      this.stop();
+      this.onState({ ...settings, stopped: true, error: res.reason });
+      return;
+    }
+    this.onState({ ...settings, lastSentAt: this.lastSentAt });
+  }
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import type { ChatAck, ChatEnvelope, TransportStatus } from "@ac/protocol";
+import { LoopbackHub, type LoopbackTransport } from "./loopback.ts";
+
+function envelope(room: string, id: string, body = "hello"): ChatEnvelope {
+  return { id, room, from: "tester", sentAt: Date.now(), body };
+}
+
+// resolves with the first value `subscribe` hands its callback
+function next<T>(subscribe: (fn: (v: T) => void) => () => void): Promise<T> {
+  return new Promise((resolve) => {
+    const off = subscribe((v) => {
+      off();
+      resolve(v);
+    });
+  });
+}
+
+function connected(hub: LoopbackHub): LoopbackTransport {
+  const t = hub.transport();
+  t.connect();
+  return t;
+}
+
+describe("LoopbackTransport", () => {
+  it("reports connect and disconnect like a socket", async () => {
+    const t = new LoopbackHub().transport();
+    const seen: TransportStatus[] = [];
+    t.onStatus((s) => seen.push(s));
+
+    t.connect();
+    await next<TransportStatus>((fn) => t.onStatus(fn));
+    expect(t.connected).toBe(true);
+
+    t.disconnect();
+    await next<TransportStatus>((fn) => t.onStatus(fn));
+    expect(t.connected).toBe(false);
+    expect(seen.map((s) => s.state)).toEqual(["connected", "disconnected"]);
+  });
+
+  it("delivers chat to every transport joined to the room, with a relay sequence", async () => {
+    const hub = new LoopbackHub();
+    const a = connected(hub);
+    const b = connected(hub);
+    const outsider = connected(hub);
+
+    expect(await a.join("family")).toMatchObject({ room: "family", ok: true, access: "publish" });
+    await b.join("family");
+    await outsider.join("emergency");
+
+    const heardByOutsider: ChatEnvelope[] = [];
+    outsider.onMessage((m) => heardByOutsider.push(m));
+    const received = next<ChatEnvelope>((fn) => b.onMessage(fn));
+    const acked = next<ChatAck>((fn) => a.onAck(fn));
+
+    a.send(envelope("family", "m1"));
+
+    expect(await acked).toEqual({ id: "m1", ok: true });
+    expect(await received).toMatchObject({ id: "m1", room: "family", body: "hello", seq: 1 });
+    expect(heardByOutsider).toEqual([]);
+  });
+
+  it("refuses chat to a room the sender has not joined", async () => {
+    const t = connected(new LoopbackHub());
+    const acked = next<ChatAck>((fn) => t.onAck(fn));
+
+    t.send(envelope("family", "m1"));
+
+    expect(await acked).toEqual({ id: "m1", ok: false, reason: "not_in_room" });
+  });
+
+  it("lets a join handler deny a room", async () => {
+    const hub = new LoopbackHub();
+    hub.handle("join", (room) => ({ room, ok: false, reason: "forbidden_role" }));
+    const t = connected(hub);
+
+    expect(await t.join("emergency")).toEqual({ room: "emergency", ok: false, reason: "forbidden_role" });
+    expect(t.rooms.has("emergency")).toBe(false);
+  });
+
+  it("answers requests from hub handlers and fails those without one", async () => {
+    const hub = new LoopbackHub();
+    hub.handle("history", ({ room }) => ({ room, ok: true, messages: [], hasMore: false }));
+    const t = connected(hub);
+
+    await expect(t.request("history", { room: "family" })).resolves.toEqual({
+      room: "family",
+      ok: true,
+      messages: [],
+      hasMore: false
+    });
+    await expect(t.request("roster", "family")).rejects.toThrow("unsupported");
+  });
+
+  it("rejects requests while disconnected and forgets joined rooms", async () => {
+    const hub = new LoopbackHub();
+    const t = connected(hub);
+    await t.join("family");
+
+    t.disconnect();
+
+    expect(t.rooms.size).toBe(0);
+    await expect(t.join("family")).rejects.toThrow("not_connected");
+  });
+
+  it("pushes hub broadcasts only to the room's transports", async () => {
+    const hub = new LoopbackHub();
+    const member = connected(hub);
+    const other = connected(hub);
+    await member.join("family");
+
+    let otherHeard = false;
+    other.on("room_keys_changed", () => (otherHeard = true));
+    const heard = next<{ room: string }>((fn) => member.on("room_keys_changed", fn));
+
+    hub.broadcast("family", "room_keys_changed", { room: "family" });
+
+    expect(await heard).toEqual({ room: "family" });
+    expect(otherHeard).toBe(false);
+  });
+});
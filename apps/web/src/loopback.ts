@@ -0,0 +1,197 @@
+import type {
+  ChatAck,
+  ChatEnvelope,
+  ClientToServerEvents,
+  JoinAck,
+  RequestArg,
+  RequestEvent,
+  RequestResult,
+  ServerToClientEvents,
+  Transport,
+  TransportStatus
+} from "@ac/protocol";
+
+type Listener = (arg: never) => void;
+
+export type LoopbackHandler<E extends RequestEvent> = (
+  arg: RequestArg<E>,
+  from: LoopbackTransport
+) => RequestResult<E> | Promise<RequestResult<E>>;
+
+/**
+ * An in-process stand-in for the relay, for tests and offline demos. Transports
+ * created from the same hub see each other's chat in the rooms they joined.
+ * Joins succeed with publish access unless a "join" handler says otherwise; any
+ * other request needs a handler, or it fails with "unsupported".
+ */
+export class LoopbackHub {
+  private readonly transports = new Set<LoopbackTransport>();
+  private readonly handlers = new Map<string, LoopbackHandler<RequestEvent>>();
+  private seq = 0;
+
+  transport(): LoopbackTransport {
+    return new LoopbackTransport(this);
+  }
+
+  handle<E extends RequestEvent>(event: E, fn: LoopbackHandler<E>): void {
+    this.handlers.set(event, fn as unknown as LoopbackHandler<RequestEvent>);
+  }
+
+  /** Push a server event to every connected transport in the room. */
+  broadcast<E extends keyof ServerToClientEvents>(
+    room: string,
+    event: E,
+    arg: Parameters<ServerToClientEvents[E]>[0]
+  ): void {
+    for (const t of this.transports) if (t.rooms.has(room)) t.deliver(event, arg);
+  }
+
+  attach(t: LoopbackTransport): void {
+    this.transports.add(t);
+  }
+
+  detach(t: LoopbackTransport): void {
+    this.transports.delete(t);
+  }
+
+  async request<E extends RequestEvent>(
+    from: LoopbackTransport,
+    event: E,
+    arg: RequestArg<E>
+  ): Promise<RequestResult<E>> {
+    const fn = this.handlers.get(event) as LoopbackHandler<E> | undefined;
+
+    if (event === "join") {
+      const room = arg as string;
+      const res = ((await fn?.(arg, from)) ?? { room, ok: true, access: "publish" }) as JoinAck;
+      if (res.ok) from.rooms.add(room);
+      return res as RequestResult<E>;
+    }
+
+    if (!fn) throw new Error("unsupported");
+    return fn(arg, from);
+  }
+
+  chat(from: LoopbackTransport, msg: ChatEnvelope): void {
+    if (!from.rooms.has(msg.room)) {
+      from.deliver("chat_ack", { id: msg.id, ok: false, reason: "not_in_room" });
+      return;
+    }
+
+    this.broadcast(msg.room, "chat", { ...msg, seq: ++this.seq });
+    from.deliver("chat_ack", { id: msg.id, ok: true });
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 5000;
+
+/** A Transport wired to a LoopbackHub instead of the network. Delivery is asynchronous, as on a wire. */
+export class LoopbackTransport implements Transport {
+  readonly name = "loopback";
+  readonly rooms = new Set<string>();
+  private readonly hub: LoopbackHub;
+  private readonly listeners = new Map<string, Set<Listener>>();
+  private readonly statusFns = new Set<(status: TransportStatus) => void>();
+  private isConnected = false;
+
+  constructor(hub: LoopbackHub) {
+    this.hub = hub;
+  }
+
+  get connected(): boolean {
+    return this.isConnected;
+  }
+
+  connect(): void {
+    if (this.isConnected) return;
+    this.isConnected = true;
+    this.hub.attach(this);
+    this.later(() => this.setStatus({ state: "connected", via: "loopback" }));
+  }
+
+  disconnect(): void {
+    if (!this.isConnected) return;
+    this.isConnected = false;
+    this.rooms.clear();
+    this.hub.detach(this);
+    this.later(() => this.setStatus({ state: "disconnected", detail: "io client disconnect" }));
+  }
+
+  join(room: string, timeoutMs?: number): Promise<JoinAck> {
+    return this.request("join", room, timeoutMs);
+  }
+
+  send(msg: ChatEnvelope): void {
+    if (this.isConnected) this.later(() => this.hub.chat(this, msg));
+  }
+
+  onMessage(fn: (msg: ChatEnvelope) => void): () => void {
+    return this.on("chat", fn);
+  }
+
+  onAck(fn: (ack: ChatAck) => void): () => void {
+    return this.on("chat_ack", fn);
+  }
+
+  onStatus(fn: (status: TransportStatus) => void): () => void {
+    this.statusFns.add(fn);
+    return () => this.statusFns.delete(fn);
+  }
+
+  request<E extends RequestEvent>(
+    event: E,
+    arg: RequestArg<E>,
+    timeoutMs = DEFAULT_TIMEOUT_MS
+  ): Promise<RequestResult<E>> {
+    if (!this.isConnected) return Promise.reject(new Error("not_connected"));
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => reject(new Error("no_ack")), timeoutMs);
+      this.later(() =>
+        this.hub.request(this, event, arg).then(
+          (res) => {
+            clearTimeout(timer);
+            resolve(res);
+          },
+          (err: unknown) => {
+            clearTimeout(timer);
+            reject(err);
+          }
+        )
+      );
+    });
+  }
+
+  emit<E extends keyof ClientToServerEvents>(event: E, arg: Parameters<ClientToServerEvents[E]>[0]): void {
+    if (event === "chat") {
+      this.send(arg as ChatEnvelope);
+      return;
+    }
+    // unanswered events still reach a handler when the hub has one
+    void this.request(event as RequestEvent, arg as never).catch(() => undefined);
+  }
+
+  on<E extends keyof ServerToClientEvents>(event: E, fn: ServerToClientEvents[E]): () => void {
+    const set = this.listeners.get(event) ?? new Set<Listener>();
+    set.add(fn as Listener);
+    this.listeners.set(event, set);
+    return () => set.delete(fn as Listener);
+  }
+
+  /** Hub side: hand a server event to this transport's listeners. */
+  deliver<E extends keyof ServerToClientEvents>(event: E, arg: Parameters<ServerToClientEvents[E]>[0]): void {
+    const set = this.listeners.get(event);
+    if (!set?.size) return;
+    this.later(() => {
+      for (const fn of set) (fn as (arg: unknown) => void)(arg);
+    });
+  }
+
+  private setStatus(status: TransportStatus): void {
+    for (const fn of this.statusFns) fn(status);
+  }
+
+  private later(fn: () => void): void {
+    queueMicrotask(fn);
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Browser notifications for flash traffic. Permission can only be requested from a
+ * user gesture, so the app asks from a button; without it the in-page banner still shows.
+ */
+
+export type NotifyPermission = NotificationPermission | "unsupported";
+
+export function notifyPermission(): NotifyPermission {
+  return typeof Notification === "undefined" ? "unsupported" : Notification.permission;
+}
+
+export async function requestNotifyPermission(): Promise<NotifyPermission> {
+  if (typeof Notification === "undefined") return "unsupported";
+  try {
+    return await Notification.requestPermission();
+  } catch {
+    return Notification.permission;
+  }
+}
+
+/** Show a notification that stays until dismissed; `onClick` brings the app forward. */
+export function notify(title: string, body: string, tag: string, onClick?: () => void): void {
+  if (notifyPermission() !== "granted") return;
+
+  try {
+    const n = new Notification(title, { body, tag, requireInteraction: true });
+    n.onclick = () => {
+      window.focus();
+      onClick?.();
+      n.close();
+    };
+  } catch {
+    // some mobile browsers only allow notifications from a service worker
+  }
+}
@@ -0,0 +1,256 @@
+import type { ChatEnvelope, RetentionRule } from "@ac/protocol";
+
+/**
+ * Store-and-forward state kept in IndexedDB so it survives closing the tab:
+ * the outbox of not-yet-acked outgoing messages, and received room history.
+ * Everything here is best effort; without IndexedDB the client keeps working from memory.
+ */
+
+export type OutboxEntry = {
+  env: ChatEnvelope; // as composed (plaintext); sealed for the room again on every attempt
+  attempts: number;
+  nextAttemptAt: number; // epoch ms
+};
+
+// an OutboxEntry at rest: the envelope is encrypted with the outbox key, only id and time stay readable
+type SealedOutboxEntry = {
+  env: Pick<ChatEnvelope, "id" | "sentAt">;
+  attempts: number;
+  nextAttemptAt: number;
+  iv: Uint8Array<ArrayBuffer>;
+  data: ArrayBuffer; // AES-GCM over the JSON envelope, bound to its id
+};
+
+export type StoredMessage = {
+  env: ChatEnvelope; // as received (still encrypted when `enc` is set)
+  local: boolean; // sent from this device
+};
+
+const DB_NAME = "nw-offline";
+const DB_VERSION = 2;
+const OUTBOX = "outbox";
+const HISTORY = "history";
+const KEYS = "keys";
+const OUTBOX_KEY = "outbox";
+
+const HISTORY_KEEP_PER_ROOM = 500;
+
+// queued messages older than this fail instead of going out long after the fact
+export const OUTBOX_MAX_AGE_MS = 24 * 60 * 60_000;
+
+const enc = new TextEncoder();
+const dec = new TextDecoder();
+
+const BACKOFF_BASE_MS = 2000;
+const BACKOFF_MAX_MS = 60_000;
+
+/** Delay before retrying after `attempts` unacked sends: exponential, capped, ±20% jitter. */
+export function backoffMs(attempts: number): number {
+  const exp = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1));
+  return Math.round(exp * (0.8 + Math.random() * 0.4));
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDb(): Promise<IDBDatabase | null> {
+  dbPromise ??= new Promise((resolve) => {
+    if (typeof indexedDB === "undefined") {
+      resolve(null);
+      return;
+    }
+
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = (e) => {
+      const db = req.result;
+      if (e.oldVersion < 1) {
+        db.createObjectStore(OUTBOX, { keyPath: "env.id" });
+        db.createObjectStore(HISTORY, { keyPath: "env.id" }).createIndex("room", "env.room");
+      }
+      if (e.oldVersion < 2) db.createObjectStore(KEYS);
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => resolve(null);
+  });
+  return dbPromise;
+}
+
+async function write(name: string, fn: (store: IDBObjectStore) => void): Promise<boolean> {
+  const db = await openDb();
+  if (!db) return false;
+
+  return new Promise((resolve) => {
+    const tx = db.transaction(name, "readwrite");
+    tx.oncomplete = () => resolve(true);
+    tx.onerror = tx.onabort = () => resolve(false);
+    fn(tx.objectStore(name));
+  });
+}
+
+async function readAll<T>(name: string): Promise<T[]> {
+  const db = await openDb();
+  if (!db) return [];
+
+  return new Promise((resolve) => {
+    const req = db.transaction(name, "readonly").objectStore(name).getAll();
+    req.onsuccess = () => resolve(req.result as T[]);
+    req.onerror = () => resolve([]);
+  });
+}
+
+async function readKey(): Promise<CryptoKey | undefined> {
+  const db = await openDb();
+  if (!db) return undefined;
+
+  return new Promise((resolve) => {
+    const req = db.transaction(KEYS, "readonly").objectStore(KEYS).get(OUTBOX_KEY);
+    req.onsuccess = () => resolve(req.result as CryptoKey | undefined);
+    req.onerror = () => resolve(undefined);
+  });
+}
+
+let outboxKeyPromise: Promise<CryptoKey | null> | null = null;
+
+/**
+ * This device's key for the outbox at rest: AES-GCM, generated here and kept in IndexedDB as a
+ * non-extractable CryptoKey, so queued drafts (e2e rooms included) never sit there as plaintext.
+ * Null when IndexedDB or WebCrypto is missing; the outbox then stays in memory only.
+ */
+function outboxKey(): Promise<CryptoKey | null> {
+  outboxKeyPromise ??= (async () => {
+    if (typeof crypto === "undefined" || !crypto.subtle) return null;
+    const saved = await readKey();
+    if (saved) return saved;
+
+    const key = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, [
+      "encrypt",
+      "decrypt"
+    ]);
+    // `add` fails if another tab stored one first; use theirs so both can read the outbox
+    if (await write(KEYS, (store) => store.add(key, OUTBOX_KEY))) return key;
+    return (await readKey()) ?? null;
+  })().catch(() => null);
+  return outboxKeyPromise;
+}
+
+async function sealEntry(key: CryptoKey, entry: OutboxEntry): Promise<SealedOutboxEntry> {
+  const { env, attempts, nextAttemptAt } = entry;
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: enc.encode(env.id) },
+    key,
+    enc.encode(JSON.stringify(env))
+  );
+  return { env: { id: env.id, sentAt: env.sentAt }, attempts, nextAttemptAt, iv, data };
+}
+
+async function openEntry(key: CryptoKey, sealed: SealedOutboxEntry): Promise<OutboxEntry | null> {
+  try {
+    const plain = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: sealed.iv, additionalData: enc.encode(sealed.env.id) },
+      key,
+      sealed.data
+    );
+    const env = JSON.parse(dec.decode(plain)) as ChatEnvelope;
+    return { env, attempts: sealed.attempts, nextAttemptAt: sealed.nextAttemptAt };
+  } catch {
+    return null;
+  }
+}
+
+// saves wait on encryption; chaining keeps them and deletes in call order
+let outboxOps: Promise<boolean> = Promise.resolve(true);
+
+function outboxOp(fn: () => Promise<boolean>): Promise<boolean> {
+  outboxOps = outboxOps.then(fn).catch(() => false);
+  return outboxOps;
+}
+
+export async function loadOutbox(): Promise<OutboxEntry[]> {
+  const stored = await readAll<SealedOutboxEntry | OutboxEntry>(OUTBOX);
+  const key = await outboxKey();
+  const entries: OutboxEntry[] = [];
+
+  for (const s of stored) {
+    if (!("data" in s)) {
+      // queued in the clear by an older build: seal it now
+      entries.push(s);
+      void saveOutboxEntry(s);
+      continue;
+    }
+    if (!key) continue;
+
+    const entry = await openEntry(key, s);
+    if (entry) entries.push(entry);
+    else void deleteOutboxEntry(s.env.id); // sealed under a key this profile no longer has
+  }
+  return entries.sort((a, b) => a.env.sentAt - b.env.sentAt);
+}
+
+export function saveOutboxEntry(entry: OutboxEntry): Promise<boolean> {
+  return outboxOp(async () => {
+    const key = await outboxKey();
+    if (!key) return false;
+    const sealed = await sealEntry(key, entry);
+    return write(OUTBOX, (store) => store.put(sealed));
+  });
+}
+
+export function deleteOutboxEntry(id: string): Promise<boolean> {
+  return outboxOp(() => write(OUTBOX, (store) => store.delete(id)));
+}
+
+export function loadStoredHistory(): Promise<StoredMessage[]> {
+  return readAll<StoredMessage>(HISTORY);
+}
+
+/** Store relay-sequenced messages, keeping the newest HISTORY_KEEP_PER_ROOM per room. */
+export function storeHistory(msgs: StoredMessage[]): Promise<boolean> {
+  const stored = msgs.filter((m) => m.env.seq !== undefined);
+  if (!stored.length) return Promise.resolve(true);
+
+  return write(HISTORY, (store) => {
+    for (const m of stored) store.put(m);
+
+    for (const room of new Set(stored.map((m) => m.env.room))) {
+      const req = store.index("room").getAll(room);
+      req.onsuccess = () => {
+        const all = (req.result as StoredMessage[]).sort((a, b) => (a.env.seq ?? 0) - (b.env.seq ?? 0));
+        for (const m of all.slice(0, Math.max(0, all.length - HISTORY_KEEP_PER_ROOM))) {
+          store.delete(m.env.id);
+        }
+      };
+    }
+  });
+}
+
+/** Apply the room's relay retention rule to the local copy too. */
+export function pruneStoredHistory(room: string, rule: RetentionRule): Promise<boolean> {
+  const { keepHistory = true, maxAgeHours, maxMessages } = rule;
+  if (keepHistory && maxAgeHours === undefined && maxMessages === undefined) return Promise.resolve(true);
+
+  const cutoff = maxAgeHours !== undefined ? Date.now() - maxAgeHours * 3_600_000 : undefined;
+
+  return write(HISTORY, (store) => {
+    const req = store.index("room").getAll(room);
+    req.onsuccess = () => {
+      const all = (req.result as StoredMessage[]).sort((a, b) => (a.env.seq ?? 0) - (b.env.seq ?? 0));
+      all.forEach((m, i) => {
+        const newer = all.length - 1 - i;
+        const expired = cutoff !== undefined && (m.env.storedAt ?? m.env.sentAt) < cutoff;
+        const excess = maxMessages !== undefined && newer >= maxMessages;
+        if (!keepHistory || expired || excess) store.delete(m.env.id);
+      });
+    };
+  });
+}
+
+/** Forget everything (e.g. when the credential is revoked), the outbox key included. */
+export async function clearOfflineStore(): Promise<boolean> {
+  const cleared = await outboxOp(() => write(OUTBOX, (store) => store.clear()));
+  outboxKeyPromise = null;
+  const results = await Promise.all([
+    write(KEYS, (store) => store.clear()),
+    write(HISTORY, (store) => store.clear())
+  ]);
+  return cleared && results.every(Boolean);
+}
@@ -0,0 +1,148 @@
+import type { OverlayFeature, OverlayGeometry, Position } from "@ac/protocol";
+
+export type OverlayDraft = Omit<OverlayFeature, "updatedAt" | "updatedBy" | "memberId" | "rev">;
+
+type GeoJsonGeometry = { type: string; coordinates?: unknown; geometries?: unknown };
+type GeoJsonFeature = { type: "Feature"; id?: unknown; geometry: GeoJsonGeometry | null; properties?: unknown };
+
+export const DEFAULT_LAYER = "default";
+
+function toPosition(raw: unknown): Position | null {
+  if (!Array.isArray(raw) || raw.length < 2) return null;
+  const [lon, lat] = raw as unknown[];
+  if (typeof lon !== "number" || typeof lat !== "number") return null;
+  if (Math.abs(lon) > 180 || Math.abs(lat) > 90) return null;
+  return [lon, lat]; // altitude dropped
+}
+
+function toLine(raw: unknown): Position[] | null {
+  if (!Array.isArray(raw)) return null;
+  const line = raw.map(toPosition);
+  return line.every((p): p is Position => p !== null) && line.length >= 2 ? line : null;
+}
+
+function toRing(raw: unknown): Position[] | null {
+  const ring = toLine(raw);
+  if (!ring) return null;
+  const [first, last] = [ring[0], ring[ring.length - 1]];
+  if (first[0] !== last[0] || first[1] !== last[1]) ring.push(first);
+  return ring.length >= 4 ? ring : null;
+}
+
+function toPolygon(raw: unknown): Position[][] | null {
+  if (!Array.isArray(raw) || !raw.length) return null;
+  const rings = raw.map(toRing);
+  return rings.every((r): r is Position[] => r !== null) ? rings : null;
+}
+
+// Multi* geometries are split into one overlay per part; other types are skipped
+function toGeometries(g: GeoJsonGeometry | null): OverlayGeometry[] | null {
+  if (!g) return null;
+  const c = g.coordinates;
+
+  const parts = <T>(raw: unknown, f: (x: unknown) => T | null): T[] | null => {
+    if (!Array.isArray(raw)) return null;
+    const out = raw.map(f);
+    return out.every((x): x is T => x !== null) ? out : null;
+  };
+
+  switch (g.type) {
+    case "Point": {
+      const p = toPosition(c);
+      return p && [{ type: "Point", coordinates: p }];
+    }
+    case "LineString": {
+      const l = toLine(c);
+      return l && [{ type: "LineString", coordinates: l }];
+    }
+    case "Polygon": {
+      const p = toPolygon(c);
+      return p && [{ type: "Polygon", coordinates: p }];
+    }
+    case "MultiPoint":
+      return parts(c, toPosition)?.map((p) => ({ type: "Point", coordinates: p })) ?? null;
+    case "MultiLineString":
+      return parts(c, toLine)?.map((l) => ({ type: "LineString", coordinates: l })) ?? null;
+    case "MultiPolygon":
+      return parts(c, toPolygon)?.map((p) => ({ type: "Polygon", coordinates: p })) ?? null;
+    default:
+      return null;
+  }
+}
+
+function toProperties(raw: unknown): OverlayFeature["properties"] {
+  const out: OverlayFeature["properties"] = {};
+  if (!raw || typeof raw !== "object") return out;
+
+  for (const [k, v] of Object.entries(raw as Record<string, unknown>)) {
+    if (k === "layer") continue;
+    if (v === null || typeof v === "string" || typeof v === "number" || typeof v === "boolean") {
+      out[k] = v;
+    }
+  }
+  return out;
+}
+
+/**
+ * GeoJSON (FeatureCollection, Feature or bare geometry) → overlay drafts for `room`.
+ * A string `properties.layer` picks the layer; otherwise `layer` is used.
+ */
+export function parseGeoJson(
+  text: string,
+  room: string,
+  layer: string
+): { features: OverlayDraft[]; skipped: number } {
+  const doc = JSON.parse(text) as { type?: string; features?: unknown };
+
+  const input: GeoJsonFeature[] =
+    doc.type === "FeatureCollection" && Array.isArray(doc.features)
+      ? (doc.features as GeoJsonFeature[])
+      : doc.type === "Feature"
+        ? [doc as GeoJsonFeature]
+        : [{ type: "Feature", geometry: doc as GeoJsonGeometry }];
+
+  const features: OverlayDraft[] = [];
+  let skipped = 0;
+
+  for (const f of input) {
+    const geometries = toGeometries(f?.geometry ?? null);
+    if (!geometries?.length) {
+      skipped++;
+      continue;
+    }
+
+    const props = (f.properties ?? {}) as Record<string, unknown>;
+    const featureLayer = typeof props.layer === "string" && props.layer.trim() ? props.layer.trim() : layer;
+    // keep a source id stable on re-import (single-part only); Multi* parts get fresh ids
+    const sourceId = typeof f.id === "string" || typeof f.id === "number" ? String(f.id) : "";
+
+    for (const geometry of geometries) {
+      features.push({
+        id: sourceId && geometries.length === 1 && sourceId.length <= 64 ? sourceId : crypto.randomUUID(),
+        room,
+        layer: featureLayer,
+        geometry,
+        properties: toProperties(f.properties)
+      });
+    }
+  }
+
+  return { features, skipped };
+}
+
+/** Overlays → a GeoJSON FeatureCollection; the layer travels in `properties.layer`. */
+export function toGeoJson(features: OverlayFeature[]): string {
+  return JSON.stringify(
+    {
+      type: "FeatureCollection",
+      features: features.map((f) => ({
+        type: "Feature",
+        id: f.id,
+        geometry: f.geometry,
+        properties: { ...f.properties, layer: f.layer }
+      }))
+    },
+    null,
+    2
+  );
+}
@@ -0,0 +1,44 @@
+import type { MissionPackageDraft } from "@ac/protocol";
+
+const LOADED_KEY = "nw.packages.loaded";
+
+/** JSON with object keys sorted recursively and no whitespace (must match the relay). */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export async function packageHash(draft: Omit<MissionPackageDraft, "hash">): Promise<string> {
+  const { id, version, room, title, effective, sections } = draft;
+  const bytes = new TextEncoder().encode(
+    canonicalJson({ id, version, room, title, effective, sections })
+  );
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export type LoadedPackage = {
+  version: string;
+  hash: string;
+  verified: boolean;
+  loadedAt: number;
+};
+
+// keyed by `${room}|${packageId}`; kept locally so "loaded" survives a reload
+export function loadLoadedPackages(): Record<string, LoadedPackage> {
+  try {
+    return JSON.parse(window.localStorage.getItem(LOADED_KEY) ?? "{}") as Record<string, LoadedPackage>;
+  } catch {
+    return {};
+  }
+}
+
+export function saveLoadedPackages(loaded: Record<string, LoadedPackage>): void {
+  window.localStorage.setItem(LOADED_KEY, JSON.stringify(loaded));
+}
@@ -0,0 +1,264 @@
+import type { ChatEnvelope, RtcCandidate, RtcPeer, RtcSignal, RtcSignalIn } from "@ac/protocol";
+import { ChatEnvelopeSchema } from "@ac/protocol";
+
+// no STUN/TURN: host candidates only, so peers must reach each other directly (same machine or LAN)
+const RTC_CONFIG: RTCConfiguration = { iceServers: [] };
+
+const FRAME_MAX = 64 * 1024;
+
+// signals of one link may overtake each other on the relay; candidates wait this long for their offer
+const EARLY_CANDIDATES_KEEP_MS = 10_000;
+
+type PeerFrame = { type: "chat"; msg: ChatEnvelope };
+
+type PeerLink = {
+  room: string;
+  peer: RtcPeer;
+  pc: RTCPeerConnection;
+  channel?: RTCDataChannel;
+  offered: boolean; // we made the offer
+  remoteSet: boolean;
+  pending: RtcCandidate[]; // candidates waiting for the remote description
+};
+
+export type PeerMeshEvents = {
+  signal: (signal: RtcSignal) => void;
+  message: (msg: ChatEnvelope, from: RtcPeer) => void;
+  change: () => void; // a data channel opened or closed
+};
+
+function linkKey(room: string, peerId: string): string {
+  return `${room}|${peerId}`;
+}
+
+function isLive(link: PeerLink): boolean {
+  return link.pc.connectionState !== "failed" && link.pc.connectionState !== "closed";
+}
+
+/**
+ * WebRTC data channels to the other tabs in each joined room, set up through the relay's
+ * signaling, so chat still gets through when the relay path does not. One link per
+ * (room, peer); the tab that asks for the room's peers makes the offers. Chat from a peer
+ * is attributed to the identity the relay vouched for, never to what the peer claims.
+ */
+export class PeerMesh {
+  readonly peerId = crypto.randomUUID(); // per page load: links outlive relay reconnects
+  private readonly links = new Map<string, PeerLink>(); // `${room}|${peerId}`
+  private readonly early = new Map<string, { at: number; candidates: RtcCandidate[] }>();
+  private readonly events: PeerMeshEvents;
+  private closed = false;
+
+  constructor(events: PeerMeshEvents) {
+    this.events = events;
+  }
+
+  static supported(): boolean {
+    return typeof RTCPeerConnection !== "undefined";
+  }
+
+  /** Offer a link to every listed peer of the room that has no live link yet. */
+  connect(room: string, peers: RtcPeer[]): void {
+    for (const peer of peers) {
+      const link = this.links.get(linkKey(room, peer.peerId));
+      if (link && isLive(link)) {
+        link.peer = peer; // access may have changed since the link was made
+        continue;
+      }
+      void this.offer(room, peer);
+    }
+  }
+
+  async handleSignal(signal: RtcSignalIn): Promise<void> {
+    if (this.closed) return;
+
+    const key = linkKey(signal.room, signal.from.peerId);
+    const link = this.links.get(key);
+
+    if (signal.kind === "offer") {
+      // both sides offered at once: the lower peer id keeps its own offer
+      const glare = link?.offered && link.pc.signalingState === "have-local-offer";
+      if (glare && this.peerId < signal.from.peerId) return;
+      await this.answer(signal);
+      return;
+    }
+
+    if (signal.kind === "answer") {
+      if (!link?.offered || link.pc.signalingState !== "have-local-offer") return;
+      link.peer = signal.from;
+      try {
+        await link.pc.setRemoteDescription({ type: "answer", sdp: signal.sdp });
+        await this.remoteReady(link);
+      } catch {
+        this.drop(link);
+      }
+      return;
+    }
+
+    if (!signal.candidate) return;
+    if (!link) {
+      this.keepEarly(key, signal.candidate);
+      return;
+    }
+    if (!link.remoteSet) {
+      link.pending.push(signal.candidate);
+      return;
+    }
+    await link.pc.addIceCandidate(signal.candidate).catch(() => undefined);
+  }
+
+  /** Send a chat envelope over every open channel in its room; how many peers got it. */
+  send(msg: ChatEnvelope): number {
+    const frame: PeerFrame = { type: "chat", msg };
+    const data = JSON.stringify(frame);
+    if (data.length > FRAME_MAX) return 0;
+
+    let sent = 0;
+    for (const link of this.links.values()) {
+      if (link.room !== msg.room || link.channel?.readyState !== "open") continue;
+      try {
+        link.channel.send(data);
+        sent++;
+      } catch {
+        this.drop(link);
+      }
+    }
+    return sent;
+  }
+
+  /** Peers with an open channel, per room. */
+  snapshot(): Record<string, RtcPeer[]> {
+    const out: Record<string, RtcPeer[]> = {};
+    for (const link of this.links.values()) {
+      if (link.channel?.readyState !== "open") continue;
+      (out[link.room] ??= []).push(link.peer);
+    }
+    return out;
+  }
+
+  leave(room: string): void {
+    for (const link of Array.from(this.links.values())) if (link.room === room) this.drop(link);
+  }
+
+  close(): void {
+    this.closed = true;
+    for (const link of Array.from(this.links.values())) this.drop(link);
+    this.early.clear();
+  }
+
+  private async offer(room: string, peer: RtcPeer): Promise<void> {
+    const link = this.open(room, peer, true);
+    this.attach(link, link.pc.createDataChannel("chat"));
+
+    try {
+      await link.pc.setLocalDescription(await link.pc.createOffer());
+    } catch {
+      this.drop(link);
+      return;
+    }
+    this.events.signal({ room, to: peer.peerId, kind: "offer", sdp: link.pc.localDescription?.sdp });
+  }
+
+  // a new offer from a peer replaces whatever link we had with it (it restarted or lost ours)
+  private async answer(signal: RtcSignalIn): Promise<void> {
+    const link = this.open(signal.room, signal.from, false);
+    link.pending.push(...this.takeEarly(linkKey(signal.room, signal.from.peerId)));
+
+    try {
+      await link.pc.setRemoteDescription({ type: "offer", sdp: signal.sdp });
+      await this.remoteReady(link);
+      await link.pc.setLocalDescription(await link.pc.createAnswer());
+    } catch {
+      this.drop(link);
+      return;
+    }
+    this.events.signal({
+      room: signal.room,
+      to: signal.from.peerId,
+      kind: "answer",
+      sdp: link.pc.localDescription?.sdp
+    });
+  }
+
+  private open(room: string, peer: RtcPeer, offered: boolean): PeerLink {
+    const key = linkKey(room, peer.peerId);
+    const old = this.links.get(key);
+    if (old) this.drop(old);
+
+    const pc = new RTCPeerConnection(RTC_CONFIG);
+    const link: PeerLink = { room, peer, pc, offered, remoteSet: false, pending: [] };
+    this.links.set(key, link);
+
+    pc.onicecandidate = (e) => {
+      if (!e.candidate || this.links.get(key) !== link) return;
+      const { candidate, sdpMid, sdpMLineIndex } = e.candidate;
+      this.events.signal({
+        room,
+        to: link.peer.peerId,
+        kind: "candidate",
+        candidate: { candidate, sdpMid, sdpMLineIndex }
+      });
+    };
+    pc.ondatachannel = (e) => this.attach(link, e.channel);
+    pc.onconnectionstatechange = () => {
+      if (!isLive(link)) this.drop(link);
+    };
+
+    return link;
+  }
+
+  private attach(link: PeerLink, channel: RTCDataChannel): void {
+    link.channel = channel;
+    channel.onopen = () => this.events.change();
+    channel.onclose = () => this.drop(link);
+    channel.onmessage = (e: MessageEvent) => this.receive(link, e.data);
+  }
+
+  private async remoteReady(link: PeerLink): Promise<void> {
+    link.remoteSet = true;
+    const pending = link.pending.splice(0);
+    for (const c of pending) await link.pc.addIceCandidate(c).catch(() => undefined);
+  }
+
+  private receive(link: PeerLink, data: unknown): void {
+    if (typeof data !== "string" || data.length > FRAME_MAX) return;
+    if (!link.peer.publish) return; // read-only there: the relay would not have taken it either
+
+    let frame: unknown;
+    try {
+      frame = JSON.parse(data);
+    } catch {
+      return;
+    }
+    if (!frame || typeof frame !== "object" || (frame as { type?: unknown }).type !== "chat") return;
+
+    const parsed = ChatEnvelopeSchema.safeParse((frame as { msg?: unknown }).msg);
+    if (!parsed.success || parsed.data.room !== link.room) return;
+
+    this.events.message({ ...parsed.data, from: link.peer.label, memberId: link.peer.memberId }, link.peer);
+  }
+
+  private drop(link: PeerLink): void {
+    const key = linkKey(link.room, link.peer.peerId);
+    if (this.links.get(key) !== link) return;
+
+    this.links.delete(key);
+    link.channel?.close();
+    link.pc.close();
+    this.events.change();
+  }
+
+  private keepEarly(key: string, candidate: RtcCandidate): void {
+    const now = Date.now();
+    for (const [k, e] of this.early) if (now - e.at > EARLY_CANDIDATES_KEEP_MS) this.early.delete(k);
+
+    const entry = this.early.get(key) ?? { at: now, candidates: [] };
+    entry.candidates.push(candidate);
+    this.early.set(key, entry);
+  }
+
+  private takeEarly(key: string): RtcCandidate[] {
+    const entry = this.early.get(key);
+    this.early.delete(key);
+    return entry && Date.now() - entry.at <= EARLY_CANDIDATES_KEEP_MS ? entry.candidates : [];
+  }
+}
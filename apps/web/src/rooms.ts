@@ -0,0 +1,38 @@
+import type { RoomInfo } from "@ac/protocol";
+
+const CATALOG_KEY = "nw.rooms";
+
+// until the relay's catalog has arrived once (and been cached)
+export const FALLBACK_ROOM = "family";
+
+// same rule the relay applies to room ids
+const ROOM_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+
+/** The relay's room catalog as last pushed (`rooms_updated`); kept so the picker works offline. */
+export function loadRoomCatalog(): RoomInfo[] {
+  try {
+    const rooms = JSON.parse(window.localStorage.getItem(CATALOG_KEY) ?? "[]") as unknown;
+    return Array.isArray(rooms) ? (rooms as RoomInfo[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveRoomCatalog(rooms: RoomInfo[]): void {
+  window.localStorage.setItem(CATALOG_KEY, JSON.stringify(rooms));
+}
+
+/** `?room=` by id or label; an unknown but well-formed id is left for the relay to judge. */
+export function roomFromUrl(catalog: RoomInfo[]): string | null {
+  const raw = new URLSearchParams(window.location.search).get("room");
+  if (!raw) return null;
+
+  const key = raw.trim().toLowerCase();
+  const match = catalog.find((r) => r.id === key || r.label.toLowerCase() === key);
+  if (match) return match.id;
+  return ROOM_ID_PATTERN.test(key) ? key : null;
+}
+
+export function firstOpenRoom(catalog: RoomInfo[]): string | undefined {
+  return catalog.find((r) => !r.archived)?.id;
+}
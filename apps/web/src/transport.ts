@@ -0,0 +1,157 @@
+import { io, type Socket } from "socket.io-client";
+import type {
+  ChatAck,
+  ChatEnvelope,
+  ClientHello,
+  ClientToServerEvents,
+  JoinAck,
+  RequestArg,
+  RequestEvent,
+  RequestResult,
+  ServerToClientEvents,
+  Transport,
+  TransportStatus
+} from "@ac/protocol";
+
+type RelaySocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+// the typed Socket.IO overloads don't accept a generic event name; the Transport signature keeps callers typed
+type LooseSocket = {
+  emit(event: string, arg: unknown): void;
+  on(event: string, fn: (...args: never[]) => void): void;
+  off(event: string, fn: (...args: never[]) => void): void;
+  timeout(ms: number): { emitWithAck(event: string, arg: unknown): Promise<unknown> };
+};
+
+// engine.io internals (dev visibility)
+type EngineEvent = "upgrade" | "transport";
+type EngineLike = {
+  transport?: { name?: string };
+  on?: (event: EngineEvent, cb: (arg: unknown) => void) => void;
+  off?: (event: EngineEvent, cb: (arg: unknown) => void) => void;
+};
+
+function readName(v: unknown): string | undefined {
+  if (!v || typeof v !== "object") return undefined;
+  const name = (v as Record<string, unknown>).name;
+  return typeof name === "string" ? name : undefined;
+}
+
+const DEFAULT_TIMEOUT_MS = 5000;
+const JOIN_TIMEOUT_MS = 1500;
+
+/** The relay's native transport: a Socket.IO client (websocket, falling back to polling). */
+export class SocketIoTransport implements Transport {
+  readonly name = "socket.io";
+  private readonly socket: RelaySocket;
+  private readonly statusFns = new Set<(status: TransportStatus) => void>();
+  private status: TransportStatus = { state: "disconnected" };
+  private engine: EngineLike | undefined;
+
+  constructor(url: string, auth: ClientHello) {
+    this.socket = io(url, {
+      transports: ["websocket", "polling"],
+      withCredentials: true,
+      auth,
+      autoConnect: false
+    });
+
+    this.socket.on("connect", () => {
+      this.watchEngine();
+      this.setStatus({ state: "connected", via: this.engine?.transport?.name });
+    });
+
+    this.socket.on("disconnect", (reason) => {
+      this.setStatus({ state: "disconnected", detail: reason ?? "" });
+    });
+
+    this.socket.on("connect_error", (err) => {
+      this.setStatus({ state: "error", detail: err?.message ?? String(err) });
+    });
+  }
+
+  get connected(): boolean {
+    return this.socket.connected;
+  }
+
+  connect(): void {
+    this.setStatus({ state: "connecting" });
+    this.socket.connect();
+  }
+
+  disconnect(): void {
+    this.engine?.off?.("upgrade", this.onEngineEvent);
+    this.engine?.off?.("transport", this.onEngineEvent);
+    this.engine = undefined;
+    this.socket.disconnect();
+  }
+
+  join(room: string, timeoutMs = JOIN_TIMEOUT_MS): Promise<JoinAck> {
+    return this.request("join", room, timeoutMs);
+  }
+
+  send(msg: ChatEnvelope): void {
+    this.socket.emit("chat", msg);
+  }
+
+  onMessage(fn: (msg: ChatEnvelope) => void): () => void {
+    return this.on("chat", fn);
+  }
+
+  onAck(fn: (ack: ChatAck) => void): () => void {
+    return this.on("chat_ack", fn);
+  }
+
+  onStatus(fn: (status: TransportStatus) => void): () => void {
+    this.statusFns.add(fn);
+    return () => this.statusFns.delete(fn);
+  }
+
+  async request<E extends RequestEvent>(
+    event: E,
+    arg: RequestArg<E>,
+    timeoutMs = DEFAULT_TIMEOUT_MS
+  ): Promise<RequestResult<E>> {
+    if (!this.socket.connected) throw new Error("not_connected");
+    try {
+      return (await this.loose.timeout(timeoutMs).emitWithAck(event, arg)) as RequestResult<E>;
+    } catch {
+      throw new Error("no_ack");
+    }
+  }
+
+  emit<E extends keyof ClientToServerEvents>(event: E, arg: Parameters<ClientToServerEvents[E]>[0]): void {
+    this.loose.emit(event, arg);
+  }
+
+  on<E extends keyof ServerToClientEvents>(event: E, fn: ServerToClientEvents[E]): () => void {
+    this.loose.on(event, fn);
+    return () => this.loose.off(event, fn);
+  }
+
+  private get loose(): LooseSocket {
+    return this.socket as unknown as LooseSocket;
+  }
+
+  private setStatus(status: TransportStatus): void {
+    this.status = status;
+    for (const fn of this.statusFns) fn(status);
+  }
+
+  // each reconnect may bring a fresh engine; follow its upgrades (polling → websocket)
+  private watchEngine(): void {
+    const engine = (this.socket.io as unknown as { engine?: EngineLike }).engine;
+    if (engine === this.engine) return;
+
+    this.engine?.off?.("upgrade", this.onEngineEvent);
+    this.engine?.off?.("transport", this.onEngineEvent);
+    this.engine = engine;
+    engine?.on?.("upgrade", this.onEngineEvent);
+    engine?.on?.("transport", this.onEngineEvent);
+  }
+
+  private readonly onEngineEvent = (arg: unknown) => {
+    const via = readName(arg) ?? this.engine?.transport?.name;
+    if (via && via !== this.status.via) this.setStatus({ ...this.status, via });
+  };
+}
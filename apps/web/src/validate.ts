@@ -0,0 +1,13 @@
+// the slice of a zod schema we use; the schemas themselves come from @ac/protocol
+type Schema = {
+  safeParse(value: unknown): { success: true } | { success: false; error: { issues: { message: string }[] } };
+};
+
+/**
+ * Check a payload against the relay's own schema before it goes on the wire. Returns the
+ * reason the relay would ack with, or undefined when the payload is valid.
+ */
+export function invalidReason(schema: Schema, value: unknown, fallback: string): string | undefined {
+  const res = schema.safeParse(value);
+  return res.success ? undefined : (res.error.issues[0]?.message ?? fallback);
+}
@@ -1,39 +1,1026 @@
+export * from "./schemas.js";
+
+/**
+ * Wire protocol version. Bump it for any change an older peer would misread, and raise
+ * MIN_PROTOCOL_VERSION when this build can no longer talk to peers that old.
+ * Client and relay exchange both at connect (ClientHello / RelayHello).
+ */
+export const PROTOCOL_VERSION = 1;
+export const MIN_PROTOCOL_VERSION = 1;
+
+/** Optional features a peer implements; each side advertises its own at connect. */
+export const CAPABILITIES = [
+  "e2e",
+  "priority",
+  "receipts",
+  "presence",
+  "attachments",
+  "packages",
+  "incidents",
+  "overlays",
+  "locations",
+  "tasks",
+  "rtc"
+] as const;
+
+export type Capability = (typeof CAPABILITIES)[number];
+
+/** The Socket.IO handshake `auth` a client connects with. */
+export type ClientHello = {
+  credential?: string; // absent for guests
+  protocol: number;
+  minProtocol: number; // oldest relay protocol this client can talk to
+  capabilities: Capability[];
+};
+
+/** Relay → client, first thing after connect: its protocol range and the features it offers. */
+export type RelayHello = {
+  protocol: number;
+  minProtocol: number;
+  capabilities: Capability[];
+  required: Capability[]; // what a client must support to connect
+};
+
+/**
+ * Why the relay refused a connection (`connect_error` message). For the protocol reasons
+ * the error's `data` is the RelayHello. `client_outdated`: reload the app;
+ * `relay_outdated`: the relay needs upgrading; `capability_missing`: the client lacks a
+ * feature the relay requires (e.g. e2e when REQUIRE_E2E is on).
+ */
+export type ConnectErrorReason =
+  | "unauthorized"
+  | "revoked"
+  | "client_outdated"
+  | "relay_outdated"
+  | "capability_missing";
+
 export type ChatEnvelope = {
   id: string; // client-generated UUID
   room: string; // e.g. "family"
-  from: string; // device/user label (v0)
+  from: string; // member label (stamped by relay from the verified credential)
+  memberId?: string; // verified member id (stamped by relay; client value ignored)
   sentAt: number; // epoch ms
-  body: string; // later: ciphertext
+  body: string; // plaintext, or base64 ciphertext when `enc` is set
+  enc?: CipherInfo; // present when body is end-to-end encrypted
+  priority?: MessagePriority; // absent means "routine"; in the clear even in e2e rooms
+  attachments?: AttachmentRef[]; // uploaded to the relay first; in the clear even in e2e rooms
+  seq?: number; // relay-assigned per-room sequence (set once stored)
+  storedAt?: number; // relay clock when stored; retention ages messages by it
+  replyTo?: string; // id of the thread's root message (the relay folds replies to replies into it)
+  rev?: number; // relay-assigned revision; absent on the original, bumped by every edit or retraction
+  edited?: RevisionMark; // latest edit
+  retracted?: RevisionMark; // set once retracted: body is then empty and attachments are gone
+};
+
+/** Who changed a stored message, and when (relay clock). Stamped by the relay. */
+export type RevisionMark = {
+  by: string; // member label
+  memberId: string;
+  at: number;
+};
+
+/**
+ * Replace the text of a stored message (chat_edit). Only its author or an admin may; the body
+ * follows the rules of chat (ciphertext under the room's current key in e2e rooms).
+ */
+export type ChatEdit = {
+  room: string;
+  id: string;
+  body: string;
+  enc?: CipherInfo;
 };
 
+/** Withdraw a stored message (chat_retract): its text and attachments are no longer served. */
+export type ChatRetract = {
+  room: string;
+  id: string;
+};
+
+/**
+ * Ack for chat_edit / chat_retract. The relay keeps every superseded revision for audit
+ * (GET /admin/messages/:room/:id/revisions); room members only ever see the latest.
+ * reason (ok=false): invalid field message, "room_not_allowed", "not_in_room", "forbidden_role",
+ * "unknown_message" (not stored: live-only room, or aged out), "retracted", "not_author",
+ * "plaintext_not_allowed", "stale_key", "store_error", "rate_limited" (see retryAfterMs).
+ */
+export type ChatReviseAck = {
+  id: string;
+  ok: boolean;
+  reason?: string;
+  retryAfterMs?: number;
+  rev?: number; // the new revision (ok=true)
+};
+
+/**
+ * Precedence of a chat message. "flash" is for alerts that must reach every member
+ * of the room at once; clients raise a banner and a notification whatever room is open.
+ */
+export type MessagePriority = "routine" | "priority" | "flash";
+
+/**
+ * A file uploaded to the relay (HTTP `POST /attachments`), referenced from a chat message.
+ * hash is the sha256 (hex) of the bytes the relay stores and serves, after metadata
+ * stripping; clients verify downloads against it.
+ */
+export type AttachmentRef = {
+  id: string;
+  hash: string;
+  name: string;
+  mime: string;
+  size: number; // bytes, as stored
+};
+
+/** The relay's record of an attachment. */
+export type AttachmentInfo = AttachmentRef & {
+  room: string;
+  uploadedBy: string; // memberId
+  uploadedAt: number;
+  metadataRemoved?: string[]; // what stripping took out, e.g. ["exif", "xmp"]
+};
+
+/**
+ * Response to `POST /attachments?room=&name=` (raw body, Content-Type = the file's MIME type,
+ * `X-Content-SHA256` = hex sha256 of the body as sent).
+ * reason (ok=false): "unauthorized", "forbidden_role", "room_not_allowed", "too_large",
+ * "type_not_allowed", "type_mismatch" (content does not look like its MIME type),
+ * "hash_mismatch", "invalid_image", "plaintext_not_allowed", "invalid_request".
+ */
+export type AttachmentUploadAck = {
+  ok: boolean;
+  reason?: string;
+  attachment?: AttachmentRef;
+};
+
+/**
+ * E2E payload parameters. The relay validates the shape but never decrypts.
+ * AES-GCM additional data binds the ciphertext to `${room}|${id}|${keyId}`.
+ */
+export type CipherInfo = {
+  alg: "A256GCM";
+  keyId: string; // room key id
+  nonce: string; // base64, 12 bytes
+};
+
+/**
+ * A device's ECDH P-256 public key, registered with the relay after connect.
+ * deviceId is the relay's id for the credential the device enrolled with.
+ */
+export type DeviceKey = {
+  deviceId: string;
+  memberId: string;
+  publicKey: JsonWebKey;
+};
+
+export type DeviceKeyAck = {
+  ok: boolean;
+  reason?: string; // "guest", "invalid_key", "store_error"
+  deviceId?: string;
+};
+
+/**
+ * A room key wrapped for one recipient device: AES-GCM under the key derived from
+ * ECDH(sender device, recipient device), with additional data `${room}|${keyId}|${deviceId}`.
+ */
+export type RoomKeyGrant = {
+  room: string;
+  keyId: string;
+  deviceId: string; // recipient
+  fromDeviceId: string;
+  fromPublicKey: JsonWebKey; // filled in by the relay from its device directory
+  wrappedKey: string; // base64
+  nonce: string; // base64, 12 bytes
+};
+
+/**
+ * Ack for room_keys(room): this device's grants plus what the room still needs.
+ * rotate=true (or no currentKeyId) asks a member to mint a fresh key;
+ * devices lists room-authorized devices without a grant for the current key.
+ */
+export type RoomKeyState = {
+  room: string;
+  ok: boolean;
+  reason?: string;
+  currentKeyId?: string;
+  rotate: boolean;
+  grants: RoomKeyGrant[];
+  devices: DeviceKey[];
+};
+
+/**
+ * Publish grants for a room key. rotate=true mints keyId as the room's new current key
+ * (first publisher wins; others get reason "key_exists"); otherwise keyId must be current.
+ */
+export type RoomKeyPublish = {
+  room: string;
+  keyId: string;
+  rotate: boolean;
+  grants: Array<Pick<RoomKeyGrant, "deviceId" | "wrappedKey" | "nonce">>;
+};
+
+export type RoomKeyPublishAck = {
+  room: string;
+  ok: boolean;
+  reason?: string;
+  accepted?: number;
+};
+
+/**
+ * Roles, most to least privileged. `admin` has admin access to every room.
+ */
+export type Role = "admin" | "dispatcher" | "member" | "observer";
+
+/**
+ * What a role may do in a room: read (join + history), publish (also chat),
+ * admin (also moderate). A role missing from a room's ACL has no access.
+ */
+export type RoomAccess = "read" | "publish" | "admin";
+
+export type RoomAcl = Partial<Record<Role, RoomAccess>>;
+
+/**
+ * A room in the relay's catalog (managed through the /admin/rooms routes).
+ * `id` is what join and chat use and never changes; renaming changes `label`.
+ * `defaultAccess` applies when the policy file has no ACL of its own for the room
+ * (ahead of its `*` entry). Archived rooms refuse joins and chat; frozen rooms
+ * stay readable but nobody below admin can publish in them.
+ */
+export type RoomInfo = {
+  id: string;
+  label: string;
+  purpose?: string;
+  defaultAccess?: RoomAcl;
+  archived?: boolean;
+  frozen?: boolean;
+  createdAt: number;
+  updatedAt: number;
+};
+
+/**
+ * How long the relay keeps a room's messages. Unset limits mean "no limit";
+ * `keepHistory: false` relays messages live without ever storing them.
+ */
+export type RetentionRule = {
+  keepHistory?: boolean; // default true
+  maxAgeHours?: number;
+  maxMessages?: number;
+};
+
+/**
+ * Relay access policy (loaded from a JSON file, hot-reloaded).
+ * `rooms["*"]` is the ACL for rooms without their own entry; `retention["*"]` likewise.
+ */
+export type RolePolicy = {
+  defaultRole: Role;
+  guestRole?: Role;
+  members?: Record<string, Role>; // memberId -> role
+  rooms: Record<string, RoomAcl>;
+  retention?: Record<string, RetentionRule>;
+};
+
+/**
+ * Verified identity of an enrolled member.
+ */
+export type MemberIdentity = {
+  memberId: string;
+  label: string;
+  role?: Role; // current role under the relay's policy
+};
+
+/**
+ * HTTP: POST /enroll/redeem — trade a one-time enrollment code for a device credential.
+ * The credential is presented as `auth.credential` in the Socket.IO handshake.
+ */
+export type EnrollRedeemRequest = {
+  code: string;
+};
+
+export type EnrollRedeemResponse =
+  | { ok: true; memberId: string; label: string; credential: string }
+  | { ok: false; reason: string };
+
+/**
+ * reason (ok=false): invalid field message, "room_not_allowed", "not_in_room",
+ * "forbidden_role" (role may read but not publish), "plaintext_not_allowed",
+ * "stale_key" (enc.keyId is not the room's current key), "store_error",
+ * "unknown_attachment", "attachment_mismatch" (not this room's, not the sender's, or another hash),
+ * "rate_limited" (too many messages from this socket, identity or address; see retryAfterMs).
+ */
 export type ChatAck = {
   id: string;
   ok: boolean;
   reason?: string;
+  retryAfterMs?: number; // with "rate_limited": do not try again sooner
 };
 
 /**
  * Ack for join(room).
  * When ok=false, relay may include allowedRooms to help client recover.
+ * reason (ok=false): "invalid_room", "room_not_allowed", "room_archived", "forbidden_role",
+ * "rate_limited" (too many joins; see retryAfterMs).
+ * When ok=true, access tells the client what it may do in the room.
  */
 export type JoinAck = {
   room: string;
   ok: boolean;
   reason?: string;
+  retryAfterMs?: number; // with "rate_limited": do not try again sooner
   allowedRooms?: string[];
+  access?: RoomAccess;
+  retention?: RetentionRule; // the room's effective rule (keepHistory always set)
+};
+
+/**
+ * Page request for stored room history.
+ * `before` is an exclusive seq cursor; omit it to fetch the newest page.
+ */
+export type HistoryRequest = {
+  room: string;
+  before?: number;
+  limit?: number;
+};
+
+/**
+ * Ack for history(req). Messages are ordered oldest → newest.
+ * hasMore=true means older messages exist before the first one returned.
+ */
+export type HistoryAck = {
+  room: string;
+  ok: boolean;
+  reason?: string;
+  messages: ChatEnvelope[];
+  hasMore: boolean;
+};
+
+export type ReceiptState = "delivered" | "read";
+
+/**
+ * Client → relay: this member's device received ("delivered") or displayed ("read")
+ * these messages of a joined room. Read implies delivered.
+ */
+export type ReceiptUpdate = {
+  room: string;
+  ids: string[]; // message ids, at most 100 per update
+  state: ReceiptState;
+};
+
+export type ReceiptRecord = {
+  memberId: string;
+  label: string;
+  deliveredAt?: number;
+  readAt?: number;
+};
+
+/**
+ * Who has received and read one message. receipts holds one record per member;
+ * expected lists members allowed in the room, other than the sender.
+ */
+export type ReceiptStatus = {
+  room: string;
+  msgId: string;
+  senderId: string;
+  receipts: ReceiptRecord[];
+  expected: MemberIdentity[];
+};
+
+export type ReceiptListAck = {
+  room: string;
+  ok: boolean;
+  reason?: string;
+  statuses: ReceiptStatus[]; // every message the relay still tracks receipts for
+};
+
+/**
+ * One payload section of a mission package. `content` is section-specific JSON
+ * (GeoJSON for overlays/routes, free-form for notes, etc.).
+ */
+export type MissionPackageSection = {
+  kind: "map" | "overlays" | "routes" | "comms" | "notes";
+  name: string;
+  content: unknown;
+};
+
+/**
+ * What a publisher submits. `hash` is the lowercase hex SHA-256 of the canonical JSON
+ * (object keys sorted recursively, no whitespace) of { id, version, room, title, effective, sections }.
+ */
+export type MissionPackageDraft = {
+  id: string; // stable across versions, e.g. "flood-response"
+  version: string; // semver, must increase per id
+  room: string; // distribution room
+  title: string;
+  effective: { from: number; until?: number }; // epoch ms window
+  sections: MissionPackageSection[];
+  hash: string;
+};
+
+/** A published package: the draft plus relay-stamped provenance. */
+export type MissionPackage = MissionPackageDraft & {
+  provenance: {
+    publishedBy: string; // memberId
+    publisherLabel: string;
+    publishedAt: number;
+  };
+};
+
+export type PackagePublishAck = {
+  id: string;
+  ok: boolean;
+  reason?: string; // "forbidden_role", "not_in_room", "hash_mismatch", "version_not_newer", ...
+  version?: string;
+};
+
+/** Client → relay: "I loaded this version and verified this hash". */
+export type PackageLoaded = {
+  room: string;
+  packageId: string;
+  version: string;
+  hash: string;
+};
+
+export type PackageLoadRecord = {
+  memberId: string;
+  label: string;
+  version: string;
+  hash: string;
+  verified: boolean; // hash matched what the relay distributed
+  loadedAt: number;
+};
+
+/**
+ * Who has loaded what, for one package in one room.
+ * loads holds each member's most recent ack; expected lists members allowed in the room.
+ */
+export type PackageStatus = {
+  room: string;
+  packageId: string;
+  latestVersion: string;
+  latestHash: string;
+  loads: PackageLoadRecord[];
+  expected: MemberIdentity[];
+};
+
+export type PackageListAck = {
+  room: string;
+  ok: boolean;
+  reason?: string;
+  packages: MissionPackage[]; // latest version per package id
+  statuses: PackageStatus[];
+};
+
+/** [longitude, latitude] in WGS84 degrees (GeoJSON order). */
+export type Position = [number, number];
+
+export type OverlayGeometry =
+  | { type: "Point"; coordinates: Position }
+  | { type: "LineString"; coordinates: Position[] }
+  | { type: "Polygon"; coordinates: Position[][] }; // closed rings, first is the outer ring
+
+/**
+ * One shared map object (marker, line or polygon) in a room's operating picture.
+ * Shaped like a GeoJSON Feature with the room/layer bookkeeping alongside.
+ */
+export type OverlayFeature = {
+  id: string; // client-generated UUID, stable across edits
+  room: string;
+  layer: string; // layer name, e.g. "hazards"
+  geometry: OverlayGeometry;
+  properties: Record<string, string | number | boolean | null>; // name, color, note, ...
+  updatedAt?: number; // epoch ms (stamped by relay)
+  updatedBy?: string; // member label (stamped by relay)
+  memberId?: string; // stamped by relay
+  rev?: number; // relay-assigned, increments on every upsert
+};
+
+export type OverlayDelete = {
+  room: string;
+  id: string;
+};
+
+export type OverlayAck = {
+  id: string;
+  ok: boolean;
+  reason?: string; // "not_in_room", "forbidden_role", "invalid_geometry", "unknown_overlay", ...
+  rev?: number;
+};
+
+export type OverlayListAck = {
+  room: string;
+  ok: boolean;
+  reason?: string;
+  overlays: OverlayFeature[];
+};
+
+export type Severity = "low" | "moderate" | "high" | "critical";
+
+/** A room-scoped incident: the container reports are filed against. */
+export type Incident = {
+  id: string; // client-generated UUID
+  room: string;
+  title: string;
+  severity: Severity;
+  status: "active" | "closed";
+  createdAt: number; // relay-stamped from here down
+  createdBy: string; // member label
+  memberId: string;
+  closedAt?: number;
+};
+
+export type IncidentDraft = Pick<Incident, "id" | "room" | "title" | "severity">;
+
+/** Situation report: what is happening, what is being done, what is needed. */
+export type SitrepFields = {
+  situation: string;
+  actions: string;
+  needs?: string;
+  casualties?: number;
+};
+
+export type HazardFields = {
+  hazard: string;
+  severity: Severity;
+  location?: string;
+  instructions?: string; // e.g. "avoid Elm St between 3rd and 5th"
+};
+
+export type TaskFields = {
+  task: string;
+  location?: string;
+  due?: number; // epoch ms
+};
+
+/** Typed report templates; `template` picks the shape of `fields`. */
+export type ReportBody =
+  | { template: "sitrep"; fields: SitrepFields }
+  | { template: "hazard"; fields: HazardFields }
+  | { template: "task"; fields: TaskFields };
+
+/**
+ * Report lifecycle: open → assigned → acknowledged → done.
+ * Dispatchers assign (and may reassign while assigned); the assignee acknowledges
+ * and completes; dispatchers may also mark an acknowledged report done.
+ */
+export type ReportState = "open" | "assigned" | "acknowledged" | "done";
+
+export type ReportTransition = {
+  from?: ReportState; // absent for the filing itself
+  to: ReportState;
+  by: string; // member label
+  memberId: string;
+  at: number;
+  assignee?: MemberIdentity;
+};
+
+export type Report = ReportBody & {
+  id: string; // client-generated UUID
+  incidentId: string;
+  room: string;
+  state: ReportState;
+  assignee?: MemberIdentity;
+  createdAt: number; // relay-stamped from here down
+  createdBy: string;
+  memberId: string;
+  updatedAt: number;
+  history: ReportTransition[];
+};
+
+export type ReportDraft = ReportBody & Pick<Report, "id" | "incidentId" | "room">;
+
+export type ReportTransitionRequest = {
+  room: string;
+  reportId: string;
+  to: ReportState;
+  assignee?: string; // memberId, required for → assigned
+};
+
+export type IncidentAck = {
+  id: string;
+  ok: boolean;
+  reason?: string; // "not_in_room", "forbidden_role", "unknown_incident", "incident_closed", ...
+};
+
+export type ReportAck = {
+  id: string;
+  ok: boolean;
+  reason?: string; // also "invalid_transition", "not_assignee", "invalid_assignee"
+  state?: ReportState;
+};
+
+export type IncidentListAck = {
+  room: string;
+  ok: boolean;
+  reason?: string;
+  incidents: Incident[];
+  reports: Report[];
+  members: MemberIdentity[]; // who reports in this room can be assigned to
+};
+
+/**
+ * Task lifecycle: issued → acknowledged → in_progress → complete, or declined along the way.
+ * The assignee moves a task; a task that does not require acknowledgment may be started
+ * straight from issued. Dispatchers may also mark a task complete. complete and declined are final.
+ */
+export type TaskState = "issued" | "acknowledged" | "in_progress" | "complete" | "declined";
+
+export type TaskTransition = {
+  from?: TaskState; // absent for the issue itself
+  to: TaskState;
+  by: string; // member label
+  memberId: string;
+  at: number;
+  note?: string; // e.g. why it was declined
+};
+
+/**
+ * An action a dispatcher assigns to one member of a room ("go check the north gate").
+ * When `ackRequired`, an issued task not acknowledged by `ackDueAt` is escalated to the room.
+ */
+export type Task = {
+  id: string; // client-generated UUID
+  room: string;
+  title: string;
+  details?: string;
+  assignee: MemberIdentity;
+  dueAt?: number; // when the work should be done (epoch ms)
+  ackRequired: boolean;
+  ackDueAt?: number; // relay-stamped from here down
+  escalatedAt?: number; // set once the ack deadline passed while still issued
+  state: TaskState;
+  createdAt: number;
+  createdBy: string; // member label
+  memberId: string;
+  updatedAt: number;
+  history: TaskTransition[];
+};
+
+export type TaskDraft = Pick<Task, "id" | "room" | "title" | "details" | "dueAt" | "ackRequired"> & {
+  assigneeId: string;
+  ackWithinMinutes?: number; // with ackRequired; the relay's TASK_ACK_MINUTES when absent
+};
+
+export type TaskTransitionRequest = {
+  room: string;
+  id: string;
+  to: TaskState;
+  note?: string;
+};
+
+/**
+ * reason (ok=false): invalid field message, "not_in_room", "forbidden_role" (only dispatchers
+ * issue), "invalid_assignee", "task_exists", "unknown_task", "invalid_transition",
+ * "not_assignee", "ack_required" (acknowledge before starting).
+ */
+export type TaskAck = {
+  id: string;
+  ok: boolean;
+  reason?: string;
+  state?: TaskState;
+};
+
+export type TaskListAck = {
+  room: string;
+  ok: boolean;
+  reason?: string;
+  tasks: Task[];
+  members: MemberIdentity[]; // who tasks in this room can be assigned to
+};
+
+/** How precisely the relay rebroadcasts a shared position: as given, or snapped to a grid cell. */
+export type LocationPrecision = "exact" | "100m" | "1km";
+
+/**
+ * Client → relay. `sharing` is the member's consent: true to share (position required),
+ * false to stop immediately. Sharing is scoped to one active incident and ends at `until`.
+ */
+export type LocationUpdate = {
+  room: string;
+  incidentId: string;
+  sharing: boolean;
+  precision: LocationPrecision;
+  until: number; // epoch ms; the relay caps the window
+  position?: Position;
+  accuracy?: number; // meters (device-reported)
+};
+
+/** Relay → room: a member's position after the relay applied their precision. Never persisted. */
+export type MemberLocation = {
+  room: string;
+  incidentId: string;
+  memberId: string;
+  label: string;
+  position: Position; // grid-cell center unless precision is "exact"
+  precision: LocationPrecision;
+  accuracy: number; // meters; at least the grid cell size for coarse precisions
+  updatedAt: number;
+  expiresAt: number; // dropped at this time unless refreshed
+};
+
+export type LocationRemoved = {
+  room: string;
+  memberId: string;
+  reason: "stopped" | "expired" | "disconnected" | "incident_closed";
+};
+
+export type LocationAck = {
+  ok: boolean;
+  reason?: string; // "not_in_room", "forbidden_role", "unknown_incident", "incident_closed", "invalid_until", ...
+  expiresAt?: number;
+};
+
+export type LocationListAck = {
+  room: string;
+  ok: boolean;
+  reason?: string;
+  locations: MemberLocation[];
+};
+
+export type PresenceState = "online" | "away" | "offline";
+
+/** Client → relay: the member stepped away from this device (tab hidden) or came back. */
+export type PresenceUpdate = {
+  away: boolean;
+};
+
+/**
+ * A member's presence in a room, from the relay's join/disconnect handling. Memory only.
+ * A member whose last connection drops stays as they were for a grace period (brief
+ * reconnects do not flicker), then turns "offline" with lastSeen at the drop.
+ */
+export type PresenceEntry = {
+  room: string;
+  memberId: string;
+  label: string;
+  role?: Role;
+  guest?: boolean;
+  state: PresenceState;
+  transports: string[]; // one per connected socket: "websocket", "polling", ...
+  lastSeen: number; // epoch ms of the last change while connected, or of the drop
+};
+
+export type RosterAck = {
+  room: string;
+  ok: boolean;
+  reason?: string;
+  members: PresenceEntry[];
+};
+
+/**
+ * A WebRTC peer in a room: one browser tab. `peerId` is random per page load, so a tab
+ * keeps its peer links across relay reconnects. The relay fills in who is behind it.
+ */
+export type RtcPeer = {
+  peerId: string;
+  memberId: string;
+  label: string;
+  publish: boolean; // may post in the room; chat from peers without it is dropped
+};
+
+export type RtcSignalKind = "offer" | "answer" | "candidate";
+
+/** An ICE candidate as RTCIceCandidate.toJSON() gives it. */
+export type RtcCandidate = {
+  candidate: string;
+  sdpMid?: string | null;
+  sdpMLineIndex?: number | null;
+};
+
+/** Signaling between two peers that joined the same room; the relay only forwards it. */
+export type RtcSignal = {
+  room: string;
+  to: string; // peerId
+  kind: RtcSignalKind;
+  sdp?: string; // offer / answer
+  candidate?: RtcCandidate;
+};
+
+/** A signal as delivered: the sender as the relay knows it, instead of the addressee. */
+export type RtcSignalIn = Omit<RtcSignal, "to"> & {
+  from: RtcPeer;
+};
+
+export type RtcPeersAck = {
+  room: string;
+  ok: boolean;
+  reason?: string; // "not_in_room" | ...
+  peers: RtcPeer[];
+};
+
+/** A connected socket as the admin console lists it (GET /admin/sockets). */
+export type LiveSocket = {
+  socketId: string;
+  memberId: string;
+  label: string;
+  role?: Role;
+  guest: boolean;
+  credentialId?: string; // the device credential it authenticated with; guests have none
+  origin?: string;
+  ip?: string;
+  transport: string; // "polling" | "websocket"
+  protocol: number;
+  capabilities: string[]; // as the client advertised them
+  rooms: string[];
+  connectedAt: number;
+  away?: boolean;
+};
+
+/** Chat messages relayed in a room over trailing windows (GET /admin/rates). Per relay node. */
+export type RoomRate = {
+  room: string;
+  lastMinute: number;
+  last5Minutes: number;
+  last15Minutes: number;
+};
+
+/** A refused join, newest first in GET /admin/denials. */
+export type JoinDenial = {
+  at: number;
+  socketId: string;
+  memberId: string;
+  label: string;
+  room: string;
+  reason: string;
+  role?: Role;
 };
 
 export type ServerToClientEvents = {
+  /** Sent once, right after connect (before session). */
+  hello: (hello: RelayHello) => void;
+
+  /** Sent after connect, and again when a policy reload changes the member's role. */
+  session: (me: MemberIdentity) => void;
   chat: (msg: ChatEnvelope) => void;
   chat_ack: (ack: ChatAck) => void;
+
+  /** A stored message was edited or retracted: the whole latest revision, replacing the old one. */
+  chat_revised: (msg: ChatEnvelope) => void;
+
+  /** The room catalog (archived rooms included); sent after connect and on every change. */
+  rooms_updated: (rooms: RoomInfo[]) => void;
+
+  /** A room's key state changed (new key, rotation needed, devices awaiting grants): re-query room_keys. */
+  room_keys_changed: (info: { room: string }) => void;
+
+  /** A mission package version was published to the room. */
+  package: (pkg: MissionPackage) => void;
+  package_status: (status: PackageStatus) => void;
+
+  /** Receipt status of a message changed (a member's device got or displayed it). */
+  receipt_status: (status: ReceiptStatus) => void;
+
+  /** An overlay feature was created or replaced in the room. */
+  overlay_upsert: (feature: OverlayFeature) => void;
+  overlay_delete: (del: OverlayDelete) => void;
+
+  /** An incident was opened or closed, or a report filed or moved through its lifecycle. */
+  incident: (incident: Incident) => void;
+  report: (report: Report) => void;
+
+  /** A task was issued or moved; `task_escalated` when its ack deadline passed unacknowledged. */
+  task: (task: Task) => void;
+  task_escalated: (task: Task) => void;
+
+  /** A member's (precision-limited) position in the room, or its removal. */
+  location: (loc: MemberLocation) => void;
+  location_removed: (removed: LocationRemoved) => void;
+
+  /** A member came online, went away or offline, or changed transport in the room. */
+  presence: (entry: PresenceEntry) => void;
+
+  /** WebRTC signaling from another peer in a shared room. */
+  rtc_signal: (signal: RtcSignalIn) => void;
 };
 
 export type ClientToServerEvents = {
   chat: (msg: ChatEnvelope) => void;
 
+  /** Edit or retract a stored message (its author, or an admin). */
+  chat_edit: (edit: ChatEdit, ack: (res: ChatReviseAck) => void) => void;
+  chat_retract: (retract: ChatRetract, ack: (res: ChatReviseAck) => void) => void;
+
   /**
    * Join a room; relay responds via ack callback.
    * Socket.IO supports ack callbacks as the last argument.
    */
   join: (room: string, ack?: (res: JoinAck) => void) => void;
+
+  /**
+   * Fetch a page of stored history for a joined room.
+   */
+  history: (req: HistoryRequest, ack: (res: HistoryAck) => void) => void;
+
+  /** Report delivered/read receipts for messages of a joined room (batched). */
+  receipt: (update: ReceiptUpdate, ack?: (res: { ok: boolean; reason?: string }) => void) => void;
+
+  /** Receipt statuses for a joined room. */
+  receipts: (room: string, ack: (res: ReceiptListAck) => void) => void;
+
+  /** Register this device's public key (enrolled members only). */
+  device_key: (publicKey: JsonWebKey, ack: (res: DeviceKeyAck) => void) => void;
+
+  /** Fetch room key grants for this device (must have joined the room). */
+  room_keys: (room: string, ack: (res: RoomKeyState) => void) => void;
+
+  room_key_publish: (pub: RoomKeyPublish, ack: (res: RoomKeyPublishAck) => void) => void;
+
+  /** Publish a mission package version (dispatcher/admin with publish access). */
+  package_publish: (draft: MissionPackageDraft, ack: (res: PackagePublishAck) => void) => void;
+
+  /** Latest packages + load status for a joined room. */
+  packages: (room: string, ack: (res: PackageListAck) => void) => void;
+
+  package_loaded: (loaded: PackageLoaded, ack?: (res: { ok: boolean; reason?: string }) => void) => void;
+
+  /** Create or replace an overlay feature (publish access to the room). */
+  overlay_upsert: (feature: OverlayFeature, ack?: (res: OverlayAck) => void) => void;
+  overlay_delete: (del: OverlayDelete, ack?: (res: OverlayAck) => void) => void;
+
+  /** Current overlay features of a joined room. */
+  overlays: (room: string, ack: (res: OverlayListAck) => void) => void;
+
+  /** Open an incident (publish access) or close one (dispatcher/admin, or its creator). */
+  incident_open: (draft: IncidentDraft, ack: (res: IncidentAck) => void) => void;
+  incident_close: (req: { room: string; id: string }, ack: (res: IncidentAck) => void) => void;
+
+  /** File a report against an active incident (publish access). */
+  report_file: (draft: ReportDraft, ack: (res: ReportAck) => void) => void;
+  report_transition: (req: ReportTransitionRequest, ack: (res: ReportAck) => void) => void;
+
+  /** Incidents, their reports and assignable members for a joined room. */
+  incidents: (room: string, ack: (res: IncidentListAck) => void) => void;
+
+  /** Issue a task to a member of the room (dispatchers), or move one along its lifecycle. */
+  task_issue: (draft: TaskDraft, ack: (res: TaskAck) => void) => void;
+  task_transition: (req: TaskTransitionRequest, ack: (res: TaskAck) => void) => void;
+
+  /** Tasks and assignable members for a joined room. */
+  tasks: (room: string, ack: (res: TaskListAck) => void) => void;
+
+  /** Start, refresh or stop sharing this member's position (opt-in, time-boxed). */
+  location_update: (update: LocationUpdate, ack?: (res: LocationAck) => void) => void;
+
+  /** Current shared positions in a joined room. */
+  locations: (room: string, ack: (res: LocationListAck) => void) => void;
+
+  /** Mark this connection away or back (every room it joined). */
+  presence_update: (update: PresenceUpdate) => void;
+
+  /** Who is (or recently was) in a joined room. */
+  roster: (room: string, ack: (res: RosterAck) => void) => void;
+
+  /** Register this tab as a WebRTC peer in a joined room; lists the room's other peers. */
+  rtc_peers: (req: { room: string; peerId: string }, ack: (res: RtcPeersAck) => void) => void;
+
+  /** Forward an offer, answer or ICE candidate to a peer in a joined room. */
+  rtc_signal: (
+    signal: RtcSignal,
+    ack?: (res: { ok: boolean; reason?: string; retryAfterMs?: number }) => void
+  ) => void;
+};
+
+/** Client events the relay answers through an ack callback. */
+type AckCallback<E extends keyof ClientToServerEvents> = NonNullable<Parameters<ClientToServerEvents[E]>[1]>;
+
+export type RequestEvent = {
+  [E in keyof ClientToServerEvents]: [AckCallback<E>] extends [never] ? never : E;
+}[keyof ClientToServerEvents];
+
+export type RequestArg<E extends RequestEvent> = Parameters<ClientToServerEvents[E]>[0];
+export type RequestResult<E extends RequestEvent> = Parameters<AckCallback<E>>[0];
+
+export type TransportState = "connecting" | "connected" | "disconnected" | "error";
+
+export type TransportStatus = {
+  state: TransportState;
+  detail?: string; // disconnect reason or connect error ("unauthorized", "revoked", ...)
+  via?: string; // underlying wire when known ("websocket", "polling", "loopback", ...)
+};
+
+/**
+ * How the app talks to a relay. The UI and delivery logic only see this;
+ * Socket.IO is one adapter, an in-process loopback another.
+ * Subscriptions return an unsubscribe function.
+ */
+export type Transport = {
+  readonly name: string;
+  readonly connected: boolean;
+
+  connect(): void;
+  disconnect(): void;
+
+  /** Rejects with Error("not_connected") or Error("no_ack"). */
+  join(room: string, timeoutMs?: number): Promise<JoinAck>;
+
+  /** Fire-and-forget chat; the outcome arrives through onAck. */
+  send(msg: ChatEnvelope): void;
+  onMessage(fn: (msg: ChatEnvelope) => void): () => void;
+  onAck(fn: (ack: ChatAck) => void): () => void;
+  onStatus(fn: (status: TransportStatus) => void): () => void;
+
+  /** An ack-bearing request; rejects with Error("not_connected") or Error("no_ack"). */
+  request<E extends RequestEvent>(event: E, arg: RequestArg<E>, timeoutMs?: number): Promise<RequestResult<E>>;
+
+  /** Any other client event, without waiting for an answer. */
+  emit<E extends keyof ClientToServerEvents>(event: E, arg: Parameters<ClientToServerEvents[E]>[0]): void;
+
+  /** Any other server event. */
+  on<E extends keyof ServerToClientEvents>(event: E, fn: ServerToClientEvents[E]): () => void;
 };
@@ -0,0 +1,357 @@
+import { z } from "zod";
+
+/*
+ * Validation for what clients send the relay. The relay parses every payload with these;
+ * clients check their own payloads with the same schemas before sending, so a client
+ * and relay built from the same protocol version agree on what is valid.
+ */
+
+// 1.2.3 or 1.2.3-rc.1 (no build metadata)
+export const SEMVER_PATTERN = /^(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?$/;
+
+export function isSemver(v: string): boolean {
+  return SEMVER_PATTERN.test(v);
+}
+
+/** Size limits the relay enforces (and clients check before sending). */
+export const LIMITS = {
+  roomMax: 64,
+  fromMax: 64,
+  bodyMax: 2048,
+  cipherBodyMax: 11_000, // base64(utf8(bodyMax chars) + GCM tag), with headroom
+  keyIdMax: 64,
+  grantsMax: 500,
+  packageBytesMax: 256 * 1024,
+  packageSectionsMax: 50,
+  overlayIdMax: 64,
+  layerMax: 64,
+  overlayVerticesMax: 5000,
+  overlayPropsMax: 32,
+  overlayPropValueMax: 1024,
+  reportTextMax: 2000,
+  taskTitleMax: 200,
+  historyPageDefault: 50,
+  historyPageMax: 200,
+  receiptIdsMax: 100,
+  rtcSdpMax: 16_000,
+  rtcCandidateMax: 1024,
+  attachmentsMax: 4
+} as const;
+
+const BASE64 = /^[A-Za-z0-9+/]+={0,2}$/;
+
+const NonceSchema = z.string().length(16).regex(BASE64, "invalid_nonce"); // 12 bytes
+
+export const CipherInfoSchema = z.object({
+  alg: z.literal("A256GCM"),
+  keyId: z.string().min(1).max(LIMITS.keyIdMax),
+  nonce: NonceSchema
+});
+
+export const AttachmentRefSchema = z.object({
+  id: z.string().min(1).max(64),
+  hash: z.string().regex(/^[0-9a-f]{64}$/, "invalid_hash"),
+  name: z.string().max(200),
+  mime: z.string().max(100),
+  size: z.number().int().nonnegative()
+});
+
+// ciphertext shape only; the relay cannot (and must not) decrypt
+function checkBody(msg: { body: string; enc?: unknown }, ctx: z.RefinementCtx): void {
+  if (msg.enc && !BASE64.test(msg.body)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["body"], message: "invalid_ciphertext" });
+  }
+  if (!msg.enc && msg.body.length > LIMITS.bodyMax) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["body"], message: "body_too_long" });
+  }
+}
+
+const MessageIdSchema = z.string().min(1).max(64);
+
+export const ChatEnvelopeSchema = z
+  .object({
+    id: z.string().min(1),
+    room: z.string().min(1).max(LIMITS.roomMax),
+    from: z.string().max(LIMITS.fromMax).optional(), // ignored: relay stamps the verified label
+    sentAt: z.number().int().nonnegative(),
+    body: z.string().min(1).max(LIMITS.cipherBodyMax),
+    enc: CipherInfoSchema.optional(),
+    priority: z.enum(["routine", "priority", "flash"], { message: "invalid_priority" }).optional(),
+    attachments: z.array(AttachmentRefSchema).max(LIMITS.attachmentsMax, "too_many_attachments").optional(),
+    replyTo: MessageIdSchema.optional()
+  })
+  .superRefine(checkBody);
+
+export const ChatEditSchema = z
+  .object({
+    room: z.string().min(1).max(LIMITS.roomMax),
+    id: MessageIdSchema,
+    body: z.string().min(1).max(LIMITS.cipherBodyMax),
+    enc: CipherInfoSchema.optional()
+  })
+  .superRefine(checkBody);
+
+export const ChatRetractSchema = z.object({
+  room: z.string().min(1).max(LIMITS.roomMax),
+  id: MessageIdSchema
+});
+
+// public half only: a JWK carrying "d" would be a leaked private key
+export const DevicePublicKeySchema = z
+  .object({
+    kty: z.literal("EC"),
+    crv: z.literal("P-256"),
+    x: z.string().min(1).max(64),
+    y: z.string().min(1).max(64),
+    ext: z.boolean().optional(),
+    key_ops: z.array(z.string()).max(4).optional()
+  })
+  .strict();
+
+export const RoomKeyPublishSchema = z.object({
+  room: z.string().min(1).max(LIMITS.roomMax),
+  keyId: z.string().min(1).max(LIMITS.keyIdMax),
+  rotate: z.boolean(),
+  grants: z
+    .array(
+      z.object({
+        deviceId: z.string().min(1).max(64),
+        wrappedKey: z.string().min(1).max(128).regex(BASE64, "invalid_wrapped_key"),
+        nonce: NonceSchema
+      })
+    )
+    .min(1)
+    .max(LIMITS.grantsMax)
+});
+
+export const HistoryRequestSchema = z.object({
+  room: z.string().min(1).max(LIMITS.roomMax),
+  before: z.number().int().positive().optional(),
+  limit: z.number().int().positive().max(LIMITS.historyPageMax).optional()
+});
+
+export const MissionPackageDraftSchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9._-]{0,63}$/, "invalid_package_id"),
+  version: z.string().max(64).refine(isSemver, "invalid_version"),
+  room: z.string().min(1).max(LIMITS.roomMax),
+  title: z.string().trim().min(1).max(120),
+  effective: z
+    .object({
+      from: z.number().int().nonnegative(),
+      until: z.number().int().positive().optional()
+    })
+    .refine((e) => e.until === undefined || e.until > e.from, "invalid_effective_window"),
+  sections: z
+    .array(
+      z.object({
+        kind: z.enum(["map", "overlays", "routes", "comms", "notes"]),
+        name: z.string().trim().min(1).max(80),
+        content: z.unknown()
+      })
+    )
+    .min(1)
+    .max(LIMITS.packageSectionsMax),
+  hash: z.string().regex(/^[0-9a-f]{64}$/, "invalid_hash")
+});
+
+export const PackageLoadedSchema = z.object({
+  room: z.string().min(1).max(LIMITS.roomMax),
+  packageId: z.string().min(1).max(64),
+  version: z.string().min(1).max(64),
+  hash: z.string().regex(/^[0-9a-f]{64}$/, "invalid_hash")
+});
+
+export const PresenceUpdateSchema = z.object({
+  away: z.boolean()
+});
+
+export const ReceiptUpdateSchema = z.object({
+  room: z.string().min(1).max(LIMITS.roomMax),
+  ids: z.array(z.string().min(1).max(64)).min(1).max(LIMITS.receiptIdsMax),
+  state: z.enum(["delivered", "read"], { message: "invalid_state" })
+});
+
+export const PositionSchema = z.tuple([
+  z.number().min(-180, "invalid_coordinates").max(180, "invalid_coordinates"), // longitude
+  z.number().min(-90, "invalid_coordinates").max(90, "invalid_coordinates") // latitude
+]);
+
+const LinearRingSchema = z
+  .array(PositionSchema)
+  .min(4)
+  .refine((ring) => {
+    const [first, last] = [ring[0], ring[ring.length - 1]];
+    return first[0] === last[0] && first[1] === last[1];
+  }, "invalid_geometry");
+
+export const OverlayGeometrySchema = z
+  .discriminatedUnion("type", [
+    z.object({ type: z.literal("Point"), coordinates: PositionSchema }),
+    z.object({ type: z.literal("LineString"), coordinates: z.array(PositionSchema).min(2) }),
+    z.object({ type: z.literal("Polygon"), coordinates: z.array(LinearRingSchema).min(1) })
+  ])
+  .refine((g) => {
+    const vertices =
+      g.type === "Point"
+        ? 1
+        : g.type === "LineString"
+          ? g.coordinates.length
+          : g.coordinates.reduce((n, ring) => n + ring.length, 0);
+    return vertices <= LIMITS.overlayVerticesMax;
+  }, "too_many_vertices");
+
+export const OverlayFeatureSchema = z.object({
+  id: z.string().min(1).max(LIMITS.overlayIdMax),
+  room: z.string().min(1).max(LIMITS.roomMax),
+  layer: z.string().trim().min(1).max(LIMITS.layerMax),
+  geometry: OverlayGeometrySchema,
+  properties: z
+    .record(
+      z.string().max(64),
+      z.union([z.string().max(LIMITS.overlayPropValueMax), z.number(), z.boolean(), z.null()])
+    )
+    .refine((p) => Object.keys(p).length <= LIMITS.overlayPropsMax, "too_many_properties")
+    .default({})
+});
+
+export const OverlayDeleteSchema = z.object({
+  room: z.string().min(1).max(LIMITS.roomMax),
+  id: z.string().min(1).max(LIMITS.overlayIdMax)
+});
+
+export const SeveritySchema = z.enum(["low", "moderate", "high", "critical"]);
+
+export const IncidentDraftSchema = z.object({
+  id: z.string().min(1).max(64),
+  room: z.string().min(1).max(LIMITS.roomMax),
+  title: z.string().trim().min(1).max(120),
+  severity: SeveritySchema
+});
+
+export const IncidentRefSchema = z.object({
+  room: z.string().min(1).max(LIMITS.roomMax),
+  id: z.string().min(1).max(64)
+});
+
+const text = (max: number) => z.string().trim().min(1).max(max);
+
+export const ReportBodySchema = z.discriminatedUnion("template", [
+  z.object({
+    template: z.literal("sitrep"),
+    fields: z
+      .object({
+        situation: text(LIMITS.reportTextMax),
+        actions: text(LIMITS.reportTextMax),
+        needs: text(LIMITS.reportTextMax).optional(),
+        casualties: z.number().int().nonnegative().optional()
+      })
+      .strict()
+  }),
+  z.object({
+    template: z.literal("hazard"),
+    fields: z
+      .object({
+        hazard: text(500),
+        severity: SeveritySchema,
+        location: text(200).optional(),
+        instructions: text(LIMITS.reportTextMax).optional()
+      })
+      .strict()
+  }),
+  z.object({
+    template: z.literal("task"),
+    fields: z
+      .object({
+        task: text(LIMITS.reportTextMax),
+        location: text(200).optional(),
+        due: z.number().int().positive().optional()
+      })
+      .strict()
+  })
+]);
+
+export const ReportDraftSchema = z
+  .object({
+    id: z.string().min(1).max(64),
+    incidentId: z.string().min(1).max(64),
+    room: z.string().min(1).max(LIMITS.roomMax)
+  })
+  .and(ReportBodySchema);
+
+export const ReportTransitionSchema = z.object({
+  room: z.string().min(1).max(LIMITS.roomMax),
+  reportId: z.string().min(1).max(64),
+  to: z.enum(["open", "assigned", "acknowledged", "done"]),
+  assignee: z.string().min(1).max(64).optional()
+});
+
+export const TaskStateSchema = z.enum(["issued", "acknowledged", "in_progress", "complete", "declined"]);
+
+export const TaskDraftSchema = z
+  .object({
+    id: z.string().min(1).max(64),
+    room: z.string().min(1).max(LIMITS.roomMax),
+    title: text(LIMITS.taskTitleMax),
+    details: text(LIMITS.reportTextMax).optional(),
+    assigneeId: z.string().min(1).max(64),
+    dueAt: z.number().int().positive().optional(),
+    ackRequired: z.boolean(),
+    ackWithinMinutes: z.number().int().positive().max(24 * 60).optional()
+  })
+  .refine((d) => d.ackRequired || d.ackWithinMinutes === undefined, {
+    message: "ack_window_without_ack",
+    path: ["ackWithinMinutes"]
+  });
+
+export const TaskTransitionSchema = z.object({
+  room: z.string().min(1).max(LIMITS.roomMax),
+  id: z.string().min(1).max(64),
+  to: TaskStateSchema,
+  note: text(LIMITS.reportTextMax).optional()
+});
+
+export const LocationUpdateSchema = z
+  .object({
+    room: z.string().min(1).max(LIMITS.roomMax),
+    incidentId: z.string().min(1).max(64),
+    sharing: z.boolean(),
+    precision: z.enum(["exact", "100m", "1km"]),
+    until: z.number().int().positive(),
+    position: PositionSchema.optional(),
+    accuracy: z.number().nonnegative().max(100_000).optional()
+  })
+  .refine((u) => !u.sharing || u.position, "position_required");
+
+const PeerIdSchema = z.string().regex(/^[A-Za-z0-9_-]{8,64}$/, "invalid_peer_id");
+
+export const RtcPeersRequestSchema = z.object({
+  room: z.string().min(1).max(LIMITS.roomMax),
+  peerId: PeerIdSchema
+});
+
+export const RtcSignalSchema = z
+  .object({
+    room: z.string().min(1).max(LIMITS.roomMax),
+    to: PeerIdSchema,
+    kind: z.enum(["offer", "answer", "candidate"]),
+    sdp: z.string().min(1).max(LIMITS.rtcSdpMax).optional(),
+    candidate: z
+      .object({
+        candidate: z.string().max(LIMITS.rtcCandidateMax),
+        sdpMid: z.string().max(64).nullable().optional(),
+        sdpMLineIndex: z.number().int().nonnegative().max(64).nullable().optional()
+      })
+      .optional()
+  })
+  .refine(
+    (s) => (s.kind === "candidate" ? s.candidate !== undefined : s.sdp !== undefined),
+    "signal_incomplete"
+  );
+
+// unknown capability names (from newer clients) are kept as strings and ignored by the relay
+export const ClientHelloSchema = z.object({
+  credential: z.string().max(4096).optional(),
+  protocol: z.number().int().nonnegative().default(0), // absent: a build from before versioning
+  minProtocol: z.number().int().nonnegative().default(0),
+  capabilities: z.array(z.string().max(32)).max(64).default([])
+});